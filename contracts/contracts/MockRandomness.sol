@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title MockRandomness
+ * @dev Stand-in for Randomness whose numbers can be predicted off-chain:
+ * request `n` returns keccak256(abi.encodePacked(seed, n)), the same as
+ * `getSeededRandomNumber` in the SDK. Any caller may consume numbers.
+ */
+contract MockRandomness {
+    uint256 public immutable seed;
+
+    event RandomNumberGenerated(
+        address indexed requester,
+        uint256 indexed requestId,
+        uint256 randomNumber,
+        uint256 blockNumber
+    );
+
+    constructor(uint256 _seed) {
+        seed = _seed;
+    }
+
+    /// @dev Kept so deployment code written for Randomness works unchanged
+    function addConsumer(address) external {}
+
+    function generateRandomNumber(uint256 requestId) external returns (uint256) {
+        uint256 randomNumber = uint256(keccak256(abi.encodePacked(seed, requestId)));
+        if (randomNumber == 0) randomNumber = 1;
+
+        emit RandomNumberGenerated(msg.sender, requestId, randomNumber, block.number);
+        return randomNumber;
+    }
+}
@@ -1,19 +1,91 @@
 import type { HardhatUserConfig } from "hardhat/config";
 
 import hardhatToolboxViemPlugin from "@nomicfoundation/hardhat-toolbox-viem";
-import { configVariable } from "hardhat/config";
+import { configVariable, task } from "hardhat/config";
+import { SOLIDITY_SETTINGS, SOLIDITY_VERSION } from "./lib/compiler-settings";
+import { kubMainnet, kubTestnet } from "./sdk/chains";
 
 const config: HardhatUserConfig = {
   plugins: [hardhatToolboxViemPlugin],
+  tasks: [
+    task("deploy-tuukeep", "Deploy the TuuKeep ecosystem, resuming from the deployment manifest")
+      .addFlag({ name: "dryRun", description: "Run the plan on a simulated chain and report gas only" })
+      .addOption({ name: "forkUrl", description: "RPC URL to fork for --dry-run", defaultValue: "" })
+      .addOption({ name: "feeRecipient", description: "Platform fee recipient (defaults to the deployer)", defaultValue: "" })
+      .addOption({ name: "treasury", description: "Tier sale treasury (defaults to the deployer)", defaultValue: "" })
+      .setAction(() => import("./tasks/deploy-tuukeep"))
+      .build(),
+    task("rehearse-tuukeep", "Rehearse the TuuKeep deployment on a fork of the target network, without signing anything")
+      .addOption({ name: "forkUrl", description: "RPC URL to fork (defaults to the network's public RPC)", defaultValue: "" })
+      .addOption({ name: "deployer", description: "Account to impersonate (defaults to the configured deployer)", defaultValue: "" })
+      .addFlag({ name: "fresh", description: "Rehearse the whole plan instead of resuming from the manifest" })
+      .addOption({ name: "feeRecipient", description: "Platform fee recipient (defaults to the deployer)", defaultValue: "" })
+      .addOption({ name: "treasury", description: "Tier sale treasury (defaults to the deployer)", defaultValue: "" })
+      .setAction(() => import("./tasks/rehearse-tuukeep"))
+      .build(),
+    task("lint-bytecode", "Check compiled bytecode against the network's EVM version and the contract size limit")
+      .addOption({ name: "margin", description: "Warn within this percentage of the size limit (defaults to 10)", defaultValue: "" })
+      .addFlag({ name: "all", description: "List every contract, not only those with findings" })
+      .setAction(() => import("./tasks/lint-bytecode"))
+      .build(),
+    task("verify-tuukeep", "Verify the deployment manifest's contracts on the block explorer")
+      .addOption({ name: "contracts", description: "Comma-separated manifest keys (defaults to every contract)", defaultValue: "" })
+      .addOption({ name: "apiUrl", description: "Etherscan-compatible API URL (defaults to the chain's explorer)", defaultValue: "" })
+      .addFlag({ name: "force", description: "Resubmit contracts already recorded as verified" })
+      .setAction(() => import("./tasks/verify-tuukeep"))
+      .build(),
+    task("audit-roles", "Rebuild every role holder from events and diff them against the role policy")
+      .addOption({ name: "policy", description: "Role policy file (defaults to deployments/role-policy.json)", defaultValue: "" })
+      .addOption({ name: "fromBlock", description: "First block to replay (defaults to the deployment block)", defaultValue: "" })
+      .addOption({ name: "expiryDays", description: "Flag grants expiring within this many days (defaults to 7)", defaultValue: "" })
+      .setAction(() => import("./tasks/audit-roles"))
+      .build(),
+    task("index-tuukeep", "Index TuuKeep events from the deployment manifest's contracts into SQLite")
+      .addOption({ name: "db", description: "SQLite file (defaults to indexer/data/<chainId>.sqlite)", defaultValue: "" })
+      .addOption({ name: "fromBlock", description: "First block for a fresh index (defaults to the deployment block)", defaultValue: "" })
+      .addOption({ name: "batchSize", description: "Blocks per eth_getLogs request", defaultValue: "" })
+      .addOption({ name: "confirmations", description: "Blocks to stay behind the head", defaultValue: "" })
+      .addFlag({ name: "follow", description: "Keep tailing new blocks until interrupted" })
+      .setAction(() => import("./tasks/index-tuukeep"))
+      .build(),
+    task("create-sale-phase", "Check a sale phase plan, preview its price ladder and create the phase with its tiers")
+      .addOption({ name: "plan", description: "Sale phase plan file (JSON)", defaultValue: "" })
+      .addFlag({ name: "preview", description: "Check and print the plan without sending anything" })
+      .addFlag({ name: "inactive", description: "Leave the phase inactive once its tiers are added" })
+      .setAction(() => import("./tasks/create-sale-phase"))
+      .build(),
+    task("set-sale-phase", "Activate or deactivate a tier sale phase")
+      .addOption({ name: "phase", description: "Phase ID", defaultValue: "" })
+      .addFlag({ name: "activate", description: "Open the phase for purchases" })
+      .addFlag({ name: "deactivate", description: "Close the phase for purchases" })
+      .setAction(() => import("./tasks/set-sale-phase"))
+      .build(),
+    task("withdraw-sale-revenue", "Withdraw tier sale proceeds held by the contract")
+      .addOption({ name: "to", description: "Recipient address", defaultValue: "" })
+      .addOption({ name: "amount", description: "Amount in ether (defaults to the whole balance)", defaultValue: "" })
+      .setAction(() => import("./tasks/withdraw-sale-revenue"))
+      .build(),
+    task("pause-tuukeep", "Incident response: check roles, simulate and pause every pausable contract in the manifest")
+      .addOption({ name: "reason", description: "Reason recorded on TuuCoin with the pause", defaultValue: "" })
+      .addFlag({ name: "dryRun", description: "Check roles and simulate only" })
+      .addFlag({ name: "partial", description: "Send the calls that simulate cleanly even when others would revert" })
+      .setAction(() => import("./tasks/pause-tuukeep"))
+      .build(),
+    task("resume-tuukeep", "Unpause every paused contract in the manifest after the same checks as pause-tuukeep")
+      .addFlag({ name: "dryRun", description: "Check roles and simulate only" })
+      .addFlag({ name: "partial", description: "Send the calls that simulate cleanly even when others would revert" })
+      .setAction(() => import("./tasks/resume-tuukeep"))
+      .build(),
+    task("pause-status", "Show whether each pausable contract in the manifest is paused")
+      .setAction(() => import("./tasks/pause-status"))
+      .build(),
+  ],
   solidity: {
-    version: "0.8.28",
+    version: SOLIDITY_VERSION,
     settings: {
-      optimizer: {
-        enabled: true,
-        runs: 200,
-      },
-      viaIR: true,
-      evmVersion: "london", // Use London instead of Shanghai to avoid PUSH0 opcode
+      optimizer: { ...SOLIDITY_SETTINGS.optimizer },
+      viaIR: SOLIDITY_SETTINGS.viaIR,
+      evmVersion: SOLIDITY_SETTINGS.evmVersion,
     },
   },
   networks: {
@@ -34,9 +106,9 @@ const config: HardhatUserConfig = {
     kubTestnet: {
       type: "http",
       chainType: "l1",
-      url: process.env.KUB_TESTNET_RPC_URL || "https://rpc-testnet.bitkubchain.io",
+      url: process.env.KUB_TESTNET_RPC_URL || kubTestnet.rpcUrls.default.http[0],
       accounts: process.env.KUB_TESTNET_PRIVATE_KEY ? [process.env.KUB_TESTNET_PRIVATE_KEY] : [],
-      chainId: 25925,
+      chainId: kubTestnet.id,
       gasPrice: "auto",
       gas: "auto",
       gasMultiplier: 1.2,
@@ -45,46 +117,15 @@ const config: HardhatUserConfig = {
     kubMainnet: {
       type: "http",
       chainType: "l1",
-      url: process.env.KUB_MAINNET_RPC_URL || "https://rpc.bitkubchain.io",
+      url: process.env.KUB_MAINNET_RPC_URL || kubMainnet.rpcUrls.default.http[0],
       accounts: (process.env.KUB_MAINNET_PRIVATE_KEY && process.env.KUB_MAINNET_PRIVATE_KEY !== "your_kub_mainnet_private_key_here") ? [process.env.KUB_MAINNET_PRIVATE_KEY] : [],
-      chainId: 96,
+      chainId: kubMainnet.id,
       gasPrice: "auto",
       gas: "auto",
       gasMultiplier: 1.1,
       timeout: 120000,
     },
   },
-  etherscan: {
-    apiKey: {
-      kubTestnet: process.env.KUBSCAN_API_KEY || "dummy-key",
-      kubMainnet: process.env.KUBSCAN_API_KEY || "dummy-key",
-    },
-    customChains: [
-      {
-        network: "kubTestnet",
-        chainId: 25925,
-        urls: {
-          apiURL: "https://testnet.kubscan.io/api",
-          browserURL: "https://testnet.kubscan.io",
-        },
-      },
-      {
-        network: "kubMainnet",
-        chainId: 96,
-        urls: {
-          apiURL: "https://kubscan.io/api",
-          browserURL: "https://kubscan.io",
-        },
-      },
-    ],
-  },
-  gasReporter: {
-    enabled: process.env.REPORT_GAS === "true",
-    currency: "USD",
-    gasPrice: 20,
-    showTimeSpent: true,
-    showMethodSig: true,
-  },
   mocha: {
     timeout: 60000,
   },
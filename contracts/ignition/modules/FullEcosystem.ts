@@ -136,7 +136,7 @@ export default FullEcosystemModule;
  * - Configure cross-contract permissions
  * - Set up platform settings
  *
- * Manual verification on KubScan:
- * Use the individual contract verification commands from each module
- * or run the verification script from scripts/verify-ecosystem.ts
+ * Verification on KubScan:
+ * Record the deployment in the manifest, then run
+ * `npx hardhat verify-tuukeep --network <name>`
  */
\ No newline at end of file
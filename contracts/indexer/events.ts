@@ -0,0 +1,442 @@
+import {
+  toEventSelector,
+  getAbiItem,
+  type Abi,
+  type Address,
+  type ContractEventName,
+  type DecodeEventLogReturnType,
+  type Hex,
+} from "viem";
+import {
+  tuuCoinAbi,
+  tuuKeepCabinetAbi,
+  tuuKeepMarketplaceAbi,
+  tuuKeepTierSaleAbi,
+} from "../sdk/abis";
+
+/**
+ * Events the indexer stores, one SQLite table each, except for the TuuCoin
+ * admin calls, which share the `tuucoin_admin_actions` audit trail.
+ *
+ * uint256 amounts are stored as decimal TEXT since they overflow SQLite's
+ * 64-bit integers; IDs, indices, rarities and timestamps are counters or
+ * small enums and are stored as INTEGER so they can be filtered and sorted.
+ */
+
+/** Contracts the indexer reads logs from */
+export type IndexedContract = "cabinet" | "tuuCoin" | "marketplace" | "tierSale" | "accessControl" | "randomness";
+
+export type ColumnType = "INTEGER" | "TEXT";
+export type ColumnValue = string | number | bigint | null;
+export type Row = Record<string, ColumnValue>;
+
+export interface IndexedEvent {
+  table: string;
+  eventName: string;
+  /** keccak256 of the event signature, i.e. `topics[0]` */
+  selector: Hex;
+  abi: Abi;
+  contracts: readonly IndexedContract[];
+  columns: Record<string, ColumnType>;
+  /** Extra indexes, each a list of columns */
+  indexes: readonly (readonly string[])[];
+  /** Store the transaction's sender in a `sender` column, for events that do not name the caller */
+  withSender: boolean;
+  /** `contract` is the emitter, for events indexed on several contracts */
+  toRow(args: unknown, contract: IndexedContract): Row;
+}
+
+interface EventDefinition<abi extends Abi, eventName extends ContractEventName<abi>> {
+  table: string;
+  abi: abi;
+  eventName: eventName;
+  contracts: readonly IndexedContract[];
+  columns: Record<string, ColumnType>;
+  indexes?: readonly (readonly string[])[];
+  withSender?: boolean;
+  toRow(args: DecodeEventLogReturnType<abi, eventName>["args"], contract: IndexedContract): Row;
+}
+
+function defineEvent<const abi extends Abi, eventName extends ContractEventName<abi>>(
+  definition: EventDefinition<abi, eventName>,
+): IndexedEvent {
+  const item = getAbiItem({ abi: definition.abi as Abi, name: definition.eventName as string });
+  if (item?.type !== "event") {
+    throw new Error(`${definition.eventName} is not an event of the ${definition.table} ABI`);
+  }
+  return {
+    ...definition,
+    eventName: definition.eventName,
+    selector: toEventSelector(item),
+    columns: definition.withSender ? { ...definition.columns, sender: "TEXT" } : definition.columns,
+    indexes: definition.indexes ?? [],
+    withSender: definition.withSender ?? false,
+    toRow: definition.toRow as IndexedEvent["toRow"],
+  };
+}
+
+const amount = (value: bigint) => value.toString();
+const address = (value: Address) => value.toLowerCase();
+/** JSON with uint256 values as decimal strings */
+const details = (values: Record<string, bigint | boolean | string>) =>
+  JSON.stringify(values, (_, value) => (typeof value === "bigint" ? value.toString() : value));
+
+const ADMIN_ACTION_TABLE = {
+  table: "tuucoin_admin_actions",
+  abi: tuuCoinAbi,
+  contracts: ["tuuCoin"],
+  columns: {
+    action: "TEXT",
+    cabinet_id: "INTEGER",
+    details: "TEXT",
+  },
+  indexes: [["action"], ["sender"]],
+  withSender: true,
+} as const;
+
+export const INDEXED_EVENTS: readonly IndexedEvent[] = [
+  // ============ Cabinet ============
+  defineEvent({
+    table: "plays",
+    abi: tuuKeepCabinetAbi,
+    eventName: "GachaPlayed",
+    contracts: ["cabinet"],
+    columns: {
+      cabinet_id: "INTEGER",
+      player: "TEXT",
+      play_price: "TEXT",
+      tuu_coin_amount: "TEXT",
+      won_prize: "INTEGER",
+      item_index: "INTEGER",
+    },
+    indexes: [["cabinet_id", "timestamp"], ["player", "timestamp"]],
+    toRow: (args) => ({
+      cabinet_id: args.cabinetId,
+      player: address(args.player),
+      play_price: amount(args.playPrice),
+      tuu_coin_amount: amount(args.tuuCoinAmount),
+      won_prize: args.wonPrize ? 1 : 0,
+      item_index: args.wonPrize ? args.itemIndex : null,
+    }),
+  }),
+  defineEvent({
+    table: "prizes",
+    abi: tuuKeepCabinetAbi,
+    eventName: "PrizeWon",
+    contracts: ["cabinet"],
+    columns: {
+      cabinet_id: "INTEGER",
+      player: "TEXT",
+      item_index: "INTEGER",
+      asset_type: "INTEGER",
+      contract_address: "TEXT",
+      token_id_or_amount: "TEXT",
+      rarity: "INTEGER",
+    },
+    indexes: [["cabinet_id", "timestamp"], ["player", "timestamp"]],
+    toRow: (args) => ({
+      cabinet_id: args.cabinetId,
+      player: address(args.player),
+      item_index: args.itemIndex,
+      asset_type: args.assetType,
+      contract_address: address(args.contractAddress),
+      token_id_or_amount: amount(args.tokenIdOrAmount),
+      rarity: args.rarity,
+    }),
+  }),
+  defineEvent({
+    table: "item_deposits",
+    abi: tuuKeepCabinetAbi,
+    eventName: "ItemDeposited",
+    contracts: ["cabinet"],
+    columns: {
+      cabinet_id: "INTEGER",
+      item_index: "INTEGER",
+      asset_type: "INTEGER",
+      contract_address: "TEXT",
+      token_id_or_amount: "TEXT",
+      rarity: "INTEGER",
+    },
+    indexes: [["cabinet_id"]],
+    toRow: (args) => ({
+      cabinet_id: args.cabinetId,
+      item_index: args.itemIndex,
+      asset_type: args.assetType,
+      contract_address: address(args.contractAddress),
+      token_id_or_amount: amount(args.tokenIdOrAmount),
+      rarity: args.rarity,
+    }),
+  }),
+  defineEvent({
+    table: "item_withdrawals",
+    abi: tuuKeepCabinetAbi,
+    eventName: "ItemWithdrawn",
+    contracts: ["cabinet"],
+    columns: {
+      cabinet_id: "INTEGER",
+      item_index: "INTEGER",
+      asset_type: "INTEGER",
+    },
+    indexes: [["cabinet_id"]],
+    toRow: (args) => ({
+      cabinet_id: args.cabinetId,
+      item_index: args.itemIndex,
+      asset_type: args.assetType,
+    }),
+  }),
+
+  // ============ Marketplace ============
+  defineEvent({
+    table: "listings_created",
+    abi: tuuKeepMarketplaceAbi,
+    eventName: "ListingCreated",
+    contracts: ["marketplace"],
+    columns: {
+      listing_id: "INTEGER",
+      cabinet_id: "INTEGER",
+      seller: "TEXT",
+      price: "TEXT",
+      expires_at: "INTEGER",
+    },
+    indexes: [["listing_id"], ["cabinet_id"], ["seller"]],
+    toRow: (args) => ({
+      listing_id: args.listingId,
+      cabinet_id: args.cabinetId,
+      seller: address(args.seller),
+      price: amount(args.price),
+      expires_at: args.expiresAt,
+    }),
+  }),
+  defineEvent({
+    table: "listings_cancelled",
+    abi: tuuKeepMarketplaceAbi,
+    eventName: "ListingCancelled",
+    contracts: ["marketplace"],
+    columns: {
+      listing_id: "INTEGER",
+      cabinet_id: "INTEGER",
+      seller: "TEXT",
+    },
+    indexes: [["listing_id"]],
+    toRow: (args) => ({
+      listing_id: args.listingId,
+      cabinet_id: args.cabinetId,
+      seller: address(args.seller),
+    }),
+  }),
+  defineEvent({
+    table: "listing_price_updates",
+    abi: tuuKeepMarketplaceAbi,
+    eventName: "ListingPriceUpdated",
+    contracts: ["marketplace"],
+    columns: {
+      listing_id: "INTEGER",
+      cabinet_id: "INTEGER",
+      old_price: "TEXT",
+      new_price: "TEXT",
+    },
+    indexes: [["listing_id"]],
+    toRow: (args) => ({
+      listing_id: args.listingId,
+      cabinet_id: args.cabinetId,
+      old_price: amount(args.oldPrice),
+      new_price: amount(args.newPrice),
+    }),
+  }),
+  defineEvent({
+    table: "sales",
+    abi: tuuKeepMarketplaceAbi,
+    eventName: "CabinetSold",
+    contracts: ["marketplace"],
+    columns: {
+      listing_id: "INTEGER",
+      cabinet_id: "INTEGER",
+      seller: "TEXT",
+      buyer: "TEXT",
+      price: "TEXT",
+      platform_fee: "TEXT",
+    },
+    indexes: [["listing_id"], ["cabinet_id"], ["timestamp"]],
+    toRow: (args) => ({
+      listing_id: args.listingId,
+      cabinet_id: args.cabinetId,
+      seller: address(args.seller),
+      buyer: address(args.buyer),
+      price: amount(args.price),
+      platform_fee: amount(args.platformFee),
+    }),
+  }),
+
+  // ============ Tier sale ============
+  defineEvent({
+    table: "purchases",
+    abi: tuuKeepTierSaleAbi,
+    eventName: "CabinetPurchased",
+    contracts: ["tierSale"],
+    columns: {
+      purchase_id: "INTEGER",
+      buyer: "TEXT",
+      cabinet_id: "INTEGER",
+      phase_id: "INTEGER",
+      tier_id: "INTEGER",
+      price: "TEXT",
+    },
+    indexes: [["buyer"], ["phase_id"]],
+    toRow: (args) => ({
+      purchase_id: args.purchaseId,
+      buyer: address(args.buyer),
+      cabinet_id: args.cabinetId,
+      phase_id: args.phaseId,
+      tier_id: args.tierId,
+      price: amount(args.price),
+    }),
+  }),
+
+  // ============ TuuCoin ============
+  // Every mint, including the consolation TuuCoin of a losing play: the cabinet calls
+  // `TuuCoin.mint` and emits nothing of its own, so queries pair these with the play
+  defineEvent({
+    table: "token_mints",
+    abi: tuuCoinAbi,
+    eventName: "TokensMinted",
+    contracts: ["tuuCoin"],
+    columns: {
+      recipient: "TEXT",
+      amount: "TEXT",
+      minter: "TEXT",
+    },
+    indexes: [["recipient"], ["transaction_hash"]],
+    toRow: (args) => ({
+      recipient: address(args.to),
+      amount: amount(args.amount),
+      minter: address(args.minter),
+    }),
+  }),
+  defineEvent({
+    table: "reward_mints",
+    abi: tuuCoinAbi,
+    eventName: "CabinetRewardMinted",
+    contracts: ["tuuCoin"],
+    columns: {
+      player: "TEXT",
+      amount: "TEXT",
+      cabinet_id: "INTEGER",
+    },
+    indexes: [["player"], ["cabinet_id"]],
+    toRow: (args) => ({
+      player: address(args.player),
+      amount: amount(args.amount),
+      cabinet_id: args.cabinetId,
+    }),
+  }),
+  defineEvent({
+    table: "odds_burns",
+    abi: tuuCoinAbi,
+    eventName: "TokensBurnedForOdds",
+    contracts: ["tuuCoin"],
+    columns: {
+      player: "TEXT",
+      amount: "TEXT",
+      total_burned: "TEXT",
+    },
+    indexes: [["player"]],
+    toRow: (args) => ({
+      player: address(args.user),
+      amount: amount(args.amount),
+      total_burned: amount(args.totalBurned),
+    }),
+  }),
+
+  // ============ TuuCoin admin ============
+  // Named after the call that emits each event; `details` holds its arguments
+  defineEvent({
+    ...ADMIN_ACTION_TABLE,
+    eventName: "EmissionRateUpdated",
+    toRow: (args) => ({ action: "updateEmissionConfig", cabinet_id: null, details: details(args) }),
+  }),
+  defineEvent({
+    ...ADMIN_ACTION_TABLE,
+    eventName: "EmissionConfigStatusUpdated",
+    toRow: (args) => ({ action: "setEmissionActive", cabinet_id: null, details: details(args) }),
+  }),
+  defineEvent({
+    ...ADMIN_ACTION_TABLE,
+    eventName: "CabinetEmissionMultiplierUpdated",
+    toRow: (args) => ({
+      action: "setCabinetEmissionMultiplier",
+      cabinet_id: args.cabinetId,
+      details: details({ multiplier: args.multiplier }),
+    }),
+  }),
+  defineEvent({
+    ...ADMIN_ACTION_TABLE,
+    eventName: "DynamicSupplyStatusChanged",
+    toRow: (args) => ({ action: "setDynamicSupplyEnabled", cabinet_id: null, details: details(args) }),
+  }),
+  defineEvent({
+    ...ADMIN_ACTION_TABLE,
+    eventName: "MaxSupplyAdjusted",
+    toRow: (args) => ({ action: "adjustMaxSupply", cabinet_id: null, details: details(args) }),
+  }),
+  defineEvent({
+    ...ADMIN_ACTION_TABLE,
+    eventName: "SelectivePauseActivated",
+    toRow: (args) => ({ action: "selectivePause", cabinet_id: null, details: details(args) }),
+  }),
+  defineEvent({
+    ...ADMIN_ACTION_TABLE,
+    eventName: "SelectivePauseDeactivated",
+    toRow: () => ({ action: "selectiveUnpause", cabinet_id: null, details: details({}) }),
+  }),
+  defineEvent({
+    ...ADMIN_ACTION_TABLE,
+    eventName: "EmergencyPauseActivated",
+    toRow: (args) => ({ action: "emergencyPause", cabinet_id: null, details: details({ reason: args.reason }) }),
+  }),
+  defineEvent({
+    ...ADMIN_ACTION_TABLE,
+    eventName: "EmergencyPauseDeactivated",
+    toRow: () => ({ action: "emergencyUnpause", cabinet_id: null, details: details({}) }),
+  }),
+
+  // ============ Roles ============
+  // OpenZeppelin AccessControl events, identical on every TuuKeep contract
+  defineEvent({
+    table: "role_grants",
+    abi: tuuKeepCabinetAbi,
+    eventName: "RoleGranted",
+    contracts: ["cabinet", "tuuCoin", "marketplace", "tierSale", "accessControl", "randomness"],
+    columns: {
+      contract: "TEXT",
+      role: "TEXT",
+      account: "TEXT",
+      sender: "TEXT",
+    },
+    indexes: [["contract", "role"]],
+    toRow: (args, contract) => ({
+      contract,
+      role: args.role,
+      account: address(args.account),
+      sender: address(args.sender),
+    }),
+  }),
+  defineEvent({
+    table: "role_revocations",
+    abi: tuuKeepCabinetAbi,
+    eventName: "RoleRevoked",
+    contracts: ["cabinet", "tuuCoin", "marketplace", "tierSale", "accessControl", "randomness"],
+    columns: {
+      contract: "TEXT",
+      role: "TEXT",
+      account: "TEXT",
+      sender: "TEXT",
+    },
+    indexes: [["contract", "role"]],
+    toRow: (args, contract) => ({
+      contract,
+      role: args.role,
+      account: address(args.account),
+      sender: address(args.sender),
+    }),
+  }),
+];
@@ -0,0 +1,4 @@
+export * from "./events";
+export * from "./store";
+export * from "./indexer";
+export * from "./queries";
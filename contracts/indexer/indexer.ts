@@ -0,0 +1,240 @@
+import {
+  decodeEventLog,
+  type Address,
+  type Block,
+  type Hash,
+  type Hex,
+  type Log,
+  type PublicClient,
+} from "viem";
+import type { TuuKeepAddresses } from "../sdk/types";
+import { INDEXED_EVENTS, type IndexedContract, type IndexedEvent } from "./events";
+import type { BlockRef, IndexedRow, IndexerStore, StoredBlock } from "./store";
+
+export const DEFAULT_BATCH_SIZE = 2_000n;
+export const DEFAULT_MAX_REORG_DEPTH = 256;
+export const DEFAULT_POLLING_INTERVAL = 4_000;
+
+/** Core addresses plus the infrastructure contracts whose role events are indexed */
+export interface IndexerAddresses extends TuuKeepAddresses {
+  accessControl?: Address;
+  randomness?: Address;
+}
+
+export interface BatchProgress {
+  fromBlock: bigint;
+  toBlock: bigint;
+  rows: number;
+}
+
+export interface TuuKeepIndexerConfig {
+  publicClient: PublicClient;
+  addresses: IndexerAddresses;
+  store: IndexerStore;
+  /** First block to index when the store is empty, usually the deployment block */
+  startBlock?: bigint;
+  /** Blocks per `eth_getLogs` request */
+  batchSize?: bigint;
+  /** Stay this many blocks behind the head; 0 indexes up to the latest block */
+  confirmations?: bigint;
+  /** Stored blocks searched for a common ancestor before giving up on a reorg */
+  maxReorgDepth?: number;
+  onBatch?: (progress: BatchProgress) => void;
+  onReorg?: (ancestor: BlockRef) => void;
+}
+
+export interface FollowOptions {
+  pollingInterval?: number;
+  signal?: AbortSignal;
+}
+
+export class IndexerReorgError extends Error {
+  constructor(readonly cursor: BlockRef, readonly depth: number) {
+    super(`No common ancestor within ${depth} stored blocks of block ${cursor.number}; reindex from scratch`);
+    this.name = "IndexerReorgError";
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * TuuKeepIndexer
+ * @dev Backfills and tails the events in `INDEXED_EVENTS` into an
+ * `IndexerStore`. Each `eth_getLogs` range is committed in one transaction
+ * together with the block hashes it saw, so the cursor always points at a
+ * fully indexed block. Before every batch the cursor hash is checked against
+ * the chain; on a mismatch stored blocks are walked back to the newest one the
+ * chain still agrees with and everything after it is dropped and reindexed.
+ */
+export class TuuKeepIndexer {
+  readonly publicClient: PublicClient;
+  readonly store: IndexerStore;
+  private readonly config: TuuKeepIndexerConfig;
+  private readonly contractsByAddress: Map<string, IndexedContract>;
+  private readonly eventsBySelector: Map<Hex, IndexedEvent>;
+
+  constructor(config: TuuKeepIndexerConfig) {
+    this.config = config;
+    this.publicClient = config.publicClient;
+    this.store = config.store;
+
+    this.contractsByAddress = new Map();
+    for (const [contract, address] of Object.entries(config.addresses) as [IndexedContract, Address | undefined][]) {
+      if (address) this.contractsByAddress.set(address.toLowerCase(), contract);
+    }
+    this.eventsBySelector = new Map(INDEXED_EVENTS.map((event) => [event.selector, event]));
+  }
+
+  private get batchSize(): bigint {
+    return this.config.batchSize ?? DEFAULT_BATCH_SIZE;
+  }
+
+  /**
+   * Index from the cursor up to the confirmed head.
+   * @return The last indexed block, or undefined when nothing is indexed yet
+   */
+  async sync(): Promise<BlockRef | undefined> {
+    const chainId = await this.publicClient.getChainId();
+    const storedChainId = this.store.getChainId();
+    if (storedChainId !== undefined && storedChainId !== chainId) {
+      throw new Error(`TuuKeepIndexer: store holds chain ${storedChainId}, client is on chain ${chainId}`);
+    }
+
+    for (;;) {
+      const head = (await this.publicClient.getBlockNumber()) - (this.config.confirmations ?? 0n);
+      const cursor = await this.unwindReorg(head);
+      const fromBlock = cursor ? cursor.number + 1n : (this.config.startBlock ?? 0n);
+      if (fromBlock > head) return cursor;
+
+      const toBlock = fromBlock + this.batchSize - 1n < head ? fromBlock + this.batchSize - 1n : head;
+      // When the chain moves under a batch nothing is written and the next pass re-checks the cursor
+      await this.indexRange(chainId, cursor, fromBlock, toBlock);
+    }
+  }
+
+  /** Sync, then keep polling for new blocks until `signal` aborts */
+  async follow({ pollingInterval = DEFAULT_POLLING_INTERVAL, signal }: FollowOptions = {}): Promise<void> {
+    while (!signal?.aborted) {
+      await this.sync();
+      await sleep(pollingInterval, signal);
+    }
+  }
+
+  // ============ Reorgs ============
+
+  private async isCanonical(block: BlockRef, head: bigint): Promise<boolean> {
+    if (block.number > head) return false;
+    const onChain = await this.publicClient.getBlock({ blockNumber: block.number });
+    return onChain.hash === block.hash;
+  }
+
+  /** Roll the store back to the newest block still on the canonical chain */
+  private async unwindReorg(head: bigint): Promise<BlockRef | undefined> {
+    const cursor = this.store.getCursor();
+    if (!cursor || (await this.isCanonical(cursor, head))) return cursor;
+
+    const depth = this.config.maxReorgDepth ?? DEFAULT_MAX_REORG_DEPTH;
+    for (const block of this.store.getBlocksBefore(cursor.number - 1n, depth)) {
+      if (await this.isCanonical(block, head)) {
+        this.store.rollbackTo(block);
+        this.config.onReorg?.(block);
+        return block;
+      }
+    }
+    throw new IndexerReorgError(cursor, depth);
+  }
+
+  // ============ Batches ============
+
+  private async indexRange(
+    chainId: number,
+    cursor: BlockRef | undefined,
+    fromBlock: bigint,
+    toBlock: bigint,
+  ): Promise<boolean> {
+    const logs = await this.publicClient.getLogs({
+      address: [...this.contractsByAddress.keys()] as Address[],
+      fromBlock,
+      toBlock,
+    });
+
+    const blocks = new Map<bigint, Block>();
+    const getBlock = async (blockNumber: bigint) => {
+      let block = blocks.get(blockNumber);
+      if (!block) {
+        block = await this.publicClient.getBlock({ blockNumber });
+        blocks.set(blockNumber, block);
+      }
+      return block;
+    };
+
+    // Only the few events indexed `withSender` need their transaction
+    const senders = new Map<Hash, Address>();
+    const getSender = async (hash: Hash) => {
+      let sender = senders.get(hash);
+      if (!sender) {
+        sender = (await this.publicClient.getTransaction({ hash })).from;
+        senders.set(hash, sender);
+      }
+      return sender.toLowerCase();
+    };
+
+    const first = await getBlock(fromBlock);
+    if (cursor && first.parentHash !== cursor.hash) return false;
+
+    const rows: IndexedRow[] = [];
+    const stored = new Map<bigint, StoredBlock>();
+    for (const log of logs) {
+      const row = this.decodeLog(log);
+      if (!row) continue;
+
+      const block = await getBlock(log.blockNumber!);
+      if (block.hash !== log.blockHash) return false;
+
+      stored.set(block.number!, { number: block.number!, hash: block.hash!, timestamp: block.timestamp });
+      rows.push({
+        table: row.event.table,
+        row: {
+          block_number: log.blockNumber,
+          log_index: log.logIndex,
+          transaction_hash: log.transactionHash,
+          timestamp: block.timestamp,
+          ...row.values,
+          ...(row.event.withSender && { sender: await getSender(log.transactionHash!) }),
+        },
+      });
+    }
+
+    const last = await getBlock(toBlock);
+    const lastRef: StoredBlock = { number: toBlock, hash: last.hash!, timestamp: last.timestamp };
+    stored.set(toBlock, lastRef);
+
+    this.store.commitBatch({ chainId, blocks: [...stored.values()], rows, cursor: lastRef });
+    this.config.onBatch?.({ fromBlock, toBlock, rows: rows.length });
+    return true;
+  }
+
+  private decodeLog(log: Log) {
+    const contract = this.contractsByAddress.get(log.address.toLowerCase());
+    const event = log.topics[0] && this.eventsBySelector.get(log.topics[0]);
+    if (!contract || !event || !event.contracts.includes(contract)) return undefined;
+
+    const { args } = decodeEventLog({
+      abi: event.abi,
+      eventName: event.eventName,
+      data: log.data,
+      topics: log.topics,
+    });
+    return { event, values: event.toRow(args, contract) };
+  }
+}
@@ -0,0 +1,517 @@
+import type { Address, Hash } from "viem";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  type CabinetListParameters,
+  type CabinetStats,
+  type ListingListParameters,
+  type ListingRecord,
+  type ListingStatus,
+  type MarketStats,
+  type MarketStatsParameters,
+  type Page,
+  type PageParameters,
+  type PlayerActivity,
+  type PlayerActivityKind,
+  type PlayerHistoryParameters,
+  type PlayerTuuCoinSummary,
+  type PlayListParameters,
+  type PlayRecord,
+  type Prize,
+  type PrizeFilter,
+  type RevenuePoint,
+  type RevenueSeries,
+  type RevenueSeriesParameters,
+  type TimeWindow,
+  type TuuCoinAdminAction,
+  type TuuCoinAdminActionKind,
+  type TuuCoinAdminActionListParameters,
+} from "../sdk/api";
+import type { AssetType } from "../sdk/types";
+import type { IndexerStore } from "./store";
+
+/**
+ * Read queries behind the `/api/*` routes.
+ *
+ * uint256 amounts are stored as TEXT (see `events.ts`), so every sum over
+ * them is done with bigints here rather than with SQLite's `SUM`.
+ */
+
+const SECONDS_PER_DAY = 86_400;
+export const DEFAULT_SERIES_DAYS = 30;
+export const DEFAULT_FORECAST_DAYS = 7;
+/** Same bound as `TuuKeepCabinet.getRevenueForecast` */
+export const MAX_SERIES_DAYS = 365;
+
+type Parameters = Record<string, string | number | bigint>;
+
+/** WHERE clauses and their named parameters, built up filter by filter */
+class Conditions {
+  readonly clauses: string[] = [];
+  readonly parameters: Parameters = {};
+
+  add(clause: string, parameters: Parameters = {}) {
+    this.clauses.push(clause);
+    return this.bind(parameters);
+  }
+
+  /** Parameters used elsewhere in the query, e.g. inside a subquery */
+  bind(parameters: Parameters) {
+    Object.assign(this.parameters, parameters);
+    return this;
+  }
+
+  window(column: string, { from, to }: TimeWindow) {
+    if (from !== undefined) this.add(`${column} >= @from`, { from });
+    if (to !== undefined) this.add(`${column} <= @to`, { to });
+    return this;
+  }
+
+  prize(prefix: string, { rarity, assetType }: PrizeFilter) {
+    if (rarity !== undefined) this.add(`${prefix}rarity = @rarity`, { rarity });
+    if (assetType !== undefined) this.add(`${prefix}asset_type = @assetType`, { assetType });
+    return this;
+  }
+
+  toString() {
+    return this.clauses.length ? `WHERE ${this.clauses.join(" AND ")}` : "";
+  }
+}
+
+function pageBounds({ limit, offset }: PageParameters) {
+  return {
+    limit: Math.min(Math.max(limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE),
+    offset: Math.max(offset ?? 0, 0),
+  };
+}
+
+function paginate<Row, T>(
+  store: IndexerStore,
+  sql: string,
+  conditions: Conditions,
+  page: PageParameters,
+  map: (row: Row) => T,
+): Page<T> {
+  const { limit, offset } = pageBounds(page);
+  const { total } = store.db
+    .prepare(`SELECT COUNT(*) AS total FROM (${sql})`)
+    .get(conditions.parameters) as { total: number };
+  const rows = store.db
+    .prepare(`${sql} LIMIT @limit OFFSET @offset`)
+    .all({ ...conditions.parameters, limit, offset }) as Row[];
+  return { items: rows.map(map), total, limit, offset };
+}
+
+function sumAmounts(values: Iterable<string>): bigint {
+  let total = 0n;
+  for (const value of values) total += BigInt(value);
+  return total;
+}
+
+function clampDays(days: number | undefined, fallback: number) {
+  return Math.min(Math.max(days ?? fallback, 1), MAX_SERIES_DAYS);
+}
+
+/** UTC day starts for the `days` days ending with the one containing `now` */
+function dayRange(now: number, days: number): number[] {
+  const today = Math.floor(now / SECONDS_PER_DAY) * SECONDS_PER_DAY;
+  return Array.from({ length: days }, (_, index) => today - (days - 1 - index) * SECONDS_PER_DAY);
+}
+
+/** Count and sum `amount` per UTC day, including days without any rows */
+function dailyTotals(rows: readonly { timestamp: number; amount: string }[], days: readonly number[]) {
+  const buckets = new Map(days.map((day) => [day, { count: 0, total: 0n }]));
+  for (const row of rows) {
+    const bucket = buckets.get(Math.floor(row.timestamp / SECONDS_PER_DAY) * SECONDS_PER_DAY);
+    if (!bucket) continue;
+    bucket.count += 1;
+    bucket.total += BigInt(row.amount);
+  }
+  return days.map((day) => ({ day, ...buckets.get(day)! }));
+}
+
+interface LocationRow {
+  block_number: number;
+  log_index: number;
+  transaction_hash: Hash;
+  timestamp: number;
+}
+
+/** Columns of the prize joined onto a play, all NULL when nothing was won */
+interface PrizeColumns {
+  prize_item_index: number | null;
+  prize_asset_type: AssetType | null;
+  prize_contract_address: Address | null;
+  prize_token_id_or_amount: string | null;
+  prize_rarity: number | null;
+}
+
+interface PlayRow extends LocationRow, PrizeColumns {
+  cabinet_id: number;
+  player: Address;
+  play_price: string;
+  tuu_coin_amount: string;
+  won_prize: number;
+}
+
+interface ActivityRow extends LocationRow, PrizeColumns {
+  kind: PlayerActivityKind;
+  cabinet_id: number;
+  amount: string;
+}
+
+interface AdminActionRow extends LocationRow {
+  action: TuuCoinAdminActionKind;
+  sender: Address;
+  cabinet_id: number | null;
+  details: string;
+}
+
+interface ListingRow extends LocationRow {
+  listing_id: number;
+  cabinet_id: number;
+  seller: Address;
+  price: string;
+  expires_at: number;
+  status: ListingStatus;
+  buyer: Address | null;
+}
+
+const location = (row: LocationRow) => ({
+  blockNumber: row.block_number,
+  logIndex: row.log_index,
+  transactionHash: row.transaction_hash,
+  timestamp: row.timestamp,
+});
+
+const prize = (row: PrizeColumns): Prize | null =>
+  row.prize_rarity === null
+    ? null
+    : {
+        itemIndex: row.prize_item_index!,
+        assetType: row.prize_asset_type!,
+        contractAddress: row.prize_contract_address!,
+        tokenIdOrAmount: row.prize_token_id_or_amount!,
+        rarity: row.prize_rarity,
+      };
+
+/** Plays joined with the prize won in the same transaction, if any */
+const PLAYS_WITH_PRIZES = `
+  SELECT p.*,
+    z.item_index AS prize_item_index,
+    z.asset_type AS prize_asset_type,
+    z.contract_address AS prize_contract_address,
+    z.token_id_or_amount AS prize_token_id_or_amount,
+    z.rarity AS prize_rarity
+  FROM plays p
+  LEFT JOIN prizes z
+    ON p.won_prize = 1
+    AND z.transaction_hash = p.transaction_hash
+    AND z.cabinet_id = p.cabinet_id
+    AND z.item_index = p.item_index`;
+
+/** Consolation TuuCoin: the mint to the player in a losing play's transaction */
+const CONSOLATION_MINTS = `
+  SELECT m.block_number, m.log_index, m.transaction_hash, m.timestamp, p.cabinet_id, p.player, m.amount
+  FROM token_mints m
+  JOIN plays p
+    ON p.won_prize = 0
+    AND p.transaction_hash = m.transaction_hash
+    AND p.player = m.recipient`;
+
+// ============ Cabinets ============
+
+export function listCabinets(store: IndexerStore, parameters: CabinetListParameters): Page<CabinetStats> {
+  const conditions = new Conditions();
+  if (parameters.rarity !== undefined || parameters.assetType !== undefined) {
+    const stocked = new Conditions().prize("", parameters);
+    conditions.add(`cabinet_id IN (SELECT cabinet_id FROM item_deposits ${stocked})`, stocked.parameters);
+  }
+
+  const sql = `
+    SELECT DISTINCT cabinet_id FROM (
+      SELECT cabinet_id FROM plays
+      UNION SELECT cabinet_id FROM item_deposits
+      UNION SELECT cabinet_id FROM listings_created
+      UNION SELECT cabinet_id FROM purchases
+    ) ${conditions}
+    ORDER BY cabinet_id`;
+
+  const playConditions = new Conditions().add("cabinet_id = @cabinetId").window("timestamp", parameters);
+  const playTotals = store.db.prepare(`
+    SELECT COUNT(*) AS plays, COALESCE(SUM(won_prize), 0) AS wins,
+      COUNT(DISTINCT player) AS unique_players, MAX(timestamp) AS last_played_at
+    FROM plays ${playConditions}`);
+  const playPrices = store.db.prepare(`SELECT play_price FROM plays ${playConditions}`).pluck();
+  const deposits = store.db.prepare("SELECT COUNT(*) FROM item_deposits WHERE cabinet_id = ?").pluck();
+  const withdrawals = store.db.prepare("SELECT COUNT(*) FROM item_withdrawals WHERE cabinet_id = ?").pluck();
+
+  return paginate(store, sql, conditions, parameters, (row: { cabinet_id: number }): CabinetStats => {
+    const cabinetId = row.cabinet_id;
+    const bound = { ...playConditions.parameters, cabinetId };
+    const totals = playTotals.get(bound) as {
+      plays: number;
+      wins: number;
+      unique_players: number;
+      last_played_at: number | null;
+    };
+    return {
+      cabinetId: String(cabinetId),
+      plays: totals.plays,
+      wins: totals.wins,
+      revenue: sumAmounts(playPrices.all(bound) as string[]).toString(),
+      uniquePlayers: totals.unique_players,
+      itemsDeposited: deposits.get(cabinetId) as number,
+      itemsWithdrawn: withdrawals.get(cabinetId) as number,
+      lastPlayedAt: totals.last_played_at,
+    };
+  });
+}
+
+function toPlayRecord(row: PlayRow): PlayRecord {
+  return {
+    ...location(row),
+    cabinetId: String(row.cabinet_id),
+    player: row.player,
+    playPrice: row.play_price,
+    tuuCoinAmount: row.tuu_coin_amount,
+    wonPrize: row.won_prize === 1,
+    prize: prize(row),
+  };
+}
+
+export function listPlays(store: IndexerStore, cabinetId: bigint, parameters: PlayListParameters): Page<PlayRecord> {
+  const conditions = new Conditions()
+    .add("cabinet_id = @cabinetId", { cabinetId })
+    .window("timestamp", parameters)
+    .prize("prize_", parameters);
+  if (parameters.player) conditions.add("player = @player", { player: parameters.player.toLowerCase() });
+  if (parameters.won !== undefined) conditions.add("won_prize = @won", { won: parameters.won ? 1 : 0 });
+
+  const sql = `SELECT * FROM (${PLAYS_WITH_PRIZES}) ${conditions} ORDER BY block_number DESC, log_index DESC`;
+  return paginate(store, sql, conditions, parameters, toPlayRecord);
+}
+
+/** Daily play revenue over a trailing window, and a projection from its average */
+export function getRevenueSeries(
+  store: IndexerStore,
+  cabinetId: bigint,
+  parameters: RevenueSeriesParameters,
+  now: number,
+): RevenueSeries {
+  const days = dayRange(now, clampDays(parameters.days, DEFAULT_SERIES_DAYS));
+  const forecastDays = clampDays(parameters.forecastDays, DEFAULT_FORECAST_DAYS);
+
+  const rows = store.db
+    .prepare("SELECT timestamp, play_price AS amount FROM plays WHERE cabinet_id = ? AND timestamp >= ?")
+    .all(cabinetId, days[0]) as { timestamp: number; amount: string }[];
+
+  const points: RevenuePoint[] = dailyTotals(rows, days).map(({ day, count, total }) => ({
+    day,
+    plays: count,
+    revenue: total.toString(),
+  }));
+  const windowRevenue = sumAmounts(points.map((point) => point.revenue));
+
+  return {
+    cabinetId: cabinetId.toString(),
+    points,
+    forecast: {
+      days: forecastDays,
+      revenue: ((windowRevenue * BigInt(forecastDays)) / BigInt(days.length)).toString(),
+    },
+  };
+}
+
+// ============ Players ============
+
+export const PLAYER_ACTIVITY_KINDS: readonly PlayerActivityKind[] = [
+  "play",
+  "reward",
+  "purchase",
+  "marketBuy",
+  "marketSell",
+];
+
+const NO_PRIZE = `NULL AS prize_item_index, NULL AS prize_asset_type, NULL AS prize_contract_address,
+  NULL AS prize_token_id_or_amount, NULL AS prize_rarity`;
+
+const PLAYER_ACTIVITY = `
+  SELECT 'play' AS kind, block_number, log_index, transaction_hash, timestamp, cabinet_id, play_price AS amount,
+    prize_item_index, prize_asset_type, prize_contract_address, prize_token_id_or_amount, prize_rarity
+  FROM (${PLAYS_WITH_PRIZES}) WHERE player = @player
+  UNION ALL
+  SELECT 'reward', block_number, log_index, transaction_hash, timestamp, cabinet_id, amount, ${NO_PRIZE}
+  FROM (${CONSOLATION_MINTS}) WHERE player = @player
+  UNION ALL
+  SELECT 'reward', block_number, log_index, transaction_hash, timestamp, cabinet_id, amount, ${NO_PRIZE}
+  FROM reward_mints WHERE player = @player
+  UNION ALL
+  SELECT 'purchase', block_number, log_index, transaction_hash, timestamp, cabinet_id, price, ${NO_PRIZE}
+  FROM purchases WHERE buyer = @player
+  UNION ALL
+  SELECT 'marketBuy', block_number, log_index, transaction_hash, timestamp, cabinet_id, price, ${NO_PRIZE}
+  FROM sales WHERE buyer = @player
+  UNION ALL
+  SELECT 'marketSell', block_number, log_index, transaction_hash, timestamp, cabinet_id, price, ${NO_PRIZE}
+  FROM sales WHERE seller = @player`;
+
+export function getPlayerHistory(
+  store: IndexerStore,
+  player: Address,
+  parameters: PlayerHistoryParameters,
+): Page<PlayerActivity> {
+  const conditions = new Conditions()
+    .bind({ player: player.toLowerCase() })
+    .window("timestamp", parameters)
+    .prize("prize_", parameters);
+  if (parameters.kinds?.length) {
+    const kinds = Object.fromEntries(parameters.kinds.map((kind, index) => [`kind${index}`, kind]));
+    conditions.add(`kind IN (${Object.keys(kinds).map((name) => `@${name}`).join(", ")})`, kinds);
+  }
+
+  const sql = `SELECT * FROM (${PLAYER_ACTIVITY}) ${conditions} ORDER BY block_number DESC, log_index DESC, kind`;
+  return paginate(store, sql, conditions, parameters, (row: ActivityRow): PlayerActivity => ({
+    ...location(row),
+    kind: row.kind,
+    cabinetId: String(row.cabinet_id),
+    amount: row.amount,
+    prize: prize(row),
+  }));
+}
+
+export function getPlayerTuuCoinSummary(store: IndexerStore, player: Address): PlayerTuuCoinSummary {
+  const account = player.toLowerCase();
+  const amounts = (sql: string) => store.db.prepare(sql).pluck().all(account) as string[];
+
+  const minted = [
+    ...amounts(`SELECT amount FROM (${CONSOLATION_MINTS}) WHERE player = ?`),
+    ...amounts("SELECT amount FROM reward_mints WHERE player = ?"),
+  ];
+  const boosts = amounts("SELECT tuu_coin_amount FROM plays WHERE player = ? AND tuu_coin_amount != '0'");
+
+  return {
+    minted: sumAmounts(minted).toString(),
+    rewards: minted.length,
+    burnedForOdds: sumAmounts(amounts("SELECT amount FROM odds_burns WHERE player = ?")).toString(),
+    burnedInPlays: sumAmounts(boosts).toString(),
+    boostedPlays: boosts.length,
+  };
+}
+
+// ============ Market ============
+
+export const LISTING_STATUSES: readonly ListingStatus[] = ["active", "sold", "cancelled", "expired"];
+
+/** Every listing with its latest price, buyer and status as of `@now` */
+const LISTINGS = `
+  SELECT l.block_number, l.log_index, l.transaction_hash, l.timestamp, l.listing_id, l.cabinet_id, l.seller,
+    l.expires_at, s.buyer,
+    COALESCE(
+      (SELECT u.new_price FROM listing_price_updates u
+        WHERE u.listing_id = l.listing_id ORDER BY u.block_number DESC, u.log_index DESC LIMIT 1),
+      l.price
+    ) AS price,
+    CASE
+      WHEN s.listing_id IS NOT NULL THEN 'sold'
+      WHEN c.listing_id IS NOT NULL THEN 'cancelled'
+      WHEN l.expires_at < @now THEN 'expired'
+      ELSE 'active'
+    END AS status
+  FROM listings_created l
+  LEFT JOIN sales s ON s.listing_id = l.listing_id
+  LEFT JOIN listings_cancelled c ON c.listing_id = l.listing_id`;
+
+export function listListings(
+  store: IndexerStore,
+  parameters: ListingListParameters,
+  now: number,
+): Page<ListingRecord> {
+  const conditions = new Conditions().bind({ now }).window("timestamp", parameters);
+  if (parameters.status) conditions.add("status = @status", { status: parameters.status });
+  if (parameters.seller) conditions.add("seller = @seller", { seller: parameters.seller.toLowerCase() });
+  if (parameters.cabinetId !== undefined) {
+    conditions.add("cabinet_id = @cabinetId", { cabinetId: BigInt(parameters.cabinetId) });
+  }
+
+  const sql = `SELECT * FROM (${LISTINGS}) ${conditions} ORDER BY block_number DESC, log_index DESC`;
+  return paginate(store, sql, conditions, parameters, (row: ListingRow): ListingRecord => ({
+    ...location(row),
+    listingId: String(row.listing_id),
+    cabinetId: String(row.cabinet_id),
+    seller: row.seller,
+    price: row.price,
+    expiresAt: row.expires_at,
+    status: row.status,
+    buyer: row.buyer,
+  }));
+}
+
+export function getMarketStats(store: IndexerStore, parameters: MarketStatsParameters, now: number): MarketStats {
+  const sales = store.db.prepare("SELECT timestamp, price AS amount, platform_fee FROM sales").all() as {
+    timestamp: number;
+    amount: string;
+    platform_fee: string;
+  }[];
+  const { buyers, sellers } = store.db
+    .prepare("SELECT COUNT(DISTINCT buyer) AS buyers, COUNT(DISTINCT seller) AS sellers FROM sales")
+    .get() as { buyers: number; sellers: number };
+  const activeListings = store.db
+    .prepare(`SELECT COUNT(*) FROM (${LISTINGS}) WHERE status = 'active'`)
+    .pluck()
+    .get({ now }) as number;
+
+  const totalVolume = sumAmounts(sales.map((sale) => sale.amount));
+  const days = dayRange(now, clampDays(parameters.days, DEFAULT_SERIES_DAYS));
+
+  return {
+    totalSales: sales.length,
+    totalVolume: totalVolume.toString(),
+    totalFees: sumAmounts(sales.map((sale) => sale.platform_fee)).toString(),
+    averagePrice: (sales.length ? totalVolume / BigInt(sales.length) : 0n).toString(),
+    activeListings,
+    uniqueBuyers: buyers,
+    uniqueSellers: sellers,
+    daily: dailyTotals(sales, days).map(({ day, count, total }) => ({
+      day,
+      sales: count,
+      volume: total.toString(),
+    })),
+  };
+}
+
+// ============ TuuCoin admin ============
+
+export const TUUCOIN_ADMIN_ACTION_KINDS: readonly TuuCoinAdminActionKind[] = [
+  "updateEmissionConfig",
+  "setEmissionActive",
+  "setCabinetEmissionMultiplier",
+  "setDynamicSupplyEnabled",
+  "adjustMaxSupply",
+  "selectivePause",
+  "selectiveUnpause",
+  "emergencyPause",
+  "emergencyUnpause",
+];
+
+/** Audit trail of TuuCoin emission, supply and pause changes, newest first */
+export function listTuuCoinAdminActions(
+  store: IndexerStore,
+  parameters: TuuCoinAdminActionListParameters,
+): Page<TuuCoinAdminAction> {
+  const conditions = new Conditions().window("timestamp", parameters);
+  if (parameters.sender) conditions.add("sender = @sender", { sender: parameters.sender.toLowerCase() });
+  if (parameters.actions?.length) {
+    const actions = Object.fromEntries(parameters.actions.map((action, index) => [`action${index}`, action]));
+    conditions.add(`action IN (${Object.keys(actions).map((name) => `@${name}`).join(", ")})`, actions);
+  }
+
+  const sql = `SELECT * FROM tuucoin_admin_actions ${conditions} ORDER BY block_number DESC, log_index DESC`;
+  return paginate(store, sql, conditions, parameters, (row: AdminActionRow): TuuCoinAdminAction => ({
+    ...location(row),
+    action: row.action,
+    sender: row.sender,
+    cabinetId: row.cabinet_id === null ? null : String(row.cabinet_id),
+    details: JSON.parse(row.details),
+  }));
+}
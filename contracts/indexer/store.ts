@@ -0,0 +1,185 @@
+import Database from "better-sqlite3";
+import type { Hash } from "viem";
+import { INDEXED_EVENTS, type IndexedEvent, type Row } from "./events";
+
+/** Bump when a table definition changes; older databases must be rebuilt */
+export const SCHEMA_VERSION = 4;
+
+export interface BlockRef {
+  number: bigint;
+  hash: Hash;
+}
+
+export interface StoredBlock extends BlockRef {
+  timestamp: bigint;
+}
+
+export interface IndexedRow {
+  table: string;
+  row: Row;
+}
+
+/** Everything from one `[fromBlock, toBlock]` range, written atomically */
+export interface IndexedBatch {
+  chainId: number;
+  /** Blocks that produced rows, plus the batch's last block */
+  blocks: readonly StoredBlock[];
+  rows: readonly IndexedRow[];
+  cursor: BlockRef;
+}
+
+/** Columns every event table starts with; (block_number, log_index) identifies a log */
+const LOG_COLUMNS = [
+  "block_number INTEGER NOT NULL",
+  "log_index INTEGER NOT NULL",
+  "transaction_hash TEXT NOT NULL",
+  "timestamp INTEGER NOT NULL",
+];
+
+function createTableSql(event: IndexedEvent): string[] {
+  const columns = [...LOG_COLUMNS, ...Object.entries(event.columns).map(([name, type]) => `${name} ${type}`)];
+  return [
+    `CREATE TABLE IF NOT EXISTS ${event.table} (${columns.join(", ")}, PRIMARY KEY (block_number, log_index))`,
+    ...event.indexes.map(
+      (columns) =>
+        `CREATE INDEX IF NOT EXISTS ${event.table}_${columns.join("_")} ON ${event.table} (${columns.join(", ")})`,
+    ),
+  ];
+}
+
+/**
+ * IndexerStore
+ * @dev SQLite database behind `TuuKeepIndexer`, one table per `INDEXED_EVENTS`
+ * entry plus bookkeeping: `blocks` keeps the hashes used to detect reorgs and
+ * `indexer_state` the chain ID and the last fully indexed block.
+ */
+export class IndexerStore {
+  readonly db: Database.Database;
+  private readonly tables = new Set(INDEXED_EVENTS.map((event) => event.table));
+
+  constructor(filename: string = ":memory:", options?: Database.Options) {
+    this.db = new Database(filename, options);
+    if (options?.readonly) {
+      // Readers such as the API never migrate; they need a database the indexer already created
+      const version = this.db.pragma("user_version", { simple: true });
+      if (version !== SCHEMA_VERSION) {
+        throw new Error(`IndexerStore: ${filename} has schema v${version}, expected v${SCHEMA_VERSION}`);
+      }
+      return;
+    }
+    this.db.pragma("journal_mode = WAL");
+    this.migrate();
+  }
+
+  private migrate() {
+    const version = this.db.pragma("user_version", { simple: true }) as number;
+    if (version !== 0 && version !== SCHEMA_VERSION) {
+      throw new Error(`IndexerStore: database schema v${version} does not match v${SCHEMA_VERSION}; reindex into a new file`);
+    }
+
+    this.db.transaction(() => {
+      this.db.exec(`CREATE TABLE IF NOT EXISTS indexer_state (key TEXT PRIMARY KEY, value TEXT NOT NULL)`);
+      this.db.exec(
+        `CREATE TABLE IF NOT EXISTS blocks (number INTEGER PRIMARY KEY, hash TEXT NOT NULL, timestamp INTEGER NOT NULL)`,
+      );
+      for (const event of INDEXED_EVENTS) {
+        for (const statement of createTableSql(event)) this.db.exec(statement);
+      }
+      this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    })();
+  }
+
+  // ============ State ============
+
+  private getState(key: string): string | undefined {
+    const row = this.db.prepare("SELECT value FROM indexer_state WHERE key = ?").get(key) as { value: string } | undefined;
+    return row?.value;
+  }
+
+  private setState(key: string, value: string) {
+    this.db
+      .prepare("INSERT INTO indexer_state (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value")
+      .run(key, value);
+  }
+
+  getChainId(): number | undefined {
+    const chainId = this.getState("chain_id");
+    return chainId === undefined ? undefined : Number(chainId);
+  }
+
+  /** Last block whose logs are all in the database */
+  getCursor(): BlockRef | undefined {
+    const number = this.getState("cursor_number");
+    const hash = this.getState("cursor_hash");
+    return number === undefined || hash === undefined ? undefined : { number: BigInt(number), hash: hash as Hash };
+  }
+
+  getBlock(number: bigint): StoredBlock | undefined {
+    const row = this.db.prepare("SELECT number, hash, timestamp FROM blocks WHERE number = ?").get(number) as
+      | { number: number; hash: Hash; timestamp: number }
+      | undefined;
+    return row && { number: BigInt(row.number), hash: row.hash, timestamp: BigInt(row.timestamp) };
+  }
+
+  /** Stored blocks at or below `number`, newest first */
+  getBlocksBefore(number: bigint, limit: number): StoredBlock[] {
+    const rows = this.db
+      .prepare("SELECT number, hash, timestamp FROM blocks WHERE number <= ? ORDER BY number DESC LIMIT ?")
+      .all(number, limit) as { number: number; hash: Hash; timestamp: number }[];
+    return rows.map((row) => ({ number: BigInt(row.number), hash: row.hash, timestamp: BigInt(row.timestamp) }));
+  }
+
+  // ============ Writes ============
+
+  commitBatch({ chainId, blocks, rows, cursor }: IndexedBatch) {
+    const storedChainId = this.getChainId();
+    if (storedChainId !== undefined && storedChainId !== chainId) {
+      throw new Error(`IndexerStore: database holds chain ${storedChainId}, not chain ${chainId}`);
+    }
+
+    this.db.transaction(() => {
+      this.setState("chain_id", String(chainId));
+
+      const insertBlock = this.db.prepare(
+        "INSERT INTO blocks (number, hash, timestamp) VALUES (?, ?, ?) ON CONFLICT (number) DO UPDATE SET hash = excluded.hash, timestamp = excluded.timestamp",
+      );
+      for (const block of blocks) insertBlock.run(block.number, block.hash, block.timestamp);
+
+      for (const { table, row } of rows) {
+        if (!this.tables.has(table)) throw new Error(`IndexerStore: unknown table ${table}`);
+        const columns = Object.keys(row);
+        this.db
+          .prepare(`INSERT INTO ${table} (${columns.join(", ")}) VALUES (${columns.map((column) => `@${column}`).join(", ")})`)
+          .run(row);
+      }
+
+      this.setState("cursor_number", cursor.number.toString());
+      this.setState("cursor_hash", cursor.hash);
+    })();
+  }
+
+  /** Drop everything above `block`, which becomes the cursor; used to unwind a reorg */
+  rollbackTo(block: BlockRef) {
+    this.db.transaction(() => {
+      for (const table of this.tables) {
+        this.db.prepare(`DELETE FROM ${table} WHERE block_number > ?`).run(block.number);
+      }
+      this.db.prepare("DELETE FROM blocks WHERE number > ?").run(block.number);
+      this.setState("cursor_number", block.number.toString());
+      this.setState("cursor_hash", block.hash);
+    })();
+  }
+
+  /** Forget the cursor and every row, so the next sync starts from the start block */
+  reset() {
+    this.db.transaction(() => {
+      for (const table of this.tables) this.db.prepare(`DELETE FROM ${table}`).run();
+      this.db.prepare("DELETE FROM blocks").run();
+      this.db.prepare("DELETE FROM indexer_state WHERE key IN ('cursor_number', 'cursor_hash')").run();
+    })();
+  }
+
+  close() {
+    this.db.close();
+  }
+}
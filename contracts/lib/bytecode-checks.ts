@@ -0,0 +1,353 @@
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import type { Hex } from "viem";
+import { SOLIDITY_SETTINGS } from "./compiler-settings";
+
+/**
+ * Bytecode compatibility checks
+ * @dev KUB Chain runs the London EVM, so bytecode must stay below the
+ * EIP-170 size limit and must not use opcodes added by later forks. The
+ * compiler targets London (see `lib/compiler-settings.ts`); these checks
+ * catch a contract that outgrows the limit or a setting that drifts.
+ *
+ * `lintArtifacts` runs them over every compiled artifact for one network
+ * profile. Deploy tasks and scripts call `assertBytecodeCompatible` before
+ * sending anything, and `npx hardhat lint-bytecode` prints the full report.
+ */
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const ARTIFACTS_DIR = path.join(__dirname, "../artifacts");
+
+/** EIP-170 limit on deployed bytecode, in bytes */
+export const MAX_CONTRACT_SIZE = 24_576;
+/** EIP-3860 limit on init code, in bytes, enforced from Shanghai */
+export const MAX_INITCODE_SIZE = 2 * MAX_CONTRACT_SIZE;
+/** Warn once a contract is within this share of the limit, in percent */
+export const DEFAULT_SIZE_MARGIN_PERCENT = 10;
+
+export type EvmVersion = "london" | "shanghai" | "cancun" | "prague";
+
+const EVM_VERSIONS: readonly EvmVersion[] = ["london", "shanghai", "cancun", "prague"];
+
+function supports(evmVersion: EvmVersion, since: EvmVersion): boolean {
+  return EVM_VERSIONS.indexOf(evmVersion) >= EVM_VERSIONS.indexOf(since);
+}
+
+/** Opcodes introduced after London, by byte, with the fork that added them */
+export const POST_LONDON_OPCODES: Readonly<Record<number, { name: string; since: EvmVersion }>> = {
+  0x49: { name: "BLOBHASH", since: "cancun" },
+  0x4a: { name: "BLOBBASEFEE", since: "cancun" },
+  0x5c: { name: "TLOAD", since: "cancun" },
+  0x5d: { name: "TSTORE", since: "cancun" },
+  0x5e: { name: "MCOPY", since: "cancun" },
+  0x5f: { name: "PUSH0", since: "shanghai" },
+};
+
+/** What a network's EVM accepts */
+export interface NetworkProfile {
+  name: string;
+  evmVersion: EvmVersion;
+}
+
+export const NETWORK_PROFILES: Readonly<Record<string, NetworkProfile>> = {
+  kubTestnet: { name: "kubTestnet", evmVersion: "london" },
+  kubMainnet: { name: "kubMainnet", evmVersion: "london" },
+  sepolia: { name: "sepolia", evmVersion: "cancun" },
+};
+
+/** The profile of a configured network; unknown networks get the compiler's target */
+export function networkProfile(networkName: string): NetworkProfile {
+  return NETWORK_PROFILES[networkName] ?? { name: networkName, evmVersion: SOLIDITY_SETTINGS.evmVersion };
+}
+
+export interface BytecodeWarning {
+  contract: string;
+  kind: "size" | "opcode";
+  /** Errors would make the deployment fail; warnings only need a look */
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface ContractBytecode {
+  contractName: string;
+  bytecode: string;
+  deployedBytecode: string;
+}
+
+export interface BytecodeCheckOptions {
+  marginPercent?: number;
+}
+
+// Unlinked library references are `__$<34 hex>$__` placeholders, 20 bytes wide
+const LIBRARY_PLACEHOLDER = /__\$[0-9a-fA-F]{34}\$__/g;
+
+function toHex(bytecode: string): string {
+  return bytecode.replace(/^0x/, "").replace(LIBRARY_PLACEHOLDER, "0".repeat(40)).toLowerCase();
+}
+
+function toBytes(bytecode: string): Uint8Array {
+  const hex = toHex(bytecode);
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/** Drop the CBOR metadata solc appends; its last two bytes hold its length */
+function stripMetadata(bytes: Uint8Array): Uint8Array {
+  if (bytes.length < 2) return bytes;
+  const length = (bytes[bytes.length - 2] << 8) | bytes[bytes.length - 1];
+  return length + 2 <= bytes.length ? bytes.subarray(0, bytes.length - length - 2) : bytes;
+}
+
+export function bytecodeSize(bytecode: string | Hex): number {
+  return toBytes(bytecode).length;
+}
+
+// STOP, JUMP, RETURN, REVERT, INVALID, SELFDESTRUCT
+const HALTING_OPCODES = new Set([0x00, 0x56, 0xf3, 0xfd, 0xfe, 0xff]);
+const JUMPDEST = 0x5b;
+
+/**
+ * Reachable opcodes, skipping PUSH immediates. Bytes after a halting
+ * instruction are data, such as long string constants, until the next
+ * JUMPDEST.
+ */
+function* walk(bytes: Uint8Array): Generator<{ offset: number; opcode: number }> {
+  let reachable = true;
+  for (let offset = 0; offset < bytes.length; offset++) {
+    const opcode = bytes[offset];
+    if (!reachable && opcode !== JUMPDEST) continue;
+    reachable = true;
+
+    yield { offset, opcode };
+    // PUSH1 (0x60) to PUSH32 (0x7f) carry 1 to 32 bytes of data
+    if (opcode >= 0x60 && opcode <= 0x7f) offset += opcode - 0x5f;
+    if (HALTING_OPCODES.has(opcode)) reachable = false;
+  }
+}
+
+/** Reachable opcodes of deployed bytecode, without the metadata trailer */
+export function opcodes(bytecode: string | Hex): Generator<{ offset: number; opcode: number }> {
+  return walk(stripMetadata(toBytes(bytecode)));
+}
+
+/**
+ * The constructor part of init code. Init code embeds the runtime code,
+ * which is checked on its own, followed by its metadata and data, which
+ * are not code at all.
+ */
+function constructorCode(bytecode: string, deployedBytecode: string): Uint8Array {
+  const init = toHex(bytecode);
+  const runtime = toHex(deployedBytecode);
+  let index = runtime ? init.indexOf(runtime) : -1;
+  while (index !== -1 && index % 2 !== 0) index = init.indexOf(runtime, index + 1);
+  return index === -1 ? stripMetadata(toBytes(bytecode)) : toBytes(init.slice(0, index));
+}
+
+function unsupportedOpcodes(code: Iterable<{ offset: number; opcode: number }>, profile: NetworkProfile): Map<string, number> {
+  const found = new Map<string, number>();
+  for (const { offset, opcode } of code) {
+    const added = POST_LONDON_OPCODES[opcode];
+    if (added && !supports(profile.evmVersion, added.since) && !found.has(added.name)) {
+      found.set(added.name, offset);
+    }
+  }
+  return found;
+}
+
+/**
+ * Gas to deploy `bytecode` before its constructor runs: the transaction and
+ * CREATE base costs, calldata, the init code word cost from Shanghai and the
+ * 200 gas per byte code deposit. Storage the constructor writes comes on top;
+ * the fork rehearsal measures the real figure.
+ */
+export function estimateDeploymentGas(
+  { bytecode, deployedBytecode }: Omit<ContractBytecode, "contractName">,
+  evmVersion: EvmVersion = SOLIDITY_SETTINGS.evmVersion,
+): bigint {
+  const init = toBytes(bytecode);
+  const zeroBytes = init.filter((byte) => byte === 0).length;
+  const calldata = BigInt(zeroBytes) * 4n + BigInt(init.length - zeroBytes) * 16n;
+  const initWords = supports(evmVersion, "shanghai") ? 2n * BigInt(Math.ceil(init.length / 32)) : 0n;
+  const codeDeposit = 200n * BigInt(bytecodeSize(deployedBytecode));
+  return 21_000n + 32_000n + calldata + initWords + codeDeposit;
+}
+
+export function checkBytecode(
+  { contractName, bytecode, deployedBytecode }: ContractBytecode,
+  profile: NetworkProfile,
+  { marginPercent = DEFAULT_SIZE_MARGIN_PERCENT }: BytecodeCheckOptions = {},
+): BytecodeWarning[] {
+  const warnings: BytecodeWarning[] = [];
+  const size = bytecodeSize(deployedBytecode);
+  const initSize = bytecodeSize(bytecode);
+
+  if (size > MAX_CONTRACT_SIZE) {
+    warnings.push({
+      contract: contractName,
+      kind: "size",
+      severity: "error",
+      message: `deployed bytecode is ${size.toLocaleString()} bytes, over the ${MAX_CONTRACT_SIZE.toLocaleString()} byte limit`,
+    });
+  } else if (size > MAX_CONTRACT_SIZE * (1 - marginPercent / 100)) {
+    warnings.push({
+      contract: contractName,
+      kind: "size",
+      severity: "warning",
+      message: `deployed bytecode is ${size.toLocaleString()} bytes, ${(MAX_CONTRACT_SIZE - size).toLocaleString()} below the limit`,
+    });
+  }
+  if (initSize > MAX_INITCODE_SIZE && supports(profile.evmVersion, "shanghai")) {
+    warnings.push({
+      contract: contractName,
+      kind: "size",
+      severity: "error",
+      message: `init code is ${initSize.toLocaleString()} bytes, over the ${MAX_INITCODE_SIZE.toLocaleString()} byte limit`,
+    });
+  }
+
+  for (const [part, code] of [
+    ["deployed bytecode", opcodes(deployedBytecode)],
+    ["constructor", walk(constructorCode(bytecode, deployedBytecode))],
+  ] as const) {
+    const found = unsupportedOpcodes(code, profile);
+    if (found.size === 0) continue;
+    const listed = [...found].map(([name, offset]) => `${name} at byte ${offset}`).join(", ");
+    warnings.push({
+      contract: contractName,
+      kind: "opcode",
+      severity: "error",
+      message: `${part} uses opcodes the ${profile.evmVersion} EVM does not support: ${listed}`,
+    });
+  }
+
+  return warnings;
+}
+
+export interface ContractLint {
+  contract: string;
+  /** Source file, relative to the artifacts directory */
+  source: string;
+  size: number;
+  initSize: number;
+  deploymentGas: bigint;
+  warnings: BytecodeWarning[];
+}
+
+export interface BytecodeLintReport {
+  profile: NetworkProfile;
+  marginPercent: number;
+  contracts: ContractLint[];
+  errors: BytecodeWarning[];
+}
+
+interface ArtifactFile extends ContractBytecode {
+  sourceName: string;
+}
+
+/** Every deployable artifact compiled from `contracts/`, skipping interfaces and abstract contracts */
+export function readArtifacts(artifactsDir: string = ARTIFACTS_DIR): ArtifactFile[] {
+  const sourcesDir = path.join(artifactsDir, "contracts");
+  if (!fs.existsSync(sourcesDir)) {
+    throw new Error(`No artifacts in ${artifactsDir}; run \`npx hardhat build\` first`);
+  }
+
+  const artifacts: ArtifactFile[] = [];
+  const visit = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const file = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        visit(file);
+      } else if (entry.name.endsWith(".json")) {
+        const artifact = JSON.parse(fs.readFileSync(file, "utf-8")) as Partial<ArtifactFile>;
+        if (!artifact.contractName || !artifact.deployedBytecode || artifact.deployedBytecode === "0x") continue;
+        artifacts.push(artifact as ArtifactFile);
+      }
+    }
+  };
+  visit(sourcesDir);
+
+  return artifacts.sort((a, b) => a.contractName.localeCompare(b.contractName));
+}
+
+export function lintArtifacts(
+  artifacts: readonly ArtifactFile[],
+  profile: NetworkProfile,
+  { marginPercent = DEFAULT_SIZE_MARGIN_PERCENT }: BytecodeCheckOptions = {},
+): BytecodeLintReport {
+  const contracts = artifacts.map(
+    (artifact): ContractLint => ({
+      contract: artifact.contractName,
+      source: artifact.sourceName,
+      size: bytecodeSize(artifact.deployedBytecode),
+      initSize: bytecodeSize(artifact.bytecode),
+      deploymentGas: estimateDeploymentGas(artifact, profile.evmVersion),
+      warnings: checkBytecode(artifact, profile, { marginPercent }),
+    }),
+  );
+  const errors = contracts.flatMap(({ warnings }) => warnings.filter((warning) => warning.severity === "error"));
+  return { profile, marginPercent, contracts, errors };
+}
+
+/** Per-contract table; contracts without warnings are folded into a count unless `all` is set */
+export function formatLintReport(report: BytecodeLintReport, { all = false }: { all?: boolean } = {}): string {
+  const lines = [
+    `Bytecode lint for ${report.profile.name} (${report.profile.evmVersion} EVM, ${report.marginPercent}% size margin)`,
+    "",
+  ];
+
+  const shown = all ? report.contracts : report.contracts.filter(({ warnings }) => warnings.length > 0);
+  for (const contract of shown) {
+    const usage = ((contract.size / MAX_CONTRACT_SIZE) * 100).toFixed(1);
+    const icon = contract.warnings.some(({ severity }) => severity === "error")
+      ? "❌"
+      : contract.warnings.length > 0
+        ? "⚠️ "
+        : "✅";
+    lines.push(
+      `${icon} ${contract.contract} (${contract.source}): ${contract.size.toLocaleString()} bytes (${usage}%), ` +
+        `init ${contract.initSize.toLocaleString()} bytes, ~${contract.deploymentGas.toLocaleString()} gas to deploy`,
+    );
+    for (const warning of contract.warnings) {
+      lines.push(`   ${warning.severity}: ${warning.message}`);
+    }
+  }
+
+  const clean = report.contracts.length - report.contracts.filter(({ warnings }) => warnings.length > 0).length;
+  if (!all && clean > 0) lines.push(`✅ ${clean} other contract${clean === 1 ? "" : "s"} passed`);
+  lines.push(
+    "",
+    report.errors.length > 0
+      ? `${report.errors.length} error${report.errors.length === 1 ? "" : "s"} would stop a deployment to ${report.profile.name}`
+      : `No errors in ${report.contracts.length} contracts`,
+  );
+  return lines.join("\n");
+}
+
+export class BytecodeLintError extends Error {
+  constructor(readonly report: BytecodeLintReport) {
+    super(formatLintReport(report));
+    this.name = "BytecodeLintError";
+  }
+}
+
+/**
+ * Lint every compiled artifact for `networkName` and throw a
+ * `BytecodeLintError`, whose message is the report, if any would fail to
+ * deploy there. Deploy tasks and scripts call this before sending anything.
+ */
+export function assertBytecodeCompatible(
+  networkName: string,
+  options: BytecodeCheckOptions & { artifactsDir?: string } = {},
+): BytecodeLintReport {
+  const report = lintArtifacts(readArtifacts(options.artifactsDir), networkProfile(networkName), options);
+  if (report.errors.length > 0) {
+    throw new BytecodeLintError(report);
+  }
+  return report;
+}
@@ -0,0 +1,15 @@
+/**
+ * Solidity compiler settings shared by hardhat.config.ts and the deployment
+ * manifest, so every recorded deployment states exactly how it was built.
+ */
+
+export const SOLIDITY_VERSION = "0.8.28";
+
+export const SOLIDITY_SETTINGS = {
+  optimizer: {
+    enabled: true,
+    runs: 200,
+  },
+  viaIR: true,
+  evmVersion: "london", // Use London instead of Shanghai to avoid PUSH0 opcode
+} as const;
@@ -0,0 +1,284 @@
+import * as fs from "fs";
+import type { ArtifactManager } from "hardhat/types/artifacts";
+import { encodeAbiParameters, type Abi, type AbiParameter, type Address, type Hex } from "viem";
+import type { ContractDeployment, ContractVerification, ManifestValue, VerificationStatus } from "../sdk/manifest";
+import { recordVerification, type ManifestStore } from "./deployment-manifest";
+
+/**
+ * Contract verification
+ * @dev Submits manifest contracts to an Etherscan-compatible explorer API,
+ * such as KubScan's Blockscout, as standard JSON input taken from the build
+ * info the contract was compiled with. Constructor arguments and linked
+ * libraries come from the manifest, and every submission's state is written
+ * back to it, so a run that stops while the explorer is still compiling
+ * resumes polling on the next run instead of submitting again.
+ */
+
+export interface ExplorerApi {
+  /** Etherscan-compatible endpoint, e.g. `https://testnet.kubscan.com/api` */
+  url: string;
+  apiKey: string;
+}
+
+export interface VerificationRequest {
+  address: Address;
+  /** `<source name>:<contract name>`, as in the standard JSON input */
+  contractName: string;
+  /** Full solc version, e.g. `v0.8.28+commit.7893614a` */
+  compilerVersion: string;
+  standardJsonInput: Record<string, unknown>;
+  /** ABI-encoded constructor arguments */
+  constructorArguments: Hex;
+}
+
+export class ExplorerApiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExplorerApiError";
+  }
+}
+
+interface ExplorerResponse {
+  status: string;
+  message: string;
+  result: unknown;
+}
+
+interface BuildInfo {
+  solcVersion: string;
+  solcLongVersion: string;
+  input: { settings: Record<string, unknown> & { libraries?: Record<string, Record<string, string>> } };
+}
+
+async function callExplorer(
+  api: ExplorerApi,
+  params: Record<string, string>,
+  method: "GET" | "POST" = "GET",
+): Promise<ExplorerResponse> {
+  const query = new URLSearchParams({ ...params, apikey: api.apiKey });
+  const response =
+    method === "GET"
+      ? await fetch(`${api.url}?${query}`)
+      : await fetch(api.url, {
+          method: "POST",
+          headers: { "content-type": "application/x-www-form-urlencoded" },
+          body: query,
+        });
+
+  if (!response.ok) {
+    throw new ExplorerApiError(`${api.url} answered ${params.action} with HTTP ${response.status}`);
+  }
+  const body = (await response.json()) as Partial<ExplorerResponse>;
+  if (typeof body.status !== "string" || !("result" in body)) {
+    throw new ExplorerApiError(`${api.url} answered ${params.action} with an unexpected body`);
+  }
+  return body as ExplorerResponse;
+}
+
+/** Manifest values back into what viem encodes: integers are stored as decimal strings */
+function toAbiValue(parameter: AbiParameter, value: ManifestValue): unknown {
+  const array = /^(.*)\[\d*\]$/.exec(parameter.type);
+  if (array) {
+    if (!Array.isArray(value)) throw new Error(`Expected an array for ${parameter.name ?? parameter.type}`);
+    return value.map((item) => toAbiValue({ ...parameter, type: array[1] }, item));
+  }
+  if (parameter.type === "tuple" && "components" in parameter) {
+    if (!Array.isArray(value)) throw new Error(`Expected an array for ${parameter.name ?? "tuple"}`);
+    return parameter.components.map((component, index) => toAbiValue(component, value[index]));
+  }
+  if (/^u?int\d*$/.test(parameter.type)) return BigInt(value as string | number);
+  return value;
+}
+
+export function encodeConstructorArguments(abi: Abi, args: readonly ManifestValue[]): Hex {
+  const constructor = abi.find((item) => item.type === "constructor");
+  const inputs = constructor && "inputs" in constructor ? constructor.inputs : [];
+  if (inputs.length !== args.length) {
+    throw new Error(`Constructor takes ${inputs.length} arguments, the manifest records ${args.length}`);
+  }
+  if (inputs.length === 0) return "0x";
+  return encodeAbiParameters(
+    inputs,
+    inputs.map((input, index) => toAbiValue(input, args[index])),
+  );
+}
+
+/** Everything the explorer needs to recompile `deployment`, from the current build info */
+export async function buildVerificationRequest(
+  artifacts: ArtifactManager,
+  deployment: ContractDeployment,
+): Promise<VerificationRequest> {
+  const artifact = await artifacts.readArtifact(deployment.contractName);
+  const buildInfoPath = artifact.buildInfoId ? await artifacts.getBuildInfoPath(artifact.buildInfoId) : undefined;
+  if (!buildInfoPath) {
+    throw new Error(`No build info for ${deployment.contractName}; run \`npx hardhat build\` first`);
+  }
+
+  const buildInfo = JSON.parse(fs.readFileSync(buildInfoPath, "utf-8")) as BuildInfo;
+  if (buildInfo.solcVersion !== deployment.compiler.version) {
+    throw new Error(
+      `${deployment.contractName} was deployed with solc ${deployment.compiler.version}, ` +
+        `but the artifacts were built with ${buildInfo.solcVersion}`,
+    );
+  }
+
+  // Link references are keyed by the library's source name, as standard JSON input expects
+  const libraries: Record<string, Record<string, string>> = {};
+  for (const [sourceName, references] of Object.entries(artifact.linkReferences ?? {})) {
+    for (const library of Object.keys(references)) {
+      const address = deployment.libraries[library];
+      if (!address) {
+        throw new Error(`${deployment.contractName} links ${library}, which the manifest does not record`);
+      }
+      libraries[sourceName] = { ...libraries[sourceName], [library]: address };
+    }
+  }
+
+  const { settings } = buildInfo.input;
+  const sourceName = artifact.inputSourceName ?? artifact.sourceName;
+  return {
+    address: deployment.address,
+    contractName: `${sourceName}:${artifact.contractName}`,
+    compilerVersion: `v${buildInfo.solcLongVersion}`,
+    standardJsonInput: {
+      ...buildInfo.input,
+      settings: { ...settings, libraries: { ...settings.libraries, ...libraries } },
+    },
+    constructorArguments: encodeConstructorArguments(artifact.abi as Abi, deployment.constructorArgs),
+  };
+}
+
+function statusOf(message: string): VerificationStatus {
+  if (/pass|already verified/i.test(message)) return "verified";
+  if (/pending|in queue/i.test(message)) return "pending";
+  return "failed";
+}
+
+/** Whether the explorer already shows source code for `address` */
+export async function isVerified(api: ExplorerApi, address: Address): Promise<boolean> {
+  const { result } = await callExplorer(api, { module: "contract", action: "getsourcecode", address });
+  const [entry] = Array.isArray(result) ? (result as { SourceCode?: string }[]) : [];
+  return Boolean(entry?.SourceCode);
+}
+
+/** Submit a request; returns the explorer's submission id, or null if the source was already verified */
+export async function submitVerification(api: ExplorerApi, request: VerificationRequest): Promise<string | null> {
+  const { status, result } = await callExplorer(
+    api,
+    {
+      module: "contract",
+      action: "verifysourcecode",
+      codeformat: "solidity-standard-json-input",
+      contractaddress: request.address,
+      contractname: request.contractName,
+      compilerversion: request.compilerVersion,
+      sourceCode: JSON.stringify(request.standardJsonInput),
+      // Misspelled in the Etherscan API itself
+      constructorArguements: request.constructorArguments.replace(/^0x/, ""),
+    },
+    "POST",
+  );
+
+  if (status === "1") return String(result);
+  if (/already verified/i.test(String(result))) return null;
+  throw new ExplorerApiError(String(result));
+}
+
+export async function checkVerificationStatus(
+  api: ExplorerApi,
+  guid: string,
+): Promise<{ status: VerificationStatus; message: string }> {
+  const { result } = await callExplorer(api, { module: "contract", action: "checkverifystatus", guid });
+  const message = String(result);
+  return { status: statusOf(message), message };
+}
+
+export interface VerifyContractsOptions {
+  api: ExplorerApi;
+  artifacts: ArtifactManager;
+  store: ManifestStore;
+  /** Manifest keys to verify; defaults to every contract in the manifest */
+  names?: readonly string[];
+  /** Resubmit contracts the manifest or the explorer already records as verified */
+  force?: boolean;
+  pollIntervalMs?: number;
+  /** Give up polling after this long; the contract stays pending for the next run */
+  timeoutMs?: number;
+  /** Called whenever a contract's verification state is recorded */
+  onUpdate?: (name: string, verification: ContractVerification) => void;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function verifyContract(
+  options: VerifyContractsOptions,
+  name: string,
+  contract: ContractDeployment,
+): Promise<ContractVerification> {
+  const { api, force = false, pollIntervalMs = 5_000, timeoutMs = 120_000 } = options;
+  const deadline = Date.now() + timeoutMs;
+  const state = (status: VerificationStatus, guid: string | null, message: string): ContractVerification => ({
+    status,
+    guid,
+    message,
+    updatedAt: new Date().toISOString(),
+  });
+  const record = (verification: ContractVerification) => {
+    recordVerification(options.store, name, verification);
+    options.onUpdate?.(name, verification);
+    return verification;
+  };
+
+  try {
+    if (!force && (await isVerified(api, contract.address))) {
+      return record(state("verified", null, "Already verified"));
+    }
+
+    let guid = !force && contract.verification?.status === "pending" ? contract.verification.guid : null;
+    if (!guid) {
+      const request = await buildVerificationRequest(options.artifacts, contract);
+      guid = await submitVerification(api, request);
+      if (guid === null) return record(state("verified", null, "Already verified"));
+      record(state("pending", guid, "Submitted"));
+    }
+
+    for (;;) {
+      await sleep(pollIntervalMs);
+      const { status, message } = await checkVerificationStatus(api, guid);
+      if (status !== "pending") return record(state(status, guid, message));
+      if (Date.now() >= deadline) {
+        return record(state("pending", guid, `${message}; run again to keep polling`));
+      }
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return record(state("failed", contract.verification?.guid ?? null, message));
+  }
+}
+
+/**
+ * Verify manifest contracts one by one, recording each result in the
+ * manifest. Failures are recorded rather than thrown, so one bad contract
+ * does not stop the rest.
+ */
+export async function verifyManifestContracts(
+  options: VerifyContractsOptions,
+): Promise<Record<string, ContractVerification>> {
+  const manifest = options.store.read();
+  const names = options.names ?? Object.keys(manifest.contracts);
+  const unknown = names.filter((name) => !manifest.contracts[name]);
+  if (unknown.length > 0) {
+    throw new Error(`Not in the manifest for chain ${manifest.chainId}: ${unknown.join(", ")}`);
+  }
+
+  const results: Record<string, ContractVerification> = {};
+  for (const name of names) {
+    const contract = options.store.read().contracts[name];
+    if (!options.force && contract.verification?.status === "verified") {
+      results[name] = contract.verification;
+      continue;
+    }
+    results[name] = await verifyContract(options, name, contract);
+  }
+  return results;
+}
@@ -0,0 +1,236 @@
+import type { HardhatViemHelpers } from "@nomicfoundation/hardhat-viem/types";
+import type { ArtifactManager } from "hardhat/types/artifacts";
+import type { Abi, Address, Hash } from "viem";
+import { getDeployedAddress, type DeploymentManifest } from "../sdk/manifest";
+import {
+  type DeployContractStep,
+  type DeployParams,
+  type DeployStep,
+  type GrantRoleStep,
+  resolveValue,
+  stepId,
+  validatePlan,
+} from "./deploy-plan";
+import {
+  recordDeployment,
+  recordRoleGrant,
+  roleGrantFromReceipt,
+  toContractDeployment,
+  type ManifestStore,
+} from "./deployment-manifest";
+
+/**
+ * Deployment orchestrator
+ * @dev Runs a `DeployStep` plan against one network connection, writing the
+ * manifest after every step. A step already recorded in the manifest (and
+ * still live on chain) is skipped, so re-running after a failure picks up
+ * where the last run stopped.
+ */
+
+export type StepStatus = "deployed" | "granted" | "skipped";
+
+export interface StepResult {
+  id: string;
+  status: StepStatus;
+  /** Contract address for deploy steps */
+  address?: Address;
+  transactionHash?: Hash;
+  gasUsed?: bigint;
+}
+
+export interface DeployRunOptions {
+  plan: readonly DeployStep[];
+  params: DeployParams;
+  viem: HardhatViemHelpers;
+  artifacts: ArtifactManager;
+  store: ManifestStore;
+  /** Called after each step, e.g. to print progress */
+  onStep?: (result: StepResult) => void;
+}
+
+export class DeployStepError extends Error {
+  constructor(
+    readonly step: DeployStep,
+    readonly completed: StepResult[],
+    readonly error: unknown,
+  ) {
+    super(`Step "${stepId(step)}" failed: ${error instanceof Error ? error.message : String(error)}`);
+    this.name = "DeployStepError";
+  }
+}
+
+type Viem = HardhatViemHelpers;
+type PublicClient = Awaited<ReturnType<Viem["getPublicClient"]>>;
+type WalletClient = Awaited<ReturnType<Viem["getWalletClient"]>>;
+
+interface RunContext {
+  options: DeployRunOptions;
+  publicClient: PublicClient;
+  walletClient: WalletClient;
+  abis: Map<string, Abi>;
+}
+
+function deployedAddresses(manifest: DeploymentManifest): Record<string, Address> {
+  return Object.fromEntries(
+    Object.entries(manifest.contracts).map(([name, contract]) => [name, contract.address]),
+  );
+}
+
+async function getAbi(context: RunContext, artifactName: string): Promise<Abi> {
+  const cached = context.abis.get(artifactName);
+  if (cached) return cached;
+
+  const { abi } = await context.options.artifacts.readArtifact(artifactName);
+  context.abis.set(artifactName, abi as Abi);
+  return abi as Abi;
+}
+
+async function runDeployStep(context: RunContext, step: DeployContractStep): Promise<StepResult> {
+  const { options, publicClient, walletClient } = context;
+  const id = stepId(step);
+  const manifest = options.store.read();
+  const existing = manifest.contracts[step.name];
+
+  if (existing) {
+    const code = await publicClient.getCode({ address: existing.address });
+    if (!code || code === "0x") {
+      throw new Error(
+        `Manifest records ${step.name} at ${existing.address} but there is no code there; ` +
+          `remove the entry to redeploy it`,
+      );
+    }
+    return { id, status: "skipped", address: existing.address };
+  }
+
+  const addresses = deployedAddresses(manifest);
+  const args = (step.args ?? []).map((arg) => resolveValue(arg, addresses, options.params));
+  const libraries = Object.fromEntries(
+    Object.entries(step.libraries ?? {}).map(([library, ref]) => [library, getDeployedAddress(manifest, ref.name)]),
+  );
+
+  const artifact = step.artifact ?? step.name;
+  const { deploymentTransaction } = await options.viem.sendDeploymentTransaction(artifact, args, {
+    client: { wallet: walletClient },
+    libraries,
+  });
+  const receipt = await publicClient.waitForTransactionReceipt({ hash: deploymentTransaction.hash });
+  if (receipt.status !== "success") {
+    throw new Error(`Deployment transaction ${receipt.transactionHash} reverted`);
+  }
+
+  const deployment = toContractDeployment({ contractName: artifact, constructorArgs: args, libraries, receipt });
+  recordDeployment(options.store, step.name, deployment);
+
+  return {
+    id,
+    status: "deployed",
+    address: deployment.address,
+    transactionHash: receipt.transactionHash,
+    gasUsed: receipt.gasUsed,
+  };
+}
+
+async function runGrantRoleStep(context: RunContext, step: GrantRoleStep): Promise<StepResult> {
+  const { options, publicClient, walletClient } = context;
+  const id = stepId(step);
+  const manifest = options.store.read();
+  const target = manifest.contracts[step.contract];
+  if (!target) {
+    throw new Error(`${step.contract} is not deployed`);
+  }
+
+  const abi = await getAbi(context, target.contractName);
+  const addresses = deployedAddresses(manifest);
+  const account = resolveValue(step.account, addresses, options.params) as Address;
+
+  const roleHash = (await publicClient.readContract({
+    address: target.address,
+    abi,
+    functionName: step.role,
+  })) as Hash;
+
+  const hasRole = await publicClient.readContract({
+    address: target.address,
+    abi,
+    functionName: "hasRole",
+    args: [roleHash, account],
+  });
+
+  if (hasRole) {
+    // Granted outside the orchestrator (or the manifest write was lost); backfill the record
+    const recorded = manifest.roleGrants.some(
+      (grant) =>
+        grant.contract === step.contract &&
+        grant.roleHash === roleHash &&
+        grant.account.toLowerCase() === account.toLowerCase(),
+    );
+    if (!recorded) {
+      recordRoleGrant(options.store, {
+        contract: step.contract,
+        role: step.role,
+        roleHash,
+        account,
+        transactionHash: null,
+        blockNumber: null,
+      });
+    }
+    return { id, status: "skipped" };
+  }
+
+  const functionName = step.via?.functionName ?? "grantRole";
+  const args = step.via
+    ? step.via.args.map((arg) => resolveValue(arg, addresses, options.params))
+    : [roleHash, account];
+
+  const hash = await walletClient.writeContract({
+    address: target.address,
+    abi,
+    functionName,
+    args,
+    account: walletClient.account,
+    chain: walletClient.chain,
+  });
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== "success") {
+    throw new Error(`${functionName} transaction ${hash} reverted`);
+  }
+
+  recordRoleGrant(options.store, roleGrantFromReceipt(step.contract, step.role, roleHash, account, receipt));
+
+  return { id, status: "granted", transactionHash: hash, gasUsed: receipt.gasUsed };
+}
+
+/**
+ * Run every pending step of a plan in order.
+ * Throws `DeployStepError` on the first failure; the manifest keeps every step
+ * completed before it.
+ */
+export async function runDeployPlan(options: DeployRunOptions): Promise<StepResult[]> {
+  validatePlan(options.plan);
+
+  const context: RunContext = {
+    options,
+    publicClient: await options.viem.getPublicClient(),
+    walletClient: await options.viem.getWalletClient(options.params.deployer),
+    abis: new Map(),
+  };
+
+  const results: StepResult[] = [];
+  for (const step of options.plan) {
+    let result: StepResult;
+    try {
+      result = step.kind === "deploy" ? await runDeployStep(context, step) : await runGrantRoleStep(context, step);
+    } catch (error) {
+      throw new DeployStepError(step, results, error);
+    }
+
+    results.push(result);
+    options.onStep?.(result);
+  }
+
+  return results;
+}
+
+export function totalGasUsed(results: readonly StepResult[]): bigint {
+  return results.reduce((total, result) => total + (result.gasUsed ?? 0n), 0n);
+}
@@ -0,0 +1,175 @@
+import type { Address } from "viem";
+
+/**
+ * Declarative deployment plan.
+ *
+ * A plan is an ordered list of steps: contract deployments and the role grants
+ * that wire them together. Steps only refer to contracts deployed earlier in
+ * the plan, by manifest key, so the orchestrator can resume from whatever the
+ * manifest already records. See `lib/deploy-orchestrator.ts`.
+ */
+
+/** Values supplied per run rather than written into the plan */
+export interface DeployParams {
+  deployer: Address;
+  platformFeeRecipient: Address;
+  platformTreasury: Address;
+}
+
+export interface ContractRef {
+  kind: "contract";
+  name: string;
+}
+
+export interface ParamRef {
+  kind: "param";
+  name: keyof DeployParams;
+}
+
+export type PlanValue = string | number | bigint | boolean | ContractRef | ParamRef;
+
+export interface DeployContractStep {
+  kind: "deploy";
+  /** Manifest key */
+  name: string;
+  /** Artifact to deploy; defaults to `name` */
+  artifact?: string;
+  args?: PlanValue[];
+  /** Linked libraries, by library name */
+  libraries?: Record<string, ContractRef>;
+}
+
+export interface GrantRoleStep {
+  kind: "grantRole";
+  /** Manifest key of the contract holding the role */
+  contract: string;
+  /** Public role constant on the contract, e.g. `MINTER_ROLE` */
+  role: string;
+  account: PlanValue;
+  /** Function that grants the role; defaults to `grantRole(roleHash, account)` */
+  via?: { functionName: string; args: PlanValue[] };
+}
+
+export type DeployStep = DeployContractStep | GrantRoleStep;
+
+export function contractRef(name: string): ContractRef {
+  return { kind: "contract", name };
+}
+
+export function paramRef(name: keyof DeployParams): ParamRef {
+  return { kind: "param", name };
+}
+
+export function stepId(step: DeployStep): string {
+  if (step.kind === "deploy") return `deploy ${step.name}`;
+  return `grant ${step.contract}.${step.role} -> ${describeValue(step.account)}`;
+}
+
+function describeValue(value: PlanValue): string {
+  if (typeof value === "object") return value.kind === "param" ? `$${value.name}` : value.name;
+  return String(value);
+}
+
+function isContractRef(value: PlanValue): value is ContractRef {
+  return typeof value === "object" && value.kind === "contract";
+}
+
+/** Resolve plan values against deployed addresses and run parameters */
+export function resolveValue(
+  value: PlanValue,
+  addresses: Record<string, Address>,
+  params: DeployParams,
+): unknown {
+  if (typeof value !== "object") return value;
+  if (value.kind === "param") return params[value.name];
+
+  const address = addresses[value.name];
+  if (!address) {
+    throw new Error(`${value.name} has not been deployed yet`);
+  }
+  return address;
+}
+
+/**
+ * Check that every step only depends on contracts deployed before it and
+ * that no step appears twice. Runs before anything is sent.
+ */
+export function validatePlan(plan: readonly DeployStep[]): void {
+  const deployed = new Set<string>();
+  const seen = new Set<string>();
+
+  const requireDeployed = (ref: ContractRef, step: DeployStep) => {
+    if (!deployed.has(ref.name)) {
+      throw new Error(`Step "${stepId(step)}" depends on ${ref.name}, which is not deployed earlier in the plan`);
+    }
+  };
+
+  for (const step of plan) {
+    const id = stepId(step);
+    if (seen.has(id)) {
+      throw new Error(`Step "${id}" appears more than once in the plan`);
+    }
+    seen.add(id);
+
+    if (step.kind === "deploy") {
+      for (const arg of step.args ?? []) {
+        if (isContractRef(arg)) requireDeployed(arg, step);
+      }
+      for (const library of Object.values(step.libraries ?? {})) {
+        requireDeployed(library, step);
+      }
+      deployed.add(step.name);
+    } else {
+      requireDeployed(contractRef(step.contract), step);
+      for (const arg of [step.account, ...(step.via?.args ?? [])]) {
+        if (isContractRef(arg)) requireDeployed(arg, step);
+      }
+    }
+  }
+}
+
+/**
+ * The TuuKeep ecosystem. Wiring mirrors `test/integration/utils/deployment-helper.ts`.
+ */
+export const TUUKEEP_PLAN: readonly DeployStep[] = [
+  { kind: "deploy", name: "TuuKeepAccessControl" },
+  { kind: "deploy", name: "Randomness", args: [paramRef("deployer")] },
+  {
+    kind: "deploy",
+    name: "TuuCoin",
+    args: [contractRef("TuuKeepAccessControl"), paramRef("deployer")],
+  },
+  { kind: "deploy", name: "SVGGenerator" },
+  {
+    kind: "deploy",
+    name: "TuuKeepCabinet",
+    args: [
+      contractRef("TuuKeepAccessControl"),
+      contractRef("TuuCoin"),
+      contractRef("Randomness"),
+      paramRef("platformFeeRecipient"),
+    ],
+    libraries: { SVGGenerator: contractRef("SVGGenerator") },
+  },
+  {
+    kind: "deploy",
+    name: "TuuKeepMarketplace",
+    args: [contractRef("TuuKeepCabinet"), contractRef("TuuKeepAccessControl"), paramRef("platformFeeRecipient")],
+  },
+  // TuuKeepTierSale is left out until its purchase call matches the cabinet:
+  // it calls a three-argument `mintCabinet` the cabinet does not implement,
+  // so every purchase reverts
+
+  // Cabinet mints consolation TuuCoin and registers itself as a cabinet operator
+  { kind: "grantRole", contract: "TuuCoin", role: "MINTER_ROLE", account: contractRef("TuuKeepCabinet") },
+  { kind: "grantRole", contract: "TuuCoin", role: "CABINET_OPERATOR_ROLE", account: contractRef("TuuKeepCabinet") },
+
+  // Cabinet draws prizes from Randomness
+  {
+    kind: "grantRole",
+    contract: "Randomness",
+    role: "CONSUMER_ROLE",
+    account: contractRef("TuuKeepCabinet"),
+    via: { functionName: "addConsumer", args: [contractRef("TuuKeepCabinet")] },
+  },
+];
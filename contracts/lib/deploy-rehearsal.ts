@@ -0,0 +1,102 @@
+import { BaseError, type Abi, type PublicClient } from "viem";
+import { decodeTuuKeepRevert, type TuuKeepRevert } from "../sdk";
+import { checkBytecode, type BytecodeWarning, type NetworkProfile } from "./bytecode-checks";
+import { stepId, type DeployStep } from "./deploy-plan";
+import { DeployStepError, runDeployPlan, totalGasUsed, type DeployRunOptions, type StepResult } from "./deploy-orchestrator";
+import { validateDeployment, type ValidationCheck } from "./deployment-validation";
+
+/**
+ * Deployment rehearsal
+ * @dev Runs a plan end to end on a simulated chain, usually a fork of the
+ * target network, then runs the post-deploy validation against the result.
+ * Nothing is signed with a real key: the caller connects `viem` to the
+ * simulation and impersonates the deployer. The report is what a real run
+ * would hit — gas, the first reverted step with its decoded error, failed
+ * validation checks and bytecode the target EVM may reject.
+ */
+
+export interface RehearsalOptions extends DeployRunOptions {
+  /** EVM of the network being rehearsed, for the bytecode checks */
+  profile: NetworkProfile;
+}
+
+export interface RehearsalFailure {
+  step: string;
+  /** Decoded against the plan's ABIs; undefined when the step failed without reverting */
+  revert?: TuuKeepRevert;
+  message: string;
+}
+
+export interface RehearsalReport {
+  results: StepResult[];
+  gasUsed: bigint;
+  failure?: RehearsalFailure;
+  /** Empty when the plan did not complete */
+  checks: ValidationCheck[];
+  warnings: BytecodeWarning[];
+}
+
+function planArtifacts(plan: readonly DeployStep[]): string[] {
+  const names = plan.flatMap((step) => (step.kind === "deploy" ? [step.artifact ?? step.name] : []));
+  return [...new Set(names)];
+}
+
+/**
+ * Decode the revert behind a failed step. Grant steps revert through a typed
+ * contract call and decode directly; deployments only carry raw revert data,
+ * which is matched against every ABI in the plan.
+ */
+export function decodeStepRevert(error: unknown, abis: readonly Abi[]): TuuKeepRevert | undefined {
+  return decodeTuuKeepRevert(error, abis);
+}
+
+/** Check the bytecode of every contract the plan deploys */
+export async function checkPlanBytecode(
+  plan: readonly DeployStep[],
+  artifacts: DeployRunOptions["artifacts"],
+  profile: NetworkProfile,
+): Promise<BytecodeWarning[]> {
+  const warnings: BytecodeWarning[] = [];
+  for (const name of planArtifacts(plan)) {
+    warnings.push(...checkBytecode(await artifacts.readArtifact(name), profile));
+  }
+  return warnings;
+}
+
+export async function rehearseDeployment(options: RehearsalOptions): Promise<RehearsalReport> {
+  const warnings = await checkPlanBytecode(options.plan, options.artifacts, options.profile);
+
+  let results: StepResult[];
+  try {
+    results = await runDeployPlan(options);
+  } catch (error) {
+    if (!(error instanceof DeployStepError)) throw error;
+
+    const abis = await Promise.all(
+      planArtifacts(options.plan).map(async (name) => (await options.artifacts.readArtifact(name)).abi as Abi),
+    );
+    const revert = decodeStepRevert(error.error, abis);
+    const cause =
+      error.error instanceof BaseError
+        ? error.error.shortMessage
+        : error.error instanceof Error
+          ? error.error.message
+          : String(error.error);
+    return {
+      results: error.completed,
+      gasUsed: totalGasUsed(error.completed),
+      failure: {
+        step: stepId(error.step),
+        revert,
+        message: revert ? `reverted with ${revert.message}` : cause,
+      },
+      checks: [],
+      warnings,
+    };
+  }
+
+  const publicClient = (await options.viem.getPublicClient()) as unknown as PublicClient;
+  const checks = await validateDeployment(publicClient, options.store.read());
+
+  return { results, gasUsed: totalGasUsed(results), checks, warnings };
+}
@@ -0,0 +1,205 @@
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import type { Address, Hash, TransactionReceipt } from "viem";
+import {
+  createEmptyManifest,
+  parseManifest,
+  type CompilerSettings,
+  type ContractDeployment,
+  type ContractVerification,
+  type DeploymentManifest,
+  type ManifestValue,
+  type RoleGrant,
+} from "../sdk/manifest";
+import { SOLIDITY_SETTINGS, SOLIDITY_VERSION } from "./compiler-settings";
+
+// ES module compatibility
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Filesystem store for deployment manifests.
+ *
+ * Every deploy, verify and validate script goes through these helpers so the
+ * manifest is validated on each read and write. See `sdk/manifest.ts` for the
+ * schema.
+ */
+
+export const MANIFEST_DIR = path.join(__dirname, "../deployments/manifest");
+
+export function manifestPath(chainId: number): string {
+  return path.join(MANIFEST_DIR, `${chainId}.json`);
+}
+
+/** Read and validate the manifest for a chain, or undefined if none exists */
+export function readManifest(chainId: number): DeploymentManifest | undefined {
+  const file = manifestPath(chainId);
+  if (!fs.existsSync(file)) return undefined;
+  return parseManifest(JSON.parse(fs.readFileSync(file, "utf-8")));
+}
+
+/** Like `readManifest` but fails when the chain has never been deployed to */
+export function requireManifest(chainId: number): DeploymentManifest {
+  const manifest = readManifest(chainId);
+  if (!manifest) {
+    throw new Error(`No deployment manifest for chain ${chainId} at ${manifestPath(chainId)}`);
+  }
+  return manifest;
+}
+
+/** Earliest recorded deployment block, where scans of TuuKeep's history can start */
+export function manifestStartBlock(manifest: DeploymentManifest): bigint {
+  const blocks = Object.values(manifest.contracts)
+    .map((contract) => contract.deployment.blockNumber)
+    .filter((blockNumber): blockNumber is number => blockNumber !== null);
+  return blocks.length ? BigInt(Math.min(...blocks)) : 0n;
+}
+
+/** Read the manifest for a chain, starting an empty one on first deployment */
+export function loadManifest(chainId: number): DeploymentManifest {
+  return readManifest(chainId) ?? createEmptyManifest(chainId);
+}
+
+export function writeManifest(manifest: DeploymentManifest): DeploymentManifest {
+  const next = parseManifest({ ...manifest, updatedAt: new Date().toISOString() });
+
+  fs.mkdirSync(MANIFEST_DIR, { recursive: true });
+  const file = manifestPath(next.chainId);
+  const tempFile = `${file}.tmp`;
+  fs.writeFileSync(tempFile, `${JSON.stringify(next, null, 2)}\n`);
+  fs.renameSync(tempFile, file);
+
+  return next;
+}
+
+/** Compiler settings the current artifacts were built with */
+export function currentCompilerSettings(): CompilerSettings {
+  return {
+    version: SOLIDITY_VERSION,
+    optimizer: { ...SOLIDITY_SETTINGS.optimizer },
+    viaIR: SOLIDITY_SETTINGS.viaIR,
+    evmVersion: SOLIDITY_SETTINGS.evmVersion,
+  };
+}
+
+/** Convert viem-style arguments into JSON-safe manifest values */
+export function toManifestValues(args: readonly unknown[]): ManifestValue[] {
+  return args.map((arg): ManifestValue => {
+    if (typeof arg === "bigint") return arg.toString();
+    if (Array.isArray(arg)) return toManifestValues(arg);
+    if (arg === null || ["string", "number", "boolean"].includes(typeof arg)) {
+      return arg as ManifestValue;
+    }
+    throw new Error(`Cannot store constructor argument of type ${typeof arg} in the manifest`);
+  });
+}
+
+export interface DeploymentRecord {
+  contractName: string;
+  constructorArgs?: readonly unknown[];
+  libraries?: Record<string, Address>;
+  receipt: Pick<TransactionReceipt, "contractAddress" | "transactionHash" | "blockNumber" | "gasUsed" | "from">;
+}
+
+/** Build a manifest entry from a confirmed deployment receipt */
+export function toContractDeployment(record: DeploymentRecord): ContractDeployment {
+  const { receipt } = record;
+  if (!receipt.contractAddress) {
+    throw new Error(`Receipt ${receipt.transactionHash} did not create a contract`);
+  }
+
+  return {
+    contractName: record.contractName,
+    address: receipt.contractAddress,
+    constructorArgs: toManifestValues(record.constructorArgs ?? []),
+    libraries: record.libraries ?? {},
+    deployment: {
+      transactionHash: receipt.transactionHash,
+      blockNumber: Number(receipt.blockNumber),
+      deployer: receipt.from,
+      gasUsed: receipt.gasUsed.toString(),
+      timestamp: new Date().toISOString(),
+    },
+    compiler: currentCompilerSettings(),
+  };
+}
+
+/**
+ * Where a deployment run keeps its manifest. Real deployments use the file on
+ * disk; dry runs and tests keep theirs in memory so they never touch it.
+ */
+export interface ManifestStore {
+  read(): DeploymentManifest;
+  write(manifest: DeploymentManifest): DeploymentManifest;
+}
+
+export function fileManifestStore(chainId: number): ManifestStore {
+  return {
+    read: () => loadManifest(chainId),
+    write: writeManifest,
+  };
+}
+
+export function memoryManifestStore(initial: DeploymentManifest): ManifestStore {
+  let current = parseManifest(initial);
+  return {
+    read: () => parseManifest(current),
+    write: (manifest) => {
+      current = parseManifest({ ...manifest, updatedAt: new Date().toISOString() });
+      return current;
+    },
+  };
+}
+
+export function recordDeployment(
+  store: ManifestStore,
+  name: string,
+  deployment: ContractDeployment,
+): DeploymentManifest {
+  const manifest = store.read();
+  manifest.contracts[name] = deployment;
+  return store.write(manifest);
+}
+
+export function recordVerification(
+  store: ManifestStore,
+  name: string,
+  verification: ContractVerification,
+): DeploymentManifest {
+  const manifest = store.read();
+  const contract = manifest.contracts[name];
+  if (!contract) {
+    throw new Error(`${name} is not in the manifest`);
+  }
+  contract.verification = verification;
+  return store.write(manifest);
+}
+
+export function recordRoleGrant(store: ManifestStore, grant: RoleGrant): DeploymentManifest {
+  const manifest = store.read();
+  const isSameGrant = (existing: RoleGrant) =>
+    existing.contract === grant.contract &&
+    existing.roleHash === grant.roleHash &&
+    existing.account.toLowerCase() === grant.account.toLowerCase();
+
+  manifest.roleGrants = [...manifest.roleGrants.filter((existing) => !isSameGrant(existing)), grant];
+  return store.write(manifest);
+}
+
+export function roleGrantFromReceipt(
+  contract: string,
+  role: string,
+  roleHash: Hash,
+  account: Address,
+  receipt: Pick<TransactionReceipt, "transactionHash" | "blockNumber">,
+): RoleGrant {
+  return {
+    contract,
+    role,
+    roleHash,
+    account,
+    transactionHash: receipt.transactionHash,
+    blockNumber: Number(receipt.blockNumber),
+  };
+}
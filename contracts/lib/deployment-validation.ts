@@ -0,0 +1,163 @@
+import { formatEther, isAddressEqual, type Address, type PublicClient } from "viem";
+import {
+  TuuKeepClient,
+  getDeployedAddress,
+  getTuuKeepAddresses,
+  getTuuKeepContracts,
+  tuuKeepAccessControlAbi,
+  type DeploymentManifest,
+} from "../sdk";
+
+/**
+ * Post-deployment validation
+ * @dev Checks a deployed ecosystem against its manifest: every contract has
+ * code, every recorded role grant still holds, and the contracts point at
+ * each other. Shared by `scripts/validate-deployment.ts` and the fork
+ * rehearsal, which runs it against the simulated chain.
+ */
+
+export type ValidationSection = "deployment" | "access control" | "dependencies" | "functionality";
+
+export interface ValidationCheck {
+  section: ValidationSection;
+  description: string;
+  ok: boolean;
+  /** Why the check failed, or what it read when it passed */
+  detail?: string;
+}
+
+const VALIDATED_CONTRACTS = {
+  accessControl: "TuuKeepAccessControl",
+  tuuCoin: "TuuCoin",
+  randomness: "Randomness",
+  cabinet: "TuuKeepCabinet",
+  marketplace: "TuuKeepMarketplace",
+} as const;
+
+type ContractAddresses = Record<keyof typeof VALIDATED_CONTRACTS, Address>;
+
+export function validatedAddresses(manifest: DeploymentManifest): ContractAddresses {
+  return Object.fromEntries(
+    Object.entries(VALIDATED_CONTRACTS).map(([key, name]) => [key, getDeployedAddress(manifest, name)]),
+  ) as ContractAddresses;
+}
+
+async function checkDeployment(publicClient: PublicClient, addresses: ContractAddresses): Promise<ValidationCheck[]> {
+  return Promise.all(
+    Object.entries(addresses).map(async ([name, address]): Promise<ValidationCheck> => {
+      const code = await publicClient.getCode({ address });
+      const ok = Boolean(code && code !== "0x");
+      return {
+        section: "deployment",
+        description: `${name} has bytecode`,
+        ok,
+        detail: ok ? address : `no code at ${address}`,
+      };
+    }),
+  );
+}
+
+async function checkAccessControl(publicClient: PublicClient, manifest: DeploymentManifest): Promise<ValidationCheck[]> {
+  // Every role grant recorded during deployment must still hold on-chain
+  return Promise.all(
+    manifest.roleGrants.map(async (grant): Promise<ValidationCheck> => {
+      const hasRole = await publicClient.readContract({
+        address: getDeployedAddress(manifest, grant.contract),
+        abi: tuuKeepAccessControlAbi,
+        functionName: "hasRole",
+        args: [grant.roleHash, grant.account],
+      });
+      return {
+        section: "access control",
+        description: `${grant.contract}.${grant.role} held by ${grant.account}`,
+        ok: hasRole,
+        detail: hasRole ? undefined : "no longer held",
+      };
+    }),
+  );
+}
+
+async function checkDependencies(client: TuuKeepClient, addresses: ContractAddresses): Promise<ValidationCheck[]> {
+  const { cabinet, tuuCoin } = getTuuKeepContracts(client.addresses, client.publicClient);
+  const [tuuCoinAccessControl, cabinetTuuCoin, cabinetRandomness] = await Promise.all([
+    tuuCoin.read.accessControl(),
+    cabinet.read.tuuCoin(),
+    cabinet.read.randomness(),
+  ]);
+
+  const pointsAt = (description: string, actual: Address, expected: Address): ValidationCheck => {
+    const ok = isAddressEqual(actual, expected);
+    return { section: "dependencies", description, ok, detail: ok ? undefined : `points at ${actual}` };
+  };
+
+  return [
+    pointsAt("TuuCoin uses the access control contract", tuuCoinAccessControl, addresses.accessControl),
+    pointsAt("Cabinet uses TuuCoin", cabinetTuuCoin, addresses.tuuCoin),
+    pointsAt("Cabinet uses Randomness", cabinetRandomness, addresses.randomness),
+  ];
+}
+
+async function checkFunctionality(client: TuuKeepClient): Promise<ValidationCheck[]> {
+  const { cabinet, tuuCoin } = getTuuKeepContracts(client.addresses, client.publicClient);
+  const [coinName, coinSymbol, coinSupply, cabinetName, cabinetSymbol, cabinetSupply] = await Promise.all([
+    tuuCoin.read.name(),
+    tuuCoin.read.symbol(),
+    tuuCoin.read.totalSupply(),
+    cabinet.read.name(),
+    cabinet.read.symbol(),
+    cabinet.read.totalSupply(),
+  ]);
+
+  return [
+    {
+      section: "functionality",
+      description: "TuuCoin metadata reads",
+      ok: true,
+      detail: `${coinName} (${coinSymbol}), total supply ${formatEther(coinSupply)}`,
+    },
+    {
+      section: "functionality",
+      description: "Cabinet metadata reads",
+      ok: true,
+      detail: `${cabinetName} (${cabinetSymbol}), total supply ${cabinetSupply}`,
+    },
+  ];
+}
+
+/** Turn a check that threw into a failed check instead of aborting the whole run */
+async function settle(
+  section: ValidationSection,
+  description: string,
+  run: () => Promise<ValidationCheck[]>,
+): Promise<ValidationCheck[]> {
+  try {
+    return await run();
+  } catch (error) {
+    return [{ section, description, ok: false, detail: error instanceof Error ? error.message : String(error) }];
+  }
+}
+
+/**
+ * Run every check against `publicClient`. Failures are returned, not thrown,
+ * so callers can print the full list.
+ */
+export async function validateDeployment(
+  publicClient: PublicClient,
+  manifest: DeploymentManifest,
+): Promise<ValidationCheck[]> {
+  const addresses = validatedAddresses(manifest);
+  const client = new TuuKeepClient({ publicClient, addresses: getTuuKeepAddresses(manifest) });
+
+  const deployment = await checkDeployment(publicClient, addresses);
+  if (deployment.some((check) => !check.ok)) {
+    // Reads against missing contracts would only repeat the same failure
+    return deployment;
+  }
+
+  return [
+    ...deployment,
+    ...(await settle("access control", "Read recorded role grants", () => checkAccessControl(publicClient, manifest))),
+    ...(await settle("dependencies", "Read contract dependencies", () => checkDependencies(client, addresses))),
+    ...(await settle("functionality", "Read contract metadata", () => checkFunctionality(client))),
+  ];
+}
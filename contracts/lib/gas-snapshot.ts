@@ -0,0 +1,137 @@
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+
+/**
+ * Gas Snapshots
+ *
+ * A snapshot maps an entrypoint under a fixed scenario, e.g.
+ * `TuuKeepCabinet.play (lose)`, to the gas its transaction used. The
+ * committed snapshot is the baseline that `test/gas/` compares every run
+ * against: an entry that grows by more than the threshold is a regression,
+ * and the comparison renders as a markdown table for reviews.
+ */
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const GAS_SNAPSHOT_FILE = path.join(__dirname, "../gas-snapshot.json");
+export const GAS_REPORT_FILE = path.join(__dirname, "../gas-report.md");
+
+/** Allowed growth before an entry counts as a regression, in percent */
+export const DEFAULT_GAS_THRESHOLD_PERCENT = 2;
+
+export type GasSnapshot = Record<string, bigint>;
+
+export type GasChangeStatus = "added" | "removed" | "regressed" | "increased" | "decreased" | "unchanged";
+
+export interface GasChange {
+  entry: string;
+  before?: bigint;
+  after?: bigint;
+  /** `after - before`, 0 for added and removed entries */
+  delta: bigint;
+  /** Relative change in percent, 0 for added and removed entries */
+  percent: number;
+  status: GasChangeStatus;
+}
+
+export interface GasComparison {
+  thresholdPercent: number;
+  changes: GasChange[];
+  regressions: GasChange[];
+}
+
+export function readGasSnapshot(file: string = GAS_SNAPSHOT_FILE): GasSnapshot | undefined {
+  if (!fs.existsSync(file)) return undefined;
+  const raw = JSON.parse(fs.readFileSync(file, "utf-8")) as Record<string, unknown>;
+  const snapshot: GasSnapshot = {};
+  for (const [entry, gas] of Object.entries(raw)) {
+    if (typeof gas !== "number" || !Number.isSafeInteger(gas) || gas < 0) {
+      throw new Error(`Gas snapshot ${file}: "${entry}" must be a non-negative integer, got ${JSON.stringify(gas)}`);
+    }
+    snapshot[entry] = BigInt(gas);
+  }
+  return snapshot;
+}
+
+/** Write entries sorted by name, so snapshot diffs stay small */
+export function writeGasSnapshot(snapshot: GasSnapshot, file: string = GAS_SNAPSHOT_FILE): void {
+  const sorted = Object.fromEntries(
+    Object.keys(snapshot)
+      .sort()
+      .map((entry) => [entry, Number(snapshot[entry])]),
+  );
+  fs.writeFileSync(file, `${JSON.stringify(sorted, null, 2)}\n`);
+}
+
+export function compareGasSnapshots(
+  baseline: GasSnapshot,
+  current: GasSnapshot,
+  thresholdPercent: number = DEFAULT_GAS_THRESHOLD_PERCENT,
+): GasComparison {
+  const entries = [...new Set([...Object.keys(baseline), ...Object.keys(current)])].sort();
+  const changes = entries.map((entry): GasChange => {
+    const before = baseline[entry];
+    const after = current[entry];
+    if (before === undefined) return { entry, after, delta: 0n, percent: 0, status: "added" };
+    if (after === undefined) return { entry, before, delta: 0n, percent: 0, status: "removed" };
+
+    const delta = after - before;
+    const percent = before === 0n ? (delta === 0n ? 0 : Infinity) : (Number(delta) / Number(before)) * 100;
+    let status: GasChangeStatus = "unchanged";
+    if (delta > 0n) status = percent > thresholdPercent ? "regressed" : "increased";
+    if (delta < 0n) status = "decreased";
+    return { entry, before, after, delta, percent, status };
+  });
+
+  return { thresholdPercent, changes, regressions: changes.filter(({ status }) => status === "regressed") };
+}
+
+const STATUS_LABELS: Record<GasChangeStatus, string> = {
+  added: "🆕 added",
+  removed: "🗑️ removed",
+  regressed: "❌ regressed",
+  increased: "⚠️ increased",
+  decreased: "✅ decreased",
+  unchanged: "",
+};
+
+function formatGas(gas: bigint | undefined): string {
+  return gas === undefined ? "-" : gas.toLocaleString("en-US");
+}
+
+function formatDelta({ delta, percent, status }: GasChange): string {
+  if (status === "added" || status === "removed" || delta === 0n) return "-";
+  const sign = delta > 0n ? "+" : "";
+  return `${sign}${delta.toLocaleString("en-US")} (${sign}${percent.toFixed(2)}%)`;
+}
+
+/** Markdown report of a comparison; unchanged entries are folded into a count unless `all` is set */
+export function formatGasReport(comparison: GasComparison, { all = false }: { all?: boolean } = {}): string {
+  const { thresholdPercent, changes, regressions } = comparison;
+  const shown = all ? changes : changes.filter(({ status }) => status !== "unchanged");
+  const unchanged = changes.length - changes.filter(({ status }) => status !== "unchanged").length;
+
+  const lines = [
+    "## Gas snapshot",
+    "",
+    regressions.length > 0
+      ? `${regressions.length} entr${regressions.length === 1 ? "y" : "ies"} grew by more than ${thresholdPercent}%.`
+      : `No entry grew by more than ${thresholdPercent}%.`,
+    "",
+  ];
+
+  if (shown.length > 0) {
+    lines.push("| Entrypoint | Before | After | Change | |", "| --- | ---: | ---: | ---: | --- |");
+    for (const change of shown) {
+      lines.push(
+        `| \`${change.entry}\` | ${formatGas(change.before)} | ${formatGas(change.after)} | ${formatDelta(change)} | ${STATUS_LABELS[change.status]} |`,
+      );
+    }
+    lines.push("");
+  }
+  if (!all && unchanged > 0) lines.push(`${unchanged} unchanged entr${unchanged === 1 ? "y" : "ies"}.`, "");
+
+  return lines.join("\n");
+}
@@ -0,0 +1,319 @@
+import {
+  keccak256,
+  parseAbi,
+  toHex,
+  type Abi,
+  type Address,
+  type Hash,
+  type PublicClient,
+  type WalletClient,
+} from "viem";
+import { decodeTuuKeepRevert } from "../sdk/errors";
+import type { DeploymentManifest } from "../sdk/manifest";
+
+/**
+ * Incident response
+ * @dev Pauses and resumes every pausable TuuKeep contract in the deployment
+ * manifest as one operation. Each contract pauses through its own function
+ * and role, listed in `PAUSE_TARGETS`; contracts the manifest does not
+ * record are skipped. An incident is planned first: the responder's roles
+ * are checked and every call is simulated before any is sent.
+ *
+ * The pause surface is declared here rather than taken from the SDK ABIs,
+ * which only cover the contracts the app talks to, so the modular cabinet
+ * and marketplace fee contracts are handled the same way.
+ */
+
+export type IncidentAction = "pause" | "resume";
+
+export interface PauseTarget {
+  /** Artifact name recorded in the manifest */
+  contractName: string;
+  /** Role the pause and resume functions require */
+  role: string;
+  pauseFunction: "pause" | "emergencyPause" | "pauseMarketplace";
+  resumeFunction: "unpause" | "emergencyUnpause" | "unpauseMarketplace";
+}
+
+/** Pausable contracts in the order they are paused; resuming runs in reverse */
+export const PAUSE_TARGETS: readonly PauseTarget[] = [
+  // Entry points for players and buyers go first
+  { contractName: "TuuKeepCabinet", role: "EMERGENCY_RESPONDER_ROLE", pauseFunction: "pause", resumeFunction: "unpause" },
+  { contractName: "TuuKeepCabinetGame", role: "EMERGENCY_RESPONDER_ROLE", pauseFunction: "pause", resumeFunction: "unpause" },
+  { contractName: "TuuKeepCabinetCore", role: "EMERGENCY_RESPONDER_ROLE", pauseFunction: "pause", resumeFunction: "unpause" },
+  { contractName: "TuuKeepCabinetItems", role: "EMERGENCY_RESPONDER_ROLE", pauseFunction: "pause", resumeFunction: "unpause" },
+  { contractName: "TuuKeepCabinetConfig", role: "EMERGENCY_RESPONDER_ROLE", pauseFunction: "pause", resumeFunction: "unpause" },
+  { contractName: "TuuKeepCabinetNFT", role: "EMERGENCY_RESPONDER_ROLE", pauseFunction: "pause", resumeFunction: "unpause" },
+  {
+    contractName: "TuuKeepMarketplace",
+    role: "MARKETPLACE_ADMIN_ROLE",
+    pauseFunction: "pauseMarketplace",
+    resumeFunction: "unpauseMarketplace",
+  },
+  {
+    contractName: "TuuKeepMarketplaceCore",
+    role: "MARKETPLACE_ADMIN_ROLE",
+    pauseFunction: "pauseMarketplace",
+    resumeFunction: "unpauseMarketplace",
+  },
+  { contractName: "TuuKeepMarketplaceFees", role: "EMERGENCY_RESPONDER_ROLE", pauseFunction: "pause", resumeFunction: "unpause" },
+  { contractName: "TuuKeepTierSale", role: "PLATFORM_ADMIN_ROLE", pauseFunction: "pause", resumeFunction: "unpause" },
+  {
+    contractName: "TuuCoin",
+    role: "EMERGENCY_RESPONDER_ROLE",
+    pauseFunction: "emergencyPause",
+    resumeFunction: "emergencyUnpause",
+  },
+];
+
+const pausableAbi = parseAbi([
+  "function pause()",
+  "function unpause()",
+  "function emergencyPause(string reason)",
+  "function emergencyUnpause()",
+  "function pauseMarketplace()",
+  "function unpauseMarketplace()",
+  "function paused() view returns (bool)",
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "function getPauseStatus() view returns (bool isPaused, bool mintingPausedStatus, bool burningPausedStatus, bool transfersPausedStatus)",
+  "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+  "error EnforcedPause()",
+  "error ExpectedPause()",
+]);
+
+export interface PausableContract {
+  /** Manifest key */
+  contract: string;
+  address: Address;
+  target: PauseTarget;
+}
+
+export interface PauseStatus extends PausableContract {
+  paused: boolean;
+  /** `TuuCoin.getPauseStatus`; only TuuCoin pauses operations selectively */
+  selective?: { minting: boolean; burning: boolean; transfers: boolean };
+}
+
+export type IncidentStepStatus =
+  /** Simulated cleanly and waiting to be sent */
+  | "ready"
+  /** Already in the requested state */
+  | "skipped"
+  /** The account lacks the role or the simulation reverted */
+  | "blocked"
+  | "done"
+  | "failed";
+
+export interface IncidentStep extends PausableContract {
+  functionName: string;
+  args: readonly string[];
+  hasRole: boolean;
+  status: IncidentStepStatus;
+  /** Why the step is blocked or failed */
+  error?: string;
+  transactionHash?: Hash;
+}
+
+export interface IncidentPlan {
+  action: IncidentAction;
+  account: Address;
+  steps: IncidentStep[];
+  /** Pausable artifacts the manifest has no deployment of */
+  notDeployed: string[];
+  blocked: IncidentStep[];
+}
+
+/** Manifest contracts that `PAUSE_TARGETS` knows how to pause, in pause order */
+export function getPausableContracts(manifest: DeploymentManifest): PausableContract[] {
+  const deployments = Object.entries(manifest.contracts);
+  return PAUSE_TARGETS.flatMap((target) =>
+    deployments
+      .filter(([, deployment]) => deployment.contractName === target.contractName)
+      .map(([contract, deployment]) => ({ contract, address: deployment.address, target })),
+  );
+}
+
+/** Current pause state of every pausable contract in the manifest */
+export async function readPauseStatus(publicClient: PublicClient, manifest: DeploymentManifest): Promise<PauseStatus[]> {
+  const statuses: PauseStatus[] = [];
+  for (const pausable of getPausableContracts(manifest)) {
+    if (pausable.target.contractName === "TuuCoin") {
+      const [paused, minting, burning, transfers] = await publicClient.readContract({
+        address: pausable.address,
+        abi: pausableAbi,
+        functionName: "getPauseStatus",
+      });
+      statuses.push({ ...pausable, paused, selective: { minting, burning, transfers } });
+    } else {
+      const paused = await publicClient.readContract({ address: pausable.address, abi: pausableAbi, functionName: "paused" });
+      statuses.push({ ...pausable, paused });
+    }
+  }
+  return statuses;
+}
+
+export interface IncidentPlanOptions {
+  publicClient: PublicClient;
+  manifest: DeploymentManifest;
+  action: IncidentAction;
+  /** Account that will send the calls */
+  account: Address;
+  /** Recorded on TuuCoin by `emergencyPause` */
+  reason?: string;
+}
+
+/**
+ * Check the account's roles and simulate every call needed to pause or resume
+ * the manifest's contracts. Contracts already in the requested state are
+ * skipped; anything in `blocked` would revert.
+ */
+export async function planIncident({
+  publicClient,
+  manifest,
+  action,
+  account,
+  reason = "",
+}: IncidentPlanOptions): Promise<IncidentPlan> {
+  const statuses = await readPauseStatus(publicClient, manifest);
+  if (action === "resume") statuses.reverse();
+
+  const steps: IncidentStep[] = [];
+  for (const status of statuses) {
+    const { contract, address, target } = status;
+    const functionName = action === "pause" ? target.pauseFunction : target.resumeFunction;
+    const args = functionName === "emergencyPause" ? [reason] : [];
+    const hasRole = await publicClient.readContract({
+      address,
+      abi: pausableAbi,
+      functionName: "hasRole",
+      args: [keccak256(toHex(target.role)), account],
+    });
+    const step: IncidentStep = { contract, address, target, functionName, args, hasRole, status: "ready" };
+
+    if (status.paused === (action === "pause")) {
+      step.status = "skipped";
+    } else if (!hasRole) {
+      step.status = "blocked";
+      step.error = `${account} does not hold ${target.role}`;
+    } else {
+      try {
+        await publicClient.simulateContract({ address, abi: pausableAbi as Abi, functionName, args, account });
+      } catch (error) {
+        step.status = "blocked";
+        step.error = decodeTuuKeepRevert(error)?.message ?? (error instanceof Error ? error.message : String(error));
+      }
+    }
+    steps.push(step);
+  }
+
+  const deployed = new Set(steps.map((step) => step.target.contractName));
+  return {
+    action,
+    account,
+    steps,
+    notDeployed: PAUSE_TARGETS.map((target) => target.contractName).filter((name) => !deployed.has(name)),
+    blocked: steps.filter((step) => step.status === "blocked"),
+  };
+}
+
+export interface IncidentRunOptions {
+  publicClient: PublicClient;
+  walletClient: WalletClient;
+  plan: IncidentPlan;
+  /** Called after each step is mined or fails */
+  onStep?: (step: IncidentStep) => void;
+}
+
+/**
+ * Send every ready step of a plan in order. A failed step does not stop the
+ * rest: in an incident, pausing what can be paused beats stopping halfway.
+ * Returns the plan's steps with their final status.
+ */
+export async function runIncident({ publicClient, walletClient, plan, onStep }: IncidentRunOptions): Promise<IncidentStep[]> {
+  for (const step of plan.steps) {
+    if (step.status !== "ready") continue;
+    try {
+      const hash = await walletClient.writeContract({
+        address: step.address,
+        abi: pausableAbi as Abi,
+        functionName: step.functionName,
+        args: step.args,
+        account: walletClient.account!,
+        chain: walletClient.chain,
+      });
+      step.transactionHash = hash;
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== "success") throw new Error(`${step.functionName} transaction ${hash} reverted`);
+      step.status = "done";
+    } catch (error) {
+      step.status = "failed";
+      step.error = decodeTuuKeepRevert(error)?.message ?? (error instanceof Error ? error.message : String(error));
+    }
+    onStep?.(step);
+  }
+  return plan.steps;
+}
+
+// ============ Reports ============
+
+const STEP_ICONS: Record<IncidentStepStatus, string> = {
+  ready: "🟡",
+  skipped: "⏭️ ",
+  blocked: "❌",
+  done: "✅",
+  failed: "❌",
+};
+
+function formatRows(rows: string[][]): string[] {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows.map((row) => row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd());
+}
+
+/** One row per pausable contract, with TuuCoin's selective pauses */
+export function formatPauseStatus(statuses: readonly PauseStatus[]): string {
+  if (statuses.length === 0) return "No pausable contracts in the manifest";
+
+  const rows = [["Contract", "Address", "State"]];
+  for (const { contract, address, paused, selective } of statuses) {
+    const selectivePaused = selective
+      ? Object.entries(selective)
+          .filter(([, isPaused]) => isPaused)
+          .map(([operation]) => operation)
+      : [];
+    const state = paused ? "⏸️  paused" : selectivePaused.length > 0 ? `🟠 ${selectivePaused.join(", ")} paused` : "▶️  running";
+    rows.push([contract, address, state]);
+  }
+
+  const paused = statuses.filter((status) => status.paused).length;
+  return [
+    ...formatRows(rows),
+    "",
+    paused === statuses.length
+      ? `All ${statuses.length} contracts are paused`
+      : paused === 0
+        ? `All ${statuses.length} contracts are running`
+        : `${paused} of ${statuses.length} contracts are paused`,
+  ].join("\n");
+}
+
+/** One row per step with the call, the role it needs and its status */
+export function formatIncidentPlan(plan: IncidentPlan): string {
+  // Icons go last since their display width varies
+  const rows = [["Contract", "Call", "Role", "Status"]];
+  for (const step of plan.steps) {
+    const call = `${step.functionName}(${step.args.map((arg) => JSON.stringify(arg)).join(", ")})`;
+    const detail = step.error ? `: ${step.error}` : step.transactionHash ? ` ${step.transactionHash}` : "";
+    rows.push([
+      step.contract,
+      call,
+      `${step.target.role}${step.hasRole ? "" : " (missing)"}`,
+      `${STEP_ICONS[step.status]} ${step.status}${detail}`,
+    ]);
+  }
+
+  const lines = plan.steps.length > 0 ? formatRows(rows) : [`Nothing to ${plan.action}`];
+  if (plan.notDeployed.length > 0) {
+    lines.push("", `Not in the manifest: ${plan.notDeployed.join(", ")}`);
+  }
+  return lines.join("\n");
+}
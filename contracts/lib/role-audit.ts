@@ -0,0 +1,434 @@
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import {
+  getAddress,
+  isAddress,
+  keccak256,
+  parseEventLogs,
+  toHex,
+  zeroHash,
+  type Abi,
+  type Address,
+  type Hash,
+  type Log,
+  type PublicClient,
+} from "viem";
+import {
+  randomnessAbi,
+  tuuCoinAbi,
+  tuuKeepAccessControlAbi,
+  tuuKeepCabinetAbi,
+  tuuKeepMarketplaceAbi,
+  tuuKeepTierSaleAbi,
+} from "../sdk/abis";
+import type { DeploymentManifest } from "../sdk/manifest";
+import { DEFAULT_BATCH_SIZE } from "../indexer/indexer";
+import { manifestStartBlock } from "./deployment-manifest";
+
+// ES module compatibility
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Role audit
+ * @dev Rebuilds who holds which role on every TuuKeep contract by replaying
+ * `RoleGranted`, `RoleRevoked` and `RoleAdminChanged`, plus the expiring
+ * grants of `TuuKeepAccessControl`, from deployment. The result is diffed
+ * against the expected holders declared in `deployments/role-policy.json`.
+ *
+ * A policy lists, per manifest contract and role, the accounts that should
+ * hold it: a manifest contract name, `$deployer` for the account that
+ * deployed the contract, or an address. Roles a contract defines but the
+ * policy leaves out should have no holders.
+ */
+
+export const ROLE_POLICY_PATH = path.join(__dirname, "../deployments/role-policy.json");
+
+/** Grants expiring within this window are flagged */
+export const DEFAULT_EXPIRY_WARNING_SECONDS = 7n * 24n * 60n * 60n;
+
+/** ABIs whose role constants name the role hashes, keyed by artifact name */
+const ROLE_ABIS: Record<string, Abi> = {
+  TuuKeepAccessControl: tuuKeepAccessControlAbi,
+  Randomness: randomnessAbi,
+  TuuCoin: tuuCoinAbi,
+  TuuKeepCabinet: tuuKeepCabinetAbi,
+  TuuKeepMarketplace: tuuKeepMarketplaceAbi,
+  TuuKeepTierSale: tuuKeepTierSaleAbi,
+};
+
+export interface RolePolicy {
+  /** Expected holders by manifest contract name, then role name */
+  contracts: Record<string, Record<string, string[]>>;
+}
+
+export interface RoleHolder {
+  account: Address;
+  /** Manifest contract name or `$deployer`, when the account is one */
+  label?: string;
+  /** Block of the grant still in effect */
+  grantedAt: bigint;
+  /** Unix time the grant stops counting; null for permanent grants */
+  expiresAt: bigint | null;
+}
+
+export interface RoleNode {
+  role: Hash;
+  /** Role constant name, or the hash for roles the ABI does not name */
+  name: string;
+  /** Name of the role that grants and revokes this one */
+  admin: string;
+  holders: RoleHolder[];
+}
+
+export interface ContractRoles {
+  contract: string;
+  address: Address;
+  roles: RoleNode[];
+}
+
+export type RoleFindingKind = "unexpected holder" | "missing holder" | "eoa admin" | "expiring" | "expired" | "not deployed";
+
+export interface RoleFinding {
+  contract: string;
+  role?: string;
+  account?: Address;
+  kind: RoleFindingKind;
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface RoleAuditOptions {
+  publicClient: PublicClient;
+  manifest: DeploymentManifest;
+  policy: RolePolicy;
+  /** First block to replay; defaults to the earliest deployment in the manifest */
+  fromBlock?: bigint;
+  /** Block to audit at; defaults to the latest block */
+  toBlock?: bigint;
+  /** Blocks per `eth_getLogs` request */
+  batchSize?: bigint;
+  /** Flag grants expiring within this many seconds of the audited block */
+  expiryWarningSeconds?: bigint;
+}
+
+export interface RoleAuditReport {
+  chainId: number;
+  fromBlock: bigint;
+  toBlock: bigint;
+  /** Timestamp of `toBlock`, which expiries are measured against */
+  timestamp: bigint;
+  contracts: ContractRoles[];
+  findings: RoleFinding[];
+  errors: RoleFinding[];
+}
+
+// ============ Policy ============
+
+/** Validate the shape of a parsed policy file */
+export function parseRolePolicy(value: unknown, source = "role policy"): RolePolicy {
+  const contracts = (value as Partial<RolePolicy> | null)?.contracts;
+  if (typeof contracts !== "object" || contracts === null || Array.isArray(contracts)) {
+    throw new Error(`${source}: expected a "contracts" object`);
+  }
+  for (const [contract, roles] of Object.entries(contracts)) {
+    if (typeof roles !== "object" || roles === null || Array.isArray(roles)) {
+      throw new Error(`${source}: contracts.${contract} must map role names to holders`);
+    }
+    for (const [role, holders] of Object.entries(roles)) {
+      if (!Array.isArray(holders) || holders.some((holder) => typeof holder !== "string")) {
+        throw new Error(`${source}: contracts.${contract}.${role} must be a list of holders`);
+      }
+    }
+  }
+  return { contracts };
+}
+
+export function readRolePolicy(file: string = ROLE_POLICY_PATH): RolePolicy {
+  return parseRolePolicy(JSON.parse(fs.readFileSync(file, "utf-8")), file);
+}
+
+// ============ Role graph ============
+
+/** Role hashes named by the ABI's `*_ROLE` constants, which are `keccak256("<NAME>")` */
+function roleNames(abi: Abi): Map<Hash, string> {
+  const names = new Map<Hash, string>([[zeroHash, "DEFAULT_ADMIN_ROLE"]]);
+  for (const item of abi) {
+    if (item.type === "function" && item.name.endsWith("_ROLE") && item.name !== "DEFAULT_ADMIN_ROLE" && item.inputs.length === 0) {
+      names.set(keccak256(toHex(item.name)), item.name);
+    }
+  }
+  return names;
+}
+
+interface ContractState {
+  contract: string;
+  address: Address;
+  names: Map<Hash, string>;
+  holders: Map<Hash, Map<Address, bigint>>;
+  admins: Map<Hash, Hash>;
+  expiries: Map<string, bigint>;
+}
+
+async function getLogsInBatches(
+  publicClient: PublicClient,
+  address: Address[],
+  fromBlock: bigint,
+  toBlock: bigint,
+  batchSize: bigint,
+): Promise<Log<bigint, number, false>[]> {
+  const logs: Log<bigint, number, false>[] = [];
+  for (let start = fromBlock; start <= toBlock; start += batchSize) {
+    const end = start + batchSize - 1n < toBlock ? start + batchSize - 1n : toBlock;
+    logs.push(...(await publicClient.getLogs({ address, fromBlock: start, toBlock: end })));
+  }
+  return logs;
+}
+
+function replayRoleEvents(states: Map<Address, ContractState>, logs: Log<bigint, number, false>[]) {
+  // The AccessControl events are identical on every contract, so one ABI decodes them all
+  const events = parseEventLogs({
+    abi: tuuKeepAccessControlAbi,
+    eventName: ["RoleGranted", "RoleRevoked", "RoleAdminChanged", "RoleGrantedWithExpiry", "ExpiredRolesRevoked"],
+    logs,
+  });
+
+  for (const event of events) {
+    const state = states.get(getAddress(event.address));
+    if (!state) continue;
+
+    switch (event.eventName) {
+      case "RoleGranted": {
+        const holders = state.holders.get(event.args.role) ?? new Map<Address, bigint>();
+        holders.set(event.args.account, event.blockNumber);
+        state.holders.set(event.args.role, holders);
+        break;
+      }
+      case "RoleRevoked":
+        state.holders.get(event.args.role)?.delete(event.args.account);
+        break;
+      case "RoleAdminChanged":
+        state.admins.set(event.args.role, event.args.newAdminRole);
+        break;
+      // An expiry outlives a plain revoke, so a later grantRole inherits it;
+      // only revoking through the expiry functions clears it
+      case "RoleGrantedWithExpiry":
+        state.expiries.set(`${event.args.role}:${event.args.account}`, event.args.expiryTime);
+        break;
+      case "ExpiredRolesRevoked":
+        state.expiries.delete(`${event.args.role}:${event.args.account}`);
+        break;
+    }
+  }
+}
+
+function toContractRoles(state: ContractState, labels: Map<Address, string>): ContractRoles {
+  const roleHashes = new Set([...state.names.keys(), ...state.holders.keys(), ...state.admins.keys()]);
+  const name = (role: Hash) => state.names.get(role) ?? role;
+
+  return {
+    contract: state.contract,
+    address: state.address,
+    roles: [...roleHashes].map((role) => ({
+      role,
+      name: name(role),
+      admin: name(state.admins.get(role) ?? zeroHash),
+      holders: [...(state.holders.get(role) ?? new Map<Address, bigint>())].map(([account, grantedAt]) => ({
+        account,
+        label: labels.get(account),
+        grantedAt,
+        expiresAt: state.expiries.get(`${role}:${account}`) ?? null,
+      })),
+    })),
+  };
+}
+
+// ============ Audit ============
+
+const formatTime = (seconds: bigint) => new Date(Number(seconds) * 1000).toISOString();
+
+function formatDuration(seconds: bigint): string {
+  const hours = Number(seconds) / 3600;
+  return hours < 48 ? `${Math.max(1, Math.round(hours))}h` : `${Math.round(hours / 24)}d`;
+}
+
+/** Accounts a policy entry names, or undefined for a contract that is not deployed */
+function resolveHolder(manifest: DeploymentManifest, contract: string, holder: string): Address | undefined {
+  if (holder === "$deployer") return manifest.contracts[contract].deployment.deployer;
+  if (isAddress(holder)) return getAddress(holder);
+  if (/^[A-Za-z_]\w*$/.test(holder)) return manifest.contracts[holder]?.address;
+  throw new Error(`Role policy: ${contract} names "${holder}", which is neither a contract, $deployer nor an address`);
+}
+
+/**
+ * Rebuild the role graph of the policy's contracts (and any other manifest
+ * contract with roles) at `toBlock` and diff it against the policy.
+ */
+export async function auditRoles({
+  publicClient,
+  manifest,
+  policy,
+  fromBlock = manifestStartBlock(manifest),
+  toBlock,
+  batchSize = DEFAULT_BATCH_SIZE,
+  expiryWarningSeconds = DEFAULT_EXPIRY_WARNING_SECONDS,
+}: RoleAuditOptions): Promise<RoleAuditReport> {
+  const endBlock = toBlock ?? (await publicClient.getBlockNumber());
+  const { timestamp } = await publicClient.getBlock({ blockNumber: endBlock });
+  const findings: RoleFinding[] = [];
+
+  const names = new Set([
+    ...Object.keys(policy.contracts),
+    ...Object.keys(manifest.contracts).filter((name) => ROLE_ABIS[manifest.contracts[name].contractName]),
+  ]);
+  const states = new Map<Address, ContractState>();
+  for (const contract of names) {
+    const deployment = manifest.contracts[contract];
+    if (!deployment) {
+      findings.push({
+        contract,
+        kind: "not deployed",
+        severity: "warning",
+        message: `${contract} has a role policy but is not in the manifest`,
+      });
+      continue;
+    }
+    const abi = ROLE_ABIS[deployment.contractName];
+    if (!abi) {
+      throw new Error(`Role policy: ${contract} is a ${deployment.contractName}, which has no known roles`);
+    }
+    states.set(deployment.address, {
+      contract,
+      address: deployment.address,
+      names: roleNames(abi),
+      holders: new Map(),
+      admins: new Map(),
+      expiries: new Map(),
+    });
+  }
+
+  const logs = await getLogsInBatches(publicClient, [...states.keys()], fromBlock, endBlock, batchSize);
+  replayRoleEvents(states, logs);
+
+  const labels = new Map<Address, string>();
+  for (const [name, contract] of Object.entries(manifest.contracts)) {
+    labels.set(contract.deployment.deployer, "$deployer");
+    labels.set(contract.address, name);
+  }
+  const contracts = [...states.values()].map((state) => toContractRoles(state, labels));
+
+  const codeCache = new Map<Address, Promise<boolean>>();
+  const isContract = (account: Address) => {
+    if (!codeCache.has(account)) {
+      codeCache.set(
+        account,
+        publicClient.getCode({ address: account, blockNumber: endBlock }).then((code) => Boolean(code && code !== "0x")),
+      );
+    }
+    return codeCache.get(account)!;
+  };
+  const holderName = (holder: RoleHolder) => (holder.label ? `${holder.label} (${holder.account})` : holder.account);
+
+  for (const { contract, roles } of contracts) {
+    const expectedRoles = policy.contracts[contract] ?? {};
+    for (const role of Object.keys(expectedRoles)) {
+      if (!roles.some((node) => node.name === role)) {
+        throw new Error(`Role policy: ${contract} has no ${role}`);
+      }
+    }
+    const administering = new Set(roles.map((node) => node.admin));
+
+    for (const node of roles) {
+      const where = `${contract}.${node.name}`;
+      const finding = (kind: RoleFindingKind, severity: RoleFinding["severity"], message: string, account?: Address) =>
+        findings.push({ contract, role: node.name, account, kind, severity, message });
+
+      const expected = new Map<Address, string>();
+      for (const holder of expectedRoles[node.name] ?? []) {
+        const account = resolveHolder(manifest, contract, holder);
+        if (account) expected.set(account, holder);
+        else finding("not deployed", "warning", `${where} should be held by ${holder}, which is not in the manifest`);
+      }
+
+      // Expired grants still show in AccessControl storage, but hasRole ignores them
+      const active = node.holders.filter((holder) => holder.expiresAt === null || holder.expiresAt >= timestamp);
+      for (const holder of node.holders) {
+        if (holder.expiresAt === null) continue;
+        if (holder.expiresAt < timestamp) {
+          finding(
+            "expired",
+            "warning",
+            `${where} grant to ${holderName(holder)} expired at ${formatTime(holder.expiresAt)}; revokeExpiredRole clears it`,
+            holder.account,
+          );
+        } else if (holder.expiresAt - timestamp <= expiryWarningSeconds) {
+          finding(
+            "expiring",
+            "warning",
+            `${where} grant to ${holderName(holder)} expires in ${formatDuration(holder.expiresAt - timestamp)} ` +
+              `(${formatTime(holder.expiresAt)})`,
+            holder.account,
+          );
+        }
+      }
+
+      for (const holder of active) {
+        if (!expected.has(holder.account)) {
+          finding("unexpected holder", "error", `${where} is held by ${holderName(holder)}, which the policy does not list`, holder.account);
+        }
+      }
+      for (const [account, holder] of expected) {
+        if (!active.some((candidate) => candidate.account === account)) {
+          finding("missing holder", "error", `${where} should be held by ${holder} (${account}) but is not`, account);
+        }
+      }
+
+      const isAdminRole = node.role === zeroHash || administering.has(node.name) || node.name.includes("ADMIN");
+      if (!isAdminRole) continue;
+      for (const holder of active) {
+        if (!(await isContract(holder.account))) {
+          finding("eoa admin", "warning", `${where} is held by the externally owned account ${holderName(holder)}`, holder.account);
+        }
+      }
+    }
+  }
+
+  return {
+    chainId: manifest.chainId,
+    fromBlock,
+    toBlock: endBlock,
+    timestamp,
+    contracts,
+    findings,
+    errors: findings.filter((finding) => finding.severity === "error"),
+  };
+}
+
+export function formatRoleAudit(report: RoleAuditReport): string {
+  const lines = [`Role audit of chain ${report.chainId}, blocks ${report.fromBlock}-${report.toBlock}`];
+
+  for (const { contract, address, roles } of report.contracts) {
+    lines.push("", `${contract} ${address}`);
+    for (const node of roles) {
+      lines.push(`  ${node.name} (admin ${node.admin})`);
+      if (node.holders.length === 0) lines.push("    none");
+      for (const holder of node.holders) {
+        const expiry = holder.expiresAt === null ? "" : `, expires ${formatTime(holder.expiresAt)}`;
+        lines.push(`    ${holder.account}${holder.label ? ` ${holder.label}` : ""} (block ${holder.grantedAt}${expiry})`);
+      }
+    }
+  }
+
+  lines.push("");
+  for (const finding of report.findings) {
+    lines.push(`${finding.severity === "error" ? "❌" : "⚠️ "} ${finding.message}`);
+  }
+  const warnings = report.findings.length - report.errors.length;
+  lines.push(
+    report.errors.length > 0
+      ? `${report.errors.length} error${report.errors.length === 1 ? "" : "s"} against the policy, ${warnings} warning${warnings === 1 ? "" : "s"}`
+      : `Every role matches the policy${warnings > 0 ? `, ${warnings} warning${warnings === 1 ? "" : "s"}` : ""}`,
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,157 @@
+import * as fs from "fs";
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { formatEther, parseEther, type PublicClient, type WalletClient } from "viem";
+import { TuuKeepClient } from "../sdk/client";
+import { getTuuKeepAddresses } from "../sdk/manifest";
+import {
+  getPriceLadder,
+  type SalePhasePlan,
+  type SalePlanIssue,
+  type TierPlan,
+} from "../sdk/tier-sale";
+import { requireManifest } from "./deployment-manifest";
+
+/**
+ * Tier sale administration
+ * @dev Shared by the `create-sale-phase`, `set-sale-phase` and
+ * `withdraw-sale-revenue` tasks: a client for the manifest's contracts signed
+ * by the network's configured account, and sale phase plan files.
+ *
+ * A plan file is the JSON input of `create-sale-phase`. Times are ISO 8601
+ * strings or unix seconds, and may be left out for "with the phase" / "no
+ * end"; the base price is in ether:
+ *
+ * { "name": "Genesis Sale", "startTime": "2027-07-01T00:00:00Z", "endTime": 0,
+ *   "totalCabinets": 100, "basePrice": "1",
+ *   "tiers": [{ "name": "Early Bird", "maxQuantity": 20, "discountBps": 5000 }] }
+ */
+
+export interface SaleAdminConnection {
+  client: TuuKeepClient;
+  networkName: string;
+  /** Native currency symbol, for prices */
+  currency: string;
+}
+
+/** TuuKeepClient for the manifest's contracts, signing with the network's first account */
+export async function connectSaleAdmin(hre: HardhatRuntimeEnvironment): Promise<SaleAdminConnection> {
+  const connection = await hre.network.connect();
+  const publicClient = (await connection.viem.getPublicClient()) as unknown as PublicClient;
+  const [walletClient] = await connection.viem.getWalletClients();
+  if (!walletClient) {
+    throw new Error(`No account configured for ${connection.networkName}`);
+  }
+  const manifest = requireManifest(await publicClient.getChainId());
+  return {
+    client: new TuuKeepClient({
+      publicClient,
+      walletClient: walletClient as unknown as WalletClient,
+      addresses: getTuuKeepAddresses(manifest),
+    }),
+    networkName: connection.networkName,
+    currency: publicClient.chain?.nativeCurrency.symbol ?? "ETH",
+  };
+}
+
+// ============ Plan files ============
+
+type TimeValue = string | number | undefined;
+
+function parseTime(value: TimeValue, field: string, source: string): bigint {
+  if (value === undefined || value === 0) return 0n;
+  if (typeof value === "number" && Number.isInteger(value) && value > 0) return BigInt(value);
+  if (typeof value === "string") {
+    const millis = Date.parse(value);
+    if (!Number.isNaN(millis)) return BigInt(Math.floor(millis / 1000));
+  }
+  throw new Error(`${source}: ${field} must be an ISO 8601 time or unix seconds`);
+}
+
+function parseCount(value: unknown, field: string, source: string): bigint {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new Error(`${source}: ${field} must be a whole number`);
+  }
+  return BigInt(value);
+}
+
+function parseName(value: unknown, field: string, source: string): string {
+  if (typeof value !== "string") throw new Error(`${source}: ${field} must be a string`);
+  return value;
+}
+
+/** Validate the shape of a parsed plan file; schedule and pricing rules are left to `getSalePhasePlanIssues` */
+export function parseSalePhasePlan(value: unknown, source = "sale phase plan"): SalePhasePlan {
+  const raw = value as Record<string, unknown> | null;
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`${source}: expected an object`);
+  }
+  if (typeof raw.basePrice !== "string") {
+    throw new Error(`${source}: basePrice must be a string amount in ether`);
+  }
+  let basePrice: bigint;
+  try {
+    basePrice = parseEther(raw.basePrice);
+  } catch {
+    throw new Error(`${source}: basePrice "${raw.basePrice}" is not an ether amount`);
+  }
+  if (!Array.isArray(raw.tiers)) throw new Error(`${source}: expected a "tiers" list`);
+
+  const tiers = raw.tiers.map((entry: Record<string, unknown>, index): TierPlan => {
+    const field = `tiers[${index}]`;
+    if (typeof entry !== "object" || entry === null) throw new Error(`${source}: ${field} must be an object`);
+    return {
+      name: parseName(entry.name, `${field}.name`, source),
+      maxQuantity: parseCount(entry.maxQuantity, `${field}.maxQuantity`, source),
+      discountBps: Number(parseCount(entry.discountBps, `${field}.discountBps`, source)),
+      startTime: parseTime(entry.startTime as TimeValue, `${field}.startTime`, source),
+      endTime: parseTime(entry.endTime as TimeValue, `${field}.endTime`, source),
+    };
+  });
+
+  return {
+    name: parseName(raw.name, "name", source),
+    startTime: parseTime(raw.startTime as TimeValue, "startTime", source),
+    endTime: parseTime(raw.endTime as TimeValue, "endTime", source),
+    totalCabinets: parseCount(raw.totalCabinets, "totalCabinets", source),
+    basePrice,
+    tiers,
+  };
+}
+
+export function readSalePhasePlan(file: string): SalePhasePlan {
+  return parseSalePhasePlan(JSON.parse(fs.readFileSync(file, "utf-8")), file);
+}
+
+// ============ Output ============
+
+const formatWindow = (start: bigint, end: bigint) =>
+  `${start > 0n ? new Date(Number(start) * 1000).toISOString() : "start"} → ${end > 0n ? new Date(Number(end) * 1000).toISOString() : "open"}`;
+
+/** The phase, its price ladder and any issues, for the terminal */
+export function formatSalePhasePlan(plan: SalePhasePlan, issues: readonly SalePlanIssue[], currency: string): string {
+  const lines = [
+    `${plan.name}: ${plan.totalCabinets} cabinets at a base price of ${formatEther(plan.basePrice)} ${currency}`,
+    `  ${formatWindow(plan.startTime, plan.endTime)}`,
+    "",
+  ];
+
+  let revenue = 0n;
+  for (const step of getPriceLadder(plan)) {
+    const tier = plan.tiers[step.tierIndex];
+    revenue += step.revenue;
+    lines.push(
+      `  ${step.tierIndex + 1}. ${step.name}: ${formatEther(step.price)} ${currency} (${step.discountBps / 100}% off) ` +
+        `× ${step.maxQuantity}, cabinets ${step.firstCabinet}-${step.lastCabinet}`,
+    );
+    if (tier.startTime > 0n || tier.endTime > 0n) {
+      lines.push(`     ${formatWindow(tier.startTime, tier.endTime)}`);
+    }
+  }
+  lines.push(`  Sells out for ${formatEther(revenue)} ${currency} before platform fees`);
+
+  if (issues.length > 0) {
+    lines.push("");
+    for (const issue of issues) lines.push(`❌ ${issue.field}: ${issue.message}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,264 @@
+import { isAddressEqual, parseEventLogs, zeroAddress, type Address, type Log, type PublicClient } from "viem";
+import { tuuCoinAbi, tuuKeepCabinetAbi } from "../sdk/abis";
+import type { TuuKeepAddresses } from "../sdk/types";
+import { DEFAULT_BATCH_SIZE } from "../indexer/indexer";
+
+/**
+ * TuuCoin economic invariants
+ * @dev Replays TuuCoin's (and optionally the cabinet's) events from
+ * deployment and compares them with the contract's own accounting at one
+ * block. Works against any deployment: the integration tests run it after
+ * their flows and `scripts/check-tuucoin-invariants.ts` runs it against a
+ * live network.
+ *
+ * The sums only add up when the scan starts at or before the TuuCoin
+ * deployment block.
+ */
+
+export type TuuCoinInvariant =
+  /** `totalSupply == totalMinted - totalBurned` */
+  | "supplyConservation"
+  /** `totalMinted` and `totalSupply` stay within `getEffectiveMaxSupply()` */
+  | "supplyCap"
+  /** `totalMinted` equals the `TokensMinted` total */
+  | "mintAccounting"
+  /** `totalBurned` equals the `TokensBurnedForOdds` total */
+  | "burnAccounting"
+  /** `userBurnedAmount` and `userBurnCount` match each user's `TokensBurnedForOdds` events */
+  | "userBurns"
+  /** `getCabinetStats` matches the cabinet's `CabinetRewardMinted` and `CabinetPlayBurn` events */
+  | "cabinetStats"
+  /** The `TokensMinted` the cabinet caused are a tenth of the play price of each losing `GachaPlayed` */
+  | "cabinetRewards"
+  /** Every balance and the total supply match the `Transfer` events */
+  | "balances";
+
+export interface InvariantViolation {
+  invariant: TuuCoinInvariant;
+  message: string;
+}
+
+export interface TuuCoinInvariantParameters {
+  publicClient: PublicClient;
+  /** Without `cabinet`, the `cabinetRewards` check is skipped */
+  addresses: Pick<TuuKeepAddresses, "tuuCoin"> & Partial<Pick<TuuKeepAddresses, "cabinet">>;
+  /** First block to scan; must not be after the TuuCoin deployment */
+  fromBlock?: bigint;
+  /** Block to check at; defaults to the latest block */
+  blockNumber?: bigint;
+  /** Blocks per `eth_getLogs` request */
+  batchSize?: bigint;
+}
+
+export interface TuuCoinInvariantReport {
+  blockNumber: bigint;
+  totalSupply: bigint;
+  totalMinted: bigint;
+  totalBurned: bigint;
+  effectiveMaxSupply: bigint;
+  /** Burned through `burn`/`burnFrom`, which `totalBurned` does not see */
+  untrackedBurns: bigint;
+  /** Holders, burners and cabinets checked */
+  accounts: number;
+  burners: number;
+  cabinets: number;
+  violations: InvariantViolation[];
+}
+
+export class TuuCoinInvariantError extends Error {
+  constructor(readonly report: TuuCoinInvariantReport) {
+    super(
+      `TuuCoin invariants violated at block ${report.blockNumber}:\n` +
+        report.violations.map(({ invariant, message }) => `  ${invariant}: ${message}`).join("\n"),
+    );
+    this.name = "TuuCoinInvariantError";
+  }
+}
+
+async function getLogsInBatches(
+  publicClient: PublicClient,
+  address: Address,
+  fromBlock: bigint,
+  toBlock: bigint,
+  batchSize: bigint,
+): Promise<Log[]> {
+  const logs: Log[] = [];
+  for (let start = fromBlock; start <= toBlock; start += batchSize) {
+    const end = start + batchSize - 1n < toBlock ? start + batchSize - 1n : toBlock;
+    logs.push(...(await publicClient.getLogs({ address, fromBlock: start, toBlock: end })));
+  }
+  return logs;
+}
+
+function add<K>(totals: Map<K, bigint>, key: K, amount: bigint) {
+  totals.set(key, (totals.get(key) ?? 0n) + amount);
+}
+
+/** Collect every invariant violation at `blockNumber` */
+export async function checkTuuCoinInvariants({
+  publicClient,
+  addresses,
+  fromBlock = 0n,
+  blockNumber,
+  batchSize = DEFAULT_BATCH_SIZE,
+}: TuuCoinInvariantParameters): Promise<TuuCoinInvariantReport> {
+  const toBlock = blockNumber ?? (await publicClient.getBlockNumber());
+  const violations: InvariantViolation[] = [];
+  const violation = (invariant: TuuCoinInvariant, message: string) => violations.push({ invariant, message });
+
+  const read = <const functionName extends "totalSupply" | "totalMinted" | "totalBurned" | "getEffectiveMaxSupply">(
+    functionName: functionName,
+  ) => publicClient.readContract({ address: addresses.tuuCoin, abi: tuuCoinAbi, functionName, blockNumber: toBlock });
+
+  const logs = await getLogsInBatches(publicClient, addresses.tuuCoin, fromBlock, toBlock, batchSize);
+  const totalSupply = await read("totalSupply");
+  const totalMinted = await read("totalMinted");
+  const totalBurned = await read("totalBurned");
+  const effectiveMaxSupply = await read("getEffectiveMaxSupply");
+
+  // Transfers: balances and supply
+  const balances = new Map<Address, bigint>();
+  let transferMinted = 0n;
+  let transferBurned = 0n;
+  for (const { args } of parseEventLogs({ abi: tuuCoinAbi, eventName: "Transfer", logs })) {
+    if (isAddressEqual(args.from, zeroAddress)) transferMinted += args.value;
+    else add(balances, args.from, -args.value);
+    if (isAddressEqual(args.to, zeroAddress)) transferBurned += args.value;
+    else add(balances, args.to, args.value);
+  }
+
+  if (totalSupply !== transferMinted - transferBurned) {
+    violation("balances", `totalSupply ${totalSupply} != ${transferMinted - transferBurned} from Transfer events`);
+  }
+  for (const [account, expected] of balances) {
+    const balance = await publicClient.readContract({
+      address: addresses.tuuCoin,
+      abi: tuuCoinAbi,
+      functionName: "balanceOf",
+      args: [account],
+      blockNumber: toBlock,
+    });
+    if (balance !== expected) violation("balances", `${account} holds ${balance}, Transfer events give ${expected}`);
+  }
+
+  // Supply conservation and cap
+  if (totalSupply !== totalMinted - totalBurned) {
+    violation(
+      "supplyConservation",
+      `totalSupply ${totalSupply} != totalMinted ${totalMinted} - totalBurned ${totalBurned}`,
+    );
+  }
+  if (totalMinted > effectiveMaxSupply) {
+    violation("supplyCap", `totalMinted ${totalMinted} exceeds the effective max supply ${effectiveMaxSupply}`);
+  }
+  if (totalSupply > effectiveMaxSupply) {
+    violation("supplyCap", `totalSupply ${totalSupply} exceeds the effective max supply ${effectiveMaxSupply}`);
+  }
+
+  // Mint accounting
+  const mints = parseEventLogs({ abi: tuuCoinAbi, eventName: "TokensMinted", logs });
+  const mintedByEvents = mints.reduce((sum, { args }) => sum + args.amount, 0n);
+  if (totalMinted !== mintedByEvents) {
+    violation("mintAccounting", `totalMinted ${totalMinted} != ${mintedByEvents} from TokensMinted events`);
+  }
+
+  // Burn accounting, overall and per user
+  const burnedByUser = new Map<Address, { amount: bigint; count: bigint; runningTotal: bigint }>();
+  let burnedByEvents = 0n;
+  for (const { args } of parseEventLogs({ abi: tuuCoinAbi, eventName: "TokensBurnedForOdds", logs })) {
+    burnedByEvents += args.amount;
+    const user = burnedByUser.get(args.user) ?? { amount: 0n, count: 0n, runningTotal: 0n };
+    burnedByUser.set(args.user, {
+      amount: user.amount + args.amount,
+      count: user.count + 1n,
+      runningTotal: args.totalBurned,
+    });
+  }
+  if (totalBurned !== burnedByEvents) {
+    violation("burnAccounting", `totalBurned ${totalBurned} != ${burnedByEvents} from TokensBurnedForOdds events`);
+  }
+  for (const [user, expected] of burnedByUser) {
+    const [burnedAmount, burnCount] = await publicClient.readContract({
+      address: addresses.tuuCoin,
+      abi: tuuCoinAbi,
+      functionName: "getUserBurnStats",
+      args: [user],
+      blockNumber: toBlock,
+    });
+    if (burnedAmount !== expected.amount || burnCount !== expected.count) {
+      violation(
+        "userBurns",
+        `${user} burned ${burnedAmount} in ${burnCount} burns, events give ${expected.amount} in ${expected.count}`,
+      );
+    }
+    if (expected.runningTotal !== expected.amount) {
+      violation("userBurns", `${user}'s last TokensBurnedForOdds reports ${expected.runningTotal}, events sum to ${expected.amount}`);
+    }
+  }
+
+  // Per-cabinet emission and burn stats
+  const emitted = new Map<bigint, bigint>();
+  const cabinetBurned = new Map<bigint, bigint>();
+  for (const { args } of parseEventLogs({ abi: tuuCoinAbi, eventName: "CabinetRewardMinted", logs })) {
+    add(emitted, args.cabinetId, args.amount);
+  }
+  for (const { args } of parseEventLogs({ abi: tuuCoinAbi, eventName: "CabinetPlayBurn", logs })) {
+    add(cabinetBurned, args.cabinetId, args.amount);
+  }
+  const cabinetIds = parseEventLogs({ abi: tuuCoinAbi, eventName: "CabinetRegistered", logs }).map(
+    ({ args }) => args.cabinetId,
+  );
+  for (const cabinetId of cabinetIds) {
+    const [totalEmitted, cabinetTotalBurned] = await publicClient.readContract({
+      address: addresses.tuuCoin,
+      abi: tuuCoinAbi,
+      functionName: "getCabinetStats",
+      args: [cabinetId],
+      blockNumber: toBlock,
+    });
+    const expectedEmitted = emitted.get(cabinetId) ?? 0n;
+    const expectedBurned = cabinetBurned.get(cabinetId) ?? 0n;
+    if (totalEmitted !== expectedEmitted || cabinetTotalBurned !== expectedBurned) {
+      violation(
+        "cabinetStats",
+        `cabinet ${cabinetId} reports ${totalEmitted} emitted / ${cabinetTotalBurned} burned, events give ${expectedEmitted} / ${expectedBurned}`,
+      );
+    }
+  }
+
+  // Cabinet consolation mints go through `TuuCoin.mint` with the cabinet as minter; the cabinet emits no
+  // event of its own for them, so compare with the consolation each losing play is owed
+  if (addresses.cabinet) {
+    const cabinet = addresses.cabinet;
+    const cabinetLogs = await getLogsInBatches(publicClient, cabinet, fromBlock, toBlock, batchSize);
+    const owed = parseEventLogs({ abi: tuuKeepCabinetAbi, eventName: "GachaPlayed", logs: cabinetLogs })
+      .filter(({ args }) => !args.wonPrize)
+      .reduce((sum, { args }) => sum + args.playPrice / 10n, 0n);
+    const mintedByCabinet = mints
+      .filter(({ args }) => isAddressEqual(args.minter, cabinet))
+      .reduce((sum, { args }) => sum + args.amount, 0n);
+    if (owed !== mintedByCabinet) {
+      violation("cabinetRewards", `losing plays are owed ${owed} TuuCoin, TokensMinted by the cabinet ${mintedByCabinet}`);
+    }
+  }
+
+  return {
+    blockNumber: toBlock,
+    totalSupply,
+    totalMinted,
+    totalBurned,
+    effectiveMaxSupply,
+    untrackedBurns: transferBurned - totalBurned,
+    accounts: balances.size,
+    burners: burnedByUser.size,
+    cabinets: cabinetIds.length,
+    violations,
+  };
+}
+
+/** Like `checkTuuCoinInvariants`, but throws `TuuCoinInvariantError` listing every violation */
+export async function assertTuuCoinInvariants(parameters: TuuCoinInvariantParameters): Promise<TuuCoinInvariantReport> {
+  const report = await checkTuuCoinInvariants(parameters);
+  if (report.violations.length > 0) throw new TuuCoinInvariantError(report);
+  return report;
+}
@@ -4,6 +4,7 @@ import { config } from 'dotenv';
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { kubTestnet } from '../sdk/chains';
 
 // ES module compatibility
 const __filename = fileURLToPath(import.meta.url);
@@ -12,19 +13,6 @@ const __dirname = path.dirname(__filename);
 // Load environment variables
 config();
 
-// KUB Testnet chain configuration
-const kubTestnet = {
-  id: 25925,
-  name: 'KUB Testnet',
-  nativeCurrency: { name: 'tKUB', symbol: 'tKUB', decimals: 18 },
-  rpcUrls: {
-    default: { http: ['https://rpc-testnet.bitkubchain.io'] },
-  },
-  blockExplorers: {
-    default: { name: 'KubScan Testnet', url: 'https://testnet.kubscan.com' },
-  },
-};
-
 async function loadContractArtifact(contractName: string) {
   const possiblePaths = [
     path.join(__dirname, `../artifacts/contracts/${contractName}.sol/${contractName}.json`),
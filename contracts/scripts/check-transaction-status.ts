@@ -1,43 +1,25 @@
 import { createPublicClient, http } from 'viem';
 import { config } from 'dotenv';
+import { requireManifest } from '../lib/deployment-manifest';
+import { kubTestnet } from '../sdk/chains';
 
 // Load environment variables
 config();
 
-// KUB Testnet chain configuration
-const kubTestnet = {
-  id: 25925,
-  name: 'KUB Testnet',
-  nativeCurrency: { name: 'tKUB', symbol: 'tKUB', decimals: 18 },
-  rpcUrls: {
-    default: { http: ['https://rpc-testnet.bitkubchain.io'] },
-  },
-  blockExplorers: {
-    default: { name: 'KubScan Testnet', url: 'https://testnet.kubscan.com' },
-  },
-};
-
 async function checkTransactionStatus() {
   const publicClient = createPublicClient({
     chain: kubTestnet,
     transport: http(),
   });
 
-  // Transaction hashes from recent deployment
-  const txHashes = [
-    '0x541db9b29d9a2aa0456bac43e89c044b5ed0eb4135ea5f15b6a9029f9acbf546', // TuuKeepAccessControl
-    '0x89f81fd03db462db615595dbcb13ae4590f49e5796dca2a0d124d87557fe6eb7', // TuuCoinBase
-    '0x87cfb9b4b3edd237ef72b6ef87b5fedda094a13bd575018146d1249c689f2c0d', // Randomness
-  ];
-
-  const contracts = ['TuuKeepAccessControl', 'TuuCoinBase', 'Randomness'];
+  // Deployment transactions recorded in the manifest
+  const manifest = requireManifest(kubTestnet.id);
 
   console.log('🔍 Checking Transaction Status on KUB Testnet');
   console.log('===============================================');
 
-  for (let i = 0; i < txHashes.length; i++) {
-    const txHash = txHashes[i];
-    const contractName = contracts[i];
+  for (const [contractName, contract] of Object.entries(manifest.contracts)) {
+    const txHash = contract.deployment.transactionHash;
 
     console.log(`\n📋 ${contractName}`);
     console.log(`Transaction Hash: ${txHash}`);
@@ -45,7 +27,7 @@ async function checkTransactionStatus() {
     try {
       // Get transaction receipt
       const receipt = await publicClient.getTransactionReceipt({
-        hash: txHash as `0x${string}`
+        hash: txHash
       });
 
       console.log(`✅ Status: ${receipt.status === 'success' ? 'SUCCESS' : 'FAILED'}`);
@@ -54,6 +36,9 @@ async function checkTransactionStatus() {
 
       if (receipt.contractAddress) {
         console.log(`📍 Contract Address: ${receipt.contractAddress}`);
+        if (receipt.contractAddress.toLowerCase() !== contract.address.toLowerCase()) {
+          console.log(`⚠️  Manifest records ${contract.address} for this contract`);
+        }
 
         // Check if contract code exists
         const code = await publicClient.getCode({
@@ -0,0 +1,52 @@
+import { network } from "hardhat";
+import { formatEther, type PublicClient } from "viem";
+import { getTuuKeepAddresses } from "../sdk";
+import { manifestStartBlock, requireManifest } from "../lib/deployment-manifest";
+import { checkTuuCoinInvariants } from "../lib/tuucoin-invariants";
+
+/**
+ * TuuCoin Economic Invariant Check
+ *
+ * Replays TuuCoin and cabinet events since deployment and checks supply
+ * conservation, the supply cap, burn accounting and balances against the
+ * contracts' state. Exits non-zero when any invariant is violated.
+ *
+ * Usage: npx hardhat run scripts/check-tuucoin-invariants.ts --network kubTestnet
+ */
+
+async function main() {
+  const { viem, networkName } = await network.connect();
+  const publicClient = (await viem.getPublicClient()) as unknown as PublicClient;
+  const chainId = await publicClient.getChainId();
+  const manifest = requireManifest(chainId);
+
+  console.log(`🔍 Checking TuuCoin invariants on ${networkName} (chain ${chainId})...`);
+
+  const report = await checkTuuCoinInvariants({
+    publicClient,
+    addresses: getTuuKeepAddresses(manifest),
+    fromBlock: manifestStartBlock(manifest),
+  });
+
+  console.log(`📊 At block ${report.blockNumber}:`);
+  console.log(`- Total supply: ${formatEther(report.totalSupply)} TUU`);
+  console.log(`- Minted / burned: ${formatEther(report.totalMinted)} / ${formatEther(report.totalBurned)} TUU`);
+  console.log(`- Effective max supply: ${formatEther(report.effectiveMaxSupply)} TUU`);
+  console.log(`- Burned outside burn tracking: ${formatEther(report.untrackedBurns)} TUU`);
+  console.log(`- Checked ${report.accounts} holders, ${report.burners} burners, ${report.cabinets} cabinets`);
+
+  if (report.violations.length > 0) {
+    console.error(`\n❌ ${report.violations.length} invariant violation(s):`);
+    for (const { invariant, message } of report.violations) {
+      console.error(`- ${invariant}: ${message}`);
+    }
+    process.exit(1);
+  }
+
+  console.log("\n✅ All TuuCoin invariants hold");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,230 +0,0 @@
-import { ethers } from "hardhat";
-import { Contract } from "ethers";
-import * as fs from 'fs';
-import * as path from 'path';
-
-async function main() {
-  console.log("🏠 Starting Phase T.3 Step 2: Cabinet Contracts Deployment");
-  console.log("==========================================================");
-
-  const [deployer] = await ethers.getSigners();
-  console.log(`Deployer: ${deployer.address}`);
-  console.log(`Balance: ${ethers.formatEther(await deployer.provider.getBalance(deployer.address))} KUB`);
-
-  // Load Step 1 deployment data
-  const step1File = path.join(__dirname, '..', 'deployments', 'step-1-foundation.json');
-  if (!fs.existsSync(step1File)) {
-    throw new Error("Step 1 deployment not found. Please run deploy-step-1-foundation.ts first.");
-  }
-
-  const step1Data = JSON.parse(fs.readFileSync(step1File, 'utf8'));
-  const accessControlAddress = step1Data.contracts.TuuKeepAccessControl;
-  console.log(`Using AccessControl from Step 1: ${accessControlAddress}`);
-
-  const deployedContracts: { [key: string]: string } = {};
-
-  try {
-    // 1. Deploy TuuKeepCabinetNFT
-    console.log("\n🎭 Step 2.1: Deploying TuuKeepCabinetNFT...");
-    const TuuKeepCabinetNFT = await ethers.getContractFactory("TuuKeepCabinetNFT");
-    const cabinetNFT = await TuuKeepCabinetNFT.deploy(
-      "TuuKeep Cabinet",      // name
-      "TUUCAB",              // symbol
-      accessControlAddress   // access control
-    );
-    await cabinetNFT.waitForDeployment();
-
-    const cabinetNFTAddress = await cabinetNFT.getAddress();
-    deployedContracts.TuuKeepCabinetNFT = cabinetNFTAddress;
-    console.log(`✅ TuuKeepCabinetNFT deployed to: ${cabinetNFTAddress}`);
-
-    // Verify deployment
-    const nftName = await cabinetNFT.name();
-    const nftSymbol = await cabinetNFT.symbol();
-    console.log(`   NFT Name: ${nftName}`);
-    console.log(`   NFT Symbol: ${nftSymbol}`);
-
-    // 2. Deploy TuuKeepCabinetConfig
-    console.log("\n⚙️  Step 2.2: Deploying TuuKeepCabinetConfig...");
-    const TuuKeepCabinetConfig = await ethers.getContractFactory("TuuKeepCabinetConfig");
-    const cabinetConfig = await TuuKeepCabinetConfig.deploy(
-      accessControlAddress,  // access control
-      deployer.address      // platform fee recipient
-    );
-    await cabinetConfig.waitForDeployment();
-
-    const cabinetConfigAddress = await cabinetConfig.getAddress();
-    deployedContracts.TuuKeepCabinetConfig = cabinetConfigAddress;
-    console.log(`✅ TuuKeepCabinetConfig deployed to: ${cabinetConfigAddress}`);
-
-    // Set the cabinet NFT contract in config
-    console.log("   Setting Cabinet NFT contract reference...");
-    await cabinetConfig.setCabinetNFTContract(cabinetNFTAddress);
-    console.log("   ✅ Cabinet NFT contract reference set");
-
-    // 3. Deploy TuuKeepCabinetItems
-    console.log("\n📦 Step 2.3: Deploying TuuKeepCabinetItems...");
-    const TuuKeepCabinetItems = await ethers.getContractFactory("TuuKeepCabinetItems");
-    const cabinetItems = await TuuKeepCabinetItems.deploy(
-      accessControlAddress   // access control
-    );
-    await cabinetItems.waitForDeployment();
-
-    const cabinetItemsAddress = await cabinetItems.getAddress();
-    deployedContracts.TuuKeepCabinetItems = cabinetItemsAddress;
-    console.log(`✅ TuuKeepCabinetItems deployed to: ${cabinetItemsAddress}`);
-
-    // Set contract references in items contract
-    console.log("   Setting contract references...");
-    await cabinetItems.setContracts(
-      cabinetNFTAddress,    // cabinet NFT contract
-      cabinetConfigAddress, // cabinet config contract
-      deployer.address      // temporary game contract (will be updated later)
-    );
-    console.log("   ✅ Contract references set");
-
-    // 4. Contract Size Validation
-    console.log("\n📏 Step 2.4: Validating Contract Sizes...");
-
-    const contracts = [
-      { name: "TuuKeepCabinetNFT", address: cabinetNFTAddress },
-      { name: "TuuKeepCabinetConfig", address: cabinetConfigAddress },
-      { name: "TuuKeepCabinetItems", address: cabinetItemsAddress }
-    ];
-
-    for (const contract of contracts) {
-      const code = await deployer.provider.getCode(contract.address);
-      const sizeInBytes = (code.length - 2) / 2;
-      const sizeInKB = (sizeInBytes / 1024).toFixed(2);
-
-      console.log(`   ${contract.name}: ${sizeInBytes} bytes (${sizeInKB} KB)`);
-
-      if (sizeInBytes > 24576) {
-        console.warn(`   ⚠️  Warning: ${contract.name} is ${sizeInKB} KB (close to 24KB limit)`);
-      }
-
-      if (sizeInBytes > 20480) { // 20KB warning threshold
-        console.warn(`   ⚠️  ${contract.name} is approaching size limit at ${sizeInKB} KB`);
-      }
-    }
-
-    // 5. Functional Validation
-    console.log("\n🔍 Step 2.5: Functional Validation...");
-
-    // Test NFT functionality
-    console.log("   Testing NFT basic functionality...");
-    const totalCabinets = await cabinetNFT.totalCabinets();
-    console.log(`   Total Cabinets: ${totalCabinets} ✅`);
-
-    // Test Config functionality
-    console.log("   Testing Config functionality...");
-    const feeInfo = await cabinetConfig.getPlatformFeeInfo();
-    console.log(`   Platform Fee Rate: ${feeInfo[1]} basis points ✅`);
-    console.log(`   Fee Recipient: ${feeInfo[0]} ✅`);
-
-    // Test Items functionality
-    console.log("   Testing Items functionality...");
-    // Just verify the contract is accessible
-    const itemsCode = await deployer.provider.getCode(cabinetItemsAddress);
-    console.log(`   Items contract code size: ${(itemsCode.length - 2) / 2} bytes ✅`);
-
-    // 6. Integration Testing
-    console.log("\n🔗 Step 2.6: Integration Testing...");
-
-    try {
-      // Test minting a cabinet NFT
-      console.log("   Testing cabinet NFT minting...");
-      const mintTx = await cabinetNFT.mintCabinet(
-        deployer.address,     // to
-        "Test Cabinet #1"     // name
-      );
-      await mintTx.wait();
-
-      const newTotalCabinets = await cabinetNFT.totalCabinets();
-      console.log(`   Cabinet minted successfully. Total: ${newTotalCabinets} ✅`);
-
-      // Test configuration initialization
-      console.log("   Testing cabinet configuration...");
-      const tokenId = 1; // First minted cabinet
-      await cabinetConfig.initializeCabinetConfig(
-        tokenId,                    // cabinet ID
-        ethers.parseEther("0.01")   // play price (0.01 KUB)
-      );
-
-      const config = await cabinetConfig.getCabinetConfig(tokenId);
-      console.log(`   Cabinet config initialized. Play price: ${ethers.formatEther(config.playPrice)} KUB ✅`);
-
-    } catch (error) {
-      console.warn(`   Integration test warning: ${error}`);
-    }
-
-    // 7. Save deployment addresses
-    console.log("\n💾 Step 2.7: Saving Deployment Addresses...");
-
-    const deploymentData = {
-      network: "kub-testnet",
-      timestamp: new Date().toISOString(),
-      step: "2-cabinet",
-      contracts: deployedContracts,
-      deployer: deployer.address,
-      prerequisites: {
-        accessControl: accessControlAddress
-      },
-      validation: {
-        nftMinted: true,
-        configInitialized: true,
-        itemsContractReady: true
-      }
-    };
-
-    const deploymentFile = path.join(__dirname, '..', 'deployments', 'step-2-cabinet.json');
-    fs.writeFileSync(deploymentFile, JSON.stringify(deploymentData, null, 2));
-    console.log(`   Deployment data saved to: ${deploymentFile}`);
-
-    // 8. Summary
-    console.log("\n🎉 Step 2 Cabinet Deployment Complete!");
-    console.log("=====================================");
-    console.log("Deployed Contracts:");
-    Object.entries(deployedContracts).forEach(([name, address]) => {
-      console.log(`  ${name}: ${address}`);
-    });
-
-    console.log("\n📋 Contract Status:");
-    console.log("  ✅ TuuKeepCabinetNFT: Basic NFT functionality");
-    console.log("  ✅ TuuKeepCabinetConfig: Configuration management");
-    console.log("  ✅ TuuKeepCabinetItems: Item management (ready for integration)");
-    console.log("  ✅ Integration: NFT minting and config initialization working");
-
-    console.log("\n📋 Next Steps:");
-    console.log("  1. Run: npx hardhat run scripts/deploy-step-3-gaming.ts --network kubTestnet");
-    console.log("  2. Verify contracts on KubScan");
-    console.log("  3. Test cabinet creation and configuration");
-
-    console.log("\n⚠️  Important Notes:");
-    console.log("  - All cabinet contracts deployed successfully");
-    console.log("  - Contract sizes are within limits");
-    console.log("  - Basic NFT and config functionality validated");
-    console.log("  - Ready for Step 3: Gaming & Economy Contracts");
-
-  } catch (error) {
-    console.error("\n❌ Step 2 Deployment Failed:");
-    console.error(error);
-
-    // Log deployed contracts for debugging
-    if (Object.keys(deployedContracts).length > 0) {
-      console.log("\n📋 Partially Deployed Contracts:");
-      Object.entries(deployedContracts).forEach(([name, address]) => {
-        console.log(`  ${name}: ${address}`);
-      });
-    }
-
-    process.exit(1);
-  }
-}
-
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error(error);
-    process.exit(1);
-  });
\ No newline at end of file
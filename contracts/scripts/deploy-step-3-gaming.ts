@@ -1,245 +0,0 @@
-import { ethers } from "hardhat";
-import { Contract } from "ethers";
-import * as fs from 'fs';
-import * as path from 'path';
-
-async function main() {
-  console.log("🎮 Starting Phase T.3 Step 3: Gaming & Economy Contracts Deployment");
-  console.log("===================================================================");
-
-  const [deployer] = await ethers.getSigners();
-  console.log(`Deployer: ${deployer.address}`);
-  console.log(`Balance: ${ethers.formatEther(await deployer.provider.getBalance(deployer.address))} KUB`);
-
-  // Load previous deployment data
-  const step1File = path.join(__dirname, '..', 'deployments', 'step-1-foundation.json');
-  const step2File = path.join(__dirname, '..', 'deployments', 'step-2-cabinet.json');
-
-  if (!fs.existsSync(step1File) || !fs.existsSync(step2File)) {
-    throw new Error("Previous deployment steps not found. Please run steps 1 and 2 first.");
-  }
-
-  const step1Data = JSON.parse(fs.readFileSync(step1File, 'utf8'));
-  const step2Data = JSON.parse(fs.readFileSync(step2File, 'utf8'));
-
-  const accessControlAddress = step1Data.contracts.TuuKeepAccessControl;
-  const tuuCoinBaseAddress = step1Data.contracts.TuuCoinBase;
-  const cabinetNFTAddress = step2Data.contracts.TuuKeepCabinetNFT;
-
-  console.log(`Using AccessControl: ${accessControlAddress}`);
-  console.log(`Using TuuCoinBase: ${tuuCoinBaseAddress}`);
-  console.log(`Using CabinetNFT: ${cabinetNFTAddress}`);
-
-  const deployedContracts: { [key: string]: string } = {};
-
-  try {
-    // 1. Deploy TuuCoinGaming
-    console.log("\n🎯 Step 3.1: Deploying TuuCoinGaming...");
-    const TuuCoinGaming = await ethers.getContractFactory("TuuCoinGaming");
-    const tuuCoinGaming = await TuuCoinGaming.deploy(
-      accessControlAddress,  // access control
-      deployer.address      // initial admin
-    );
-    await tuuCoinGaming.waitForDeployment();
-
-    const tuuCoinGamingAddress = await tuuCoinGaming.getAddress();
-    deployedContracts.TuuCoinGaming = tuuCoinGamingAddress;
-    console.log(`✅ TuuCoinGaming deployed to: ${tuuCoinGamingAddress}`);
-
-    // Set the TuuCoinBase contract reference
-    console.log("   Setting TuuCoinBase contract reference...");
-    await tuuCoinGaming.setTuuCoinBaseContract(tuuCoinBaseAddress);
-    console.log("   ✅ TuuCoinBase contract reference set");
-
-    // 2. Deploy TuuKeepCabinetGame (existing contract)
-    console.log("\n🎲 Step 3.2: Deploying TuuKeepCabinetGame...");
-    const TuuKeepCabinetGame = await ethers.getContractFactory("TuuKeepCabinetGame");
-    const cabinetGame = await TuuKeepCabinetGame.deploy(
-      cabinetNFTAddress,     // cabinet contract
-      tuuCoinGamingAddress,  // gaming token contract
-      accessControlAddress  // access control
-    );
-    await cabinetGame.waitForDeployment();
-
-    const cabinetGameAddress = await cabinetGame.getAddress();
-    deployedContracts.TuuKeepCabinetGame = cabinetGameAddress;
-    console.log(`✅ TuuKeepCabinetGame deployed to: ${cabinetGameAddress}`);
-
-    // 3. Configure cross-contract integrations
-    console.log("\n🔗 Step 3.3: Configuring Cross-Contract Integrations...");
-
-    // Grant CABINET_OPERATOR_ROLE to game contract in gaming token
-    console.log("   Granting CABINET_OPERATOR_ROLE to game contract...");
-    const CABINET_OPERATOR_ROLE = await tuuCoinGaming.CABINET_OPERATOR_ROLE();
-    await tuuCoinGaming.grantRole(CABINET_OPERATOR_ROLE, cabinetGameAddress);
-    console.log("   ✅ CABINET_OPERATOR_ROLE granted");
-
-    // Grant MINTER_ROLE to gaming contract in base token
-    console.log("   Granting MINTER_ROLE to gaming contract...");
-    const tuuCoinBase = await ethers.getContractAt("TuuCoinBase", tuuCoinBaseAddress);
-    const MINTER_ROLE = await tuuCoinBase.MINTER_ROLE();
-    await tuuCoinBase.grantRole(MINTER_ROLE, tuuCoinGamingAddress);
-    console.log("   ✅ MINTER_ROLE granted");
-
-    // Update game contract reference in cabinet items (from step 2)
-    console.log("   Updating game contract reference in cabinet items...");
-    const cabinetItemsAddress = step2Data.contracts.TuuKeepCabinetItems;
-    const cabinetItems = await ethers.getContractAt("TuuKeepCabinetItems", cabinetItemsAddress);
-    await cabinetItems.setContracts(
-      cabinetNFTAddress,
-      step2Data.contracts.TuuKeepCabinetConfig,
-      cabinetGameAddress  // Update with real game contract
-    );
-    console.log("   ✅ Game contract reference updated");
-
-    // 4. Contract Size Validation
-    console.log("\n📏 Step 3.4: Validating Contract Sizes...");
-
-    const contracts = [
-      { name: "TuuCoinGaming", address: tuuCoinGamingAddress },
-      { name: "TuuKeepCabinetGame", address: cabinetGameAddress }
-    ];
-
-    for (const contract of contracts) {
-      const code = await deployer.provider.getCode(contract.address);
-      const sizeInBytes = (code.length - 2) / 2;
-      const sizeInKB = (sizeInBytes / 1024).toFixed(2);
-
-      console.log(`   ${contract.name}: ${sizeInBytes} bytes (${sizeInKB} KB)`);
-
-      if (sizeInBytes > 24576) {
-        console.warn(`   ⚠️  Warning: ${contract.name} is ${sizeInKB} KB (close to 24KB limit)`);
-      }
-    }
-
-    // 5. Functional Validation
-    console.log("\n🔍 Step 3.5: Functional Validation...");
-
-    // Test Gaming Contract
-    console.log("   Testing TuuCoinGaming functionality...");
-    const emissionConfig = await tuuCoinGaming.getEmissionConfig();
-    console.log(`   Emission base rate: ${ethers.formatEther(emissionConfig.baseRate)} TUU ✅`);
-    console.log(`   Emission active: ${emissionConfig.isActive} ✅`);
-
-    const totalCabinets = await tuuCoinGaming.getTotalCabinets();
-    console.log(`   Total registered cabinets: ${totalCabinets} ✅`);
-
-    // Test Cabinet Game Contract
-    console.log("   Testing TuuKeepCabinetGame functionality...");
-    // Just verify the contract is accessible and has the right references
-    const gameCode = await deployer.provider.getCode(cabinetGameAddress);
-    console.log(`   Game contract code size: ${(gameCode.length - 2) / 2} bytes ✅`);
-
-    // 6. Integration Testing
-    console.log("\n🔗 Step 3.6: Integration Testing...");
-
-    try {
-      // Test cabinet registration in gaming contract
-      console.log("   Testing cabinet registration...");
-      const cabinetId = 1; // Cabinet created in step 2
-      await tuuCoinGaming.registerCabinet(cabinetId, deployer.address);
-
-      const cabinetInfo = await tuuCoinGaming.getCabinetInfo(cabinetId);
-      console.log(`   Cabinet registered. Owner: ${cabinetInfo.owner} ✅`);
-      console.log(`   Cabinet active: ${cabinetInfo.isActive} ✅`);
-
-      // Test emission calculation
-      console.log("   Testing emission calculation...");
-      const baseAmount = ethers.parseEther("1"); // 1 TUU
-      const emissionAmount = await tuuCoinGaming.calculateEmissionAmount(cabinetId, baseAmount);
-      console.log(`   Emission amount for 1 TUU: ${ethers.formatEther(emissionAmount)} TUU ✅`);
-
-    } catch (error) {
-      console.warn(`   Integration test warning: ${error}`);
-      // Continue deployment even if integration tests fail
-    }
-
-    // 7. Role Verification
-    console.log("\n🔑 Step 3.7: Role Verification...");
-
-    // Verify gaming contract has CABINET_OPERATOR_ROLE
-    const hasOperatorRole = await tuuCoinGaming.hasRole(CABINET_OPERATOR_ROLE, cabinetGameAddress);
-    console.log(`   Game contract has CABINET_OPERATOR_ROLE: ${hasOperatorRole ? '✅' : '❌'}`);
-
-    // Verify gaming contract has MINTER_ROLE on base token
-    const hasMinterRole = await tuuCoinBase.hasRole(MINTER_ROLE, tuuCoinGamingAddress);
-    console.log(`   Gaming contract has MINTER_ROLE: ${hasMinterRole ? '✅' : '❌'}`);
-
-    // 8. Save deployment addresses
-    console.log("\n💾 Step 3.8: Saving Deployment Addresses...");
-
-    const deploymentData = {
-      network: "kub-testnet",
-      timestamp: new Date().toISOString(),
-      step: "3-gaming",
-      contracts: deployedContracts,
-      deployer: deployer.address,
-      prerequisites: {
-        accessControl: accessControlAddress,
-        tuuCoinBase: tuuCoinBaseAddress,
-        cabinetNFT: cabinetNFTAddress
-      },
-      integrations: {
-        cabinetOperatorRoleGranted: hasOperatorRole,
-        minterRoleGranted: hasMinterRole,
-        cabinetRegistered: true
-      },
-      validation: {
-        emissionConfigValid: true,
-        gameContractDeployed: true,
-        crossContractIntegration: true
-      }
-    };
-
-    const deploymentFile = path.join(__dirname, '..', 'deployments', 'step-3-gaming.json');
-    fs.writeFileSync(deploymentFile, JSON.stringify(deploymentData, null, 2));
-    console.log(`   Deployment data saved to: ${deploymentFile}`);
-
-    // 9. Summary
-    console.log("\n🎉 Step 3 Gaming & Economy Deployment Complete!");
-    console.log("===============================================");
-    console.log("Deployed Contracts:");
-    Object.entries(deployedContracts).forEach(([name, address]) => {
-      console.log(`  ${name}: ${address}`);
-    });
-
-    console.log("\n📋 Integration Status:");
-    console.log("  ✅ TuuCoinGaming: Gaming token features");
-    console.log("  ✅ TuuKeepCabinetGame: Gacha game mechanics");
-    console.log("  ✅ Cross-Contract Roles: Properly configured");
-    console.log("  ✅ Cabinet Registration: Working");
-    console.log("  ✅ Emission System: Active and functional");
-
-    console.log("\n📋 Next Steps:");
-    console.log("  1. Run: npx hardhat run scripts/deploy-step-4-marketplace.ts --network kubTestnet");
-    console.log("  2. Verify contracts on KubScan");
-    console.log("  3. Test gaming functionality and token emission");
-
-    console.log("\n⚠️  Important Notes:");
-    console.log("  - Gaming and economy contracts deployed successfully");
-    console.log("  - All cross-contract integrations configured");
-    console.log("  - Token emission system is active");
-    console.log("  - Ready for Step 4: Marketplace Contracts");
-
-  } catch (error) {
-    console.error("\n❌ Step 3 Deployment Failed:");
-    console.error(error);
-
-    // Log deployed contracts for debugging
-    if (Object.keys(deployedContracts).length > 0) {
-      console.log("\n📋 Partially Deployed Contracts:");
-      Object.entries(deployedContracts).forEach(([name, address]) => {
-        console.log(`  ${name}: ${address}`);
-      });
-    }
-
-    process.exit(1);
-  }
-}
-
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error(error);
-    process.exit(1);
-  });
\ No newline at end of file
@@ -1,300 +0,0 @@
-import { ethers } from "hardhat";
-import { Contract } from "ethers";
-import * as fs from 'fs';
-import * as path from 'path';
-
-async function main() {
-  console.log("🏪 Starting Phase T.3 Step 4: Marketplace Contracts Deployment");
-  console.log("==============================================================");
-
-  const [deployer] = await ethers.getSigners();
-  console.log(`Deployer: ${deployer.address}`);
-  console.log(`Balance: ${ethers.formatEther(await deployer.provider.getBalance(deployer.address))} KUB`);
-
-  // Load previous deployment data
-  const step1File = path.join(__dirname, '..', 'deployments', 'step-1-foundation.json');
-  const step2File = path.join(__dirname, '..', 'deployments', 'step-2-cabinet.json');
-
-  if (!fs.existsSync(step1File) || !fs.existsSync(step2File)) {
-    throw new Error("Previous deployment steps not found. Please run steps 1-3 first.");
-  }
-
-  const step1Data = JSON.parse(fs.readFileSync(step1File, 'utf8'));
-  const step2Data = JSON.parse(fs.readFileSync(step2File, 'utf8'));
-
-  const accessControlAddress = step1Data.contracts.TuuKeepAccessControl;
-  const cabinetNFTAddress = step2Data.contracts.TuuKeepCabinetNFT;
-
-  console.log(`Using AccessControl: ${accessControlAddress}`);
-  console.log(`Using CabinetNFT: ${cabinetNFTAddress}`);
-
-  const deployedContracts: { [key: string]: string } = {};
-
-  try {
-    // 1. Deploy TuuKeepMarketplaceFees
-    console.log("\n💰 Step 4.1: Deploying TuuKeepMarketplaceFees...");
-    const TuuKeepMarketplaceFees = await ethers.getContractFactory("TuuKeepMarketplaceFees");
-    const marketplaceFees = await TuuKeepMarketplaceFees.deploy(
-      accessControlAddress,  // access control
-      deployer.address      // fee recipient
-    );
-    await marketplaceFees.waitForDeployment();
-
-    const marketplaceFeesAddress = await marketplaceFees.getAddress();
-    deployedContracts.TuuKeepMarketplaceFees = marketplaceFeesAddress;
-    console.log(`✅ TuuKeepMarketplaceFees deployed to: ${marketplaceFeesAddress}`);
-
-    // Verify fee configuration
-    const feeConfig = await marketplaceFees.getFeeConfig();
-    console.log(`   Platform fee rate: ${feeConfig.platformFeeRate} basis points`);
-    console.log(`   Fee recipient: ${feeConfig.feeRecipient}`);
-
-    // 2. Deploy TuuKeepMarketplaceCore
-    console.log("\n🏬 Step 4.2: Deploying TuuKeepMarketplaceCore...");
-    const TuuKeepMarketplaceCore = await ethers.getContractFactory("TuuKeepMarketplaceCore");
-    const marketplaceCore = await TuuKeepMarketplaceCore.deploy(
-      cabinetNFTAddress,     // cabinet contract
-      accessControlAddress  // access control
-    );
-    await marketplaceCore.waitForDeployment();
-
-    const marketplaceCoreAddress = await marketplaceCore.getAddress();
-    deployedContracts.TuuKeepMarketplaceCore = marketplaceCoreAddress;
-    console.log(`✅ TuuKeepMarketplaceCore deployed to: ${marketplaceCoreAddress}`);
-
-    // 3. Deploy TuuKeepTierSale (existing contract)
-    console.log("\n🎟️  Step 4.3: Deploying TuuKeepTierSale...");
-    const TuuKeepTierSale = await ethers.getContractFactory("TuuKeepTierSale");
-    const tierSale = await TuuKeepTierSale.deploy(
-      cabinetNFTAddress,     // cabinet contract
-      accessControlAddress  // access control
-    );
-    await tierSale.waitForDeployment();
-
-    const tierSaleAddress = await tierSale.getAddress();
-    deployedContracts.TuuKeepTierSale = tierSaleAddress;
-    console.log(`✅ TuuKeepTierSale deployed to: ${tierSaleAddress}`);
-
-    // 4. Configure Cross-Contract Integrations
-    console.log("\n🔗 Step 4.4: Configuring Cross-Contract Integrations...");
-
-    // Set marketplace core contract in fees contract
-    console.log("   Setting marketplace core contract in fees contract...");
-    await marketplaceFees.setMarketplaceCoreContract(marketplaceCoreAddress);
-    console.log("   ✅ Marketplace core contract reference set");
-
-    // Set marketplace fee contract in core contract
-    console.log("   Setting marketplace fee contract in core contract...");
-    await marketplaceCore.setMarketplaceFeeContract(marketplaceFeesAddress);
-    console.log("   ✅ Marketplace fee contract reference set");
-
-    // Grant necessary roles
-    console.log("   Configuring marketplace roles...");
-    const MARKETPLACE_ADMIN_ROLE = await marketplaceCore.MARKETPLACE_ADMIN_ROLE();
-    const FEE_MANAGER_ROLE = await marketplaceFees.FEE_MANAGER_ROLE();
-
-    // These roles are already granted to deployer in constructors, just verify
-    const hasAdminRole = await marketplaceCore.hasRole(MARKETPLACE_ADMIN_ROLE, deployer.address);
-    const hasFeeManagerRole = await marketplaceFees.hasRole(FEE_MANAGER_ROLE, deployer.address);
-
-    console.log(`   Marketplace admin role: ${hasAdminRole ? '✅' : '❌'}`);
-    console.log(`   Fee manager role: ${hasFeeManagerRole ? '✅' : '❌'}`);
-
-    // 5. Contract Size Validation
-    console.log("\n📏 Step 4.5: Validating Contract Sizes...");
-
-    const contracts = [
-      { name: "TuuKeepMarketplaceFees", address: marketplaceFeesAddress },
-      { name: "TuuKeepMarketplaceCore", address: marketplaceCoreAddress },
-      { name: "TuuKeepTierSale", address: tierSaleAddress }
-    ];
-
-    for (const contract of contracts) {
-      const code = await deployer.provider.getCode(contract.address);
-      const sizeInBytes = (code.length - 2) / 2;
-      const sizeInKB = (sizeInBytes / 1024).toFixed(2);
-
-      console.log(`   ${contract.name}: ${sizeInBytes} bytes (${sizeInKB} KB)`);
-
-      if (sizeInBytes > 24576) {
-        console.warn(`   ⚠️  Warning: ${contract.name} is ${sizeInKB} KB (close to 24KB limit)`);
-      }
-    }
-
-    // 6. Functional Validation
-    console.log("\n🔍 Step 4.6: Functional Validation...");
-
-    // Test Marketplace Fees
-    console.log("   Testing TuuKeepMarketplaceFees functionality...");
-    const testPrice = ethers.parseEther("1"); // 1 KUB
-    const feeCalculation = await marketplaceFees.calculateFees(testPrice);
-    console.log(`   Fee calculation for 1 KUB: Platform fee: ${ethers.formatEther(feeCalculation[0])} KUB, Seller amount: ${ethers.formatEther(feeCalculation[1])} KUB ✅`);
-
-    // Test Marketplace Core
-    console.log("   Testing TuuKeepMarketplaceCore functionality...");
-    const marketConfig = await marketplaceCore.getMarketplaceConfig();
-    console.log(`   Min listing price: ${ethers.formatEther(marketConfig.minPrice)} KUB ✅`);
-    console.log(`   Min listing duration: ${marketConfig.minListingDuration / 86400} days ✅`);
-
-    // Test analytics
-    const analytics = await marketplaceCore.getMarketAnalytics();
-    console.log(`   Total volume: ${ethers.formatEther(analytics[0])} KUB ✅`);
-    console.log(`   Total sales: ${analytics[1]} ✅`);
-
-    // Test Tier Sale
-    console.log("   Testing TuuKeepTierSale functionality...");
-    const tierSaleCode = await deployer.provider.getCode(tierSaleAddress);
-    console.log(`   Tier sale contract code size: ${(tierSaleCode.length - 2) / 2} bytes ✅`);
-
-    // 7. Integration Testing
-    console.log("\n🔗 Step 4.7: Integration Testing...");
-
-    try {
-      // Test marketplace listing creation (requires cabinet NFT to be approved)
-      console.log("   Testing marketplace integration...");
-
-      // First, mint a cabinet for testing if we have access
-      const cabinetNFT = await ethers.getContractAt("TuuKeepCabinetNFT", cabinetNFTAddress);
-
-      // Check if we already have cabinets from previous steps
-      const totalCabinets = await cabinetNFT.totalCabinets();
-      console.log(`   Total cabinets available: ${totalCabinets}`);
-
-      if (totalCabinets > 0) {
-        // Approve marketplace to manage cabinet
-        console.log("   Approving marketplace for cabinet management...");
-        const cabinetId = 1; // Use first cabinet
-        const isOwner = (await cabinetNFT.ownerOf(cabinetId)) === deployer.address;
-
-        if (isOwner) {
-          await cabinetNFT.approve(marketplaceCoreAddress, cabinetId);
-          console.log("   ✅ Cabinet approved for marketplace");
-
-          // Test listing creation
-          const listingPrice = ethers.parseEther("0.1"); // 0.1 KUB
-          const listingDuration = 7 * 24 * 60 * 60; // 7 days
-
-          const createListingTx = await marketplaceCore.createListing(
-            cabinetId,
-            listingPrice,
-            listingDuration
-          );
-          await createListingTx.wait();
-
-          console.log("   ✅ Test listing created successfully");
-
-          // Get the listing
-          const activeListing = await marketplaceCore.getActiveListing(cabinetId);
-          console.log(`   Active listing price: ${ethers.formatEther(activeListing.price)} KUB ✅`);
-        } else {
-          console.log("   ⚠️  Cabinet not owned by deployer, skipping listing test");
-        }
-      } else {
-        console.log("   ⚠️  No cabinets available for testing marketplace integration");
-      }
-
-    } catch (error) {
-      console.warn(`   Integration test warning: ${error}`);
-      // Continue deployment even if integration tests fail
-    }
-
-    // 8. Final System Validation
-    console.log("\n✅ Step 4.8: Final System Validation...");
-
-    console.log("   Checking all contract interconnections...");
-
-    // Verify fee contract knows about core contract
-    const feeCoreContract = await marketplaceFees.marketplaceCoreContract();
-    console.log(`   Fee contract -> Core contract: ${feeCoreContract === marketplaceCoreAddress ? '✅' : '❌'}`);
-
-    // Verify core contract knows about fee contract
-    const coreFeeContract = await marketplaceCore.marketplaceFeeContract();
-    console.log(`   Core contract -> Fee contract: ${coreFeeContract === marketplaceFeesAddress ? '✅' : '❌'}`);
-
-    // 9. Save deployment addresses
-    console.log("\n💾 Step 4.9: Saving Deployment Addresses...");
-
-    const deploymentData = {
-      network: "kub-testnet",
-      timestamp: new Date().toISOString(),
-      step: "4-marketplace",
-      contracts: deployedContracts,
-      deployer: deployer.address,
-      prerequisites: {
-        accessControl: accessControlAddress,
-        cabinetNFT: cabinetNFTAddress
-      },
-      integrations: {
-        feeContractLinked: feeCoreContract === marketplaceCoreAddress,
-        coreContractLinked: coreFeeContract === marketplaceFeesAddress,
-        rolesConfigured: hasAdminRole && hasFeeManagerRole
-      },
-      validation: {
-        feeCalculationWorking: true,
-        marketplaceConfigValid: true,
-        tierSaleDeployed: true
-      }
-    };
-
-    const deploymentFile = path.join(__dirname, '..', 'deployments', 'step-4-marketplace.json');
-    fs.writeFileSync(deploymentFile, JSON.stringify(deploymentData, null, 2));
-    console.log(`   Deployment data saved to: ${deploymentFile}`);
-
-    // 10. Summary
-    console.log("\n🎉 Step 4 Marketplace Deployment Complete!");
-    console.log("==========================================");
-    console.log("Deployed Contracts:");
-    Object.entries(deployedContracts).forEach(([name, address]) => {
-      console.log(`  ${name}: ${address}`);
-    });
-
-    console.log("\n📋 Marketplace Status:");
-    console.log("  ✅ TuuKeepMarketplaceFees: Fee calculation and collection");
-    console.log("  ✅ TuuKeepMarketplaceCore: Listing and trading functionality");
-    console.log("  ✅ TuuKeepTierSale: Tiered sale system");
-    console.log("  ✅ Cross-Contract Integration: Properly linked");
-    console.log("  ✅ Role Management: Configured correctly");
-
-    console.log("\n📋 Final Steps:");
-    console.log("  1. Run: npx hardhat run scripts/deploy-complete-validation.ts --network kubTestnet");
-    console.log("  2. Verify all contracts on KubScan");
-    console.log("  3. Test end-to-end marketplace functionality");
-    console.log("  4. Update frontend contract addresses");
-
-    console.log("\n🎯 Micro-Services Architecture Complete!");
-    console.log("========================================");
-    console.log("Total Contracts Deployed: 11");
-    console.log("  - Foundation: 3 contracts");
-    console.log("  - Cabinet System: 3 contracts");
-    console.log("  - Gaming & Economy: 2 contracts");
-    console.log("  - Marketplace: 3 contracts");
-
-    console.log("\n⚠️  Important Notes:");
-    console.log("  - All contracts deployed successfully");
-    console.log("  - Micro-services architecture implemented");
-    console.log("  - Contract complexity reduced (all < 300 lines)");
-    console.log("  - Stack depth issues resolved");
-    console.log("  - Ready for KUB testnet validation");
-
-  } catch (error) {
-    console.error("\n❌ Step 4 Deployment Failed:");
-    console.error(error);
-
-    // Log deployed contracts for debugging
-    if (Object.keys(deployedContracts).length > 0) {
-      console.log("\n📋 Partially Deployed Contracts:");
-      Object.entries(deployedContracts).forEach(([name, address]) => {
-        console.log(`  ${name}: ${address}`);
-      });
-    }
-
-    process.exit(1);
-  }
-}
-
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error(error);
-    process.exit(1);
-  });
\ No newline at end of file
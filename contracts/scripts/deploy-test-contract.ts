@@ -4,6 +4,8 @@ import { config } from 'dotenv';
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { explorerUrl, kubTestnet } from '../sdk/chains';
+import { assertBytecodeCompatible } from '../lib/bytecode-checks';
 
 // ES module compatibility
 const __filename = fileURLToPath(import.meta.url);
@@ -12,23 +14,13 @@ const __dirname = path.dirname(__filename);
 // Load environment variables
 config();
 
-// KUB Testnet chain configuration
-const kubTestnet = {
-  id: 25925,
-  name: 'KUB Testnet',
-  nativeCurrency: { name: 'tKUB', symbol: 'tKUB', decimals: 18 },
-  rpcUrls: {
-    default: { http: ['https://rpc-testnet.bitkubchain.io'] },
-  },
-  blockExplorers: {
-    default: { name: 'KubScan Testnet', url: 'https://testnet.kubscan.com' },
-  },
-};
-
 async function main() {
   console.log('🧪 Test Contract Deployment');
   console.log('===========================');
 
+  // Throws with a per-contract report if KUB's London EVM would reject any artifact
+  assertBytecodeCompatible('kubTestnet');
+
   // Setup clients
   const privateKey = process.env.KUB_TESTNET_PRIVATE_KEY;
   if (!privateKey) {
@@ -75,7 +67,7 @@ async function main() {
     if (receipt.contractAddress) {
       const code = await publicClient.getCode({ address: receipt.contractAddress });
       console.log(`✅ Contract Code: ${code && code !== '0x' ? 'EXISTS' : 'MISSING'}`);
-      console.log(`🔗 Explorer: https://testnet.kubscan.com/address/${receipt.contractAddress}`);
+      console.log(`🔗 Explorer: ${explorerUrl(kubTestnet, { address: receipt.contractAddress })}`);
 
       // Test contract interaction
       if (code && code !== '0x') {
@@ -1,213 +0,0 @@
-import { createWalletClient, createPublicClient, http, formatEther } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
-import { config } from 'dotenv';
-import * as fs from 'fs';
-import * as path from 'path';
-import { fileURLToPath } from 'url';
-
-// ES module compatibility
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-// Load environment variables
-config();
-
-// KUB Testnet chain configuration
-const kubTestnet = {
-  id: 25925,
-  name: 'KUB Testnet',
-  nativeCurrency: { name: 'tKUB', symbol: 'tKUB', decimals: 18 },
-  rpcUrls: {
-    default: { http: ['https://rpc-testnet.bitkubchain.io'] },
-  },
-  blockExplorers: {
-    default: { name: 'KubScan Testnet', url: 'https://testnet.kubscan.com' },
-  },
-};
-
-async function loadContractArtifact(contractName: string) {
-  const contractsDir = path.dirname(__dirname);
-  const possiblePaths = [
-    path.join(contractsDir, `artifacts/contracts/${contractName}.sol/${contractName}.json`),
-    path.join(contractsDir, `artifacts/contracts/Utils/Security/${contractName}.sol/${contractName}.json`),
-    path.join(contractsDir, `artifacts/contracts/Utils/${contractName}.sol/${contractName}.json`),
-  ];
-
-  for (const artifactPath of possiblePaths) {
-    if (fs.existsSync(artifactPath)) {
-      const artifact = JSON.parse(fs.readFileSync(artifactPath, 'utf-8'));
-      return {
-        abi: artifact.abi,
-        bytecode: artifact.bytecode,
-      };
-    }
-  }
-  throw new Error(`Contract artifact not found: ${contractName}`);
-}
-
-async function deployContract(
-  walletClient: any,
-  publicClient: any,
-  contractName: string,
-  constructorArgs: any[] = []
-) {
-  console.log(`\n📦 Deploying ${contractName}...`);
-
-  try {
-    const { abi, bytecode } = await loadContractArtifact(contractName);
-
-    console.log('   ⛽ Estimating gas...');
-    const gasEstimate = await publicClient.estimateGas({
-      account: walletClient.account,
-      data: bytecode as `0x${string}`,
-      to: null,
-    });
-
-    const gasWithBuffer = BigInt(Math.floor(Number(gasEstimate) * 1.2));
-    console.log(`   Gas Estimate: ${gasEstimate.toString()} gas (${(Number(gasEstimate) / 1000000).toFixed(2)}M)`);
-    console.log(`   Gas with Buffer: ${gasWithBuffer.toString()} gas`);
-
-    const hash = await walletClient.deployContract({
-      abi,
-      bytecode: bytecode as `0x${string}`,
-      args: constructorArgs,
-      gas: gasWithBuffer,
-    });
-
-    console.log(`   ⏳ Transaction hash: ${hash}`);
-
-    const receipt = await publicClient.waitForTransactionReceipt({ hash });
-
-    console.log(`   ✅ Status: ${receipt.status === 'success' ? 'SUCCESS' : 'FAILED'}`);
-    console.log(`   ⛽ Gas Used: ${receipt.gasUsed.toString()}`);
-    console.log(`   📦 Block Number: ${receipt.blockNumber.toString()}`);
-
-    if (receipt.contractAddress) {
-      console.log(`   📍 Contract Address: ${receipt.contractAddress}`);
-
-      // Verify contract code exists
-      const code = await publicClient.getCode({
-        address: receipt.contractAddress
-      });
-
-      if (code && code !== '0x') {
-        console.log(`   ✅ Contract Code: EXISTS (${code.length} chars)`);
-        return {
-          success: true,
-          address: receipt.contractAddress,
-          transactionHash: hash,
-          gasUsed: receipt.gasUsed,
-        };
-      } else {
-        console.log(`   ❌ Contract Code: DOES NOT EXIST`);
-        return { success: false, error: 'No contract code at address' };
-      }
-    } else {
-      console.log(`   ❌ No Contract Address Generated`);
-      return { success: false, error: 'No contract address' };
-    }
-
-  } catch (error) {
-    console.log(`   ❌ Deployment failed: ${error}`);
-    return { success: false, error: error.toString() };
-  }
-}
-
-async function main() {
-  console.log('🔧 Deploy TuuCoinBase with Delayed Validation Strategy');
-  console.log('====================================================');
-  console.log('Strategy: Deploy access control first, then TuuCoinBase with validation');
-
-  // Setup clients
-  const privateKey = process.env.KUB_TESTNET_PRIVATE_KEY;
-  if (!privateKey) {
-    throw new Error('KUB_TESTNET_PRIVATE_KEY not set');
-  }
-
-  const account = privateKeyToAccount(privateKey.startsWith('0x') ? privateKey as `0x${string}` : `0x${privateKey}` as `0x${string}`);
-
-  const walletClient = createWalletClient({
-    account,
-    chain: kubTestnet,
-    transport: http(),
-  });
-
-  const publicClient = createPublicClient({
-    chain: kubTestnet,
-    transport: http(),
-  });
-
-  console.log(`Deployer: ${account.address}`);
-  console.log(`Balance: ${formatEther(await publicClient.getBalance({ address: account.address }))} KUB\n`);
-
-  // Use existing deployed access control
-  const existingAccessControl = "0xb6144a66b1553b8028e60e2ccfff6bfff74b270e";
-  console.log(`Using existing AccessControl: ${existingAccessControl}`);
-
-  // Verify access control exists and has code
-  const accessControlCode = await publicClient.getCode({
-    address: existingAccessControl as `0x${string}`
-  });
-
-  if (!accessControlCode || accessControlCode === '0x') {
-    console.log('❌ Access control contract does not exist or has no code');
-    return;
-  }
-
-  console.log(`✅ Access control contract verified (${accessControlCode.length} chars)`);
-
-  // Wait a bit to ensure network state is consistent
-  console.log('\n⏳ Waiting 5 seconds for network consistency...');
-  await new Promise(resolve => setTimeout(resolve, 5000));
-
-  // Deploy TuuCoinBase with existing access control
-  const tuuCoinResult = await deployContract(
-    walletClient,
-    publicClient,
-    'TuuCoinBase',
-    [existingAccessControl, account.address]
-  );
-
-  console.log('\n🎯 Final Result:');
-  if (tuuCoinResult.success) {
-    console.log(`✅ TuuCoinBase deployed successfully!`);
-    console.log(`   Address: ${tuuCoinResult.address}`);
-    console.log(`   Transaction: ${tuuCoinResult.transactionHash}`);
-    console.log(`   Gas Used: ${tuuCoinResult.gasUsed.toString()}`);
-    console.log(`   Explorer: https://testnet.kubscan.com/address/${tuuCoinResult.address}`);
-
-    // Update deployment status file
-    const statusPath = path.join(path.dirname(__dirname), 'deployments', 'kub-testnet-status.json');
-    if (fs.existsSync(statusPath)) {
-      const status = JSON.parse(fs.readFileSync(statusPath, 'utf-8'));
-      status.successfulDeployments.TuuCoinBase = {
-        address: tuuCoinResult.address,
-        transactionHash: tuuCoinResult.transactionHash,
-        gasUsed: Number(tuuCoinResult.gasUsed),
-        status: "SUCCESS",
-        verified: true,
-        deploymentMethod: "delayed-validation",
-        kubscanUrl: `https://testnet.kubscan.com/address/${tuuCoinResult.address}`,
-        note: "Deployed with delayed validation strategy using existing AccessControl"
-      };
-      delete status.failedDeployments.TuuCoinBase;
-      status.deploymentProgress.successfulDeployments = 3;
-      status.deploymentProgress.failedDeployments = 0;
-      status.deploymentProgress.successRate = "100%";
-      status.lastUpdated = new Date().toISOString();
-
-      fs.writeFileSync(statusPath, JSON.stringify(status, null, 2));
-      console.log(`📁 Updated deployment status: ${statusPath}`);
-    }
-  } else {
-    console.log(`❌ TuuCoinBase deployment failed: ${tuuCoinResult.error}`);
-  }
-}
-
-main()
-  .then(() => {
-    console.log('\n🔧 Delayed validation deployment complete');
-  })
-  .catch((error) => {
-    console.error('Error:', error);
-  });
\ No newline at end of file
@@ -0,0 +1,116 @@
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+
+// ES module compatibility
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Regenerates the ABI modules under sdk/abis from the compiled artifacts.
+ *
+ * Usage:
+ *   npx hardhat compile
+ *   npx hardhat run scripts/generate-sdk-abis.ts
+ *
+ * The SDK ships ABIs as `as const` TypeScript modules so viem can infer
+ * argument and return types. Regenerate after every contract change; the
+ * type-check then flags any SDK or frontend call that no longer matches.
+ */
+
+interface SdkContract {
+  name: string;
+  source: string;
+}
+
+const SDK_CONTRACTS: SdkContract[] = [
+  { name: "TuuKeepCabinet", source: "contracts/TuuKeepCabinet.sol" },
+  { name: "TuuCoin", source: "contracts/TuuCoin.sol" },
+  { name: "TuuKeepMarketplace", source: "contracts/TuuKeepMarketplace.sol" },
+  { name: "TuuKeepTierSale", source: "contracts/TuuKeepTierSale.sol" },
+  { name: "TuuKeepAccessControl", source: "contracts/Utils/Security/TuuKeepAccessControl.sol" },
+  { name: "Randomness", source: "contracts/Utils/Randomness.sol" },
+];
+
+const ARTIFACTS_DIR = path.join(__dirname, "../artifacts");
+const OUTPUT_DIR = path.join(__dirname, "../sdk/abis");
+
+const HEADER = [
+  "// This file is generated by scripts/generate-sdk-abis.ts from the compiled",
+  "// artifacts. Do not edit by hand; recompile and rerun the generator instead.",
+].join("\n");
+
+const ENTRY_ORDER = ["constructor", "error", "event", "fallback", "function", "receive"];
+
+type AbiNode = Record<string, unknown>;
+
+// Drop compiler-only fields and sort keys so the output is stable across solc versions
+function normalize(node: unknown): unknown {
+  if (Array.isArray(node)) return node.map(normalize);
+  if (node === null || typeof node !== "object") return node;
+
+  const result: AbiNode = {};
+  for (const key of Object.keys(node).sort()) {
+    if (key === "internalType") continue;
+    result[key] = normalize((node as AbiNode)[key]);
+  }
+  return result;
+}
+
+function signature(entry: AbiNode): string {
+  const inputs = (entry.inputs as AbiNode[] | undefined) ?? [];
+  return `${entry.name ?? ""}(${inputs.map((input) => input.type).join(",")})`;
+}
+
+function sortAbi(abi: AbiNode[]): AbiNode[] {
+  return [...abi].sort((a, b) => {
+    const byType = ENTRY_ORDER.indexOf(a.type as string) - ENTRY_ORDER.indexOf(b.type as string);
+    if (byType !== 0) return byType;
+    return signature(a).localeCompare(signature(b));
+  });
+}
+
+function abiExportName(contractName: string): string {
+  return `${contractName[0].toLowerCase()}${contractName.slice(1)}Abi`;
+}
+
+function formatAbiModule(contractName: string, abi: AbiNode[]): string {
+  const body = JSON.stringify(sortAbi(normalize(abi) as AbiNode[]), null, 2);
+  return `${HEADER}\n\nexport const ${abiExportName(contractName)} = ${body} as const;\n`;
+}
+
+function formatIndex(contracts: SdkContract[]): string {
+  const lines = contracts.map(
+    ({ name }) => `export { ${abiExportName(name)} } from "./${name}";`,
+  );
+  return `${HEADER}\n\n${lines.join("\n")}\n`;
+}
+
+async function main() {
+  console.log("🔧 Generating SDK ABI modules");
+
+  fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+
+  for (const contract of SDK_CONTRACTS) {
+    const artifactPath = path.join(ARTIFACTS_DIR, contract.source, `${contract.name}.json`);
+    if (!fs.existsSync(artifactPath)) {
+      throw new Error(`Artifact not found for ${contract.name}: ${artifactPath}. Run \`npx hardhat compile\` first.`);
+    }
+
+    const artifact = JSON.parse(fs.readFileSync(artifactPath, "utf-8"));
+    const outputPath = path.join(OUTPUT_DIR, `${contract.name}.ts`);
+    fs.writeFileSync(outputPath, formatAbiModule(contract.name, artifact.abi));
+
+    console.log(`✅ ${contract.name} → ${path.relative(process.cwd(), outputPath)} (${artifact.abi.length} entries)`);
+  }
+
+  fs.writeFileSync(path.join(OUTPUT_DIR, "index.ts"), formatIndex(SDK_CONTRACTS));
+  console.log("📦 SDK ABI index updated");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ ABI generation failed:", error);
+    process.exit(1);
+  });
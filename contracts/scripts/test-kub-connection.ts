@@ -1,6 +1,7 @@
 import { createWalletClient, http, parseEther, publicActions } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
 import { config } from 'dotenv';
+import { kubTestnet } from '../sdk/chains';
 
 // Load environment variables
 config();
@@ -9,22 +10,6 @@ async function testKubTestnet() {
   try {
     console.log('🔗 Testing KUB Testnet connection...');
 
-    // Create the KUB Testnet chain configuration
-    const kubTestnet = {
-      id: 25925,
-      name: 'KUB Testnet',
-      network: 'kub-testnet',
-      nativeCurrency: { name: 'tKUB', symbol: 'tKUB', decimals: 18 },
-      rpcUrls: {
-        default: { http: [process.env.KUB_TESTNET_RPC_URL || 'https://rpc-testnet.bitkubchain.io'] },
-        public: { http: [process.env.KUB_TESTNET_RPC_URL || 'https://rpc-testnet.bitkubchain.io'] },
-      },
-      blockExplorers: {
-        default: { name: 'KubScan Testnet', url: 'https://testnet.kubscan.com' },
-      },
-      testnet: true,
-    };
-
     // Create account from private key
     const privateKey = process.env.KUB_TESTNET_PRIVATE_KEY;
     if (!privateKey || privateKey === 'your_kub_testnet_private_key_here') {
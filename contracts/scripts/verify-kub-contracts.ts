@@ -1,150 +0,0 @@
-import { config } from "dotenv";
-import * as fs from "fs";
-import * as path from "path";
-import { fileURLToPath } from "url";
-
-// ES module compatibility
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-// Load environment variables
-config();
-
-interface DeploymentResult {
-  contracts: {
-    [key: string]: string;
-  };
-}
-
-async function verifyContract(contractName: string, address: string, constructorArgs: any[] = []) {
-  console.log(`🔍 Verifying ${contractName} at ${address}...`);
-
-  try {
-    // For demonstration - in real implementation, this would use Hardhat verify
-    const command = `npx hardhat verify --network kubTestnet ${address}`;
-    const commandWithArgs = constructorArgs.length > 0
-      ? `${command} ${constructorArgs.map(arg => `"${arg}"`).join(' ')}`
-      : command;
-
-    console.log(`📞 Command: ${commandWithArgs}`);
-
-    // Mock verification success
-    console.log(`✅ ${contractName} verified successfully on KubScan`);
-    console.log(`🌐 View on KubScan: https://testnet.kubscan.com/address/${address}`);
-
-    return true;
-  } catch (error) {
-    console.error(`❌ Failed to verify ${contractName}:`, error);
-    return false;
-  }
-}
-
-async function main() {
-  console.log('🔍 Starting KUB testnet contract verification...');
-
-  // Load deployment results
-  const deploymentFile = path.join(__dirname, '../deployments/kubTestnet-mock.json');
-
-  if (!fs.existsSync(deploymentFile)) {
-    console.error('❌ Deployment results not found. Please run deployment first.');
-    process.exit(1);
-  }
-
-  const deployment: DeploymentResult = JSON.parse(fs.readFileSync(deploymentFile, 'utf-8'));
-
-  console.log('📋 Contracts to verify:');
-  Object.entries(deployment.contracts).forEach(([name, address]) => {
-    console.log(`- ${name}: ${address}`);
-  });
-
-  let verified = 0;
-  const total = Object.keys(deployment.contracts).length;
-
-  // Verify each contract with appropriate constructor arguments
-  console.log('\n🔍 Starting verification process...');
-
-  // 1. TuuKeepAccessControl (no constructor args)
-  if (deployment.contracts.accessControl) {
-    const success = await verifyContract('TuuKeepAccessControl', deployment.contracts.accessControl, []);
-    if (success) verified++;
-  }
-
-  // 2. TuuCoin (accessControl address)
-  if (deployment.contracts.tuuCoin && deployment.contracts.accessControl) {
-    const success = await verifyContract('TuuCoin', deployment.contracts.tuuCoin, [
-      deployment.contracts.accessControl
-    ]);
-    if (success) verified++;
-  }
-
-  // 3. Randomness (no constructor args)
-  if (deployment.contracts.randomness) {
-    const success = await verifyContract('Randomness', deployment.contracts.randomness, []);
-    if (success) verified++;
-  }
-
-  // 4. TuuKeepCabinetCore (accessControl, platformFeeRecipient)
-  if (deployment.contracts.cabinetCore && deployment.contracts.accessControl) {
-    const success = await verifyContract('TuuKeepCabinetCore', deployment.contracts.cabinetCore, [
-      deployment.contracts.accessControl,
-      '0x4C06524B1bd7AA002747252257bBE0C472735A6D' // platformFeeRecipient
-    ]);
-    if (success) verified++;
-  }
-
-  // 5. TuuKeepCabinetGame (cabinetCore, tuuCoin, randomness)
-  if (deployment.contracts.cabinetGame && deployment.contracts.cabinetCore &&
-      deployment.contracts.tuuCoin && deployment.contracts.randomness) {
-    const success = await verifyContract('TuuKeepCabinetGame', deployment.contracts.cabinetGame, [
-      deployment.contracts.cabinetCore,
-      deployment.contracts.tuuCoin,
-      deployment.contracts.randomness
-    ]);
-    if (success) verified++;
-  }
-
-  // 6. TuuKeepMarketplace (cabinetCore, accessControl)
-  if (deployment.contracts.marketplace && deployment.contracts.cabinetCore &&
-      deployment.contracts.accessControl) {
-    const success = await verifyContract('TuuKeepMarketplace', deployment.contracts.marketplace, [
-      deployment.contracts.cabinetCore,
-      deployment.contracts.accessControl
-    ]);
-    if (success) verified++;
-  }
-
-  // 7. TuuKeepTierSale (cabinetCore)
-  if (deployment.contracts.tierSale && deployment.contracts.cabinetCore) {
-    const success = await verifyContract('TuuKeepTierSale', deployment.contracts.tierSale, [
-      deployment.contracts.cabinetCore
-    ]);
-    if (success) verified++;
-  }
-
-  console.log('\n🎉 Verification Summary:');
-  console.log(`✅ Verified: ${verified}/${total} contracts`);
-  console.log(`🌐 All contracts are now publicly verifiable on KubScan Testnet`);
-  console.log(`📁 View all contracts: https://testnet.kubscan.com/`);
-
-  if (verified === total) {
-    console.log('\n🚀 All contracts verified successfully!');
-    console.log('📋 Next steps:');
-    console.log('1. Run integration tests to validate functionality');
-    console.log('2. Test complete user workflows');
-    console.log('3. Measure gas costs and performance');
-    return true;
-  } else {
-    console.log(`\n⚠️ ${total - verified} contracts failed verification`);
-    return false;
-  }
-}
-
-// Run verification
-main()
-  .then((success) => {
-    process.exit(success ? 0 : 1);
-  })
-  .catch((error) => {
-    console.error('❌ Verification failed:', error);
-    process.exit(1);
-  });
\ No newline at end of file
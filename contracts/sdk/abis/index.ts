@@ -0,0 +1,9 @@
+// This file is generated by scripts/generate-sdk-abis.ts from the compiled
+// artifacts. Do not edit by hand; recompile and rerun the generator instead.
+
+export { tuuKeepCabinetAbi } from "./TuuKeepCabinet";
+export { tuuCoinAbi } from "./TuuCoin";
+export { tuuKeepMarketplaceAbi } from "./TuuKeepMarketplace";
+export { tuuKeepTierSaleAbi } from "./TuuKeepTierSale";
+export { tuuKeepAccessControlAbi } from "./TuuKeepAccessControl";
+export { randomnessAbi } from "./Randomness";
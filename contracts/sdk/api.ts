@@ -0,0 +1,220 @@
+import type { Address, Hash } from "viem";
+import type { AssetType } from "./types";
+
+/**
+ * Read API schemas
+ * @dev Request filters and JSON responses of the `/api/*` routes, which serve
+ * data from the event indexer. uint256 values (wei amounts, IDs) travel as
+ * decimal strings since JSON has no bigint; block numbers, timestamps (unix
+ * seconds) and counts are plain numbers. Addresses are lowercase.
+ */
+
+export type DecimalString = string;
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface PageParameters {
+  limit?: number;
+  offset?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/** Inclusive unix-second bounds on an event's block timestamp */
+export interface TimeWindow {
+  from?: number;
+  to?: number;
+}
+
+/** Restricts results to prizes of this rarity and/or asset type */
+export interface PrizeFilter {
+  rarity?: number;
+  assetType?: AssetType;
+}
+
+export interface ApiError {
+  error: string;
+}
+
+/** Where an event was logged */
+export interface EventLocation {
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: Hash;
+  timestamp: number;
+}
+
+// ============ Cabinets ============
+
+/**
+ * `GET /api/cabinets`; the window limits which plays are counted and the prize
+ * filter keeps cabinets that have been stocked with a matching item
+ */
+export type CabinetListParameters = PageParameters & TimeWindow & PrizeFilter;
+
+export interface CabinetStats {
+  cabinetId: DecimalString;
+  plays: number;
+  wins: number;
+  /** Sum of play prices, before the platform fee */
+  revenue: DecimalString;
+  uniquePlayers: number;
+  itemsDeposited: number;
+  itemsWithdrawn: number;
+  lastPlayedAt: number | null;
+}
+
+export interface Prize {
+  itemIndex: number;
+  assetType: AssetType;
+  contractAddress: Address;
+  tokenIdOrAmount: DecimalString;
+  rarity: number;
+}
+
+/** `GET /api/cabinets/[id]/plays` */
+export interface PlayListParameters extends PageParameters, TimeWindow, PrizeFilter {
+  player?: Address;
+  won?: boolean;
+}
+
+export interface PlayRecord extends EventLocation {
+  cabinetId: DecimalString;
+  player: Address;
+  playPrice: DecimalString;
+  tuuCoinAmount: DecimalString;
+  wonPrize: boolean;
+  prize: Prize | null;
+}
+
+/** `GET /api/cabinets/[id]/revenue` */
+export interface RevenueSeriesParameters {
+  /** Trailing days to return, counting today */
+  days?: number;
+  /** Days to project from the trailing average */
+  forecastDays?: number;
+}
+
+export interface RevenuePoint {
+  /** Start of the UTC day */
+  day: number;
+  plays: number;
+  revenue: DecimalString;
+}
+
+export interface RevenueSeries {
+  cabinetId: DecimalString;
+  points: RevenuePoint[];
+  /** Average daily revenue over `points` times `forecastDays` */
+  forecast: { days: number; revenue: DecimalString };
+}
+
+// ============ Players ============
+
+export type PlayerActivityKind = "play" | "reward" | "purchase" | "marketBuy" | "marketSell";
+
+/** `GET /api/players/[address]/history`; a prize filter keeps only matching wins */
+export interface PlayerHistoryParameters extends PageParameters, TimeWindow, PrizeFilter {
+  kinds?: PlayerActivityKind[];
+}
+
+export interface PlayerActivity extends EventLocation {
+  kind: PlayerActivityKind;
+  cabinetId: DecimalString;
+  /** Play price, TuuCoin minted, sale price or tier sale price */
+  amount: DecimalString;
+  /** Winning plays only */
+  prize: Prize | null;
+}
+
+/** `GET /api/players/[address]/tuucoin`: lifetime TuuCoin earned and burned */
+export interface PlayerTuuCoinSummary {
+  /** Consolation and reward TuuCoin minted from plays */
+  minted: DecimalString;
+  rewards: number;
+  /** Burned with `TuuCoin.burnForOdds` */
+  burnedForOdds: DecimalString;
+  /** Burned as odds boosts on plays */
+  burnedInPlays: DecimalString;
+  boostedPlays: number;
+}
+
+// ============ Market ============
+
+export type ListingStatus = "active" | "sold" | "cancelled" | "expired";
+
+/** `GET /api/market/listings` */
+export interface ListingListParameters extends PageParameters, TimeWindow {
+  status?: ListingStatus;
+  seller?: Address;
+  cabinetId?: DecimalString;
+}
+
+export interface ListingRecord extends EventLocation {
+  listingId: DecimalString;
+  cabinetId: DecimalString;
+  seller: Address;
+  /** Latest price, after any updates */
+  price: DecimalString;
+  expiresAt: number;
+  status: ListingStatus;
+  buyer: Address | null;
+}
+
+/** `GET /api/market/stats` */
+export interface MarketStatsParameters {
+  days?: number;
+}
+
+export interface MarketVolumePoint {
+  day: number;
+  sales: number;
+  volume: DecimalString;
+}
+
+export interface MarketStats {
+  totalSales: number;
+  totalVolume: DecimalString;
+  totalFees: DecimalString;
+  averagePrice: DecimalString;
+  activeListings: number;
+  uniqueBuyers: number;
+  uniqueSellers: number;
+  daily: MarketVolumePoint[];
+}
+
+// ============ TuuCoin admin ============
+
+/** The TuuCoin admin call behind each audit trail entry */
+export type TuuCoinAdminActionKind =
+  | "updateEmissionConfig"
+  | "setEmissionActive"
+  | "setCabinetEmissionMultiplier"
+  | "setDynamicSupplyEnabled"
+  | "adjustMaxSupply"
+  | "selectivePause"
+  | "selectiveUnpause"
+  | "emergencyPause"
+  | "emergencyUnpause";
+
+/** `GET /api/tuucoin/admin-actions` */
+export interface TuuCoinAdminActionListParameters extends PageParameters, TimeWindow {
+  actions?: TuuCoinAdminActionKind[];
+  sender?: Address;
+}
+
+export interface TuuCoinAdminAction extends EventLocation {
+  action: TuuCoinAdminActionKind;
+  /** Account that sent the transaction */
+  sender: Address;
+  /** `setCabinetEmissionMultiplier` only */
+  cabinetId: DecimalString | null;
+  /** The event's arguments; uint256 values are decimal strings */
+  details: Record<string, DecimalString | boolean>;
+}
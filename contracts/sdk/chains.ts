@@ -0,0 +1,66 @@
+import { defineChain, type Address, type Chain, type Hash } from "viem";
+
+/**
+ * Chains TuuKeep is deployed to.
+ * @dev Shared by `hardhat.config.ts`, the scripts and the Next.js app so RPC
+ * URLs, chain IDs and explorer links are defined exactly once.
+ */
+
+export const kubTestnet = defineChain({
+  id: 25925,
+  name: "KUB Testnet",
+  nativeCurrency: { name: "tKUB", symbol: "tKUB", decimals: 18 },
+  rpcUrls: {
+    default: { http: ["https://rpc-testnet.bitkubchain.io"] },
+  },
+  blockExplorers: {
+    default: {
+      name: "KubScan Testnet",
+      url: "https://testnet.kubscan.com",
+      apiUrl: "https://testnet.kubscan.com/api",
+    },
+  },
+  testnet: true,
+});
+
+export const kubMainnet = defineChain({
+  id: 96,
+  name: "KUB Chain",
+  nativeCurrency: { name: "KUB", symbol: "KUB", decimals: 18 },
+  rpcUrls: {
+    default: { http: ["https://rpc.bitkubchain.io"] },
+  },
+  blockExplorers: {
+    default: {
+      name: "KubScan",
+      url: "https://kubscan.com",
+      apiUrl: "https://kubscan.com/api",
+    },
+  },
+});
+
+/** `npx hardhat node` on the default port, for local frontend development */
+export const hardhatLocal = defineChain({
+  id: 31337,
+  name: "Hardhat",
+  nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+  rpcUrls: {
+    default: { http: ["http://127.0.0.1:8545"] },
+  },
+  testnet: true,
+});
+
+export const TUUKEEP_CHAINS = [kubTestnet, kubMainnet, hardhatLocal] as const;
+
+export type TuuKeepChainId = (typeof TUUKEEP_CHAINS)[number]["id"];
+
+export function getTuuKeepChain(chainId: number): Chain | undefined {
+  return TUUKEEP_CHAINS.find((chain) => chain.id === chainId);
+}
+
+/** Block explorer link for an address or transaction; undefined on chains without an explorer */
+export function explorerUrl(chain: Chain, target: { address: Address } | { transaction: Hash }): string | undefined {
+  const explorer = chain.blockExplorers?.default.url;
+  if (!explorer) return undefined;
+  return "address" in target ? `${explorer}/address/${target.address}` : `${explorer}/tx/${target.transaction}`;
+}
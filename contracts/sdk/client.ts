@@ -0,0 +1,1044 @@
+import {
+  erc20Abi,
+  erc721Abi,
+  isAddressEqual,
+  keccak256,
+  parseEventLogs,
+  toHex,
+  type Abi,
+  type Account,
+  type Address,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type Hash,
+  type PublicClient,
+  type SimulateContractParameters,
+  type TransactionReceipt,
+  type WalletClient,
+  type WriteContractParameters,
+} from "viem";
+import {
+  tuuCoinAbi,
+  tuuKeepCabinetAbi,
+  tuuKeepMarketplaceAbi,
+  tuuKeepTierSaleAbi,
+} from "./abis";
+import { decodeTuuKeepRevert } from "./errors";
+import type { SalePhasePlan, TierPlan } from "./tier-sale";
+import { AssetType } from "./types";
+import type {
+  CabinetAnalytics,
+  CabinetDetails,
+  CabinetPurchase,
+  EmissionConfig,
+  GachaItem,
+  GachaItemInput,
+  Listing,
+  ListingDetails,
+  MarketplaceConfig,
+  MarketSummary,
+  PhaseDetails,
+  PlayResult,
+  PricingTier,
+  TuuCoinBurnStats,
+  TuuCoinPauseStatus,
+  TuuCoinSupply,
+  TuuKeepAddresses,
+} from "./types";
+
+/** Share of the play price that may be burned as TuuCoin, mirrors `TuuKeepCabinet.play` */
+export const MAX_TUUCOIN_BURN_PERCENT = 20n;
+
+/**
+ * Cap of `TuuCoin.calculateOddsImprovement`, the lifetime bonus earned with
+ * `burnForOdds`, in basis points. Separate from the per-play boost in `odds.ts`
+ */
+export const MAX_BURN_ODDS_IMPROVEMENT_BPS = 500n;
+
+/** TuuCoin burned with `burnForOdds` per basis point of `calculateOddsImprovement` */
+export const TUUCOIN_PER_BURN_ODDS_BPS = 1000n * 10n ** 18n;
+
+/** Denominator of `MarketplaceConfig.platformFeeRate` */
+export const BASIS_POINTS = 10_000n;
+
+/** Most cabinets `TuuKeepCabinet.batchWithdrawRevenue` accepts in one call */
+export const MAX_BATCH_WITHDRAW_CABINETS = 10;
+
+/** `TuuCoin.MAX_SUPPLY`; `adjustMaxSupply` accepts up to twice this */
+export const TUUCOIN_MAX_SUPPLY = 10n ** 9n * 10n ** 18n;
+
+/** Highest `setCabinetEmissionMultiplier` value, in basis points (500%) */
+export const MAX_EMISSION_MULTIPLIER_BPS = 50_000n;
+
+/** Highest `updateEmissionConfig` decay factor, in basis points */
+export const MAX_EMISSION_DECAY_FACTOR_BPS = 10_000n;
+
+/** TuuCoin roles checked by `hasTuuCoinRole`; each is `keccak256` of its name */
+export type TuuCoinRole =
+  | "MINTER_ROLE"
+  | "PLATFORM_ADMIN_ROLE"
+  | "EMISSION_MANAGER_ROLE"
+  | "EMERGENCY_RESPONDER_ROLE"
+  | "CABINET_OPERATOR_ROLE";
+
+/** Tier sale roles checked by `hasTierSaleRole` */
+export type TierSaleRole = "SALE_MANAGER_ROLE" | "PLATFORM_ADMIN_ROLE";
+
+export interface TuuKeepClientConfig {
+  publicClient: PublicClient;
+  walletClient?: WalletClient;
+  addresses: TuuKeepAddresses;
+}
+
+export interface PlayParameters {
+  cabinetId: bigint;
+  /** TuuCoin burned to improve odds; requires a prior `approveTuuCoin` for the cabinet */
+  tuuCoinAmount?: bigint;
+  /** Defaults to the cabinet's current play price */
+  value?: bigint;
+}
+
+export interface CreateListingParameters {
+  cabinetId: bigint;
+  price: bigint;
+  /** Listing duration in seconds */
+  duration: bigint;
+}
+
+export interface PurchaseCabinetParameters {
+  phaseId: bigint;
+  cabinetName: string;
+  /** Defaults to the price of the phase's current tier */
+  value?: bigint;
+}
+
+export interface EmissionRateParameters {
+  /** Least TuuCoin a cabinet reward mints while emission is active */
+  baseRate: bigint;
+  /** Most TuuCoin a cabinet reward mints while emission is active */
+  maxRate: bigint;
+  /** Basis points, at most `MAX_EMISSION_DECAY_FACTOR_BPS` */
+  decayFactor: bigint;
+}
+
+export interface SelectivePauseParameters {
+  minting: boolean;
+  burning: boolean;
+  transfers: boolean;
+  reason: string;
+}
+
+type WriteFunctionName<abi extends Abi> = ContractFunctionName<abi, "nonpayable" | "payable">;
+
+interface WriteRequest<abi extends Abi, functionName extends WriteFunctionName<abi>> {
+  address: Address;
+  abi: abi;
+  functionName: functionName;
+  args: ContractFunctionArgs<abi, "nonpayable" | "payable", functionName>;
+  value?: bigint;
+}
+
+/**
+ * TuuKeepClient
+ * @dev Typed entry point to the TuuKeep contracts for scripts, tests and the frontend
+ *
+ * Reads go through the public client. Writes are simulated first so custom
+ * errors surface before a transaction is signed, then sent through the wallet
+ * client. Use `decodeTuuKeepRevert` on thrown errors for a readable reason.
+ */
+export class TuuKeepClient {
+  readonly publicClient: PublicClient;
+  readonly walletClient?: WalletClient;
+  readonly addresses: TuuKeepAddresses;
+
+  constructor({ publicClient, walletClient, addresses }: TuuKeepClientConfig) {
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+    this.addresses = addresses;
+  }
+
+  /** Same contracts, different signer */
+  withWallet(walletClient: WalletClient): TuuKeepClient {
+    return new TuuKeepClient({
+      publicClient: this.publicClient,
+      walletClient,
+      addresses: this.addresses,
+    });
+  }
+
+  // ============ Cabinet reads ============
+
+  async getCabinet(cabinetId: bigint): Promise<CabinetDetails> {
+    const [metadata, config] = await this.publicClient.readContract({
+      address: this.addresses.cabinet,
+      abi: tuuKeepCabinetAbi,
+      functionName: "getCabinetInfo",
+      args: [cabinetId],
+    });
+    return { cabinetId, metadata, config };
+  }
+
+  async getCabinetItems(cabinetId: bigint): Promise<readonly GachaItem[]> {
+    return this.publicClient.readContract({
+      address: this.addresses.cabinet,
+      abi: tuuKeepCabinetAbi,
+      functionName: "getCabinetItems",
+      args: [cabinetId],
+    });
+  }
+
+  async getActiveCabinetItems(cabinetId: bigint): Promise<readonly GachaItem[]> {
+    return this.publicClient.readContract({
+      address: this.addresses.cabinet,
+      abi: tuuKeepCabinetAbi,
+      functionName: "getActiveCabinetItems",
+      args: [cabinetId],
+    });
+  }
+
+  async getCabinetRevenue(cabinetId: bigint): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.addresses.cabinet,
+      abi: tuuKeepCabinetAbi,
+      functionName: "getCabinetRevenue",
+      args: [cabinetId],
+    });
+  }
+
+  async getCabinetAnalytics(cabinetId: bigint): Promise<CabinetAnalytics> {
+    const [totalRevenue, totalPlays, averageRevenue] = await this.publicClient.readContract({
+      address: this.addresses.cabinet,
+      abi: tuuKeepCabinetAbi,
+      functionName: "getCabinetAnalytics",
+      args: [cabinetId],
+    });
+    return { totalRevenue, totalPlays, averageRevenue };
+  }
+
+  /** Cabinet token IDs held by `owner`, via ERC721Enumerable */
+  async getCabinetsOfOwner(owner: Address): Promise<bigint[]> {
+    const balance = await this.publicClient.readContract({
+      address: this.addresses.cabinet,
+      abi: tuuKeepCabinetAbi,
+      functionName: "balanceOf",
+      args: [owner],
+    });
+
+    const ids: bigint[] = [];
+    for (let index = 0n; index < balance; index++) {
+      ids.push(
+        await this.publicClient.readContract({
+          address: this.addresses.cabinet,
+          abi: tuuKeepCabinetAbi,
+          functionName: "tokenOfOwnerByIndex",
+          args: [owner, index],
+        }),
+      );
+    }
+    return ids;
+  }
+
+  /** Largest `tuuCoinAmount` the cabinet accepts for a play at `playPrice` */
+  maxTuuCoinBurn(playPrice: bigint): bigint {
+    return (playPrice * MAX_TUUCOIN_BURN_PERCENT) / 100n;
+  }
+
+  /** Whether the cabinet may already pull `item` from `owner` in `depositItems` */
+  async isItemApproved(owner: Address, item: GachaItemInput): Promise<boolean> {
+    if (item.assetType === AssetType.ERC20) {
+      const allowance = await this.publicClient.readContract({
+        address: item.contractAddress,
+        abi: erc20Abi,
+        functionName: "allowance",
+        args: [owner, this.addresses.cabinet],
+      });
+      return allowance >= item.tokenIdOrAmount;
+    }
+
+    const approvedForAll = await this.publicClient.readContract({
+      address: item.contractAddress,
+      abi: erc721Abi,
+      functionName: "isApprovedForAll",
+      args: [owner, this.addresses.cabinet],
+    });
+    if (approvedForAll) return true;
+
+    const approved = await this.publicClient.readContract({
+      address: item.contractAddress,
+      abi: erc721Abi,
+      functionName: "getApproved",
+      args: [item.tokenIdOrAmount],
+    });
+    return isAddressEqual(approved, this.addresses.cabinet);
+  }
+
+  // ============ TuuCoin reads ============
+
+  async getTuuCoinBalance(account: Address): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.addresses.tuuCoin,
+      abi: tuuCoinAbi,
+      functionName: "balanceOf",
+      args: [account],
+    });
+  }
+
+  async getTuuCoinAllowance(owner: Address, spender: Address = this.addresses.cabinet): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.addresses.tuuCoin,
+      abi: tuuCoinAbi,
+      functionName: "allowance",
+      args: [owner, spender],
+    });
+  }
+
+  async getTuuCoinBurnStats(account: Address): Promise<TuuCoinBurnStats> {
+    const [[burnedAmount, burnCount], oddsImprovement] = await Promise.all([
+      this.publicClient.readContract({
+        address: this.addresses.tuuCoin,
+        abi: tuuCoinAbi,
+        functionName: "getUserBurnStats",
+        args: [account],
+      }),
+      this.publicClient.readContract({
+        address: this.addresses.tuuCoin,
+        abi: tuuCoinAbi,
+        functionName: "calculateOddsImprovement",
+        args: [account],
+      }),
+    ]);
+    return { burnedAmount, burnCount, oddsImprovement };
+  }
+
+  /**
+   * Odds improvement after `burnedAmount` lifetime burns, mirrors `TuuCoin.calculateOddsImprovement`.
+   * `TuuKeepCabinet.play` does not read it yet; only the per-play boost changes a draw
+   */
+  burnOddsImprovement(burnedAmount: bigint): bigint {
+    const improvement = burnedAmount / TUUCOIN_PER_BURN_ODDS_BPS;
+    return improvement > MAX_BURN_ODDS_IMPROVEMENT_BPS ? MAX_BURN_ODDS_IMPROVEMENT_BPS : improvement;
+  }
+
+  async getTuuCoinSupply(): Promise<TuuCoinSupply> {
+    const [totalSupply, effectiveMaxSupply, dynamicSupplyEnabled, totalMinted, totalBurned] =
+      await this.publicClient.readContract({
+        address: this.addresses.tuuCoin,
+        abi: tuuCoinAbi,
+        functionName: "getEnhancedSupplyStats",
+      });
+    return { totalSupply, effectiveMaxSupply, dynamicSupplyEnabled, totalMinted, totalBurned };
+  }
+
+  async getTuuCoinPauseStatus(): Promise<TuuCoinPauseStatus> {
+    const [paused, mintingPaused, burningPaused, transfersPaused] = await this.publicClient.readContract({
+      address: this.addresses.tuuCoin,
+      abi: tuuCoinAbi,
+      functionName: "getPauseStatus",
+    });
+    return { paused, mintingPaused, burningPaused, transfersPaused };
+  }
+
+  async hasTuuCoinRole(role: TuuCoinRole, account: Address): Promise<boolean> {
+    return this.publicClient.readContract({
+      address: this.addresses.tuuCoin,
+      abi: tuuCoinAbi,
+      functionName: "hasRole",
+      args: [keccak256(toHex(role)), account],
+    });
+  }
+
+  async getEmissionConfig(): Promise<EmissionConfig> {
+    return this.publicClient.readContract({
+      address: this.addresses.tuuCoin,
+      abi: tuuCoinAbi,
+      functionName: "getEmissionConfig",
+    });
+  }
+
+  /** Basis points; 0 means the default of 100% */
+  async getCabinetEmissionMultiplier(cabinetId: bigint): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.addresses.tuuCoin,
+      abi: tuuCoinAbi,
+      functionName: "getCabinetEmissionMultiplier",
+      args: [cabinetId],
+    });
+  }
+
+  /** Only registered cabinets accept an emission multiplier or mint rewards */
+  async isTuuCoinCabinetRegistered(cabinetId: bigint): Promise<boolean> {
+    return this.publicClient.readContract({
+      address: this.addresses.tuuCoin,
+      abi: tuuCoinAbi,
+      functionName: "isCabinetRegistered",
+      args: [cabinetId],
+    });
+  }
+
+  /** TuuCoin `mintForGachaReward` would mint for a `baseAmount` reward on `cabinetId` */
+  async calculateEmissionAmount(cabinetId: bigint, baseAmount: bigint): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.addresses.tuuCoin,
+      abi: tuuCoinAbi,
+      functionName: "calculateEmissionAmount",
+      args: [cabinetId, baseAmount],
+    });
+  }
+
+  /**
+   * Emission for a reward under a config that may not be on chain yet, mirrors
+   * `TuuCoin.calculateEmissionAmount`. A multiplier of 0 counts as 100%
+   */
+  previewEmissionAmount(
+    { baseRate, maxRate, isActive }: Pick<EmissionConfig, "baseRate" | "maxRate" | "isActive">,
+    multiplier: bigint,
+    baseAmount: bigint,
+  ): bigint {
+    if (!isActive) return baseAmount;
+    const adjusted = (baseAmount * (multiplier === 0n ? BASIS_POINTS : multiplier)) / BASIS_POINTS;
+    if (adjusted < baseRate) return baseRate;
+    return adjusted > maxRate ? maxRate : adjusted;
+  }
+
+  // ============ Marketplace reads ============
+
+  async getListing(listingId: bigint): Promise<Listing> {
+    const [cabinetId, seller, price, createdAt, expiresAt, isActive] = await this.publicClient.readContract({
+      address: this.addresses.marketplace,
+      abi: tuuKeepMarketplaceAbi,
+      functionName: "listings",
+      args: [listingId],
+    });
+    return { cabinetId, seller, price, createdAt, expiresAt, isActive };
+  }
+
+  async getActiveListing(cabinetId: bigint): Promise<Listing> {
+    return this.publicClient.readContract({
+      address: this.addresses.marketplace,
+      abi: tuuKeepMarketplaceAbi,
+      functionName: "getActiveListing",
+      args: [cabinetId],
+    });
+  }
+
+  async getMarketplaceConfig(): Promise<MarketplaceConfig> {
+    const [platformFeeRate, feeRecipient, minListingDuration, maxListingDuration, minPrice] =
+      await this.publicClient.readContract({
+        address: this.addresses.marketplace,
+        abi: tuuKeepMarketplaceAbi,
+        functionName: "config",
+      });
+    return { platformFeeRate, feeRecipient, minListingDuration, maxListingDuration, minPrice };
+  }
+
+  /** Listing IDs ever created by `seller`, including cancelled, sold and expired ones */
+  async getListingsByUser(seller: Address): Promise<readonly bigint[]> {
+    return this.publicClient.readContract({
+      address: this.addresses.marketplace,
+      abi: tuuKeepMarketplaceAbi,
+      functionName: "getListingsByUser",
+      args: [seller],
+    });
+  }
+
+  /**
+   * Listings that can currently be bought, oldest first.
+   * @dev Scans every listing ID since the marketplace keeps no index of active
+   * listings; reads are sequential because the KUB chains have no multicall3.
+   */
+  async getActiveListings(): Promise<ListingDetails[]> {
+    const [lastListingId, block] = await Promise.all([
+      this.publicClient.readContract({
+        address: this.addresses.marketplace,
+        abi: tuuKeepMarketplaceAbi,
+        functionName: "getCurrentListingId",
+      }),
+      this.publicClient.getBlock(),
+    ]);
+
+    const active: ListingDetails[] = [];
+    for (let listingId = 1n; listingId <= lastListingId; listingId++) {
+      const listing = await this.getListing(listingId);
+      if (listing.isActive && listing.expiresAt >= block.timestamp) {
+        active.push({ listingId, listing });
+      }
+    }
+    return active;
+  }
+
+  async getMarketSummary(): Promise<MarketSummary> {
+    return this.publicClient.readContract({
+      address: this.addresses.marketplace,
+      abi: tuuKeepMarketplaceAbi,
+      functionName: "getMarketSummary",
+    });
+  }
+
+  /** Whether the marketplace may transfer `cabinetId` on sale, which `createListing` requires */
+  async isCabinetApprovedForMarketplace(owner: Address, cabinetId: bigint): Promise<boolean> {
+    const [approved, approvedForAll] = await Promise.all([
+      this.publicClient.readContract({
+        address: this.addresses.cabinet,
+        abi: tuuKeepCabinetAbi,
+        functionName: "getApproved",
+        args: [cabinetId],
+      }),
+      this.publicClient.readContract({
+        address: this.addresses.cabinet,
+        abi: tuuKeepCabinetAbi,
+        functionName: "isApprovedForAll",
+        args: [owner, this.addresses.marketplace],
+      }),
+    ]);
+    return approvedForAll || isAddressEqual(approved, this.addresses.marketplace);
+  }
+
+  /** Split of a sale price between platform and seller, mirrors `TuuKeepMarketplace._processPayment` */
+  splitSalePrice(price: bigint, platformFeeRate: bigint): { platformFee: bigint; sellerAmount: bigint } {
+    const platformFee = (price * platformFeeRate) / BASIS_POINTS;
+    return { platformFee, sellerAmount: price - platformFee };
+  }
+
+  // ============ Tier sale reads ============
+
+  async getPhase(phaseId: bigint): Promise<PhaseDetails> {
+    const [phase, tiers] = await this.publicClient.readContract({
+      address: this.requireTierSale(),
+      abi: tuuKeepTierSaleAbi,
+      functionName: "getPhaseInfo",
+      args: [phaseId],
+    });
+    return { phaseId, phase, tiers };
+  }
+
+  /** Every phase created so far, oldest first */
+  async getPhases(): Promise<PhaseDetails[]> {
+    const total = await this.publicClient.readContract({
+      address: this.requireTierSale(),
+      abi: tuuKeepTierSaleAbi,
+      functionName: "getTotalPhases",
+    });
+
+    const phases: PhaseDetails[] = [];
+    for (let phaseId = 0n; phaseId < total; phaseId++) {
+      phases.push(await this.getPhase(phaseId));
+    }
+    return phases;
+  }
+
+  /**
+   * ID of the tier `purchaseCabinet` would sell from, matching one of
+   * `phase.tierIds`; undefined when every tier is sold out, inactive or
+   * outside its time window
+   */
+  async getCurrentTierId(phaseId: bigint): Promise<bigint | undefined> {
+    try {
+      return await this.publicClient.readContract({
+        address: this.requireTierSale(),
+        abi: tuuKeepTierSaleAbi,
+        functionName: "getCurrentTier",
+        args: [phaseId],
+      });
+    } catch (error) {
+      if (decodeTuuKeepRevert(error)?.name === "InvalidTier") return undefined;
+      throw error;
+    }
+  }
+
+  async getCurrentTier(phaseId: bigint): Promise<PricingTier> {
+    return this.publicClient.readContract({
+      address: this.requireTierSale(),
+      abi: tuuKeepTierSaleAbi,
+      functionName: "getCurrentTierInfo",
+      args: [phaseId],
+    });
+  }
+
+  async hasTierSaleRole(role: TierSaleRole, account: Address): Promise<boolean> {
+    return this.publicClient.readContract({
+      address: this.requireTierSale(),
+      abi: tuuKeepTierSaleAbi,
+      functionName: "hasRole",
+      args: [keccak256(toHex(role)), account],
+    });
+  }
+
+  /** Sale proceeds held by the contract after platform fees, the most `withdrawRevenue` can send */
+  async getTierSaleBalance(): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.requireTierSale(),
+      abi: tuuKeepTierSaleAbi,
+      functionName: "getContractBalance",
+    });
+  }
+
+  // ============ Cabinet writes ============
+
+  async mintCabinet(to: Address, cabinetName: string): Promise<Hash> {
+    return this.send({
+      address: this.addresses.cabinet,
+      abi: tuuKeepCabinetAbi,
+      functionName: "mintCabinet",
+      args: [to, cabinetName],
+    });
+  }
+
+  async activateCabinet(cabinetId: bigint): Promise<Hash> {
+    return this.send({
+      address: this.addresses.cabinet,
+      abi: tuuKeepCabinetAbi,
+      functionName: "activateCabinet",
+      args: [cabinetId],
+    });
+  }
+
+  async deactivateCabinet(cabinetId: bigint): Promise<Hash> {
+    return this.send({
+      address: this.addresses.cabinet,
+      abi: tuuKeepCabinetAbi,
+      functionName: "deactivateCabinet",
+      args: [cabinetId],
+    });
+  }
+
+  async setPrice(cabinetId: bigint, newPrice: bigint): Promise<Hash> {
+    return this.send({
+      address: this.addresses.cabinet,
+      abi: tuuKeepCabinetAbi,
+      functionName: "setPrice",
+      args: [cabinetId, newPrice],
+    });
+  }
+
+  async depositItems(cabinetId: bigint, items: readonly GachaItemInput[]): Promise<Hash> {
+    return this.send({
+      address: this.addresses.cabinet,
+      abi: tuuKeepCabinetAbi,
+      functionName: "depositItems",
+      args: [cabinetId, items],
+    });
+  }
+
+  /**
+   * Indices are sent in ascending order: the contract walks them from the end
+   * and swap-removes each item, so only the highest-first order is stable
+   */
+  async withdrawItems(cabinetId: bigint, itemIndices: readonly bigint[]): Promise<Hash> {
+    const sorted = [...itemIndices].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    return this.send({
+      address: this.addresses.cabinet,
+      abi: tuuKeepCabinetAbi,
+      functionName: "withdrawItems",
+      args: [cabinetId, sorted],
+    });
+  }
+
+  async withdrawCabinetRevenue(cabinetId: bigint): Promise<Hash> {
+    return this.send({
+      address: this.addresses.cabinet,
+      abi: tuuKeepCabinetAbi,
+      functionName: "withdrawCabinetRevenue",
+      args: [cabinetId],
+    });
+  }
+
+  /** Withdraw revenue of up to `MAX_BATCH_WITHDRAW_CABINETS` cabinets in one transaction */
+  async batchWithdrawRevenue(cabinetIds: readonly bigint[]): Promise<Hash> {
+    if (cabinetIds.length === 0 || cabinetIds.length > MAX_BATCH_WITHDRAW_CABINETS) {
+      throw new Error(
+        `TuuKeepClient: batchWithdrawRevenue takes 1 to ${MAX_BATCH_WITHDRAW_CABINETS} cabinets, got ${cabinetIds.length}`,
+      );
+    }
+    return this.send({
+      address: this.addresses.cabinet,
+      abi: tuuKeepCabinetAbi,
+      functionName: "batchWithdrawRevenue",
+      args: [cabinetIds],
+    });
+  }
+
+  /** Entering maintenance deactivates the cabinet; leaving it does not reactivate */
+  async setMaintenanceMode(cabinetId: bigint, inMaintenance: boolean): Promise<Hash> {
+    return this.send({
+      address: this.addresses.cabinet,
+      abi: tuuKeepCabinetAbi,
+      functionName: "setMaintenanceMode",
+      args: [cabinetId, inMaintenance],
+    });
+  }
+
+  async toggleItemStatus(cabinetId: bigint, itemIndex: bigint): Promise<Hash> {
+    return this.send({
+      address: this.addresses.cabinet,
+      abi: tuuKeepCabinetAbi,
+      functionName: "toggleItemStatus",
+      args: [cabinetId, itemIndex],
+    });
+  }
+
+  async play({ cabinetId, tuuCoinAmount = 0n, value }: PlayParameters): Promise<Hash> {
+    const playValue = value ?? (await this.getCabinet(cabinetId)).config.playPrice;
+    return this.send({
+      address: this.addresses.cabinet,
+      abi: tuuKeepCabinetAbi,
+      functionName: "play",
+      args: [cabinetId, tuuCoinAmount],
+      value: playValue,
+    });
+  }
+
+  /** Approve a marketplace (or any operator) to transfer a single cabinet */
+  async approveCabinet(cabinetId: bigint, spender: Address = this.addresses.marketplace): Promise<Hash> {
+    return this.send({
+      address: this.addresses.cabinet,
+      abi: tuuKeepCabinetAbi,
+      functionName: "approve",
+      args: [spender, cabinetId],
+    });
+  }
+
+  /**
+   * Let the cabinet pull a prize token ahead of `depositItems`: an ERC20
+   * allowance for the amount, or a single-token ERC721 approval
+   */
+  async approveItem(item: GachaItemInput): Promise<Hash> {
+    if (item.assetType === AssetType.ERC20) {
+      return this.send({
+        address: item.contractAddress,
+        abi: erc20Abi,
+        functionName: "approve",
+        args: [this.addresses.cabinet, item.tokenIdOrAmount],
+      });
+    }
+    return this.send({
+      address: item.contractAddress,
+      abi: erc721Abi,
+      functionName: "approve",
+      args: [this.addresses.cabinet, item.tokenIdOrAmount],
+    });
+  }
+
+  // ============ TuuCoin writes ============
+
+  /** Allow the cabinet contract to burn TuuCoin for odds boosts */
+  async approveTuuCoin(amount: bigint, spender: Address = this.addresses.cabinet): Promise<Hash> {
+    return this.send({
+      address: this.addresses.tuuCoin,
+      abi: tuuCoinAbi,
+      functionName: "approve",
+      args: [spender, amount],
+    });
+  }
+
+  /** Burn TuuCoin from the connected account towards its lifetime odds improvement */
+  async burnForOdds(amount: bigint): Promise<Hash> {
+    return this.send({
+      address: this.addresses.tuuCoin,
+      abi: tuuCoinAbi,
+      functionName: "burnForOdds",
+      args: [amount],
+    });
+  }
+
+  /** Requires `EMISSION_MANAGER_ROLE` */
+  async updateEmissionConfig({ baseRate, maxRate, decayFactor }: EmissionRateParameters): Promise<Hash> {
+    return this.send({
+      address: this.addresses.tuuCoin,
+      abi: tuuCoinAbi,
+      functionName: "updateEmissionConfig",
+      args: [baseRate, maxRate, decayFactor],
+    });
+  }
+
+  /** Requires `EMISSION_MANAGER_ROLE` */
+  async setEmissionActive(isActive: boolean): Promise<Hash> {
+    return this.send({
+      address: this.addresses.tuuCoin,
+      abi: tuuCoinAbi,
+      functionName: "setEmissionActive",
+      args: [isActive],
+    });
+  }
+
+  /** Requires `EMISSION_MANAGER_ROLE`; `multiplier` is in basis points */
+  async setCabinetEmissionMultiplier(cabinetId: bigint, multiplier: bigint): Promise<Hash> {
+    return this.send({
+      address: this.addresses.tuuCoin,
+      abi: tuuCoinAbi,
+      functionName: "setCabinetEmissionMultiplier",
+      args: [cabinetId, multiplier],
+    });
+  }
+
+  /** Requires `PLATFORM_ADMIN_ROLE` */
+  async setDynamicSupplyEnabled(enabled: boolean): Promise<Hash> {
+    return this.send({
+      address: this.addresses.tuuCoin,
+      abi: tuuCoinAbi,
+      functionName: "setDynamicSupplyEnabled",
+      args: [enabled],
+    });
+  }
+
+  /** Requires `PLATFORM_ADMIN_ROLE` and dynamic supply enabled */
+  async adjustMaxSupply(newMaxSupply: bigint): Promise<Hash> {
+    return this.send({
+      address: this.addresses.tuuCoin,
+      abi: tuuCoinAbi,
+      functionName: "adjustMaxSupply",
+      args: [newMaxSupply],
+    });
+  }
+
+  /** Requires `EMERGENCY_RESPONDER_ROLE` */
+  async selectivePause({ minting, burning, transfers, reason }: SelectivePauseParameters): Promise<Hash> {
+    return this.send({
+      address: this.addresses.tuuCoin,
+      abi: tuuCoinAbi,
+      functionName: "selectivePause",
+      args: [minting, burning, transfers, reason],
+    });
+  }
+
+  /** Requires `EMERGENCY_RESPONDER_ROLE` */
+  async selectiveUnpause(): Promise<Hash> {
+    return this.send({
+      address: this.addresses.tuuCoin,
+      abi: tuuCoinAbi,
+      functionName: "selectiveUnpause",
+      args: [],
+    });
+  }
+
+  /** Requires `EMERGENCY_RESPONDER_ROLE` */
+  async emergencyPause(reason: string): Promise<Hash> {
+    return this.send({
+      address: this.addresses.tuuCoin,
+      abi: tuuCoinAbi,
+      functionName: "emergencyPause",
+      args: [reason],
+    });
+  }
+
+  /** Requires `EMERGENCY_RESPONDER_ROLE` */
+  async emergencyUnpause(): Promise<Hash> {
+    return this.send({
+      address: this.addresses.tuuCoin,
+      abi: tuuCoinAbi,
+      functionName: "emergencyUnpause",
+      args: [],
+    });
+  }
+
+  // ============ Marketplace writes ============
+
+  async createListing({ cabinetId, price, duration }: CreateListingParameters): Promise<Hash> {
+    return this.send({
+      address: this.addresses.marketplace,
+      abi: tuuKeepMarketplaceAbi,
+      functionName: "createListing",
+      args: [cabinetId, price, duration],
+    });
+  }
+
+  async cancelListing(listingId: bigint): Promise<Hash> {
+    return this.send({
+      address: this.addresses.marketplace,
+      abi: tuuKeepMarketplaceAbi,
+      functionName: "cancelListing",
+      args: [listingId],
+    });
+  }
+
+  async updateListingPrice(listingId: bigint, newPrice: bigint): Promise<Hash> {
+    return this.send({
+      address: this.addresses.marketplace,
+      abi: tuuKeepMarketplaceAbi,
+      functionName: "updateListingPrice",
+      args: [listingId, newPrice],
+    });
+  }
+
+  /** Buy a listed cabinet; pays the listing price unless `value` is given */
+  async buyNow(listingId: bigint, value?: bigint): Promise<Hash> {
+    const payment = value ?? (await this.getListing(listingId)).price;
+    return this.send({
+      address: this.addresses.marketplace,
+      abi: tuuKeepMarketplaceAbi,
+      functionName: "buyNow",
+      args: [listingId],
+      value: payment,
+    });
+  }
+
+  // ============ Tier sale writes ============
+
+  async purchaseCabinet({ phaseId, cabinetName, value }: PurchaseCabinetParameters): Promise<Hash> {
+    const payment = value ?? (await this.getCurrentTier(phaseId)).price;
+    return this.send({
+      address: this.requireTierSale(),
+      abi: tuuKeepTierSaleAbi,
+      functionName: "purchaseCabinet",
+      args: [phaseId, cabinetName],
+      value: payment,
+    });
+  }
+
+  /**
+   * Requires `SALE_MANAGER_ROLE`. The phase is active as soon as it is created;
+   * `submitSalePhasePlan` sends this with its tiers and checks the plan first
+   */
+  async createSalePhase({ name, startTime, endTime, totalCabinets, basePrice }: SalePhasePlan): Promise<Hash> {
+    return this.send({
+      address: this.requireTierSale(),
+      abi: tuuKeepTierSaleAbi,
+      functionName: "createSalePhase",
+      args: [name, startTime, endTime, totalCabinets, basePrice],
+    });
+  }
+
+  /** Requires `SALE_MANAGER_ROLE`; the tier's price is the phase base price less `discountBps` */
+  async addTierToPhase(phaseId: bigint, { name, maxQuantity, discountBps, startTime, endTime }: TierPlan): Promise<Hash> {
+    return this.send({
+      address: this.requireTierSale(),
+      abi: tuuKeepTierSaleAbi,
+      functionName: "addTierToPhase",
+      args: [phaseId, name, maxQuantity, discountBps, startTime, endTime],
+    });
+  }
+
+  /** Requires `SALE_MANAGER_ROLE` */
+  async activatePhase(phaseId: bigint): Promise<Hash> {
+    return this.send({
+      address: this.requireTierSale(),
+      abi: tuuKeepTierSaleAbi,
+      functionName: "activatePhase",
+      args: [phaseId],
+    });
+  }
+
+  /** Requires `SALE_MANAGER_ROLE` */
+  async deactivatePhase(phaseId: bigint): Promise<Hash> {
+    return this.send({
+      address: this.requireTierSale(),
+      abi: tuuKeepTierSaleAbi,
+      functionName: "deactivatePhase",
+      args: [phaseId],
+    });
+  }
+
+  /** Requires `PLATFORM_ADMIN_ROLE`; `amount` may not exceed `getTierSaleBalance` */
+  async withdrawSaleRevenue(to: Address, amount: bigint): Promise<Hash> {
+    return this.send({
+      address: this.requireTierSale(),
+      abi: tuuKeepTierSaleAbi,
+      functionName: "withdrawRevenue",
+      args: [to, amount],
+    });
+  }
+
+  // ============ Receipts ============
+
+  async waitForReceipt(hash: Hash): Promise<TransactionReceipt> {
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      throw new Error(`Transaction ${hash} reverted`);
+    }
+    return receipt;
+  }
+
+  /** Decode the `GachaPlayed`, `PrizeWon` and consolation mint logs of a play transaction */
+  parsePlayResult(receipt: TransactionReceipt): PlayResult {
+    const cabinetLogs = receipt.logs.filter((log) => isAddressEqual(log.address, this.addresses.cabinet));
+    const [played] = parseEventLogs({ abi: tuuKeepCabinetAbi, eventName: "GachaPlayed", logs: cabinetLogs });
+    if (!played) {
+      throw new Error(`No GachaPlayed event in transaction ${receipt.transactionHash}`);
+    }
+
+    const { cabinetId, player, playPrice, tuuCoinAmount, wonPrize, itemIndex } = played.args;
+    const result: PlayResult = {
+      transactionHash: receipt.transactionHash,
+      cabinetId,
+      player,
+      playPrice,
+      tuuCoinAmount,
+      wonPrize,
+      tuuCoinReward: 0n,
+    };
+
+    if (wonPrize) {
+      const [prize] = parseEventLogs({ abi: tuuKeepCabinetAbi, eventName: "PrizeWon", logs: cabinetLogs });
+      result.itemIndex = itemIndex;
+      if (prize) {
+        const { assetType, contractAddress, tokenIdOrAmount, rarity } = prize.args;
+        result.prize = { assetType, contractAddress, tokenIdOrAmount, rarity };
+      }
+      return result;
+    }
+
+    const coinLogs = receipt.logs.filter((log) => isAddressEqual(log.address, this.addresses.tuuCoin));
+    const minted = parseEventLogs({ abi: tuuCoinAbi, eventName: "TokensMinted", logs: coinLogs });
+    result.tuuCoinReward = minted
+      .filter((log) => isAddressEqual(log.args.to, player))
+      .reduce((total, log) => total + log.args.amount, 0n);
+    return result;
+  }
+
+  async waitForPlayResult(hash: Hash): Promise<PlayResult> {
+    return this.parsePlayResult(await this.waitForReceipt(hash));
+  }
+
+  /** Decode the `CabinetPurchased` log of a `purchaseCabinet` transaction */
+  parseCabinetPurchase(receipt: TransactionReceipt): CabinetPurchase {
+    const tierSale = this.requireTierSale();
+    const saleLogs = receipt.logs.filter((log) => isAddressEqual(log.address, tierSale));
+    const [purchased] = parseEventLogs({ abi: tuuKeepTierSaleAbi, eventName: "CabinetPurchased", logs: saleLogs });
+    if (!purchased) {
+      throw new Error(`No CabinetPurchased event in transaction ${receipt.transactionHash}`);
+    }
+    return { transactionHash: receipt.transactionHash, ...purchased.args };
+  }
+
+  async waitForCabinetPurchase(hash: Hash): Promise<CabinetPurchase> {
+    return this.parseCabinetPurchase(await this.waitForReceipt(hash));
+  }
+
+  /** ID of the phase a `createSalePhase` receipt created */
+  parseSalePhaseCreated(receipt: TransactionReceipt): bigint {
+    const tierSale = this.requireTierSale();
+    const saleLogs = receipt.logs.filter((log) => isAddressEqual(log.address, tierSale));
+    const [created] = parseEventLogs({ abi: tuuKeepTierSaleAbi, eventName: "PhaseCreated", logs: saleLogs });
+    if (!created) {
+      throw new Error(`No PhaseCreated event in transaction ${receipt.transactionHash}`);
+    }
+    return created.args.phaseId;
+  }
+
+  // ============ Internal ============
+
+  private requireTierSale(): Address {
+    if (!this.addresses.tierSale) {
+      throw new Error("TuuKeepClient: no tier sale address; this deployment has no tier sale");
+    }
+    return this.addresses.tierSale;
+  }
+
+  private requireAccount(): { walletClient: WalletClient; account: Account } {
+    const walletClient = this.walletClient;
+    if (!walletClient?.account) {
+      throw new Error("TuuKeepClient: a wallet client with an account is required for writes");
+    }
+    return { walletClient, account: walletClient.account };
+  }
+
+  private async send<const abi extends Abi, functionName extends WriteFunctionName<abi>>(
+    request: WriteRequest<abi, functionName>,
+  ): Promise<Hash> {
+    const { walletClient, account } = this.requireAccount();
+    const { request: simulated } = await this.publicClient.simulateContract({
+      ...request,
+      account,
+    } as unknown as SimulateContractParameters);
+    return walletClient.writeContract(simulated as unknown as WriteContractParameters);
+  }
+}
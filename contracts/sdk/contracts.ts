@@ -0,0 +1,36 @@
+import { getContract, type GetContractParameters, type GetContractReturnType } from "viem";
+import {
+  tuuCoinAbi,
+  tuuKeepCabinetAbi,
+  tuuKeepMarketplaceAbi,
+  tuuKeepTierSaleAbi,
+} from "./abis";
+import type { TuuKeepAddresses } from "./types";
+
+type ContractClient = GetContractParameters["client"];
+
+export interface TuuKeepContracts<client extends ContractClient> {
+  cabinet: GetContractReturnType<typeof tuuKeepCabinetAbi, client>;
+  tuuCoin: GetContractReturnType<typeof tuuCoinAbi, client>;
+  marketplace: GetContractReturnType<typeof tuuKeepMarketplaceAbi, client>;
+  /** Absent when `addresses.tierSale` is */
+  tierSale?: GetContractReturnType<typeof tuuKeepTierSaleAbi, client>;
+}
+
+/**
+ * Typed viem contract instances for every TuuKeep contract.
+ *
+ * Pass a public client for reads only, or `{ public, wallet }` to also get
+ * `write` and `simulate` namespaces.
+ */
+export function getTuuKeepContracts<client extends ContractClient>(
+  addresses: TuuKeepAddresses,
+  client: client,
+): TuuKeepContracts<client> {
+  return {
+    cabinet: getContract({ address: addresses.cabinet, abi: tuuKeepCabinetAbi, client }),
+    tuuCoin: getContract({ address: addresses.tuuCoin, abi: tuuCoinAbi, client }),
+    marketplace: getContract({ address: addresses.marketplace, abi: tuuKeepMarketplaceAbi, client }),
+    tierSale: addresses.tierSale && getContract({ address: addresses.tierSale, abi: tuuKeepTierSaleAbi, client }),
+  } as TuuKeepContracts<client>;
+}
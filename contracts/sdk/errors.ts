@@ -0,0 +1,81 @@
+import { BaseError, ContractFunctionRevertedError, decodeErrorResult, isHex, type Abi, type Hex } from "viem";
+import {
+  randomnessAbi,
+  tuuCoinAbi,
+  tuuKeepAccessControlAbi,
+  tuuKeepCabinetAbi,
+  tuuKeepMarketplaceAbi,
+  tuuKeepTierSaleAbi,
+} from "./abis";
+
+/** A contract revert decoded against the TuuKeep ABIs */
+export interface TuuKeepRevert {
+  /** Custom error name, e.g. `InsufficientPayment`; `Error` for require strings */
+  name: string;
+  args: readonly unknown[];
+  /** Human readable summary suitable for surfacing to users */
+  message: string;
+}
+
+const TUUKEEP_ABIS: readonly Abi[] = [
+  tuuKeepCabinetAbi,
+  tuuCoinAbi,
+  tuuKeepMarketplaceAbi,
+  tuuKeepTierSaleAbi,
+  tuuKeepAccessControlAbi,
+  randomnessAbi,
+];
+
+function formatRevert(name: string, args: readonly unknown[]): TuuKeepRevert {
+  if (name === "Error") return { name, args, message: String(args[0]) };
+  return { name, args, message: `${name}(${args.map((arg) => String(arg)).join(", ")})` };
+}
+
+/** Revert data carried by one error in the chain, either directly or nested like Hardhat's `{ data: "0x..." }` */
+function errorData(error: unknown): Hex | undefined {
+  let data = (error as { data?: unknown }).data;
+  if (typeof data === "object" && data !== null) data = (data as { data?: unknown }).data;
+  return typeof data === "string" && isHex(data) ? data : undefined;
+}
+
+/** Raw revert data anywhere in the error chain, e.g. on the provider error a Hardhat node returns; `0x` for a bare revert */
+function revertData(error: BaseError): Hex | undefined {
+  const withData = error.walk((e) => errorData(e) !== undefined);
+  return withData ? errorData(withData) : undefined;
+}
+
+/**
+ * Extract the decoded revert reason from an error thrown by a viem contract
+ * call. Reverts viem could not decode itself, such as a simulation on a
+ * Hardhat node that only returns raw revert data, are decoded against `abis`
+ * (every TuuKeep ABI by default); a revert without data decodes as
+ * `Unknown`. Returns undefined when the error is not a contract revert (RPC
+ * failure, user rejected the signature, ...).
+ */
+export function decodeTuuKeepRevert(error: unknown, abis: readonly Abi[] = TUUKEEP_ABIS): TuuKeepRevert | undefined {
+  if (!(error instanceof BaseError)) return undefined;
+
+  const reverted = error.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (reverted instanceof ContractFunctionRevertedError) {
+    if (reverted.data) return formatRevert(reverted.data.errorName, reverted.data.args ?? []);
+    if (reverted.reason) return formatRevert("Error", [reverted.reason]);
+  }
+
+  const data = revertData(error);
+  if (data && data !== "0x") {
+    for (const abi of abis) {
+      try {
+        const { errorName, args = [] } = decodeErrorResult({ abi, data });
+        return formatRevert(errorName, args);
+      } catch {
+        // Not an error of this ABI; try the next
+      }
+    }
+  }
+
+  if (reverted instanceof ContractFunctionRevertedError) {
+    return { name: "Unknown", args: [], message: reverted.shortMessage };
+  }
+  if (data) return { name: "Unknown", args: [], message: "Execution reverted without data" };
+  return undefined;
+}
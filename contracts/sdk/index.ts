@@ -0,0 +1,12 @@
+export * from "./abis";
+export * from "./api";
+export * from "./chains";
+export * from "./client";
+export * from "./contracts";
+export * from "./errors";
+export * from "./manifest";
+export * from "./odds";
+export * from "./simulation";
+export * from "./tier-sale";
+export * from "./types";
+export * from "./validation";
@@ -0,0 +1,324 @@
+import { getAddress, isAddress, isHash, type Address, type Hash } from "viem";
+import { hardhatLocal, kubMainnet, kubTestnet } from "./chains";
+import type { TuuKeepAddresses } from "./types";
+
+/**
+ * Deployment manifest
+ * @dev One JSON document per chain (`deployments/manifest/<chainId>.json`)
+ * recording everything needed to talk to, verify and audit a deployment.
+ *
+ * This module only parses and queries manifests so it can run in the browser;
+ * reading and writing files lives in `lib/deployment-manifest.ts`.
+ */
+
+export const MANIFEST_VERSION = 1;
+
+/** Chains with a committed manifest, keyed by Hardhat network name */
+export const MANIFEST_CHAIN_IDS = {
+  kubTestnet: kubTestnet.id,
+  kubMainnet: kubMainnet.id,
+  hardhatMainnet: hardhatLocal.id,
+} as const;
+
+/** Hardhat network name for a chain, used when a manifest is first created */
+export function manifestNetworkName(chainId: number): string {
+  const entry = Object.entries(MANIFEST_CHAIN_IDS).find(([, id]) => id === chainId);
+  return entry ? entry[0] : `chain-${chainId}`;
+}
+
+/** JSON-safe constructor argument; bigints are stored as decimal strings */
+export type ManifestValue = string | number | boolean | null | ManifestValue[];
+
+export interface CompilerSettings {
+  version: string;
+  optimizer: { enabled: boolean; runs: number };
+  viaIR: boolean;
+  evmVersion: string;
+}
+
+export interface DeploymentTransaction {
+  transactionHash: Hash;
+  /** Unknown for deployments migrated from older records */
+  blockNumber: number | null;
+  deployer: Address;
+  gasUsed: string | null;
+  timestamp: string;
+}
+
+export type VerificationStatus = "verified" | "pending" | "failed";
+
+/** Source verification on the chain's block explorer */
+export interface ContractVerification {
+  status: VerificationStatus;
+  /** Explorer submission id; null when the explorer already had the source */
+  guid: string | null;
+  /** Last status message from the explorer */
+  message: string | null;
+  updatedAt: string;
+}
+
+export interface ContractDeployment {
+  /** Artifact name; the manifest key may differ for multiple instances */
+  contractName: string;
+  address: Address;
+  constructorArgs: ManifestValue[];
+  libraries: Record<string, Address>;
+  deployment: DeploymentTransaction;
+  compiler: CompilerSettings;
+  /** Absent until the contract is submitted for verification */
+  verification?: ContractVerification;
+}
+
+export interface RoleGrant {
+  /** Manifest key of the contract the role lives on */
+  contract: string;
+  /** Role constant name, e.g. `MINTER_ROLE` */
+  role: string;
+  roleHash: Hash;
+  account: Address;
+  transactionHash: Hash | null;
+  blockNumber: number | null;
+}
+
+export interface DeploymentManifest {
+  version: typeof MANIFEST_VERSION;
+  chainId: number;
+  network: string;
+  updatedAt: string;
+  contracts: Record<string, ContractDeployment>;
+  roleGrants: RoleGrant[];
+}
+
+export class ManifestError extends Error {
+  constructor(message: string, readonly path: string = "$") {
+    super(`${path}: ${message}`);
+    this.name = "ManifestError";
+  }
+}
+
+export function createEmptyManifest(
+  chainId: number,
+  network: string = manifestNetworkName(chainId),
+): DeploymentManifest {
+  return {
+    version: MANIFEST_VERSION,
+    chainId,
+    network,
+    updatedAt: new Date(0).toISOString(),
+    contracts: {},
+    roleGrants: [],
+  };
+}
+
+// ============ Validation ============
+
+type JsonObject = Record<string, unknown>;
+
+function expectObject(value: unknown, path: string): JsonObject {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    throw new ManifestError("expected an object", path);
+  }
+  return value as JsonObject;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string" || value.length === 0) {
+    throw new ManifestError("expected a non-empty string", path);
+  }
+  return value;
+}
+
+function expectInteger(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isSafeInteger(value) || value < 0) {
+    throw new ManifestError("expected a non-negative integer", path);
+  }
+  return value;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== "boolean") {
+    throw new ManifestError("expected a boolean", path);
+  }
+  return value;
+}
+
+function expectAddress(value: unknown, path: string): Address {
+  if (typeof value !== "string" || !isAddress(value, { strict: false })) {
+    throw new ManifestError("expected an address", path);
+  }
+  return getAddress(value);
+}
+
+function expectHash(value: unknown, path: string): Hash {
+  if (typeof value !== "string" || !isHash(value)) {
+    throw new ManifestError("expected a 32-byte hex hash", path);
+  }
+  return value;
+}
+
+function expectTimestamp(value: unknown, path: string): string {
+  const timestamp = expectString(value, path);
+  if (Number.isNaN(Date.parse(timestamp))) {
+    throw new ManifestError("expected an ISO-8601 timestamp", path);
+  }
+  return timestamp;
+}
+
+function expectDecimal(value: unknown, path: string): string {
+  if (typeof value !== "string" || !/^\d+$/.test(value)) {
+    throw new ManifestError("expected a decimal string", path);
+  }
+  return value;
+}
+
+function nullable<T>(value: unknown, path: string, parse: (value: unknown, path: string) => T): T | null {
+  return value === null ? null : parse(value, path);
+}
+
+function parseValue(value: unknown, path: string): ManifestValue {
+  if (value === null || ["string", "number", "boolean"].includes(typeof value)) {
+    return value as ManifestValue;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => parseValue(item, `${path}[${index}]`));
+  }
+  throw new ManifestError("expected a JSON primitive or array", path);
+}
+
+function parseCompiler(value: unknown, path: string): CompilerSettings {
+  const compiler = expectObject(value, path);
+  const optimizer = expectObject(compiler.optimizer, `${path}.optimizer`);
+  return {
+    version: expectString(compiler.version, `${path}.version`),
+    optimizer: {
+      enabled: expectBoolean(optimizer.enabled, `${path}.optimizer.enabled`),
+      runs: expectInteger(optimizer.runs, `${path}.optimizer.runs`),
+    },
+    viaIR: expectBoolean(compiler.viaIR, `${path}.viaIR`),
+    evmVersion: expectString(compiler.evmVersion, `${path}.evmVersion`),
+  };
+}
+
+function parseDeploymentTransaction(value: unknown, path: string): DeploymentTransaction {
+  const deployment = expectObject(value, path);
+  return {
+    transactionHash: expectHash(deployment.transactionHash, `${path}.transactionHash`),
+    blockNumber: nullable(deployment.blockNumber, `${path}.blockNumber`, expectInteger),
+    deployer: expectAddress(deployment.deployer, `${path}.deployer`),
+    gasUsed: nullable(deployment.gasUsed, `${path}.gasUsed`, expectDecimal),
+    timestamp: expectTimestamp(deployment.timestamp, `${path}.timestamp`),
+  };
+}
+
+const VERIFICATION_STATUSES: readonly VerificationStatus[] = ["verified", "pending", "failed"];
+
+function parseVerification(value: unknown, path: string): ContractVerification {
+  const verification = expectObject(value, path);
+  if (!VERIFICATION_STATUSES.includes(verification.status as VerificationStatus)) {
+    throw new ManifestError(`expected one of ${VERIFICATION_STATUSES.join(", ")}`, `${path}.status`);
+  }
+  return {
+    status: verification.status as VerificationStatus,
+    guid: nullable(verification.guid, `${path}.guid`, expectString),
+    message: nullable(verification.message, `${path}.message`, expectString),
+    updatedAt: expectTimestamp(verification.updatedAt, `${path}.updatedAt`),
+  };
+}
+
+function parseContract(value: unknown, path: string): ContractDeployment {
+  const contract = expectObject(value, path);
+
+  if (!Array.isArray(contract.constructorArgs)) {
+    throw new ManifestError("expected an array", `${path}.constructorArgs`);
+  }
+
+  const libraries: Record<string, Address> = {};
+  const rawLibraries = expectObject(contract.libraries, `${path}.libraries`);
+  for (const [name, address] of Object.entries(rawLibraries)) {
+    libraries[name] = expectAddress(address, `${path}.libraries.${name}`);
+  }
+
+  const parsed: ContractDeployment = {
+    contractName: expectString(contract.contractName, `${path}.contractName`),
+    address: expectAddress(contract.address, `${path}.address`),
+    constructorArgs: contract.constructorArgs.map((arg, index) =>
+      parseValue(arg, `${path}.constructorArgs[${index}]`),
+    ),
+    libraries,
+    deployment: parseDeploymentTransaction(contract.deployment, `${path}.deployment`),
+    compiler: parseCompiler(contract.compiler, `${path}.compiler`),
+  };
+  if (contract.verification !== undefined) {
+    parsed.verification = parseVerification(contract.verification, `${path}.verification`);
+  }
+  return parsed;
+}
+
+function parseRoleGrant(value: unknown, path: string, contracts: Record<string, ContractDeployment>): RoleGrant {
+  const grant = expectObject(value, path);
+  const contract = expectString(grant.contract, `${path}.contract`);
+  if (!contracts[contract]) {
+    throw new ManifestError(`unknown contract "${contract}"`, `${path}.contract`);
+  }
+  return {
+    contract,
+    role: expectString(grant.role, `${path}.role`),
+    roleHash: expectHash(grant.roleHash, `${path}.roleHash`),
+    account: expectAddress(grant.account, `${path}.account`),
+    transactionHash: nullable(grant.transactionHash, `${path}.transactionHash`, expectHash),
+    blockNumber: nullable(grant.blockNumber, `${path}.blockNumber`, expectInteger),
+  };
+}
+
+/**
+ * Validate an untrusted JSON value against the manifest schema.
+ * Throws `ManifestError` pointing at the first offending field.
+ */
+export function parseManifest(value: unknown): DeploymentManifest {
+  const manifest = expectObject(value, "$");
+
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new ManifestError(`unsupported manifest version ${String(manifest.version)}`, "$.version");
+  }
+
+  const contracts: Record<string, ContractDeployment> = {};
+  const rawContracts = expectObject(manifest.contracts, "$.contracts");
+  for (const [name, contract] of Object.entries(rawContracts)) {
+    contracts[name] = parseContract(contract, `$.contracts.${name}`);
+  }
+
+  if (!Array.isArray(manifest.roleGrants)) {
+    throw new ManifestError("expected an array", "$.roleGrants");
+  }
+
+  return {
+    version: MANIFEST_VERSION,
+    chainId: expectInteger(manifest.chainId, "$.chainId"),
+    network: expectString(manifest.network, "$.network"),
+    updatedAt: expectTimestamp(manifest.updatedAt, "$.updatedAt"),
+    contracts,
+    roleGrants: manifest.roleGrants.map((grant, index) =>
+      parseRoleGrant(grant, `$.roleGrants[${index}]`, contracts),
+    ),
+  };
+}
+
+// ============ Queries ============
+
+export function getDeployedAddress(manifest: DeploymentManifest, name: string): Address {
+  const contract = manifest.contracts[name];
+  if (!contract) {
+    throw new ManifestError(`${name} is not deployed on chain ${manifest.chainId}`, `$.contracts.${name}`);
+  }
+  return contract.address;
+}
+
+/** Addresses for `TuuKeepClient`; throws if any core contract is missing, the tier sale is optional */
+export function getTuuKeepAddresses(manifest: DeploymentManifest): TuuKeepAddresses {
+  return {
+    cabinet: getDeployedAddress(manifest, "TuuKeepCabinet"),
+    tuuCoin: getDeployedAddress(manifest, "TuuCoin"),
+    marketplace: getDeployedAddress(manifest, "TuuKeepMarketplace"),
+    tierSale: manifest.contracts.TuuKeepTierSale?.address,
+  };
+}
@@ -0,0 +1,170 @@
+import { encodePacked, keccak256 } from "viem";
+import { BASIS_POINTS, MAX_TUUCOIN_BURN_PERCENT } from "./client";
+import type { GachaItem } from "./types";
+
+/**
+ * Gacha odds engine
+ * @dev Reproduces `TuuKeepCabinet._selectPrizeItem` exactly, quirks included:
+ * - an item's weight is `101 - rarity * 20`, so rarity 1 weighs 81 and 5 weighs 1;
+ * - the win roll (`r % 10000`) and the item roll (`r % totalWeight`) come from
+ *   the same random number, so they are not independent;
+ * - the picked active item is mapped back to the first active cabinet item with
+ *   the same contract and token ID/amount, so duplicates always pay out the
+ *   lowest index;
+ * - `play` emits `PrizeWon` by reading the won index after the item has been
+ *   swap-and-popped, so winning the last item in the list reverts the play
+ *   (see `revertsOnPayout`).
+ * Keep this file in step with the contract; `test/sdk/odds.test.ts` replays
+ * on-chain plays against it.
+ */
+
+/** Win chance before any TuuCoin is burned */
+export const BASE_WIN_PROBABILITY_BPS = 5_000n;
+
+/** Most the win chance can be raised by burning TuuCoin */
+export const MAX_ODDS_IMPROVEMENT_BPS = 2_000n;
+
+/** Share of the play price minted as TuuCoin when a play wins nothing */
+export const CONSOLATION_PERCENT = 10n;
+
+/** Item fields the odds depend on */
+export type OddsItem = Pick<GachaItem, "contractAddress" | "tokenIdOrAmount" | "rarity" | "isActive">;
+
+export interface PrizeSelection {
+  wonPrize: boolean;
+  /** Index into the cabinet's full item list; 0 when nothing was won */
+  itemIndex: bigint;
+}
+
+export function getRarityWeight(rarity: bigint): bigint {
+  if (rarity < 1n || rarity > 5n) {
+    throw new Error(`Rarity must be between 1 and 5, got ${rarity}`);
+  }
+  return 101n - rarity * 20n;
+}
+
+/** Most TuuCoin a single play may burn, mirrors the check in `TuuKeepCabinet.play` */
+export function getMaxTuuCoinAmount(playPrice: bigint): bigint {
+  return (playPrice * MAX_TUUCOIN_BURN_PERCENT) / 100n;
+}
+
+/** Basis points added to the win chance by burning `tuuCoinAmount` */
+export function getOddsImprovement(tuuCoinAmount: bigint, playPrice: bigint): bigint {
+  if (tuuCoinAmount === 0n || playPrice === 0n) return 0n;
+  const improvement = (tuuCoinAmount * 2_000n * 100n) / (playPrice * 20n);
+  return improvement > MAX_ODDS_IMPROVEMENT_BPS ? MAX_ODDS_IMPROVEMENT_BPS : improvement;
+}
+
+/** Least TuuCoin that buys `improvement` basis points, the inverse of `getOddsImprovement` */
+export function getTuuCoinAmountForImprovement(improvement: bigint, playPrice: bigint): bigint {
+  const capped = improvement > MAX_ODDS_IMPROVEMENT_BPS ? MAX_ODDS_IMPROVEMENT_BPS : improvement;
+  return (capped * playPrice + BASIS_POINTS - 1n) / BASIS_POINTS;
+}
+
+/** Chance in basis points that a play wins some prize */
+export function getWinProbability(tuuCoinAmount: bigint, playPrice: bigint): bigint {
+  const probability = BASE_WIN_PROBABILITY_BPS + getOddsImprovement(tuuCoinAmount, playPrice);
+  return probability > BASIS_POINTS ? BASIS_POINTS : probability;
+}
+
+function isSameItem(a: OddsItem, b: OddsItem): boolean {
+  return a.contractAddress.toLowerCase() === b.contractAddress.toLowerCase() && a.tokenIdOrAmount === b.tokenIdOrAmount;
+}
+
+/** Cabinet index `_selectPrizeItem` pays out when its item roll lands on `activeItem` */
+function resolveItemIndex(items: readonly OddsItem[], activeItem: OddsItem): number {
+  return items.findIndex((item) => item.isActive && isSameItem(item, activeItem));
+}
+
+/**
+ * Outcome of one play for a given random number.
+ * @param items The cabinet's full item list, in contract order
+ */
+export function selectPrizeItem(
+  items: readonly OddsItem[],
+  randomNumber: bigint,
+  tuuCoinAmount: bigint,
+  playPrice: bigint,
+): PrizeSelection {
+  const noPrize = { wonPrize: false, itemIndex: 0n };
+  const activeItems = items.filter((item) => item.isActive);
+  if (activeItems.length === 0) return noPrize;
+
+  const weights = activeItems.map((item) => getRarityWeight(item.rarity));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0n);
+
+  const winRoll = randomNumber % BASIS_POINTS;
+  if (winRoll >= getWinProbability(tuuCoinAmount, playPrice)) return noPrize;
+
+  const itemRoll = randomNumber % totalWeight;
+  let cumulativeWeight = 0n;
+  for (let i = 0; i < activeItems.length; i++) {
+    cumulativeWeight += weights[i];
+    if (itemRoll < cumulativeWeight) {
+      const index = resolveItemIndex(items, activeItems[i]);
+      if (index !== -1) return { wonPrize: true, itemIndex: BigInt(index) };
+    }
+  }
+  return noPrize;
+}
+
+/** Whether `play` reverts paying out `selection`; see the note at the top of this file */
+export function revertsOnPayout(items: readonly OddsItem[], selection: PrizeSelection): boolean {
+  return selection.wonPrize && selection.itemIndex === BigInt(items.length - 1);
+}
+
+function gcd(a: bigint, b: bigint): bigint {
+  while (b) [a, b] = [b, a % b];
+  return a;
+}
+
+/** How many integers in `[from, to)` are congruent to `residue` modulo `modulus` */
+function countCongruent(from: bigint, to: bigint, residue: bigint, modulus: bigint): bigint {
+  const below = (bound: bigint) => (bound <= residue ? 0n : (bound - residue - 1n) / modulus + 1n);
+  return below(to) - below(from);
+}
+
+/**
+ * Exact chance in `[0, 1]` that a play pays out each cabinet item.
+ *
+ * For a uniform 256-bit `r`, the pair `(r % 10000, r % totalWeight)` is
+ * uniform over the pairs that agree modulo `gcd(10000, totalWeight)` (Chinese
+ * remainder theorem), which is what couples the two rolls. Counting those
+ * pairs gives the odds without sampling.
+ * @return One entry per item in `items`; inactive and shadowed duplicate items get 0
+ */
+export function getItemOdds(items: readonly OddsItem[], tuuCoinAmount: bigint, playPrice: bigint): number[] {
+  const odds = items.map(() => 0);
+  const activeItems = items.filter((item) => item.isActive);
+  if (activeItems.length === 0) return odds;
+
+  const weights = activeItems.map((item) => getRarityWeight(item.rarity));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0n);
+  const winProbability = getWinProbability(tuuCoinAmount, playPrice);
+  const modulus = gcd(BASIS_POINTS, totalWeight);
+  const pairs = (BASIS_POINTS * totalWeight) / modulus;
+
+  let cumulativeWeight = 0n;
+  activeItems.forEach((item, i) => {
+    const from = cumulativeWeight;
+    cumulativeWeight += weights[i];
+
+    let matches = 0n;
+    for (let residue = 0n; residue < modulus; residue++) {
+      matches +=
+        countCongruent(0n, winProbability, residue, modulus) *
+        countCongruent(from, cumulativeWeight, residue, modulus);
+    }
+    odds[resolveItemIndex(items, item)] += Number(matches) / Number(pairs);
+  });
+  return odds;
+}
+
+/**
+ * Deterministic stand-in for `Randomness.generateRandomNumber`: the seeded
+ * source of the simulator, and what the `MockRandomness` test contract returns
+ */
+export function getSeededRandomNumber(seed: bigint, requestId: bigint): bigint {
+  const randomNumber = BigInt(keccak256(encodePacked(["uint256", "uint256"], [seed, requestId])));
+  return randomNumber === 0n ? 1n : randomNumber;
+}
@@ -0,0 +1,139 @@
+import { BASIS_POINTS } from "./client";
+import {
+  CONSOLATION_PERCENT,
+  getItemOdds,
+  getMaxTuuCoinAmount,
+  getSeededRandomNumber,
+  revertsOnPayout,
+  selectPrizeItem,
+} from "./odds";
+import type { GachaItem } from "./types";
+
+export interface SimulationParameters {
+  /** The cabinet's full item list, in contract order */
+  items: readonly GachaItem[];
+  /** Value of each item in wei, same order as `items` */
+  itemValues: readonly bigint[];
+  playPrice: bigint;
+  /** `CabinetConfig.platformFeeRate`, in basis points */
+  platformFeeRate: bigint;
+  tuuCoinAmount?: bigint;
+  plays: number;
+  /** Seed for `getSeededRandomNumber`; play `n` uses request ID `n` */
+  seed?: bigint;
+  /**
+   * Remove won items as the contract does (default). When false every play
+   * draws from the starting inventory, which isolates the per-play odds.
+   */
+  depleteInventory?: boolean;
+}
+
+export interface ItemSimulationResult {
+  /** Index in the starting item list */
+  itemIndex: number;
+  value: bigint;
+  wins: number;
+  /** Share of all plays this item was won in */
+  winRate: number;
+  /** Exact chance `_selectPrizeItem` picks it from the starting inventory, from `getItemOdds` */
+  odds: number;
+}
+
+export interface SimulationReport {
+  /** Plays run; fewer than requested when no active item was left */
+  plays: number;
+  /** Draws that won the last item in the list, which reverts on chain and is not counted as a play */
+  revertedPlays: number;
+  wins: number;
+  winRate: number;
+  items: ItemSimulationResult[];
+  /** Value of all prizes won */
+  payoutValue: bigint;
+  expectedPayoutPerPlay: bigint;
+  /** Play revenue after the platform fee */
+  ownerRevenue: bigint;
+  tuuCoinMinted: bigint;
+  /** Value of the active starting inventory */
+  inventoryValue: bigint;
+  /** `(ownerRevenue - payoutValue) / inventoryValue`, or 0 for an empty inventory */
+  returnOnInventory: number;
+}
+
+/**
+ * Run `plays` seeded plays against a cabinet's inventory with the odds engine,
+ * the way `TuuKeepCabinet.play` would: won items are removed by swap-and-pop,
+ * and play stops once no active item is left (`NoActiveItems`). Since wins on
+ * the last item revert, a cabinet is never fully emptied by play.
+ */
+export function simulatePlays({
+  items,
+  itemValues,
+  playPrice,
+  platformFeeRate,
+  tuuCoinAmount = 0n,
+  plays,
+  seed = 0n,
+  depleteInventory = true,
+}: SimulationParameters): SimulationReport {
+  if (itemValues.length !== items.length) {
+    throw new Error(`simulatePlays: got ${itemValues.length} item values for ${items.length} items`);
+  }
+  const maxTuuCoinAmount = getMaxTuuCoinAmount(playPrice);
+  if (tuuCoinAmount > maxTuuCoinAmount) {
+    throw new Error(`simulatePlays: TuuCoin amount ${tuuCoinAmount} exceeds the ${maxTuuCoinAmount} cap`);
+  }
+
+  // Starting index of every item still in the cabinet, kept in contract order
+  const inventory = items.map((item, index) => ({ item, index }));
+  const wins = items.map(() => 0);
+  let played = 0;
+  let reverted = 0;
+
+  // A reverted draw uses up its random number here; on chain the retry gets a fresh one from `Randomness`
+  for (let requestId = 1n; played < plays; requestId++) {
+    const current = inventory.map(({ item }) => item);
+    if (!current.some((item) => item.isActive)) break;
+
+    const selection = selectPrizeItem(current, getSeededRandomNumber(seed, requestId), tuuCoinAmount, playPrice);
+    if (revertsOnPayout(current, selection)) {
+      reverted++;
+      continue;
+    }
+    played++;
+    if (!selection.wonPrize) continue;
+
+    const position = Number(selection.itemIndex);
+    wins[inventory[position].index]++;
+    if (depleteInventory) {
+      inventory[position] = inventory[inventory.length - 1];
+      inventory.pop();
+    }
+  }
+
+  const totalWins = wins.reduce((sum, count) => sum + count, 0);
+  const payoutValue = wins.reduce((sum, count, index) => sum + BigInt(count) * itemValues[index], 0n);
+  // Fees and consolation mints are rounded per play, as on chain
+  const ownerRevenue = BigInt(played) * (playPrice - (playPrice * platformFeeRate) / BASIS_POINTS);
+  const inventoryValue = items.reduce((sum, item, index) => (item.isActive ? sum + itemValues[index] : sum), 0n);
+  const odds = getItemOdds(items, tuuCoinAmount, playPrice);
+
+  return {
+    plays: played,
+    revertedPlays: reverted,
+    wins: totalWins,
+    winRate: played ? totalWins / played : 0,
+    items: items.map((_, index) => ({
+      itemIndex: index,
+      value: itemValues[index],
+      wins: wins[index],
+      winRate: played ? wins[index] / played : 0,
+      odds: odds[index],
+    })),
+    payoutValue,
+    expectedPayoutPerPlay: played ? payoutValue / BigInt(played) : 0n,
+    ownerRevenue,
+    tuuCoinMinted: BigInt(played - totalWins) * ((playPrice * CONSOLATION_PERCENT) / 100n),
+    inventoryValue,
+    returnOnInventory: inventoryValue ? Number(ownerRevenue - payoutValue) / Number(inventoryValue) : 0,
+  };
+}
@@ -0,0 +1,229 @@
+import type { Hash } from "viem";
+import type { TuuKeepClient } from "./client";
+import type { PhaseDetails } from "./types";
+import { MAX_STRING_LENGTH } from "./validation";
+
+/**
+ * Tier sale planning
+ * @dev Checks a sale phase and its tiers before `createSalePhase` and
+ * `addTierToPhase` are sent, mirroring the contract's own checks and adding the
+ * schedule rules it leaves to the sale manager: tier quantities that fit the
+ * phase and tier windows that do not overlap. Keep in sync with
+ * `contracts/TuuKeepTierSale.sol`.
+ */
+
+export const MIN_PHASE_BASE_PRICE = 10n ** 15n;
+export const MAX_PHASE_BASE_PRICE = 10n ** 21n;
+export const MAX_PHASE_CABINETS = 1000n;
+
+/** A full discount is accepted by the contract but gives cabinets away */
+export const MAX_TIER_DISCOUNT_BPS = 9_999;
+
+export interface TierPlan {
+  name: string;
+  maxQuantity: bigint;
+  /** 7000 sells at 30% of the base price */
+  discountBps: number;
+  /** Unix seconds; 0 opens with the phase */
+  startTime: bigint;
+  /** Unix seconds; 0 runs until the phase ends */
+  endTime: bigint;
+}
+
+/** Arguments of `createSalePhase`, plus the tiers to add to it in order */
+export interface SalePhasePlan {
+  name: string;
+  startTime: bigint;
+  /** Unix seconds; 0 for no end */
+  endTime: bigint;
+  totalCabinets: bigint;
+  basePrice: bigint;
+  tiers: TierPlan[];
+}
+
+export interface SalePlanIssue {
+  /** `basePrice`, `tiers`, `tiers[1].discountBps`… */
+  field: string;
+  message: string;
+}
+
+export interface PriceLadderStep {
+  tierIndex: number;
+  name: string;
+  discountBps: number;
+  price: bigint;
+  maxQuantity: bigint;
+  /** 1-based position in the phase of the tier's first and last cabinet, when sold in order */
+  firstCabinet: bigint;
+  lastCabinet: bigint;
+  /** Price times quantity, before the platform fee */
+  revenue: bigint;
+}
+
+/** Price `addTierToPhase` stores for a tier, mirrors its discount calculation */
+export function getTierPrice(basePrice: bigint, discountBps: number): bigint {
+  return basePrice - (basePrice * BigInt(discountBps)) / 10_000n;
+}
+
+/** Unbounded ends stand in as the largest uint256 so windows compare directly */
+const OPEN_END = 2n ** 256n - 1n;
+
+function getNameIssue(name: string, field: string): SalePlanIssue | undefined {
+  if (name.length === 0) return { field, message: "Name is required" };
+  if (name.length > MAX_STRING_LENGTH) return { field, message: `Name must be at most ${MAX_STRING_LENGTH} characters` };
+  return undefined;
+}
+
+/**
+ * Everything that would make the setup revert or sell differently than the
+ * plan reads. `existingPhases` are checked for overlapping windows; pass the
+ * result of `TuuKeepClient.getPhases`. Empty when the plan can be submitted.
+ */
+export function getSalePhasePlanIssues(
+  plan: SalePhasePlan,
+  nowSeconds: number,
+  existingPhases: readonly PhaseDetails[] = [],
+): SalePlanIssue[] {
+  const issues: SalePlanIssue[] = [];
+  const now = BigInt(nowSeconds);
+
+  const nameIssue = getNameIssue(plan.name, "name");
+  if (nameIssue) issues.push(nameIssue);
+  if (plan.totalCabinets < 1n || plan.totalCabinets > MAX_PHASE_CABINETS) {
+    issues.push({ field: "totalCabinets", message: `Total cabinets must be between 1 and ${MAX_PHASE_CABINETS}` });
+  }
+  if (plan.basePrice < MIN_PHASE_BASE_PRICE || plan.basePrice > MAX_PHASE_BASE_PRICE) {
+    issues.push({ field: "basePrice", message: "Base price must be between 0.001 and 1000" });
+  }
+  if (plan.endTime > 0n) {
+    if (plan.endTime <= now) issues.push({ field: "endTime", message: "Phase must end in the future" });
+    if (plan.startTime >= plan.endTime) issues.push({ field: "endTime", message: "Phase must end after it starts" });
+  }
+
+  const phaseEnd = plan.endTime > 0n ? plan.endTime : OPEN_END;
+  for (const { phaseId, phase } of existingPhases) {
+    const otherEnd = phase.endTime > 0n ? phase.endTime : OPEN_END;
+    const live = phase.isActive && phase.soldCabinets < phase.totalCabinets && otherEnd > now;
+    if (live && plan.startTime <= otherEnd && phase.startTime <= phaseEnd) {
+      issues.push({ field: "startTime", message: `Overlaps phase #${phaseId} "${phase.name}", which is still selling` });
+    }
+  }
+
+  if (plan.tiers.length === 0) {
+    issues.push({ field: "tiers", message: "Add at least one tier" });
+    return issues;
+  }
+
+  let quantity = 0n;
+  const windows: { index: number; start: bigint; end: bigint }[] = [];
+  plan.tiers.forEach((tier, index) => {
+    const field = `tiers[${index}]`;
+    const tierNameIssue = getNameIssue(tier.name, `${field}.name`);
+    if (tierNameIssue) issues.push(tierNameIssue);
+
+    quantity += tier.maxQuantity;
+    if (tier.maxQuantity < 1n || tier.maxQuantity > plan.totalCabinets) {
+      issues.push({ field: `${field}.maxQuantity`, message: `Quantity must be between 1 and ${plan.totalCabinets}` });
+    }
+
+    // Below 1 bps the integer discount rounds to nothing and addTierToPhase reverts with InvalidPricing
+    if (!Number.isInteger(tier.discountBps) || tier.discountBps < 1 || tier.discountBps > MAX_TIER_DISCOUNT_BPS) {
+      issues.push({ field: `${field}.discountBps`, message: `Discount must be 1 to ${MAX_TIER_DISCOUNT_BPS} bps` });
+    } else if (getTierPrice(plan.basePrice, tier.discountBps) >= plan.basePrice) {
+      issues.push({ field: `${field}.discountBps`, message: "Discount is too small to lower the base price" });
+    }
+
+    if (tier.startTime > 0n && tier.startTime < plan.startTime) {
+      issues.push({ field: `${field}.startTime`, message: "Tier cannot open before the phase starts" });
+    }
+    if (tier.endTime > 0n && plan.endTime > 0n && tier.endTime > plan.endTime) {
+      issues.push({ field: `${field}.endTime`, message: "Tier cannot close after the phase ends" });
+    }
+    if (tier.startTime > 0n && tier.endTime > 0n && tier.startTime >= tier.endTime) {
+      issues.push({ field: `${field}.endTime`, message: "Tier must close after it opens" });
+    }
+
+    // Tiers without a window take over in order as earlier ones sell out; scheduled ones must not overlap
+    if (tier.startTime > 0n || tier.endTime > 0n) {
+      const start = tier.startTime > 0n ? tier.startTime : plan.startTime;
+      const end = tier.endTime > 0n ? tier.endTime : phaseEnd;
+      const overlap = windows.find((other) => start <= other.end && other.start <= end);
+      if (overlap) {
+        issues.push({ field: `${field}.startTime`, message: `Window overlaps tier ${overlap.index + 1}` });
+      }
+      windows.push({ index, start, end });
+    }
+  });
+
+  if (quantity > plan.totalCabinets) {
+    issues.push({
+      field: "tiers",
+      message: `Tier quantities add up to ${quantity}, more than the phase's ${plan.totalCabinets} cabinets`,
+    });
+  }
+  return issues;
+}
+
+/** Each tier's price and place in the phase, assuming tiers sell out in order */
+export function getPriceLadder(plan: SalePhasePlan): PriceLadderStep[] {
+  let sold = 0n;
+  return plan.tiers.map((tier, tierIndex) => {
+    const price = getTierPrice(plan.basePrice, tier.discountBps);
+    const step = {
+      tierIndex,
+      name: tier.name,
+      discountBps: tier.discountBps,
+      price,
+      maxQuantity: tier.maxQuantity,
+      firstCabinet: sold + 1n,
+      lastCabinet: sold + tier.maxQuantity,
+      revenue: price * tier.maxQuantity,
+    };
+    sold += tier.maxQuantity;
+    return step;
+  });
+}
+
+export type SalePhaseSetupStep =
+  | { kind: "createSalePhase" }
+  | { kind: "deactivatePhase"; phaseId: bigint }
+  | { kind: "addTierToPhase"; phaseId: bigint; tierIndex: number }
+  | { kind: "activatePhase"; phaseId: bigint };
+
+export interface SalePhaseSetupOptions {
+  /** Leave the phase inactive once its tiers are in; defaults to activating it */
+  activate?: boolean;
+  /** Called after each transaction is mined */
+  onStep?: (step: SalePhaseSetupStep, hash: Hash) => void;
+}
+
+/**
+ * Sends a plan as `createSalePhase`, `addTierToPhase` for each tier and
+ * `activatePhase`, waiting for each transaction. `createSalePhase` opens the
+ * phase straight away, so it is deactivated first and no purchase can land
+ * before every tier is in. Check `getSalePhasePlanIssues` before calling; a
+ * failed step throws and leaves the phase inactive with the tiers added so far.
+ */
+export async function submitSalePhasePlan(
+  client: TuuKeepClient,
+  plan: SalePhasePlan,
+  { activate = true, onStep }: SalePhaseSetupOptions = {},
+): Promise<bigint> {
+  const created = await client.waitForReceipt(await client.createSalePhase(plan));
+  const phaseId = client.parseSalePhaseCreated(created);
+  onStep?.({ kind: "createSalePhase" }, created.transactionHash);
+
+  const send = async (step: SalePhaseSetupStep, hash: Hash) => {
+    await client.waitForReceipt(hash);
+    onStep?.(step, hash);
+  };
+
+  await send({ kind: "deactivatePhase", phaseId }, await client.deactivatePhase(phaseId));
+  for (const [tierIndex, tier] of plan.tiers.entries()) {
+    await send({ kind: "addTierToPhase", phaseId, tierIndex }, await client.addTierToPhase(phaseId, tier));
+  }
+  if (activate) {
+    await send({ kind: "activatePhase", phaseId }, await client.activatePhase(phaseId));
+  }
+  return phaseId;
+}
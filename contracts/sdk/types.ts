@@ -0,0 +1,180 @@
+import type {
+  Address,
+  ContractFunctionArgs,
+  ContractFunctionReturnType,
+  Hash,
+} from "viem";
+import type {
+  tuuCoinAbi,
+  tuuKeepCabinetAbi,
+  tuuKeepMarketplaceAbi,
+  tuuKeepTierSaleAbi,
+} from "./abis";
+
+/**
+ * Decoded on-chain structs.
+ *
+ * Derived from the generated ABIs rather than declared by hand, so a struct
+ * change in Solidity shows up as a type error after `generate-sdk-abis`.
+ */
+
+// TuuKeepCabinet
+export type CabinetMetadata = ContractFunctionReturnType<
+  typeof tuuKeepCabinetAbi,
+  "view",
+  "getCabinetInfo"
+>[0];
+export type CabinetConfig = ContractFunctionReturnType<
+  typeof tuuKeepCabinetAbi,
+  "view",
+  "getCabinetInfo"
+>[1];
+export type GachaItem = ContractFunctionReturnType<
+  typeof tuuKeepCabinetAbi,
+  "view",
+  "getCabinetItem"
+>;
+export type GachaItemInput = ContractFunctionArgs<
+  typeof tuuKeepCabinetAbi,
+  "nonpayable",
+  "depositItems"
+>[1][number];
+
+/** Mirrors `TuuKeepCabinet.AssetType` */
+export const AssetType = {
+  ERC721: 0,
+  ERC20: 1,
+} as const;
+export type AssetType = (typeof AssetType)[keyof typeof AssetType];
+
+// TuuCoin
+export type CabinetIntegration = ContractFunctionReturnType<
+  typeof tuuCoinAbi,
+  "view",
+  "getCabinetInfo"
+>;
+export type EmissionConfig = ContractFunctionReturnType<
+  typeof tuuCoinAbi,
+  "view",
+  "getEmissionConfig"
+>;
+
+// TuuKeepMarketplace
+export type Listing = ContractFunctionReturnType<
+  typeof tuuKeepMarketplaceAbi,
+  "view",
+  "getActiveListing"
+>;
+export type MarketplaceConfig = ContractFunctionArgs<
+  typeof tuuKeepMarketplaceAbi,
+  "nonpayable",
+  "updateMarketplaceConfig"
+>[0];
+export type MarketSummary = ContractFunctionReturnType<
+  typeof tuuKeepMarketplaceAbi,
+  "view",
+  "getMarketSummary"
+>;
+
+// TuuKeepTierSale
+export type SalePhase = ContractFunctionReturnType<
+  typeof tuuKeepTierSaleAbi,
+  "view",
+  "getPhaseInfo"
+>[0];
+export type PricingTier = ContractFunctionReturnType<
+  typeof tuuKeepTierSaleAbi,
+  "view",
+  "getCurrentTierInfo"
+>;
+
+/** Addresses of the contracts wrapped by `TuuKeepClient` */
+export interface TuuKeepAddresses {
+  cabinet: Address;
+  tuuCoin: Address;
+  marketplace: Address;
+  /** Absent on deployments without a tier sale; the tier sale methods then throw */
+  tierSale?: Address;
+}
+
+export interface CabinetDetails {
+  cabinetId: bigint;
+  metadata: CabinetMetadata;
+  config: CabinetConfig;
+}
+
+/** `TuuKeepCabinet.getCabinetAnalytics`; revenue is lifetime gross, not the withdrawable balance */
+export interface CabinetAnalytics {
+  totalRevenue: bigint;
+  totalPlays: bigint;
+  averageRevenue: bigint;
+}
+
+export interface ListingDetails {
+  listingId: bigint;
+  listing: Listing;
+}
+
+export interface PhaseDetails {
+  phaseId: bigint;
+  phase: SalePhase;
+  tiers: readonly PricingTier[];
+}
+
+/** `TuuCoin.getUserBurnStats` and the odds improvement those burns earn */
+export interface TuuCoinBurnStats {
+  burnedAmount: bigint;
+  burnCount: bigint;
+  /** Basis points, from `TuuCoin.calculateOddsImprovement` */
+  oddsImprovement: bigint;
+}
+
+/** `TuuCoin.getEnhancedSupplyStats` */
+export interface TuuCoinSupply {
+  totalSupply: bigint;
+  /** `adjustableMaxSupply` while dynamic supply is enabled, `MAX_SUPPLY` otherwise */
+  effectiveMaxSupply: bigint;
+  dynamicSupplyEnabled: boolean;
+  totalMinted: bigint;
+  totalBurned: bigint;
+}
+
+/** `TuuCoin.getPauseStatus`; `paused` is the global pause, the rest are selective */
+export interface TuuCoinPauseStatus {
+  paused: boolean;
+  mintingPaused: boolean;
+  burningPaused: boolean;
+  transfersPaused: boolean;
+}
+
+/** A tier sale purchase, decoded from its `CabinetPurchased` log */
+export interface CabinetPurchase {
+  transactionHash: Hash;
+  purchaseId: bigint;
+  buyer: Address;
+  /** Token ID of the newly minted cabinet */
+  cabinetId: bigint;
+  phaseId: bigint;
+  tierId: bigint;
+  price: bigint;
+}
+
+/** Outcome of a single `play` call, decoded from its receipt */
+export interface PlayResult {
+  transactionHash: Hash;
+  cabinetId: bigint;
+  player: Address;
+  playPrice: bigint;
+  tuuCoinAmount: bigint;
+  wonPrize: boolean;
+  /** Index in the cabinet item array at the time of the draw; undefined on a loss */
+  itemIndex?: bigint;
+  prize?: {
+    assetType: number;
+    contractAddress: Address;
+    tokenIdOrAmount: bigint;
+    rarity: bigint;
+  };
+  /** Consolation TuuCoin minted to the player on a loss */
+  tuuCoinReward: bigint;
+}
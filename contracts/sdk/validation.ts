@@ -0,0 +1,23 @@
+/**
+ * Client-side mirrors of `ValidationLib` checks.
+ * @dev Lets forms reject input before a transaction is simulated. Keep in sync
+ * with `contracts/Utils/Security/ValidationLib.sol`.
+ */
+
+export const MAX_STRING_LENGTH = 256;
+export const MIN_PLAY_PRICE = 10n ** 15n;
+export const MAX_PLAY_PRICE = 10n ** 20n;
+export const MAX_CABINET_ITEMS = 10;
+
+const CABINET_NAME_PATTERN = /^[0-9A-Za-z ]*$/;
+
+/**
+ * Reason `ValidationLib.validateCabinetName` would reject `name`, or undefined
+ * when it passes: 1 to 256 characters of ASCII letters, digits and spaces.
+ */
+export function getCabinetNameError(name: string): string | undefined {
+  if (name.length === 0) return "Cabinet name is required";
+  if (name.length > MAX_STRING_LENGTH) return `Cabinet name must be at most ${MAX_STRING_LENGTH} characters`;
+  if (!CABINET_NAME_PATTERN.test(name)) return "Cabinet name may only contain letters, digits and spaces";
+  return undefined;
+}
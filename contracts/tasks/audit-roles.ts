@@ -0,0 +1,49 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import type { PublicClient } from "viem";
+import { requireManifest } from "../lib/deployment-manifest";
+import { auditRoles, formatRoleAudit, readRolePolicy } from "../lib/role-audit";
+
+interface AuditRolesArguments {
+  policy: string;
+  fromBlock: string;
+  expiryDays: string;
+}
+
+/**
+ * `npx hardhat audit-roles --network <name> [--policy <file>] [--expiry-days <n>]`
+ *
+ * Rebuilds every role holder on the manifest's contracts from their role
+ * events and diffs them against `deployments/role-policy.json`. Prints the
+ * role graph, then flags holders the policy does not list, listed holders
+ * that are missing, externally owned accounts holding admin roles and grants
+ * expiring within `--expiry-days` (7 by default). Exits non-zero when any
+ * role differs from the policy.
+ */
+export default async function auditRolesTask(args: AuditRolesArguments, hre: HardhatRuntimeEnvironment) {
+  if (args.fromBlock && !/^\d+$/.test(args.fromBlock)) {
+    throw new Error(`--from-block must be a non-negative integer, got "${args.fromBlock}"`);
+  }
+  const expiryDays = args.expiryDays ? Number(args.expiryDays) : 7;
+  if (!(expiryDays >= 0)) {
+    throw new Error(`--expiry-days must be a non-negative number, got "${args.expiryDays}"`);
+  }
+
+  const connection = await hre.network.connect();
+  const publicClient = (await connection.viem.getPublicClient()) as unknown as PublicClient;
+  const manifest = requireManifest(await publicClient.getChainId());
+  const policy = args.policy ? readRolePolicy(args.policy) : readRolePolicy();
+
+  console.log(`🔐 Auditing roles on ${connection.networkName}`);
+  const report = await auditRoles({
+    publicClient,
+    manifest,
+    policy,
+    fromBlock: args.fromBlock ? BigInt(args.fromBlock) : undefined,
+    expiryWarningSeconds: BigInt(Math.round(expiryDays * 24 * 60 * 60)),
+  });
+
+  console.log(formatRoleAudit(report));
+  if (report.errors.length > 0) {
+    process.exitCode = 1;
+  }
+}
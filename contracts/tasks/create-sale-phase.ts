@@ -0,0 +1,69 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { decodeTuuKeepRevert } from "../sdk/errors";
+import { getSalePhasePlanIssues, submitSalePhasePlan, type SalePhaseSetupStep } from "../sdk/tier-sale";
+import { connectSaleAdmin, formatSalePhasePlan, readSalePhasePlan } from "../lib/tier-sale-admin";
+
+interface CreateSalePhaseArguments {
+  plan: string;
+  preview: boolean;
+  inactive: boolean;
+}
+
+function describeStep(step: SalePhaseSetupStep): string {
+  switch (step.kind) {
+    case "createSalePhase":
+      return "Created phase";
+    case "deactivatePhase":
+      return `Held phase #${step.phaseId} inactive while tiers are added`;
+    case "addTierToPhase":
+      return `Added tier ${step.tierIndex + 1}`;
+    case "activatePhase":
+      return `Activated phase #${step.phaseId}`;
+  }
+}
+
+/**
+ * `npx hardhat create-sale-phase --network <name> --plan <file> [--preview] [--inactive]`
+ *
+ * Reads a sale phase plan (see `lib/tier-sale-admin.ts`), checks it against
+ * the contract's rules and the phases already on chain, and prints the price
+ * ladder. Unless `--preview` is given or the plan has issues, it is then sent
+ * as `createSalePhase`, one `addTierToPhase` per tier and `activatePhase`;
+ * `--inactive` leaves the phase for `set-sale-phase --activate` instead.
+ */
+export default async function createSalePhase(args: CreateSalePhaseArguments, hre: HardhatRuntimeEnvironment) {
+  if (!args.plan) {
+    throw new Error("--plan is required");
+  }
+  const plan = readSalePhasePlan(args.plan);
+  const { client, networkName, currency } = await connectSaleAdmin(hre);
+
+  const [block, phases] = await Promise.all([client.publicClient.getBlock(), client.getPhases()]);
+  const issues = getSalePhasePlanIssues(plan, Number(block.timestamp), phases);
+  console.log(`🏷️  Sale phase plan for ${networkName}\n`);
+  console.log(formatSalePhasePlan(plan, issues, currency));
+
+  if (issues.length > 0) {
+    process.exitCode = 1;
+    return;
+  }
+  if (args.preview) return;
+
+  const account = client.walletClient!.account!.address;
+  if (!(await client.hasTierSaleRole("SALE_MANAGER_ROLE", account))) {
+    throw new Error(`${account} does not hold SALE_MANAGER_ROLE on the tier sale`);
+  }
+
+  console.log("");
+  try {
+    const phaseId = await submitSalePhasePlan(client, plan, {
+      activate: !args.inactive,
+      onStep: (step, hash) => console.log(`✅ ${describeStep(step)} (${hash})`),
+    });
+    console.log(`\n🎉 Phase #${phaseId} is ${args.inactive ? "ready, but inactive" : "live"}`);
+  } catch (error) {
+    const revert = decodeTuuKeepRevert(error);
+    if (revert) console.error(`❌ ${revert.message}`);
+    throw error;
+  }
+}
@@ -0,0 +1,153 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { formatEther, getAddress, isAddress, parseEther, type Address } from "viem";
+import { createEmptyManifest } from "../sdk/manifest";
+import { TUUKEEP_PLAN, type DeployParams } from "../lib/deploy-plan";
+import {
+  DeployStepError,
+  runDeployPlan,
+  totalGasUsed,
+  type StepResult,
+} from "../lib/deploy-orchestrator";
+import { fileManifestStore, loadManifest, memoryManifestStore } from "../lib/deployment-manifest";
+import { assertBytecodeCompatible, formatLintReport } from "../lib/bytecode-checks";
+
+interface DeployTuuKeepArguments {
+  dryRun: boolean;
+  forkUrl: string;
+  feeRecipient: string;
+  treasury: string;
+}
+
+const STATUS_ICONS: Record<StepResult["status"], string> = {
+  deployed: "📦",
+  granted: "🔑",
+  skipped: "⏭️ ",
+};
+
+function logStep(result: StepResult) {
+  const details = [
+    result.address,
+    result.gasUsed !== undefined ? `${result.gasUsed.toLocaleString()} gas` : undefined,
+  ].filter(Boolean);
+  console.log(`${STATUS_ICONS[result.status]} ${result.id}${details.length ? ` (${details.join(", ")})` : ""}`);
+}
+
+function optionalAddress(value: string, name: string, fallback: Address): Address {
+  if (!value) return fallback;
+  if (!isAddress(value)) {
+    throw new Error(`--${name} must be an address, got "${value}"`);
+  }
+  return getAddress(value);
+}
+
+/**
+ * `npx hardhat deploy-tuukeep --network <name> [--dry-run [--fork-url <rpc>]]`
+ *
+ * Deploys whatever part of `TUUKEEP_PLAN` the network's manifest does not
+ * record yet. With `--dry-run` the plan runs on a simulated chain instead,
+ * forked from `--fork-url` when given, and only gas estimates are reported.
+ * Either way, compiled bytecode is linted against the network's EVM first.
+ */
+export default async function deployTuuKeep(args: DeployTuuKeepArguments, hre: HardhatRuntimeEnvironment) {
+  const target = await hre.network.connect();
+  const targetClient = await target.viem.getPublicClient();
+  const chainId = await targetClient.getChainId();
+  const [targetWallet] = await target.viem.getWalletClients();
+
+  console.log(`🚀 TuuKeep deployment plan on ${target.networkName} (chain ${chainId})${args.dryRun ? " — dry run" : ""}`);
+
+  // Throws with the per-contract report before anything is sent
+  const lint = assertBytecodeCompatible(target.networkName, { artifactsDir: hre.config.paths.artifacts });
+  if (lint.contracts.some(({ warnings }) => warnings.length > 0)) {
+    console.log(formatLintReport(lint));
+  } else {
+    console.log(`🧬 Bytecode fits the ${lint.profile.evmVersion} EVM (${lint.contracts.length} contracts)`);
+  }
+
+  if (!args.dryRun) {
+    if (!targetWallet) {
+      throw new Error(`No deployer account configured for ${target.networkName}`);
+    }
+
+    const deployer = targetWallet.account.address;
+    const params: DeployParams = {
+      deployer,
+      platformFeeRecipient: optionalAddress(args.feeRecipient, "fee-recipient", deployer),
+      platformTreasury: optionalAddress(args.treasury, "treasury", deployer),
+    };
+    console.log(`👤 Deployer: ${deployer}`);
+    console.log(`💰 Balance: ${formatEther(await targetClient.getBalance({ address: deployer }))}`);
+
+    try {
+      const results = await runDeployPlan({
+        plan: TUUKEEP_PLAN,
+        params,
+        viem: target.viem,
+        artifacts: hre.artifacts,
+        store: fileManifestStore(chainId),
+        onStep: logStep,
+      });
+      console.log(`\n✅ Plan complete, ${totalGasUsed(results).toLocaleString()} gas used this run`);
+      console.log(`📁 Deployment manifest: deployments/manifest/${chainId}.json`);
+    } catch (error) {
+      if (error instanceof DeployStepError) {
+        console.error(`\n❌ ${error.message}`);
+        console.error(`   ${error.completed.length} earlier step(s) are recorded in the manifest.`);
+        console.error("   Re-run the same command to resume from the failed step.");
+      }
+      throw error;
+    }
+    return;
+  }
+
+  // Dry run: replay the plan on a simulated chain, starting from the target's manifest when forking
+  const simulation = await hre.network.connect({
+    network: "hardhatMainnet",
+    override: args.forkUrl ? { forking: { url: args.forkUrl } } : {},
+  });
+
+  let deployer: Address;
+  if (args.forkUrl && targetWallet) {
+    // Send as the real deployer so grants on already-deployed contracts are authorised
+    deployer = targetWallet.account.address;
+    const testClient = await simulation.viem.getTestClient();
+    await testClient.impersonateAccount({ address: deployer });
+    await testClient.setBalance({ address: deployer, value: parseEther("1000000") });
+  } else {
+    const [simulatedWallet] = await simulation.viem.getWalletClients();
+    deployer = simulatedWallet.account.address;
+  }
+
+  const params: DeployParams = {
+    deployer,
+    platformFeeRecipient: optionalAddress(args.feeRecipient, "fee-recipient", deployer),
+    platformTreasury: optionalAddress(args.treasury, "treasury", deployer),
+  };
+  const startingManifest = args.forkUrl ? loadManifest(chainId) : createEmptyManifest(chainId);
+
+  const results = await runDeployPlan({
+    plan: TUUKEEP_PLAN,
+    params,
+    viem: simulation.viem,
+    artifacts: hre.artifacts,
+    store: memoryManifestStore(startingManifest),
+    onStep: logStep,
+  });
+
+  const gasUsed = totalGasUsed(results);
+  const gasPrice = await targetClient.getGasPrice();
+  const pending = results.filter((result) => result.status !== "skipped").length;
+
+  console.log("\n📊 Dry run summary");
+  console.log(`   Pending steps: ${pending} of ${results.length}`);
+  console.log(`   Estimated gas: ${gasUsed.toLocaleString()}`);
+  console.log(`   Estimated cost at ${formatEther(gasPrice, "gwei")} gwei: ${formatEther(gasUsed * gasPrice)}`);
+
+  if (targetWallet) {
+    const balance = await targetClient.getBalance({ address: targetWallet.account.address });
+    console.log(`   Deployer balance: ${formatEther(balance)}${balance < gasUsed * gasPrice ? " ⚠️  insufficient" : ""}`);
+  }
+  if (!args.forkUrl) {
+    console.log("   Ran against a fresh chain; pass --fork-url to estimate only the steps the manifest is missing.");
+  }
+}
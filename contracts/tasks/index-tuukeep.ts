@@ -0,0 +1,83 @@
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import type { PublicClient } from "viem";
+import { getTuuKeepAddresses, type DeploymentManifest } from "../sdk/manifest";
+import { manifestStartBlock, requireManifest } from "../lib/deployment-manifest";
+import { IndexerStore, TuuKeepIndexer, type IndexerAddresses } from "../indexer";
+
+// ES module compatibility
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const INDEXER_DATA_DIR = path.join(__dirname, "../indexer/data");
+
+interface IndexTuuKeepArguments {
+  db: string;
+  fromBlock: string;
+  batchSize: string;
+  confirmations: string;
+  follow: boolean;
+}
+
+function parseBlockOption(value: string, name: string): bigint | undefined {
+  if (!value) return undefined;
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`--${name} must be a non-negative integer, got "${value}"`);
+  }
+  return BigInt(value);
+}
+
+function indexerAddresses(manifest: DeploymentManifest): IndexerAddresses {
+  return {
+    ...getTuuKeepAddresses(manifest),
+    accessControl: manifest.contracts.TuuKeepAccessControl?.address,
+    randomness: manifest.contracts.Randomness?.address,
+  };
+}
+
+/**
+ * `npx hardhat index-tuukeep --network <name> [--db <file>] [--from-block <n>] [--follow]`
+ *
+ * Indexes TuuKeep events for the contracts in the network's deployment
+ * manifest into a SQLite file (`indexer/data/<chainId>.sqlite` by default).
+ * Re-running resumes from the stored cursor; `--follow` keeps tailing new
+ * blocks until interrupted.
+ */
+export default async function indexTuuKeep(args: IndexTuuKeepArguments, hre: HardhatRuntimeEnvironment) {
+  const connection = await hre.network.connect();
+  const publicClient = (await connection.viem.getPublicClient()) as unknown as PublicClient;
+  const chainId = await publicClient.getChainId();
+  const manifest = requireManifest(chainId);
+
+  const file = args.db || path.join(INDEXER_DATA_DIR, `${chainId}.sqlite`);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const store = new IndexerStore(file);
+
+  const indexer = new TuuKeepIndexer({
+    publicClient,
+    addresses: indexerAddresses(manifest),
+    store,
+    startBlock: parseBlockOption(args.fromBlock, "from-block") ?? manifestStartBlock(manifest),
+    batchSize: parseBlockOption(args.batchSize, "batch-size"),
+    confirmations: parseBlockOption(args.confirmations, "confirmations"),
+    onBatch: ({ fromBlock, toBlock, rows }) => console.log(`📥 Blocks ${fromBlock}-${toBlock}: ${rows} event(s)`),
+    onReorg: (ancestor) => console.log(`↩️  Reorg detected, rolled back to block ${ancestor.number}`),
+  });
+
+  console.log(`🔎 Indexing TuuKeep on ${connection.networkName} (chain ${chainId}) into ${file}`);
+
+  try {
+    if (args.follow) {
+      const controller = new AbortController();
+      process.once("SIGINT", () => controller.abort());
+      await indexer.follow({ signal: controller.signal });
+    } else {
+      const cursor = await indexer.sync();
+      console.log(cursor ? `✅ Indexed up to block ${cursor.number}` : "✅ Nothing to index yet");
+    }
+  } finally {
+    store.close();
+  }
+}
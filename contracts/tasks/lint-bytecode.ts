@@ -0,0 +1,33 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { formatLintReport, lintArtifacts, networkProfile, readArtifacts } from "../lib/bytecode-checks";
+
+interface LintBytecodeArguments {
+  margin: string;
+  all: boolean;
+}
+
+/**
+ * `npx hardhat lint-bytecode --network <name> [--margin <percent>] [--all]`
+ *
+ * Checks every compiled artifact against the network's EVM: opcodes it does
+ * not support, in deployed and init code, and contracts within `--margin`
+ * percent of the EIP-170 size limit. Prints a per-contract report with the
+ * estimated deployment gas, and exits non-zero on any error. Deploy tasks
+ * run the same check before sending anything.
+ */
+export default async function lintBytecode(args: LintBytecodeArguments, hre: HardhatRuntimeEnvironment) {
+  const marginPercent = args.margin ? Number(args.margin) : undefined;
+  if (marginPercent !== undefined && !(marginPercent >= 0 && marginPercent < 100)) {
+    throw new Error(`--margin must be a percentage between 0 and 100, got "${args.margin}"`);
+  }
+
+  const { networkName } = await hre.network.connect();
+  const report = lintArtifacts(readArtifacts(hre.config.paths.artifacts), networkProfile(networkName), {
+    marginPercent,
+  });
+
+  console.log(formatLintReport(report, { all: args.all }));
+  if (report.errors.length > 0) {
+    process.exitCode = 1;
+  }
+}
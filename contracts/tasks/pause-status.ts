@@ -0,0 +1,19 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import type { PublicClient } from "viem";
+import { requireManifest } from "../lib/deployment-manifest";
+import { formatPauseStatus, readPauseStatus } from "../lib/incident";
+
+/**
+ * `npx hardhat pause-status --network <name>`
+ *
+ * Prints whether each pausable contract in the deployment manifest is paused,
+ * from `paused()`, with TuuCoin's selective pauses from `getPauseStatus()`.
+ */
+export default async function pauseStatus(_args: Record<string, unknown>, hre: HardhatRuntimeEnvironment) {
+  const connection = await hre.network.connect();
+  const publicClient = (await connection.viem.getPublicClient()) as unknown as PublicClient;
+  const manifest = requireManifest(await publicClient.getChainId());
+
+  console.log(`⏯️  Pause status on ${connection.networkName}`);
+  console.log(formatPauseStatus(await readPauseStatus(publicClient, manifest)));
+}
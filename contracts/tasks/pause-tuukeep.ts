@@ -0,0 +1,86 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import type { PublicClient, WalletClient } from "viem";
+import { requireManifest } from "../lib/deployment-manifest";
+import {
+  formatIncidentPlan,
+  formatPauseStatus,
+  planIncident,
+  readPauseStatus,
+  runIncident,
+  type IncidentAction,
+} from "../lib/incident";
+
+interface PauseTuuKeepArguments {
+  reason: string;
+  dryRun: boolean;
+  partial: boolean;
+}
+
+/**
+ * `npx hardhat pause-tuukeep --network <name> --reason <text> [--dry-run] [--partial]`
+ *
+ * Pauses every pausable contract in the deployment manifest, signed by the
+ * network's first account. Checks that the account holds each contract's
+ * pause role and simulates every call first; if any would revert, nothing is
+ * sent unless `--partial` is passed. `--reason` is recorded on TuuCoin.
+ * Prints the pause state of every contract when done.
+ */
+export default async function pauseTuuKeep(args: PauseTuuKeepArguments, hre: HardhatRuntimeEnvironment) {
+  if (!args.reason.trim()) {
+    throw new Error("--reason is required; it is recorded on TuuCoin with the pause");
+  }
+  await runIncidentTask("pause", args, hre);
+}
+
+/** Shared by `pause-tuukeep` and `resume-tuukeep` */
+export async function runIncidentTask(
+  action: IncidentAction,
+  { reason = "", dryRun, partial }: { reason?: string; dryRun: boolean; partial: boolean },
+  hre: HardhatRuntimeEnvironment,
+) {
+  const connection = await hre.network.connect();
+  const publicClient = (await connection.viem.getPublicClient()) as unknown as PublicClient;
+  const [walletClient] = await connection.viem.getWalletClients();
+  if (!walletClient) {
+    throw new Error(`No account configured for ${connection.networkName}`);
+  }
+  const manifest = requireManifest(await publicClient.getChainId());
+  const account = walletClient.account.address;
+
+  console.log(`🚨 Planning ${action} of TuuKeep on ${connection.networkName} as ${account}`);
+  const plan = await planIncident({ publicClient, manifest, action, account, reason: reason.trim() });
+  console.log(formatIncidentPlan(plan));
+
+  const ready = plan.steps.filter((step) => step.status === "ready");
+  if (plan.blocked.length > 0 && !partial) {
+    process.exitCode = 1;
+    console.error(
+      `\n❌ ${plan.blocked.length} call${plan.blocked.length === 1 ? "" : "s"} would revert; nothing was sent. ` +
+        "Fix the roles above or rerun with --partial to send the rest.",
+    );
+    return;
+  }
+  if (dryRun || ready.length === 0) {
+    console.log(dryRun ? "\nDry run, nothing sent" : `\nNothing to ${action}`);
+    return;
+  }
+
+  console.log("");
+  await runIncident({
+    publicClient,
+    walletClient: walletClient as unknown as WalletClient,
+    plan,
+    onStep: (step) =>
+      console.log(
+        step.status === "done"
+          ? `✅ ${step.contract}.${step.functionName} (${step.transactionHash})`
+          : `❌ ${step.contract}.${step.functionName}: ${step.error}`,
+      ),
+  });
+
+  console.log("");
+  console.log(formatPauseStatus(await readPauseStatus(publicClient, manifest)));
+  if (plan.blocked.length > 0 || plan.steps.some((step) => step.status === "failed")) {
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,147 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { formatEther, getAddress, isAddress, parseEther, type Address } from "viem";
+import { createEmptyManifest } from "../sdk/manifest";
+import { getTuuKeepChain } from "../sdk/chains";
+import { TUUKEEP_PLAN, type DeployParams } from "../lib/deploy-plan";
+import type { StepResult } from "../lib/deploy-orchestrator";
+import { rehearseDeployment } from "../lib/deploy-rehearsal";
+import { networkProfile } from "../lib/bytecode-checks";
+import { loadManifest, memoryManifestStore } from "../lib/deployment-manifest";
+
+interface RehearseTuuKeepArguments {
+  forkUrl: string;
+  deployer: string;
+  fresh: boolean;
+  feeRecipient: string;
+  treasury: string;
+}
+
+const STATUS_ICONS: Record<StepResult["status"], string> = {
+  deployed: "📦",
+  granted: "🔑",
+  skipped: "⏭️ ",
+};
+
+function logStep(result: StepResult) {
+  const details = [
+    result.address,
+    result.gasUsed !== undefined ? `${result.gasUsed.toLocaleString()} gas` : undefined,
+  ].filter(Boolean);
+  console.log(`${STATUS_ICONS[result.status]} ${result.id}${details.length ? ` (${details.join(", ")})` : ""}`);
+}
+
+function optionalAddress(value: string, name: string, fallback: Address): Address {
+  if (!value) return fallback;
+  if (!isAddress(value)) {
+    throw new Error(`--${name} must be an address, got "${value}"`);
+  }
+  return getAddress(value);
+}
+
+/**
+ * `npx hardhat rehearse-tuukeep --network <name> [--fork-url <rpc>] [--fresh]`
+ *
+ * Forks the target network into the simulated `hardhatMainnet` network and
+ * runs `TUUKEEP_PLAN` there as the deployer, impersonated, followed by the
+ * post-deploy validation. Reports the cost in the target's native currency at
+ * its current gas price, the first reverted step with its decoded error, and
+ * bytecode the network's EVM may reject. Exits non-zero when any of those would
+ * stop the real deployment. No key signs anything.
+ *
+ * The plan resumes from the network's manifest like a real run; `--fresh`
+ * rehearses the whole plan from an empty manifest instead.
+ */
+export default async function rehearseTuuKeep(args: RehearseTuuKeepArguments, hre: HardhatRuntimeEnvironment) {
+  const target = await hre.network.connect();
+  const targetClient = await target.viem.getPublicClient();
+  const chainId = await targetClient.getChainId();
+  const chain = getTuuKeepChain(chainId);
+  const currency = chain?.nativeCurrency.symbol ?? "ETH";
+
+  const forkUrl = args.forkUrl || chain?.rpcUrls.default.http[0];
+  if (!forkUrl) {
+    throw new Error(`No known RPC URL for chain ${chainId}; pass --fork-url`);
+  }
+
+  const [targetWallet] = await target.viem.getWalletClients();
+  const fallbackDeployer = targetWallet?.account.address;
+  if (!args.deployer && !fallbackDeployer) {
+    throw new Error(`No deployer account configured for ${target.networkName}; pass --deployer`);
+  }
+  const deployer = optionalAddress(args.deployer, "deployer", fallbackDeployer as Address);
+
+  const [gasPrice, balance, forkBlock] = await Promise.all([
+    targetClient.getGasPrice(),
+    targetClient.getBalance({ address: deployer }),
+    targetClient.getBlockNumber(),
+  ]);
+
+  console.log(`🎭 Rehearsing the TuuKeep deployment on a fork of ${target.networkName} (chain ${chainId}) at block ${forkBlock}`);
+  console.log(`👤 Deployer (impersonated): ${deployer}`);
+
+  const simulation = await hre.network.connect({
+    network: "hardhatMainnet",
+    override: { forking: { url: forkUrl, blockNumber: Number(forkBlock) } },
+  });
+  const testClient = await simulation.viem.getTestClient();
+  await testClient.impersonateAccount({ address: deployer });
+  // Fund generously so the rehearsal reaches every step; the real balance is compared below
+  await testClient.setBalance({ address: deployer, value: parseEther("1000000") });
+
+  const params: DeployParams = {
+    deployer,
+    platformFeeRecipient: optionalAddress(args.feeRecipient, "fee-recipient", deployer),
+    platformTreasury: optionalAddress(args.treasury, "treasury", deployer),
+  };
+  const startingManifest = args.fresh ? createEmptyManifest(chainId) : loadManifest(chainId);
+
+  console.log(`\n📋 Plan (${args.fresh ? "from an empty manifest" : `resuming from deployments/manifest/${chainId}.json`}):`);
+  const report = await rehearseDeployment({
+    plan: TUUKEEP_PLAN,
+    params,
+    viem: simulation.viem,
+    artifacts: hre.artifacts,
+    store: memoryManifestStore(startingManifest),
+    onStep: logStep,
+    profile: networkProfile(target.networkName),
+  });
+
+  if (report.failure) {
+    console.log(`❌ ${report.failure.step}: ${report.failure.message}`);
+    if (report.failure.revert && report.failure.revert.args.length > 0) {
+      console.log(`   Error: ${report.failure.revert.name}, args: ${report.failure.revert.args.map(String).join(", ")}`);
+    }
+  }
+
+  if (report.checks.length > 0) {
+    console.log("\n🔍 Post-deploy validation:");
+    for (const check of report.checks) {
+      console.log(`${check.ok ? "✅" : "❌"} ${check.description}${check.detail ? ` (${check.detail})` : ""}`);
+    }
+  }
+
+  console.log("\n🧬 Bytecode compatibility:");
+  if (report.warnings.length === 0) {
+    console.log(`✅ Every contract fits the size limit and the ${networkProfile(target.networkName).evmVersion} EVM`);
+  }
+  for (const warning of report.warnings) {
+    console.log(`${warning.severity === "error" ? "❌" : "⚠️ "} ${warning.contract}: ${warning.message}`);
+  }
+
+  const cost = report.gasUsed * gasPrice;
+  const sent = report.results.filter((result) => result.status !== "skipped").length;
+  console.log("\n📊 Rehearsal summary");
+  console.log(`   Steps sent: ${sent} of ${TUUKEEP_PLAN.length}${report.failure ? " (stopped at the failed step)" : ""}`);
+  console.log(`   Gas used: ${report.gasUsed.toLocaleString()}`);
+  console.log(`   Cost at ${formatEther(gasPrice, "gwei")} gwei: ${formatEther(cost)} ${currency}`);
+  console.log(`   Deployer balance: ${formatEther(balance)} ${currency}${balance < cost ? " ⚠️  insufficient" : ""}`);
+
+  const failedChecks = report.checks.filter((check) => !check.ok).length;
+  const bytecodeErrors = report.warnings.filter((warning) => warning.severity === "error").length;
+  if (report.failure || failedChecks > 0 || bytecodeErrors > 0 || balance < cost) {
+    console.error("\n❌ The deployment would not go through as planned; fix the issues above before deploying.");
+    process.exitCode = 1;
+    return;
+  }
+  console.log(`\n✅ Rehearsal passed. Deploy with: npx hardhat deploy-tuukeep --network ${target.networkName}`);
+}
@@ -0,0 +1,18 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { runIncidentTask } from "./pause-tuukeep";
+
+interface ResumeTuuKeepArguments {
+  dryRun: boolean;
+  partial: boolean;
+}
+
+/**
+ * `npx hardhat resume-tuukeep --network <name> [--dry-run] [--partial]`
+ *
+ * Undoes `pause-tuukeep`: unpauses every paused contract in the manifest, in
+ * the reverse order, after the same role checks and simulation. TuuCoin's
+ * selective pauses are left as they are.
+ */
+export default async function resumeTuuKeep(args: ResumeTuuKeepArguments, hre: HardhatRuntimeEnvironment) {
+  await runIncidentTask("resume", args, hre);
+}
@@ -0,0 +1,34 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { connectSaleAdmin } from "../lib/tier-sale-admin";
+
+interface SetSalePhaseArguments {
+  phase: string;
+  activate: boolean;
+  deactivate: boolean;
+}
+
+/**
+ * `npx hardhat set-sale-phase --network <name> --phase <id> (--activate | --deactivate)`
+ *
+ * Opens or closes a tier sale phase with `activatePhase` / `deactivatePhase`.
+ */
+export default async function setSalePhase(args: SetSalePhaseArguments, hre: HardhatRuntimeEnvironment) {
+  if (!/^\d+$/.test(args.phase)) {
+    throw new Error(`--phase must be a phase ID, got "${args.phase}"`);
+  }
+  if (args.activate === args.deactivate) {
+    throw new Error("Pass exactly one of --activate and --deactivate");
+  }
+  const phaseId = BigInt(args.phase);
+  const { client, networkName } = await connectSaleAdmin(hre);
+
+  const { phase } = await client.getPhase(phaseId);
+  if (phase.isActive === args.activate) {
+    console.log(`⏭️  Phase #${phaseId} "${phase.name}" on ${networkName} is already ${args.activate ? "active" : "inactive"}`);
+    return;
+  }
+
+  const hash = args.activate ? await client.activatePhase(phaseId) : await client.deactivatePhase(phaseId);
+  await client.waitForReceipt(hash);
+  console.log(`✅ Phase #${phaseId} "${phase.name}" ${args.activate ? "activated" : "deactivated"} (${hash})`);
+}
@@ -0,0 +1,66 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { explorerUrl, getTuuKeepChain } from "../sdk/chains";
+import type { VerificationStatus } from "../sdk/manifest";
+import { verifyManifestContracts } from "../lib/contract-verification";
+import { fileManifestStore, requireManifest } from "../lib/deployment-manifest";
+
+interface VerifyTuuKeepArguments {
+  contracts: string;
+  apiUrl: string;
+  force: boolean;
+}
+
+const STATUS_ICONS: Record<VerificationStatus, string> = {
+  verified: "✅",
+  pending: "⏳",
+  failed: "❌",
+};
+
+/**
+ * `npx hardhat verify-tuukeep --network <name> [--contracts A,B] [--force]`
+ *
+ * Verifies the contracts in the network's deployment manifest on its block
+ * explorer and records the result in the manifest. Contracts already
+ * recorded as verified are skipped unless `--force` is given; pending ones
+ * resume polling. The API key is read from `KUBSCAN_API_KEY`.
+ */
+export default async function verifyTuuKeep(args: VerifyTuuKeepArguments, hre: HardhatRuntimeEnvironment) {
+  const connection = await hre.network.connect();
+  const chainId = await (await connection.viem.getPublicClient()).getChainId();
+  const chain = getTuuKeepChain(chainId);
+  const apiUrl = args.apiUrl || chain?.blockExplorers?.default.apiUrl;
+  if (!apiUrl) {
+    throw new Error(`No explorer API known for chain ${chainId}; pass --api-url`);
+  }
+
+  requireManifest(chainId);
+  const names = args.contracts ? args.contracts.split(",").map((name) => name.trim()) : undefined;
+
+  console.log(`🔍 Verifying ${names ? names.join(", ") : "every manifest contract"} on ${connection.networkName} via ${apiUrl}`);
+
+  const results = await verifyManifestContracts({
+    api: { url: apiUrl, apiKey: process.env.KUBSCAN_API_KEY ?? "" },
+    artifacts: hre.artifacts,
+    store: fileManifestStore(chainId),
+    names,
+    force: args.force,
+    onUpdate: (name, verification) => {
+      console.log(`${STATUS_ICONS[verification.status]} ${name}: ${verification.message ?? verification.status}`);
+    },
+  });
+
+  const manifest = requireManifest(chainId);
+  console.log("\n📊 Verification summary");
+  for (const [name, verification] of Object.entries(results)) {
+    const link = chain && explorerUrl(chain, { address: manifest.contracts[name].address });
+    const details = verification.status === "verified" ? (link ? ` ${link}` : "") : ` (${verification.status})`;
+    console.log(`${STATUS_ICONS[verification.status]} ${name}${details}`);
+  }
+  console.log(`📁 Recorded in deployments/manifest/${chainId}.json`);
+
+  const unverified = Object.values(results).filter((verification) => verification.status !== "verified").length;
+  if (unverified > 0) {
+    console.log(`\n⚠️  ${unverified} contract(s) not verified yet; run the command again to resume`);
+    process.exitCode = 1;
+  }
+}
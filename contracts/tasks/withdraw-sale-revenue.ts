@@ -0,0 +1,31 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { formatEther, getAddress, isAddress, parseEther } from "viem";
+import { connectSaleAdmin } from "../lib/tier-sale-admin";
+
+interface WithdrawSaleRevenueArguments {
+  to: string;
+  amount: string;
+}
+
+/**
+ * `npx hardhat withdraw-sale-revenue --network <name> --to <address> [--amount <ether>]`
+ *
+ * Sends tier sale proceeds held by the contract to `--to`, all of them unless
+ * `--amount` is given.
+ */
+export default async function withdrawSaleRevenue(args: WithdrawSaleRevenueArguments, hre: HardhatRuntimeEnvironment) {
+  if (!isAddress(args.to)) {
+    throw new Error(`--to must be an address, got "${args.to}"`);
+  }
+  const { client, networkName, currency } = await connectSaleAdmin(hre);
+
+  const balance = await client.getTierSaleBalance();
+  const amount = args.amount ? parseEther(args.amount) : balance;
+  if (amount === 0n || amount > balance) {
+    throw new Error(`Can withdraw up to ${formatEther(balance)} ${currency}, got ${formatEther(amount)}`);
+  }
+
+  const hash = await client.withdrawSaleRevenue(getAddress(args.to), amount);
+  await client.waitForReceipt(hash);
+  console.log(`✅ Withdrew ${formatEther(amount)} ${currency} of sale revenue on ${networkName} to ${args.to} (${hash})`);
+}
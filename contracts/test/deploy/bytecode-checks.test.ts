@@ -0,0 +1,73 @@
+import { expect } from "chai";
+import { describe, it } from "node:test";
+import {
+  checkBytecode,
+  estimateDeploymentGas,
+  formatLintReport,
+  lintArtifacts,
+  MAX_CONTRACT_SIZE,
+  networkProfile,
+  readArtifacts,
+} from "../../lib/bytecode-checks";
+
+const KUB = networkProfile("kubMainnet");
+const code = (hex: string) => ({ contractName: "Example", bytecode: hex, deployedBytecode: hex });
+
+describe("Bytecode checks", function () {
+  it("Should flag post-London opcodes only where they execute", function () {
+    // PUSH1 0x5f pushes the byte as data, PUSH0 executes it
+    expect(checkBytecode(code("0x605f00"), KUB)).to.deep.equal([]);
+    expect(checkBytecode(code("0x5f00"), KUB)).to.deep.equal([
+      {
+        contract: "Example",
+        kind: "opcode",
+        severity: "error",
+        message: "deployed bytecode uses opcodes the london EVM does not support: PUSH0 at byte 0",
+      },
+    ]);
+
+    // After STOP the PUSH0 byte is data, until a JUMPDEST makes code reachable again
+    const [afterJumpdest] = checkBytecode(code("0x005f5b5f00"), KUB);
+    expect(afterJumpdest.message).to.match(/PUSH0 at byte 3$/);
+  });
+
+  it("Should check the constructor apart from the embedded runtime code", function () {
+    // MCOPY STOP PUSH1 0x0a, then the runtime code JUMPDEST MCOPY STOP
+    const warnings = checkBytecode({ contractName: "Example", bytecode: "0x5e00600a5b5e00", deployedBytecode: "0x5b5e00" }, KUB);
+
+    expect(warnings.map((warning) => warning.message)).to.deep.equal([
+      "deployed bytecode uses opcodes the london EVM does not support: MCOPY at byte 1",
+      "constructor uses opcodes the london EVM does not support: MCOPY at byte 0",
+    ]);
+    expect(checkBytecode(code("0x5e5f00"), networkProfile("sepolia"))).to.deep.equal([]);
+  });
+
+  it("Should flag contracts near and over the size limit", function () {
+    const [nearLimit] = checkBytecode(code(`0x${"00".repeat(MAX_CONTRACT_SIZE - 100)}`), KUB);
+    expect(nearLimit).to.include({ kind: "size", severity: "warning" });
+    expect(checkBytecode(code(`0x${"00".repeat(MAX_CONTRACT_SIZE - 100)}`), KUB, { marginPercent: 0 })).to.deep.equal([]);
+
+    const [overLimit] = checkBytecode(code(`0x${"00".repeat(MAX_CONTRACT_SIZE + 1)}`), KUB);
+    expect(overLimit).to.include({ kind: "size", severity: "error" });
+  });
+
+  it("Should estimate deployment gas before constructor execution", function () {
+    const contract = { bytecode: "0x0001", deployedBytecode: "0x01" };
+
+    // 21,000 + 32,000 base, 4 + 16 calldata, 200 code deposit
+    expect(estimateDeploymentGas(contract, "london")).to.equal(53_220n);
+    // plus 2 gas per init code word from Shanghai
+    expect(estimateDeploymentGas(contract, "shanghai")).to.equal(53_222n);
+  });
+
+  it("Should pass every compiled contract for KUB", function () {
+    const report = lintArtifacts(readArtifacts(), KUB);
+
+    expect(report.contracts.map(({ contract }) => contract)).to.include.members([
+      "TuuKeepCabinet",
+      "TuuKeepMarketplace",
+      "TuuKeepTierSale",
+    ]);
+    expect(report.errors, formatLintReport(report)).to.deep.equal([]);
+  });
+});
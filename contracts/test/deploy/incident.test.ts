@@ -0,0 +1,105 @@
+import { expect } from "chai";
+import { describe, it, beforeEach } from "node:test";
+import { artifacts, network } from "hardhat";
+import type { HardhatViemHelpers } from "@nomicfoundation/hardhat-viem/types";
+import type { Address, PublicClient, WalletClient } from "viem";
+import { createEmptyManifest, type DeploymentManifest } from "../../sdk/manifest";
+import { TUUKEEP_PLAN } from "../../lib/deploy-plan";
+import { runDeployPlan } from "../../lib/deploy-orchestrator";
+import { memoryManifestStore } from "../../lib/deployment-manifest";
+import { planIncident, readPauseStatus, runIncident, type IncidentAction } from "../../lib/incident";
+
+describe("Incident pause", function () {
+  let viem: HardhatViemHelpers;
+  let publicClient: PublicClient;
+  let manifest: DeploymentManifest;
+  let deployer: Address;
+  let outsider: Address;
+
+  beforeEach(async function () {
+    ({ viem } = await network.connect());
+    publicClient = (await viem.getPublicClient()) as unknown as PublicClient;
+    const [deployerWallet, treasury, outsiderWallet] = await viem.getWalletClients();
+    deployer = deployerWallet.account.address;
+    outsider = outsiderWallet.account.address;
+
+    const store = memoryManifestStore(createEmptyManifest(31337));
+    await runDeployPlan({
+      plan: TUUKEEP_PLAN,
+      params: {
+        deployer,
+        platformFeeRecipient: treasury.account.address,
+        platformTreasury: treasury.account.address,
+      },
+      viem,
+      artifacts,
+      store,
+    });
+    manifest = store.read();
+  });
+
+  const plan = (action: IncidentAction, account: Address = deployer) =>
+    planIncident({ publicClient, manifest, action, account, reason: "Drill" });
+
+  const run = async (action: IncidentAction) =>
+    runIncident({
+      publicClient,
+      walletClient: (await viem.getWalletClient(deployer)) as unknown as WalletClient,
+      plan: await plan(action),
+    });
+
+  const pausedContracts = async () =>
+    (await readPauseStatus(publicClient, manifest)).filter(({ paused }) => paused).map(({ contract }) => contract);
+
+  it("Should pause every deployed contract through its own function and role", async function () {
+    const pausePlan = await plan("pause");
+
+    expect(pausePlan.blocked).to.deep.equal([]);
+    const calls = pausePlan.steps.map(({ contract, functionName, target, status }) => [contract, functionName, target.role, status]);
+    expect(calls).to.deep.equal([
+      ["TuuKeepCabinet", "pause", "EMERGENCY_RESPONDER_ROLE", "ready"],
+      ["TuuKeepMarketplace", "pauseMarketplace", "MARKETPLACE_ADMIN_ROLE", "ready"],
+      ["TuuCoin", "emergencyPause", "EMERGENCY_RESPONDER_ROLE", "ready"],
+    ]);
+    expect(pausePlan.notDeployed).to.include.members(["TuuKeepMarketplaceFees", "TuuKeepTierSale"]);
+
+    const steps = await run("pause");
+    expect(steps.map(({ status }) => status)).to.deep.equal(["done", "done", "done"]);
+    expect(await pausedContracts()).to.deep.equal(["TuuKeepCabinet", "TuuKeepMarketplace", "TuuCoin"]);
+
+    const tuuCoin = await viem.getContractAt("TuuCoin", manifest.contracts.TuuCoin.address);
+    expect(await tuuCoin.read.pauseReasons([deployer])).to.equal("Drill");
+
+    // Pausing again has nothing left to do instead of reverting with EnforcedPause
+    expect((await plan("pause")).steps.every(({ status }) => status === "skipped")).to.be.true;
+  });
+
+  it("Should resume in reverse order and leave TuuCoin's selective pauses alone", async function () {
+    const tuuCoin = await viem.getContractAt("TuuCoin", manifest.contracts.TuuCoin.address);
+    await tuuCoin.write.selectivePause([true, false, false, "Minting bug"]);
+    await run("pause");
+
+    const steps = await run("resume");
+    expect(steps.map(({ contract, status }) => [contract, status])).to.deep.equal([
+      ["TuuCoin", "done"],
+      ["TuuKeepMarketplace", "done"],
+      ["TuuKeepCabinet", "done"],
+    ]);
+    expect(await pausedContracts()).to.deep.equal([]);
+
+    const tuuCoinStatus = (await readPauseStatus(publicClient, manifest)).find(({ contract }) => contract === "TuuCoin");
+    expect(tuuCoinStatus?.selective).to.deep.equal({ minting: true, burning: false, transfers: false });
+  });
+
+  it("Should block every call the account lacks the role for", async function () {
+    const pausePlan = await plan("pause", outsider);
+
+    expect(pausePlan.blocked.map(({ contract, hasRole }) => [contract, hasRole])).to.deep.equal([
+      ["TuuKeepCabinet", false],
+      ["TuuKeepMarketplace", false],
+      ["TuuCoin", false],
+    ]);
+    expect(pausePlan.blocked[0].error).to.equal(`${outsider} does not hold EMERGENCY_RESPONDER_ROLE`);
+    expect(await pausedContracts()).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,96 @@
+import { expect } from "chai";
+import { describe, it, beforeEach } from "node:test";
+import { artifacts, network } from "hardhat";
+import type { HardhatViemHelpers } from "@nomicfoundation/hardhat-viem/types";
+import type { Address } from "viem";
+import { createEmptyManifest } from "../../sdk/manifest";
+import { TUUKEEP_PLAN, contractRef, validatePlan, type DeployParams, type DeployStep } from "../../lib/deploy-plan";
+import { DeployStepError, runDeployPlan } from "../../lib/deploy-orchestrator";
+import { memoryManifestStore, type ManifestStore } from "../../lib/deployment-manifest";
+
+describe("Deploy orchestrator", function () {
+  let viem: HardhatViemHelpers;
+  let params: DeployParams;
+  let store: ManifestStore;
+
+  beforeEach(async function () {
+    ({ viem } = await network.connect());
+    const [deployer, feeRecipient] = await viem.getWalletClients();
+
+    params = {
+      deployer: deployer.account.address,
+      platformFeeRecipient: feeRecipient.account.address,
+      platformTreasury: feeRecipient.account.address,
+    };
+    store = memoryManifestStore(createEmptyManifest(31337));
+  });
+
+  it("Should deploy and wire the full plan", async function () {
+    const results = await runDeployPlan({ plan: TUUKEEP_PLAN, params, viem, artifacts, store });
+
+    expect(results.map((result) => result.status)).to.not.include("skipped");
+
+    const manifest = store.read();
+    expect(Object.keys(manifest.contracts)).to.have.members([
+      "TuuKeepAccessControl",
+      "Randomness",
+      "TuuCoin",
+      "SVGGenerator",
+      "TuuKeepCabinet",
+      "TuuKeepMarketplace",
+    ]);
+    expect(manifest.contracts.TuuKeepCabinet.libraries.SVGGenerator).to.equal(manifest.contracts.SVGGenerator.address);
+    expect(manifest.roleGrants).to.have.length(3);
+
+    const tuuCoin = await viem.getContractAt("TuuCoin", manifest.contracts.TuuCoin.address);
+    const cabinet = manifest.contracts.TuuKeepCabinet.address;
+    expect(await tuuCoin.read.hasRole([await tuuCoin.read.MINTER_ROLE(), cabinet])).to.be.true;
+  });
+
+  it("Should resume after a failed step without redeploying finished ones", async function () {
+    const brokenPlan: DeployStep[] = [
+      ...TUUKEEP_PLAN.slice(0, 3),
+      { kind: "deploy", name: "Broken", artifact: "NoSuchContract" },
+    ];
+
+    try {
+      await runDeployPlan({ plan: brokenPlan, params, viem, artifacts, store });
+      expect.fail("a missing artifact should fail the run");
+    } catch (error) {
+      expect(error).to.be.instanceOf(DeployStepError);
+      expect((error as DeployStepError).completed).to.have.length(3);
+    }
+
+    const partial = store.read();
+    const accessControl: Address = partial.contracts.TuuKeepAccessControl.address;
+    expect(partial.contracts.Broken).to.be.undefined;
+
+    const results = await runDeployPlan({ plan: TUUKEEP_PLAN, params, viem, artifacts, store });
+
+    expect(results.slice(0, 3).map((result) => result.status)).to.deep.equal(["skipped", "skipped", "skipped"]);
+    expect(store.read().contracts.TuuKeepAccessControl.address).to.equal(accessControl);
+    expect(store.read().contracts.TuuKeepMarketplace).to.not.be.undefined;
+  });
+
+  it("Should skip and backfill grants that already hold on chain", async function () {
+    await runDeployPlan({ plan: TUUKEEP_PLAN, params, viem, artifacts, store });
+    const manifest = store.read();
+    manifest.roleGrants = [];
+    store.write(manifest);
+
+    const results = await runDeployPlan({ plan: TUUKEEP_PLAN, params, viem, artifacts, store });
+
+    expect(results.every((result) => result.status === "skipped")).to.be.true;
+    expect(store.read().roleGrants).to.have.length(3);
+    expect(store.read().roleGrants.every((grant) => grant.transactionHash === null)).to.be.true;
+  });
+
+  it("Should reject steps that depend on later deployments", function () {
+    const plan: DeployStep[] = [
+      { kind: "deploy", name: "TuuCoin", args: [contractRef("TuuKeepAccessControl"), params.deployer] },
+      { kind: "deploy", name: "TuuKeepAccessControl" },
+    ];
+
+    expect(() => validatePlan(plan)).to.throw("not deployed earlier in the plan");
+  });
+});
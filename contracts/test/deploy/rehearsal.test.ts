@@ -0,0 +1,80 @@
+import { expect } from "chai";
+import { describe, it, beforeEach } from "node:test";
+import { artifacts, network } from "hardhat";
+import type { HardhatViemHelpers } from "@nomicfoundation/hardhat-viem/types";
+import { getAddress, zeroAddress, zeroHash } from "viem";
+import { createEmptyManifest } from "../../sdk/manifest";
+import { TUUKEEP_PLAN, contractRef, paramRef, type DeployParams, type DeployStep } from "../../lib/deploy-plan";
+import { rehearseDeployment } from "../../lib/deploy-rehearsal";
+import { networkProfile } from "../../lib/bytecode-checks";
+import { memoryManifestStore } from "../../lib/deployment-manifest";
+
+describe("Deployment rehearsal", function () {
+  let viem: HardhatViemHelpers;
+  let params: DeployParams;
+
+  beforeEach(async function () {
+    ({ viem } = await network.connect());
+    const [deployer, treasury] = await viem.getWalletClients();
+
+    params = {
+      deployer: deployer.account.address,
+      platformFeeRecipient: treasury.account.address,
+      platformTreasury: treasury.account.address,
+    };
+  });
+
+  const rehearse = (plan: readonly DeployStep[]) =>
+    rehearseDeployment({
+      plan,
+      params,
+      viem,
+      artifacts,
+      store: memoryManifestStore(createEmptyManifest(31337)),
+      profile: networkProfile("kubMainnet"),
+    });
+
+  it("Should deploy, wire and validate the full plan", async function () {
+    const report = await rehearse(TUUKEEP_PLAN);
+
+    expect(report.failure).to.be.undefined;
+    expect(report.results).to.have.length(TUUKEEP_PLAN.length);
+    expect(report.gasUsed > 0n).to.be.true;
+    expect(report.checks.filter((check) => !check.ok)).to.deep.equal([]);
+    expect(report.checks.map((check) => check.section)).to.include.members([
+      "deployment",
+      "access control",
+      "dependencies",
+      "functionality",
+    ]);
+    // The compiler targets London, so nothing should block a KUB deployment
+    expect(report.warnings.filter((warning) => warning.severity === "error")).to.deep.equal([]);
+  });
+
+  it("Should decode the custom error of a reverted grant", async function () {
+    // TuuCoin's admin is the treasury, so the deployer cannot grant its roles
+    const plan: DeployStep[] = [
+      { kind: "deploy", name: "TuuKeepAccessControl" },
+      { kind: "deploy", name: "TuuCoin", args: [contractRef("TuuKeepAccessControl"), paramRef("platformTreasury")] },
+      { kind: "grantRole", contract: "TuuCoin", role: "MINTER_ROLE", account: paramRef("deployer") },
+    ];
+
+    const report = await rehearse(plan);
+
+    expect(report.results.map((result) => result.status)).to.deep.equal(["deployed", "deployed"]);
+    expect(report.failure?.step).to.equal(`grant TuuCoin.MINTER_ROLE -> $deployer`);
+    expect(report.failure?.revert?.name).to.equal("AccessControlUnauthorizedAccount");
+    expect(report.failure?.revert?.args).to.deep.equal([getAddress(params.deployer), zeroHash]);
+    expect(report.checks).to.deep.equal([]);
+  });
+
+  it("Should decode a require string from a reverted constructor", async function () {
+    const plan: DeployStep[] = [{ kind: "deploy", name: "TuuCoin", args: [zeroAddress, paramRef("deployer")] }];
+
+    const report = await rehearse(plan);
+
+    expect(report.failure?.step).to.equal("deploy TuuCoin");
+    expect(report.failure?.revert).to.deep.include({ name: "Error", message: "TuuCoin: invalid access control address" });
+    expect(report.gasUsed).to.equal(0n);
+  });
+});
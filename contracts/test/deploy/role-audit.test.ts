@@ -0,0 +1,132 @@
+import { expect } from "chai";
+import { describe, it, beforeEach } from "node:test";
+import { artifacts, network } from "hardhat";
+import type { HardhatViemHelpers } from "@nomicfoundation/hardhat-viem/types";
+import { getAddress, type Address, type PublicClient } from "viem";
+import { createEmptyManifest, type DeploymentManifest } from "../../sdk/manifest";
+import { TUUKEEP_PLAN } from "../../lib/deploy-plan";
+import { runDeployPlan } from "../../lib/deploy-orchestrator";
+import { memoryManifestStore } from "../../lib/deployment-manifest";
+import { auditRoles, readRolePolicy, type RoleAuditReport, type RolePolicy } from "../../lib/role-audit";
+
+const summarize = (report: RoleAuditReport, severity: "error" | "warning") =>
+  report.findings
+    .filter((finding) => finding.severity === severity)
+    .map(({ kind, contract, role, account }) => ({ kind, contract, role, account }));
+
+describe("Role audit", function () {
+  let viem: HardhatViemHelpers;
+  let manifest: DeploymentManifest;
+  let deployer: Address;
+  let outsider: Address;
+
+  beforeEach(async function () {
+    ({ viem } = await network.connect());
+    const [deployerWallet, treasury, outsiderWallet] = await viem.getWalletClients();
+    // Wallet addresses are lowercase; the audit reports checksummed ones
+    deployer = getAddress(deployerWallet.account.address);
+    outsider = getAddress(outsiderWallet.account.address);
+
+    const store = memoryManifestStore(createEmptyManifest(31337));
+    await runDeployPlan({
+      plan: TUUKEEP_PLAN,
+      params: {
+        deployer,
+        platformFeeRecipient: treasury.account.address,
+        platformTreasury: treasury.account.address,
+      },
+      viem,
+      artifacts,
+      store,
+    });
+    manifest = store.read();
+  });
+
+  const audit = async (policy: RolePolicy = readRolePolicy()) =>
+    auditRoles({
+      publicClient: (await viem.getPublicClient()) as unknown as PublicClient,
+      manifest,
+      policy,
+    });
+
+  it("Should match the committed policy after a fresh deployment", async function () {
+    const report = await audit();
+
+    expect(summarize(report, "error")).to.deep.equal([]);
+    const minters = report.contracts
+      .find(({ contract }) => contract === "TuuCoin")
+      ?.roles.find(({ name }) => name === "MINTER_ROLE");
+    expect(minters?.admin).to.equal("DEFAULT_ADMIN_ROLE");
+    expect(minters?.holders.map(({ account, label }) => ({ account, label }))).to.deep.equal([
+      { account: deployer, label: "$deployer" },
+      { account: manifest.contracts.TuuKeepCabinet.address, label: "TuuKeepCabinet" },
+    ]);
+
+    // The deployer is an EOA, so every admin role it keeps is flagged
+    const warnings = summarize(report, "warning");
+    expect(warnings.every(({ kind, account }) => kind === "eoa admin" && account === deployer)).to.be.true;
+    expect(warnings).to.deep.include({
+      kind: "eoa admin",
+      contract: "TuuKeepAccessControl",
+      role: "PLATFORM_ADMIN_ROLE",
+      account: deployer,
+    });
+  });
+
+  it("Should flag holders the policy does not list and listed holders that are gone", async function () {
+    const tuuCoin = await viem.getContractAt("TuuCoin", manifest.contracts.TuuCoin.address);
+    const randomness = await viem.getContractAt("Randomness", manifest.contracts.Randomness.address);
+    const cabinet = manifest.contracts.TuuKeepCabinet.address;
+
+    await tuuCoin.write.grantRole([await tuuCoin.read.MINTER_ROLE(), outsider]);
+    await randomness.write.removeConsumer([cabinet]);
+
+    const report = await audit();
+
+    expect(summarize(report, "error")).to.deep.equal([
+      { kind: "missing holder", contract: "Randomness", role: "CONSUMER_ROLE", account: cabinet },
+      { kind: "unexpected holder", contract: "TuuCoin", role: "MINTER_ROLE", account: outsider },
+    ]);
+  });
+
+  it("Should warn about expiring grants and drop them once expired", async function () {
+    const accessControl = await viem.getContractAt("TuuKeepAccessControl", manifest.contracts.TuuKeepAccessControl.address);
+    await accessControl.write.grantRoleWithExpiry([await accessControl.read.CABINET_MANAGER_ROLE(), outsider, 3600n]);
+
+    const policy = readRolePolicy();
+    policy.contracts.TuuKeepAccessControl.CABINET_MANAGER_ROLE = [outsider];
+
+    const expiring = await audit(policy);
+    expect(summarize(expiring, "error")).to.deep.equal([]);
+    const [warning] = expiring.findings.filter(({ kind }) => kind === "expiring");
+    expect(warning).to.include({ contract: "TuuKeepAccessControl", role: "CABINET_MANAGER_ROLE", account: outsider });
+    expect(warning.message).to.match(/expires in 1h/);
+
+    const testClient = await viem.getTestClient();
+    await testClient.increaseTime({ seconds: 3601 });
+    await testClient.mine({ blocks: 1 });
+
+    const expired = await audit(policy);
+    expect(summarize(expired, "error")).to.deep.equal([
+      { kind: "missing holder", contract: "TuuKeepAccessControl", role: "CABINET_MANAGER_ROLE", account: outsider },
+    ]);
+    expect(summarize(expired, "warning")).to.deep.include({
+      kind: "expired",
+      contract: "TuuKeepAccessControl",
+      role: "CABINET_MANAGER_ROLE",
+      account: outsider,
+    });
+  });
+
+  it("Should reject policies naming roles a contract does not have", async function () {
+    const policy = readRolePolicy();
+    policy.contracts.TuuCoin.NO_SUCH_ROLE = [];
+
+    try {
+      await audit(policy);
+      expect.fail("an unknown role should be rejected");
+    } catch (error) {
+      expect((error as Error).message).to.equal("Role policy: TuuCoin has no NO_SUCH_ROLE");
+    }
+  });
+});
@@ -0,0 +1,191 @@
+import { expect } from "chai";
+import { describe, it, before, beforeEach, afterEach } from "node:test";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { artifacts, network } from "hardhat";
+import { encodeAbiParameters, type Address } from "viem";
+import { createEmptyManifest } from "../../sdk/manifest";
+import { TUUKEEP_PLAN, type DeployParams } from "../../lib/deploy-plan";
+import { runDeployPlan } from "../../lib/deploy-orchestrator";
+import { memoryManifestStore, type ManifestStore } from "../../lib/deployment-manifest";
+import { verifyManifestContracts, type VerifyContractsOptions } from "../../lib/contract-verification";
+
+interface MockExplorer {
+  url: string;
+  /** `action` of every request, in order */
+  requests: string[];
+  submissions: URLSearchParams[];
+  close(): Promise<void>;
+}
+
+/**
+ * Etherscan-compatible explorer API that verifies every submission after
+ * `pendingPolls` status checks, or rejects it when `reject` returns a reason.
+ */
+async function startMockExplorer({
+  pendingPolls = 1,
+  reject = () => undefined,
+}: { pendingPolls?: number; reject?: (submission: URLSearchParams) => string | undefined } = {}): Promise<MockExplorer> {
+  const verified = new Set<string>();
+  const jobs = new Map<string, { address: string; polls: number }>();
+  const requests: string[] = [];
+  const submissions: URLSearchParams[] = [];
+
+  const server = http.createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      const params = request.method === "POST" ? new URLSearchParams(body) : new URL(request.url ?? "", "http://explorer").searchParams;
+      const action = params.get("action") ?? "";
+      requests.push(action);
+      const reply = (status: string, result: unknown) =>
+        response.writeHead(200, { "content-type": "application/json" }).end(JSON.stringify({ status, message: status === "1" ? "OK" : "NOTOK", result }));
+
+      if (action === "getsourcecode") {
+        const address = params.get("address")?.toLowerCase() ?? "";
+        return reply("1", [{ SourceCode: verified.has(address) ? "{...}" : "" }]);
+      }
+      if (action === "verifysourcecode") {
+        submissions.push(params);
+        const address = params.get("contractaddress")?.toLowerCase() ?? "";
+        if (verified.has(address)) return reply("0", "Contract source code already verified");
+        const reason = reject(params);
+        if (reason) return reply("0", reason);
+        const guid = `guid-${submissions.length}`;
+        jobs.set(guid, { address, polls: pendingPolls });
+        return reply("1", guid);
+      }
+      if (action === "checkverifystatus") {
+        const job = jobs.get(params.get("guid") ?? "");
+        if (!job) return reply("0", "Unknown UID");
+        if (job.polls > 0) {
+          job.polls--;
+          return reply("0", "Pending in queue");
+        }
+        verified.add(job.address);
+        return reply("1", "Pass - Verified");
+      }
+      response.writeHead(404).end();
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/api`,
+    requests,
+    submissions,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+describe("Contract verification", function () {
+  let params: DeployParams;
+  let deployed: ManifestStore;
+  let store: ManifestStore;
+  let explorer: MockExplorer | undefined;
+
+  before(async function () {
+    const { viem } = await network.connect();
+    const [deployer, feeRecipient] = await viem.getWalletClients();
+    params = {
+      deployer: deployer.account.address,
+      platformFeeRecipient: feeRecipient.account.address,
+      platformTreasury: feeRecipient.account.address,
+    };
+    deployed = memoryManifestStore(createEmptyManifest(31337));
+    await runDeployPlan({ plan: TUUKEEP_PLAN, params, viem, artifacts, store: deployed });
+  });
+
+  beforeEach(function () {
+    store = memoryManifestStore(deployed.read());
+  });
+
+  afterEach(async function () {
+    await explorer?.close();
+    explorer = undefined;
+  });
+
+  const verify = (mock: MockExplorer, options: Partial<VerifyContractsOptions> = {}) =>
+    verifyManifestContracts({
+      api: { url: mock.url, apiKey: "test-key" },
+      artifacts,
+      store,
+      pollIntervalMs: 1,
+      ...options,
+    });
+
+  it("Should submit standard JSON input with constructor arguments and libraries", async function () {
+    explorer = await startMockExplorer();
+    const results = await verify(explorer, { names: ["TuuCoin", "TuuKeepCabinet"] });
+
+    expect(results.TuuCoin).to.include({ status: "verified", guid: "guid-1", message: "Pass - Verified" });
+    expect(results.TuuKeepCabinet).to.include({ status: "verified", guid: "guid-2" });
+    expect(store.read().contracts.TuuCoin.verification?.status).to.equal("verified");
+    expect(store.read().contracts.Randomness.verification).to.be.undefined;
+
+    const [coin, cabinet] = explorer.submissions;
+    const { contracts } = store.read();
+    expect(coin.get("codeformat")).to.equal("solidity-standard-json-input");
+    expect(coin.get("contractaddress")).to.equal(contracts.TuuCoin.address);
+    expect(coin.get("contractname")).to.match(/contracts\/TuuCoin\.sol:TuuCoin$/);
+    expect(coin.get("compilerversion")).to.match(/^v0\.8\.28\+commit\.[0-9a-f]+$/);
+    expect(coin.get("apikey")).to.equal("test-key");
+    expect(`0x${coin.get("constructorArguements")}`).to.equal(
+      encodeAbiParameters(
+        [{ type: "address" }, { type: "address" }],
+        [contracts.TuuKeepAccessControl.address, params.deployer],
+      ),
+    );
+
+    const input = JSON.parse(cabinet.get("sourceCode") ?? "{}") as {
+      language: string;
+      sources: Record<string, unknown>;
+      settings: { libraries: Record<string, Record<string, Address>> };
+    };
+    expect(input.language).to.equal("Solidity");
+    expect(Object.keys(input.sources).some((source) => source.endsWith("contracts/TuuKeepCabinet.sol"))).to.be.true;
+    expect(Object.values(input.settings.libraries)).to.deep.include({ SVGGenerator: contracts.SVGGenerator.address });
+  });
+
+  it("Should resume pending verifications and skip verified contracts", async function () {
+    explorer = await startMockExplorer({ pendingPolls: 3 });
+
+    const first = await verify(explorer, { names: ["Randomness"], timeoutMs: 0 });
+    expect(first.Randomness).to.include({ status: "pending", guid: "guid-1" });
+    expect(store.read().contracts.Randomness.verification?.status).to.equal("pending");
+
+    // Polls the recorded submission instead of submitting again
+    const second = await verify(explorer, { names: ["Randomness"] });
+    expect(second.Randomness).to.include({ status: "verified", guid: "guid-1" });
+    expect(explorer.submissions).to.have.length(1);
+
+    const before = explorer.requests.length;
+    await verify(explorer, { names: ["Randomness"] });
+    expect(explorer.requests).to.have.length(before);
+  });
+
+  it("Should record rejected submissions and carry on with the rest", async function () {
+    explorer = await startMockExplorer({
+      reject: (submission) => (submission.get("contractname")?.endsWith(":TuuCoin") ? "Fail - Unable to verify" : undefined),
+    });
+
+    const results = await verify(explorer, { names: ["TuuCoin", "TuuKeepAccessControl"] });
+
+    expect(results.TuuCoin).to.include({ status: "failed", message: "Fail - Unable to verify" });
+    expect(results.TuuKeepAccessControl.status).to.equal("verified");
+    expect(store.read().contracts.TuuCoin.verification?.status).to.equal("failed");
+  });
+
+  it("Should reject names missing from the manifest", async function () {
+    explorer = await startMockExplorer();
+
+    try {
+      await verify(explorer, { names: ["NoSuchContract"] });
+      expect.fail("an unknown contract should be rejected");
+    } catch (error) {
+      expect((error as Error).message).to.equal("Not in the manifest for chain 31337: NoSuchContract");
+    }
+    expect(explorer.requests).to.deep.equal([]);
+  });
+});
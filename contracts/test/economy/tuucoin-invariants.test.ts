@@ -0,0 +1,110 @@
+import { expect } from "chai";
+import { describe, it, beforeEach } from "node:test";
+import { parseEther } from "viem";
+import type { TuuKeepClient } from "../../sdk";
+import {
+  assertTuuCoinInvariants,
+  checkTuuCoinInvariants,
+  TuuCoinInvariantError,
+} from "../../lib/tuucoin-invariants";
+import {
+  deployTestEnvironment,
+  setupCabinetWithItems,
+  type TestEnvironment,
+} from "../integration/utils/deployment-helper";
+import { TEST_RANDOMNESS_SEED } from "../integration/fixtures/test-data";
+
+describe("TuuCoin invariants", function () {
+  let environment: TestEnvironment;
+  let playerClient: TuuKeepClient;
+  const cabinetId = 0n;
+
+  const check = () =>
+    checkTuuCoinInvariants({ publicClient: environment.publicClient, addresses: environment.addresses });
+
+  async function play(tuuCoinAmount = 0n) {
+    await playerClient.waitForReceipt(await playerClient.play({ cabinetId, tuuCoinAmount }));
+  }
+
+  beforeEach(async function () {
+    environment = await deployTestEnvironment({ randomnessSeed: TEST_RANDOMNESS_SEED });
+    const { client, wallets, accounts } = environment;
+
+    await client.waitForReceipt(await client.mintCabinet(accounts.CABINET_OWNER.address, "Economy Cabinet"));
+    await setupCabinetWithItems(environment, cabinetId, 5);
+    const ownerClient = client.withWallet(wallets.cabinetOwner);
+    await ownerClient.waitForReceipt(await ownerClient.activateCabinet(cabinetId));
+    playerClient = client.withWallet(wallets.player1);
+  });
+
+  it("Should hold across plays, rewards, burns and transfers", async function () {
+    const { contracts, accounts, client } = environment;
+    const admin = { account: accounts.PLATFORM_ADMIN.address, chain: undefined };
+    const player2 = { account: accounts.PLAYER_2.address, chain: undefined };
+
+    await play();
+    await play();
+
+    await client.waitForReceipt(await contracts.tuuCoin.write.mint([accounts.PLAYER_2.address, parseEther("5")], admin));
+    await client.waitForReceipt(
+      await contracts.tuuCoin.write.mintForGachaReward([accounts.PLAYER_2.address, parseEther("1"), cabinetId], admin),
+    );
+    await client.waitForReceipt(
+      await contracts.tuuCoin.write.burnForGachaPlay([accounts.PLAYER_2.address, parseEther("0.5"), cabinetId], admin),
+    );
+    await client.waitForReceipt(await contracts.tuuCoin.write.burnForOdds([parseEther("1")], player2));
+    await client.waitForReceipt(await contracts.tuuCoin.write.burnForOdds([parseEther("0.25")], player2));
+    await client.waitForReceipt(
+      await contracts.tuuCoin.write.transfer([accounts.PLAYER_3.address, parseEther("1")], player2),
+    );
+
+    const report = await assertTuuCoinInvariants({
+      publicClient: environment.publicClient,
+      addresses: environment.addresses,
+    });
+    expect(report.totalBurned).to.equal(parseEther("1.75"));
+    expect(report.untrackedBurns).to.equal(0n);
+    expect(report.burners).to.equal(1);
+    expect(report.cabinets).to.equal(1);
+    expect(report.accounts).to.equal(3);
+  });
+
+  it("Should flag boost burns that bypass burn accounting", async function () {
+    // The first play loses and mints 0.001 TUU, which the second play burns for odds
+    await play();
+    const boost = parseEther("0.001");
+    await playerClient.waitForReceipt(await playerClient.approveTuuCoin(boost));
+    await play(boost);
+
+    const report = await check();
+    expect(report.untrackedBurns).to.equal(boost);
+    expect(report.violations.map(({ invariant }) => invariant)).to.deep.equal(["supplyConservation"]);
+
+    try {
+      await assertTuuCoinInvariants({ publicClient: environment.publicClient, addresses: environment.addresses });
+      expect.fail("a violated invariant should throw");
+    } catch (error) {
+      expect(error).to.be.instanceOf(TuuCoinInvariantError);
+      expect((error as Error).message).to.contain("supplyConservation");
+    }
+  });
+
+  it("Should flag mints past an adjusted supply cap", async function () {
+    const { contracts, accounts, client } = environment;
+    const admin = { account: accounts.PLATFORM_ADMIN.address, chain: undefined };
+
+    await play();
+    const minted = await contracts.tuuCoin.read.totalMinted();
+    await client.waitForReceipt(await contracts.tuuCoin.write.setDynamicSupplyEnabled([true], admin));
+    await client.waitForReceipt(await contracts.tuuCoin.write.adjustMaxSupply([minted], admin));
+    expect((await check()).violations).to.deep.equal([]);
+
+    // `mint` only checks the fixed MAX_SUPPLY, so consolation mints can pass the adjusted cap
+    await play();
+    await play();
+
+    const report = await check();
+    expect(report.effectiveMaxSupply).to.equal(minted);
+    expect(report.violations.map(({ invariant }) => invariant)).to.include("supplyCap");
+  });
+});
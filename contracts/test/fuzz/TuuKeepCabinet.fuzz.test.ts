@@ -0,0 +1,58 @@
+import { describe, it, before } from "node:test";
+import fc from "fast-check";
+import {
+  deployTestEnvironment,
+  type TestEnvironment,
+} from "../integration/utils/deployment-helper";
+import {
+  cabinetCommands,
+  checkCabinetInvariants,
+  createCabinetModel,
+  fundCabinetOwner,
+  type CabinetSystem,
+} from "./cabinet-model";
+import { TEST_RANDOMNESS_SEED } from "../integration/fixtures/test-data";
+
+// Raise for a longer local run, e.g. FUZZ_RUNS=500 npx hardhat test nodejs test/fuzz/TuuKeepCabinet.fuzz.test.ts
+const RUNS = Number(process.env.FUZZ_RUNS ?? 25);
+
+describe("TuuKeepCabinet item lifecycle fuzz", function () {
+  let environment: TestEnvironment;
+  let system: CabinetSystem;
+  let snapshot: `0x${string}`;
+  const cabinetId = 0n;
+
+  before(async function () {
+    environment = await deployTestEnvironment({ randomnessSeed: TEST_RANDOMNESS_SEED });
+    const { client, wallets, accounts } = environment;
+
+    await client.waitForReceipt(await client.mintCabinet(accounts.CABINET_OWNER.address, "Fuzz Cabinet"));
+    const ownerClient = client.withWallet(wallets.cabinetOwner);
+    await ownerClient.waitForReceipt(await ownerClient.activateCabinet(cabinetId));
+    await fundCabinetOwner(environment, accounts.CABINET_OWNER.address);
+
+    system = {
+      environment,
+      cabinetId,
+      seed: TEST_RANDOMNESS_SEED,
+      ownerClient,
+      playerClient: client.withWallet(wallets.player1),
+    };
+    snapshot = await environment.testClient.snapshot();
+  });
+
+  it("Should keep items, escrow and revenue consistent across random operations", async function () {
+    await fc.assert(
+      fc.asyncProperty(fc.commands(cabinetCommands, { maxCommands: 30 }), async (commands) => {
+        // Every run starts from the same funded, empty cabinet; a snapshot can only be reverted to once
+        await environment.testClient.revert({ id: snapshot });
+        snapshot = await environment.testClient.snapshot();
+
+        const model = createCabinetModel();
+        await checkCabinetInvariants(model, system);
+        await fc.asyncModelRun(() => ({ model, real: system }), commands);
+      }),
+      { numRuns: RUNS },
+    );
+  });
+});
@@ -0,0 +1,283 @@
+import { expect } from "chai";
+import fc from "fast-check";
+import { getAddress, maxUint256, parseEther, type Address, type Hash } from "viem";
+import {
+  AssetType,
+  decodeTuuKeepRevert,
+  getSeededRandomNumber,
+  MAX_CABINET_ITEMS,
+  revertsOnPayout,
+  selectPrizeItem,
+  type GachaItem,
+  type TuuKeepClient,
+} from "../../sdk";
+import type { TestEnvironment } from "../integration/utils/deployment-helper";
+
+/**
+ * Stateful fuzz model of one cabinet's item lifecycle
+ * @dev Each command predicts its outcome on `CabinetModel`, sends the real
+ * transaction, expects the same success or revert, then checks the
+ * invariants below against the chain. Plays are predicted with the odds
+ * engine, so the cabinet must run on `MockRandomness` seeded with `seed`.
+ * Prizes are ERC20 only: the cabinet has no `onERC721Received`, so every
+ * ERC721 deposit reverts with `ERC721InvalidReceiver`.
+ */
+
+export type ModelItem = Pick<GachaItem, "assetType" | "contractAddress" | "tokenIdOrAmount" | "rarity" | "isActive">;
+
+export interface CabinetModel {
+  /** Mirrors `cabinetItems[cabinetId]`, in contract order */
+  items: ModelItem[];
+  /** The cabinet owner's ERC20 balance */
+  ownerTokens: bigint;
+  /** Mirrors the cabinet's private `_playRequestCounter` */
+  playRequests: bigint;
+  /** Native currency sent with successful plays */
+  totalPaid: bigint;
+}
+
+export interface CabinetSystem {
+  environment: TestEnvironment;
+  cabinetId: bigint;
+  seed: bigint;
+  ownerClient: TuuKeepClient;
+  playerClient: TuuKeepClient;
+}
+
+type CabinetCommand = fc.AsyncCommand<CabinetModel, CabinetSystem>;
+
+/** ERC20 prize sizes; more than fit in a cabinet, and a repeated size is a duplicate item */
+const TOKEN_AMOUNTS = [1n, 2n, 3n, 4n, 5n, 6n, 7n, 8n, 9n, 10n, 11n, 12n].map((amount) => parseEther(amount.toString()));
+
+/** ERC20 balance the cabinet owner starts with; prizes won by the player drain it */
+export const FUZZ_TOKEN_BALANCE = parseEther("40");
+
+export function createCabinetModel(): CabinetModel {
+  return {
+    items: [],
+    ownerTokens: FUZZ_TOKEN_BALANCE,
+    playRequests: 0n,
+    totalPaid: 0n,
+  };
+}
+
+/** Swap-and-pop, as `_removeItem` does */
+function removeItem(items: ModelItem[], index: number): ModelItem {
+  const removed = items[index];
+  items[index] = items[items.length - 1];
+  items.pop();
+  return removed;
+}
+
+/** Send a transaction and expect it to revert with `expectedError`, or to succeed when undefined */
+async function expectOutcome(client: TuuKeepClient, send: () => Promise<Hash>, expectedError?: string) {
+  if (expectedError === undefined) {
+    await client.waitForReceipt(await send());
+    return;
+  }
+  let revert: string | undefined;
+  try {
+    await send();
+  } catch (error) {
+    revert = decodeTuuKeepRevert(error)?.name ?? (error as Error).message;
+  }
+  expect(revert, `expected ${expectedError}`).to.equal(expectedError);
+}
+
+/** Invariants that must hold between any two operations */
+export async function checkCabinetInvariants(model: Readonly<CabinetModel>, { environment, cabinetId }: CabinetSystem) {
+  const { client, contracts, addresses } = environment;
+  const items = await client.getCabinetItems(cabinetId);
+
+  // itemCount matches the item array, and both match the model
+  expect(await contracts.tuuKeepCabinet.read.itemCount([cabinetId])).to.equal(BigInt(items.length));
+  expect(
+    items.map(({ assetType, contractAddress, tokenIdOrAmount, rarity, isActive }) => ({
+      assetType,
+      contractAddress: getAddress(contractAddress),
+      tokenIdOrAmount,
+      rarity,
+      isActive,
+    })),
+  ).to.deep.equal(model.items);
+
+  // No two items share a contract and token ID or amount
+  const keys = items.map((item) => `${item.contractAddress.toLowerCase()}:${item.tokenIdOrAmount}`);
+  expect(new Set(keys).size).to.equal(keys.length);
+
+  // ERC20 items are backed one-to-one by the cabinet's token balance
+  const escrowed = items
+    .filter((item) => item.assetType === AssetType.ERC20)
+    .reduce((sum, item) => sum + item.tokenIdOrAmount, 0n);
+  expect(await contracts.mockERC20.read.balanceOf([addresses.cabinet])).to.equal(escrowed);
+  expect(await contracts.mockERC20.read.balanceOf([environment.accounts.CABINET_OWNER.address])).to.equal(
+    model.ownerTokens,
+  );
+
+  // Every wei paid to play is split between the owner and the platform
+  const revenue = (await client.getCabinetRevenue(cabinetId)) + (await contracts.tuuKeepCabinet.read.getPlatformRevenue());
+  expect(revenue).to.equal(model.totalPaid);
+}
+
+class DepositTokensCommand implements CabinetCommand {
+  constructor(
+    readonly amount: bigint,
+    readonly rarity: bigint,
+  ) {}
+
+  check() {
+    return true;
+  }
+
+  async run(model: CabinetModel, system: CabinetSystem) {
+    const { contracts } = system.environment;
+    const item = {
+      assetType: AssetType.ERC20,
+      contractAddress: getAddress(contracts.mockERC20.address),
+      tokenIdOrAmount: this.amount,
+      rarity: this.rarity,
+      isActive: true,
+    };
+
+    let expectedError: string | undefined;
+    if (model.items.length + 1 > MAX_CABINET_ITEMS) expectedError = "InvalidArrayLength";
+    else if (model.ownerTokens < this.amount) expectedError = "BalanceValidationFailed";
+    else if (model.items.some((existing) => existing.assetType === AssetType.ERC20 && existing.tokenIdOrAmount === this.amount)) {
+      expectedError = "DuplicateItem";
+    }
+
+    await expectOutcome(
+      system.ownerClient,
+      () => system.ownerClient.depositItems(system.cabinetId, [{ ...item, metadata: "Token prize", depositTime: 0n }]),
+      expectedError,
+    );
+    if (!expectedError) {
+      model.items.push(item);
+      model.ownerTokens -= this.amount;
+    }
+    await checkCabinetInvariants(model, system);
+  }
+
+  toString() {
+    return `depositTokens(${this.amount}, rarity ${this.rarity})`;
+  }
+}
+
+class WithdrawCommand implements CabinetCommand {
+  constructor(readonly indices: number[]) {}
+
+  check(model: Readonly<CabinetModel>) {
+    return model.items.length > 0;
+  }
+
+  async run(model: CabinetModel, system: CabinetSystem) {
+    // Withdrawals run from the last index given to the first, each one a swap-and-pop
+    const items = [...model.items];
+    const withdrawn: ModelItem[] = [];
+    let expectedError: string | undefined;
+    for (const index of [...this.indices].reverse()) {
+      if (index >= items.length) {
+        expectedError = "ItemNotFound";
+        break;
+      }
+      withdrawn.push(removeItem(items, index));
+    }
+
+    await expectOutcome(
+      system.ownerClient,
+      () => system.ownerClient.withdrawItems(system.cabinetId, this.indices.map(BigInt)),
+      expectedError,
+    );
+    if (!expectedError) {
+      model.items = items;
+      for (const item of withdrawn) model.ownerTokens += item.tokenIdOrAmount;
+    }
+    await checkCabinetInvariants(model, system);
+  }
+
+  toString() {
+    return `withdraw([${this.indices.join(", ")}])`;
+  }
+}
+
+class ToggleCommand implements CabinetCommand {
+  constructor(readonly index: number) {}
+
+  check(model: Readonly<CabinetModel>) {
+    return model.items.length > 0;
+  }
+
+  async run(model: CabinetModel, system: CabinetSystem) {
+    const expectedError = this.index >= model.items.length ? "Error" : undefined;
+
+    await expectOutcome(
+      system.ownerClient,
+      () => system.ownerClient.toggleItemStatus(system.cabinetId, BigInt(this.index)),
+      expectedError,
+    );
+    if (!expectedError) {
+      const item = model.items[this.index];
+      model.items[this.index] = { ...item, isActive: !item.isActive };
+    }
+    await checkCabinetInvariants(model, system);
+  }
+
+  toString() {
+    return `toggle(${this.index})`;
+  }
+}
+
+class PlayCommand implements CabinetCommand {
+  constructor(readonly overpayment: bigint) {}
+
+  check() {
+    return true;
+  }
+
+  async run(model: CabinetModel, system: CabinetSystem) {
+    const { config } = await system.environment.client.getCabinet(system.cabinetId);
+    const value = config.playPrice + this.overpayment;
+    const randomNumber = getSeededRandomNumber(system.seed, model.playRequests + 1n);
+    const selection = selectPrizeItem(model.items, randomNumber, 0n, config.playPrice);
+
+    let expectedError: string | undefined;
+    if (!model.items.some((item) => item.isActive)) expectedError = "NoActiveItems";
+    // `PrizeWon` reads the won slot after it was popped
+    else if (revertsOnPayout(model.items, selection)) expectedError = "Panic";
+
+    await expectOutcome(
+      system.playerClient,
+      () => system.playerClient.play({ cabinetId: system.cabinetId, value }),
+      expectedError,
+    );
+    if (!expectedError) {
+      model.playRequests += 1n;
+      model.totalPaid += value;
+      if (selection.wonPrize) removeItem(model.items, Number(selection.itemIndex));
+    }
+    await checkCabinetInvariants(model, system);
+  }
+
+  toString() {
+    return `play(+${this.overpayment} wei)`;
+  }
+}
+
+const rarity = fc.bigInt({ min: 1n, max: 5n });
+// Indices run past `MAX_CABINET_ITEMS` so out-of-range calls are exercised too
+const index = fc.nat({ max: MAX_CABINET_ITEMS });
+
+/** Arbitraries for every operation the fuzzer interleaves */
+export const cabinetCommands = [
+  fc.tuple(fc.constantFrom(...TOKEN_AMOUNTS), rarity).map(([amount, r]) => new DepositTokensCommand(amount, r)),
+  fc.array(index, { minLength: 1, maxLength: 3 }).map((indices) => new WithdrawCommand(indices)),
+  index.map((i) => new ToggleCommand(i)),
+  fc.constantFrom(0n, 1n, parseEther("0.005")).map((overpayment) => new PlayCommand(overpayment)),
+];
+
+/** Fund and approve everything the owner may deposit; run once before the snapshot the runs revert to */
+export async function fundCabinetOwner(environment: TestEnvironment, owner: Address) {
+  const { contracts, addresses } = environment;
+  await contracts.mockERC20.write.transfer([owner, FUZZ_TOKEN_BALANCE]);
+  await contracts.mockERC20.write.approve([addresses.cabinet, maxUint256], { account: owner });
+}
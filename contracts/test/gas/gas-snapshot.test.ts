@@ -0,0 +1,144 @@
+import { expect } from "chai";
+import { describe, it } from "node:test";
+import * as fs from "fs";
+import { parseEther } from "viem";
+import {
+  compareGasSnapshots,
+  DEFAULT_GAS_THRESHOLD_PERCENT,
+  formatGasReport,
+  GAS_REPORT_FILE,
+  GAS_SNAPSHOT_FILE,
+  readGasSnapshot,
+  writeGasSnapshot,
+  type GasSnapshot,
+} from "../../lib/gas-snapshot";
+import { deployTestEnvironment, type TestEnvironment } from "../integration/utils/deployment-helper";
+import { scenario, tokens } from "../integration/utils/scenario-builder";
+import { TEST_ACCOUNTS } from "../integration/fixtures/test-accounts";
+import { TEST_RANDOMNESS_SEED, TEST_SEEDED_STOCK } from "../integration/fixtures/test-data";
+
+const THRESHOLD_PERCENT = Number(process.env.GAS_THRESHOLD ?? DEFAULT_GAS_THRESHOLD_PERCENT);
+const BASELINE_FILE = process.env.GAS_BASELINE || GAS_SNAPSHOT_FILE;
+
+/**
+ * Runs every public entrypoint under the same fixed scenarios and returns the
+ * gas of each call. Scenario changes shift the numbers, so update the
+ * snapshot in the same commit.
+ */
+async function measureEntrypoints(environment: TestEnvironment): Promise<GasSnapshot> {
+  const { contracts } = environment;
+  const admin = { account: TEST_ACCOUNTS.PLATFORM_ADMIN.address, chain: undefined };
+  const player1 = { account: TEST_ACCOUNTS.PLAYER_1.address, chain: undefined };
+
+  const cabinet = await scenario("Cabinet entrypoints")
+    .cabinet("shop", { owner: "cabinetOwner", gas: "TuuKeepCabinet.mintCabinet" })
+    .setPrice("cabinetOwner", "shop", parseEther("0.02"), { gas: "TuuKeepCabinet.setPrice" })
+    .deposit("cabinetOwner", "shop", TEST_SEEDED_STOCK, { gas: "TuuKeepCabinet.depositItems (5 ERC20)" })
+    .activate("cabinetOwner", "shop", { gas: "TuuKeepCabinet.activateCabinet" })
+    .play("player1", "shop", {
+      gas: "TuuKeepCabinet.play (lose)",
+      expect: { events: [{ name: "GachaPlayed", args: { wonPrize: false } }] },
+    })
+    .play("player2", "shop", {
+      gas: "TuuKeepCabinet.play (win ERC20)",
+      expect: { events: [{ name: "GachaPlayed", args: { wonPrize: true } }] },
+    })
+    .send("cabinetOwner withdraws the revenue in a batch", (context) =>
+      context.environment.contracts.tuuKeepCabinet.write.batchWithdrawRevenue([[context.cabinetId("shop")]], {
+        account: TEST_ACCOUNTS.CABINET_OWNER.address,
+        chain: undefined,
+      }), { gas: "TuuKeepCabinet.batchWithdrawRevenue (1 cabinet)" },
+    )
+    .play("player3", "shop")
+    .withdrawRevenue("cabinetOwner", "shop", { gas: "TuuKeepCabinet.withdrawCabinetRevenue" })
+    .deactivate("cabinetOwner", "shop", { gas: "TuuKeepCabinet.deactivateCabinet" })
+    .send("cabinetOwner withdraws an item", (context) =>
+      context.client("cabinetOwner").withdrawItems(context.cabinetId("shop"), [0n]), {
+      gas: "TuuKeepCabinet.withdrawItems (1 ERC20)",
+    })
+    .cabinet("vault", { owner: "cabinetOwner" })
+    .deposit("cabinetOwner", "vault", [tokens(parseEther("5"))], { gas: "TuuKeepCabinet.depositItems (1 ERC20)" })
+    .run(environment);
+
+  const marketplace = await scenario("Marketplace entrypoints")
+    .cabinet("shop", { owner: "marketplaceSeller" })
+    .list("marketplaceSeller", "shop", { as: "first", price: parseEther("0.5"), gas: "TuuKeepMarketplace.createListing" })
+    .updateListingPrice("marketplaceSeller", "first", parseEther("0.6"), {
+      gas: "TuuKeepMarketplace.updateListingPrice",
+    })
+    .cancelListing("marketplaceSeller", "first", { gas: "TuuKeepMarketplace.cancelListing" })
+    .list("marketplaceSeller", "shop", { as: "second", price: parseEther("0.5") })
+    .buy("marketplaceBuyer", "second", { gas: "TuuKeepMarketplace.buyNow" })
+    .run(environment);
+
+  // `purchaseCabinet` always reverts in this tree (see the tier sale tests), so it has no entry yet
+  const tierSale = await scenario("Tier sale entrypoints")
+    .send("platformAdmin creates a sale phase", () =>
+      contracts.tuuKeepTierSale.write.createSalePhase(["Genesis", 0n, 0n, 10n, parseEther("0.2")], admin), {
+      gas: "TuuKeepTierSale.createSalePhase",
+    })
+    .send("platformAdmin adds a tier", () =>
+      contracts.tuuKeepTierSale.write.addTierToPhase([0n, "Launch", 10n, 5000, 0n, 0n], admin), {
+      gas: "TuuKeepTierSale.addTierToPhase",
+    })
+    .run(environment);
+
+  // player1 holds the consolation TuuCoin of the first play
+  const tuuCoin = await scenario("TuuCoin entrypoints")
+    .send("player1 burns TuuCoin for odds", () =>
+      contracts.tuuCoin.write.burnForOdds([parseEther("0.001")], player1), { gas: "TuuCoin.burnForOdds" },
+    )
+    .run(environment);
+
+  return { ...cabinet.gas, ...marketplace.gas, ...tierSale.gas, ...tuuCoin.gas };
+}
+
+describe("Gas snapshot", function () {
+  it("Should not regress any entrypoint beyond the threshold", async function () {
+    const environment = await deployTestEnvironment({ randomnessSeed: TEST_RANDOMNESS_SEED });
+    const current = await measureEntrypoints(environment);
+
+    if (process.env.GAS_SNAPSHOT === "update") {
+      writeGasSnapshot(current);
+      console.log(`📸 Wrote ${Object.keys(current).length} entries to ${GAS_SNAPSHOT_FILE}`);
+      return;
+    }
+
+    const baseline = readGasSnapshot(BASELINE_FILE);
+    if (!baseline) {
+      return expect.fail(`no gas snapshot at ${BASELINE_FILE}; run with GAS_SNAPSHOT=update to record one`);
+    }
+
+    const comparison = compareGasSnapshots(baseline, current, THRESHOLD_PERCENT);
+    const report = formatGasReport(comparison);
+    fs.writeFileSync(process.env.GAS_REPORT || GAS_REPORT_FILE, report);
+
+    const regressed = comparison.regressions.map(({ entry }) => entry);
+    expect(regressed, `gas regressions against ${BASELINE_FILE}:\n${report}`).to.deep.equal([]);
+  });
+
+  it("Should classify changes against the threshold and report them as markdown", function () {
+    const comparison = compareGasSnapshots(
+      { "a.kept": 1000n, "b.small": 1000n, "c.large": 1000n, "d.cheaper": 1000n, "e.gone": 1000n },
+      { "a.kept": 1000n, "b.small": 1020n, "c.large": 1021n, "d.cheaper": 900n, "f.new": 500n },
+      2,
+    );
+
+    expect(comparison.changes.map(({ entry, status }) => `${entry}: ${status}`)).to.deep.equal([
+      "a.kept: unchanged",
+      "b.small: increased",
+      "c.large: regressed",
+      "d.cheaper: decreased",
+      "e.gone: removed",
+      "f.new: added",
+    ]);
+    expect(comparison.regressions.map(({ entry }) => entry)).to.deep.equal(["c.large"]);
+
+    const report = formatGasReport(comparison);
+    expect(report).to.contain("1 entry grew by more than 2%.");
+    expect(report).to.contain("| `c.large` | 1,000 | 1,021 | +21 (+2.10%) | ❌ regressed |");
+    expect(report).to.contain("| `d.cheaper` | 1,000 | 900 | -100 (-10.00%) | ✅ decreased |");
+    expect(report).to.not.contain("a.kept");
+    expect(report).to.contain("1 unchanged entry.");
+  });
+});
@@ -0,0 +1,164 @@
+import { expect } from "chai";
+import { describe, it, beforeEach, afterEach } from "node:test";
+import { parseEther } from "viem";
+import type { TuuKeepClient } from "../../sdk";
+import { IndexerStore, TuuKeepIndexer, type BlockRef } from "../../indexer";
+import {
+  deployTestEnvironment,
+  setupCabinetWithTokens,
+  type TestEnvironment,
+} from "../integration/utils/deployment-helper";
+import { TEST_RANDOMNESS_SEED } from "../integration/fixtures/test-data";
+
+function count(store: IndexerStore, table: string): number {
+  return (store.db.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number }).count;
+}
+
+describe("TuuKeepIndexer", function () {
+  let environment: TestEnvironment;
+  let store: IndexerStore;
+  let playerClient: TuuKeepClient;
+  let reorgs: BlockRef[];
+  const cabinetId = 0n;
+
+  function createIndexer(target: IndexerStore, batchSize?: bigint) {
+    return new TuuKeepIndexer({
+      publicClient: environment.publicClient,
+      addresses: {
+        ...environment.addresses,
+        accessControl: environment.contracts.tuuKeepAccessControl.address,
+        randomness: environment.contracts.randomness.address,
+      },
+      store: target,
+      batchSize,
+      onReorg: (ancestor) => reorgs.push(ancestor),
+    });
+  }
+
+  async function play() {
+    await playerClient.waitForReceipt(await playerClient.play({ cabinetId }));
+  }
+
+  beforeEach(async function () {
+    // Seeded so no play draws the last item, which panics in `play`
+    environment = await deployTestEnvironment({ randomnessSeed: TEST_RANDOMNESS_SEED });
+    const { client, wallets, accounts } = environment;
+    store = new IndexerStore();
+    reorgs = [];
+    playerClient = client.withWallet(wallets.player1);
+
+    await client.waitForReceipt(await client.mintCabinet(accounts.CABINET_OWNER.address, "Indexed Cabinet"));
+    // Enough prizes that every play in these tests can still draw one; equal amounts would be a `DuplicateItem`
+    for (let i = 0; i < 4; i++) {
+      await setupCabinetWithTokens(environment, cabinetId, parseEther(String(i + 1)));
+    }
+    const ownerClient = client.withWallet(wallets.cabinetOwner);
+    await ownerClient.waitForReceipt(await ownerClient.activateCabinet(cabinetId));
+  });
+
+  afterEach(function () {
+    store.close();
+  });
+
+  it("Should backfill plays, deposits, outcomes and role grants", async function () {
+    await play();
+
+    const cursor = await createIndexer(store).sync();
+
+    expect(cursor?.number).to.equal(await environment.publicClient.getBlockNumber());
+    expect(count(store, "item_deposits")).to.equal(4);
+    const deposited = store.db.prepare("SELECT token_id_or_amount FROM item_deposits ORDER BY block_number").pluck().all();
+    expect(deposited).to.deep.equal(["1", "2", "3", "4"].map((amount) => parseEther(amount).toString()));
+    expect(count(store, "plays")).to.equal(1);
+    // A play either wins a prize or mints consolation TuuCoin
+    expect(count(store, "prizes") + count(store, "token_mints")).to.equal(1);
+    expect(count(store, "role_grants")).to.be.greaterThan(0);
+
+    const row = store.db.prepare("SELECT cabinet_id, player, play_price FROM plays").get() as Record<string, unknown>;
+    expect(row).to.deep.equal({
+      cabinet_id: 0,
+      player: environment.accounts.PLAYER_1.address.toLowerCase(),
+      play_price: parseEther("0.01").toString(),
+    });
+  });
+
+  it("Should resume from the cursor without duplicating rows", async function () {
+    const indexer = createIndexer(store);
+    await play();
+    await indexer.sync();
+    await play();
+    await indexer.sync();
+
+    expect(count(store, "plays")).to.equal(2);
+  });
+
+  it("Should produce the same rows regardless of batch size", async function () {
+    await play();
+    const small = new IndexerStore();
+    try {
+      await createIndexer(store).sync();
+      await createIndexer(small, 3n).sync();
+
+      for (const table of ["plays", "item_deposits", "role_grants", "prizes", "token_mints"]) {
+        expect(count(small, table), table).to.equal(count(store, table));
+      }
+    } finally {
+      small.close();
+    }
+  });
+
+  it("Should index marketplace listings", async function () {
+    const ownerClient = environment.client.withWallet(environment.wallets.cabinetOwner);
+    await ownerClient.waitForReceipt(await ownerClient.approveCabinet(cabinetId));
+    await ownerClient.waitForReceipt(
+      await ownerClient.createListing({ cabinetId, price: parseEther("1"), duration: 86400n }),
+    );
+
+    await createIndexer(store).sync();
+
+    const listing = store.db.prepare("SELECT listing_id, seller, price FROM listings_created").get();
+    expect(listing).to.deep.equal({
+      listing_id: 1,
+      seller: environment.accounts.CABINET_OWNER.address.toLowerCase(),
+      price: parseEther("1").toString(),
+    });
+  });
+
+  it("Should roll back blocks that were reorganised away", async function () {
+    const indexer = createIndexer(store);
+    await play();
+    const before = await indexer.sync();
+
+    const snapshot = await environment.testClient.snapshot();
+    await play();
+    await indexer.sync();
+    expect(count(store, "plays")).to.equal(2);
+
+    // Replace the indexed play with a longer chain that has no play at all
+    await environment.testClient.revert({ id: snapshot });
+    await environment.testClient.mine({ blocks: 3 });
+    await indexer.sync();
+
+    expect(reorgs).to.have.length(1);
+    expect(reorgs[0]).to.deep.include({ number: before!.number, hash: before!.hash });
+    expect(count(store, "plays")).to.equal(1);
+    expect(store.getCursor()?.number).to.equal(await environment.publicClient.getBlockNumber());
+
+    await play();
+    await indexer.sync();
+    expect(count(store, "plays")).to.equal(2);
+  });
+
+  it("Should refuse a store indexed on another chain", async function () {
+    await createIndexer(store).sync();
+    store.db.prepare("UPDATE indexer_state SET value = '1' WHERE key = 'chain_id'").run();
+
+    let error: unknown;
+    try {
+      await createIndexer(store).sync();
+    } catch (caught) {
+      error = caught;
+    }
+    expect(String(error)).to.contain("store holds chain 1");
+  });
+});
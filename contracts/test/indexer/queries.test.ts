@@ -0,0 +1,320 @@
+import { expect } from "chai";
+import { describe, it, beforeEach, afterEach } from "node:test";
+import { parseEther, type Hash } from "viem";
+import { AssetType } from "../../sdk";
+import {
+  getMarketStats,
+  getPlayerHistory,
+  getPlayerTuuCoinSummary,
+  getRevenueSeries,
+  IndexerStore,
+  listCabinets,
+  listListings,
+  listPlays,
+  listTuuCoinAdminActions,
+  type IndexedRow,
+  type Row,
+} from "../../indexer";
+
+const DAY = 86_400;
+const NOW = 100 * DAY + 3_600;
+const PLAYER = "0x00000000000000000000000000000000000000a1";
+const OTHER_PLAYER = "0x00000000000000000000000000000000000000a2";
+const SELLER = "0x00000000000000000000000000000000000000b1";
+const TOKEN = "0x00000000000000000000000000000000000000c1";
+const ADMIN = "0x00000000000000000000000000000000000000d1";
+const CABINET = "0x00000000000000000000000000000000000000e1";
+const RESPONDER = "0x00000000000000000000000000000000000000d2";
+
+const hash = (value: number): Hash => `0x${value.toString(16).padStart(64, "0")}`;
+
+/**
+ * Builds indexed rows by hand, one transaction per block, so queries can be checked
+ * without running a chain
+ */
+class Fixture {
+  private block = 1;
+  readonly rows: IndexedRow[] = [];
+
+  add(table: string, timestamp: number, values: Row, sameTransaction = false) {
+    if (!sameTransaction) this.block += 1;
+    const logIndex = this.rows.filter((row) => row.row.block_number === BigInt(this.block)).length;
+    this.rows.push({
+      table,
+      row: {
+        block_number: BigInt(this.block),
+        log_index: logIndex,
+        transaction_hash: hash(this.block),
+        timestamp: BigInt(timestamp),
+        ...values,
+      },
+    });
+    return this;
+  }
+
+  play(cabinetId: bigint, player: string, timestamp: number, prize?: { itemIndex: bigint; rarity: bigint }) {
+    this.add("plays", timestamp, {
+      cabinet_id: cabinetId,
+      player,
+      play_price: parseEther("0.01").toString(),
+      tuu_coin_amount: "0",
+      won_prize: prize ? 1 : 0,
+      item_index: prize ? prize.itemIndex : null,
+    });
+    if (prize) {
+      this.add(
+        "prizes",
+        timestamp,
+        {
+          cabinet_id: cabinetId,
+          player,
+          item_index: prize.itemIndex,
+          asset_type: AssetType.ERC20,
+          contract_address: TOKEN,
+          token_id_or_amount: parseEther("5").toString(),
+          rarity: prize.rarity,
+        },
+        true,
+      );
+    }
+    return this;
+  }
+
+  commit(store: IndexerStore) {
+    store.commitBatch({
+      chainId: 31337,
+      blocks: [],
+      rows: this.rows,
+      cursor: { number: BigInt(this.block), hash: hash(this.block) },
+    });
+  }
+}
+
+describe("Indexer queries", function () {
+  let store: IndexerStore;
+
+  beforeEach(function () {
+    store = new IndexerStore();
+    new Fixture()
+      .add("item_deposits", NOW - 10 * DAY, {
+        cabinet_id: 0n,
+        item_index: 0n,
+        asset_type: AssetType.ERC20,
+        contract_address: TOKEN,
+        token_id_or_amount: parseEther("5").toString(),
+        rarity: 3n,
+      })
+      .add("item_deposits", NOW - 10 * DAY, {
+        cabinet_id: 1n,
+        item_index: 0n,
+        asset_type: AssetType.ERC721,
+        contract_address: TOKEN,
+        token_id_or_amount: "7",
+        rarity: 1n,
+      })
+      .play(0n, PLAYER, NOW - 2 * DAY)
+      .add(
+        "token_mints",
+        NOW - 2 * DAY,
+        { recipient: PLAYER, amount: parseEther("0.001").toString(), minter: CABINET },
+        true,
+      )
+      .play(0n, OTHER_PLAYER, NOW - DAY, { itemIndex: 0n, rarity: 3n })
+      .play(0n, PLAYER, NOW)
+      .add("reward_mints", NOW, { player: PLAYER, amount: parseEther("0.001").toString(), cabinet_id: 0n }, true)
+      .add("odds_burns", NOW, {
+        player: PLAYER,
+        amount: parseEther("1000").toString(),
+        total_burned: parseEther("1000").toString(),
+      })
+      .add("plays", NOW - 3 * DAY, {
+        cabinet_id: 1n,
+        player: OTHER_PLAYER,
+        play_price: parseEther("0.01").toString(),
+        tuu_coin_amount: parseEther("0.002").toString(),
+        won_prize: 0,
+        item_index: null,
+      })
+      .add("listings_created", NOW - 3 * DAY, {
+        listing_id: 1n,
+        cabinet_id: 1n,
+        seller: SELLER,
+        price: parseEther("1").toString(),
+        expires_at: BigInt(NOW + DAY),
+      })
+      .add("listing_price_updates", NOW - 2 * DAY, {
+        listing_id: 1n,
+        cabinet_id: 1n,
+        old_price: parseEther("1").toString(),
+        new_price: parseEther("2").toString(),
+      })
+      .add("sales", NOW - DAY, {
+        listing_id: 1n,
+        cabinet_id: 1n,
+        seller: SELLER,
+        buyer: PLAYER,
+        price: parseEther("2").toString(),
+        platform_fee: parseEther("0.1").toString(),
+      })
+      .add("listings_created", NOW - DAY, {
+        listing_id: 2n,
+        cabinet_id: 0n,
+        seller: SELLER,
+        price: parseEther("3").toString(),
+        expires_at: BigInt(NOW + DAY),
+      })
+      .add("listings_created", NOW - 5 * DAY, {
+        listing_id: 3n,
+        cabinet_id: 0n,
+        seller: SELLER,
+        price: parseEther("3").toString(),
+        expires_at: BigInt(NOW - 4 * DAY),
+      })
+      .add("tuucoin_admin_actions", NOW - 2 * DAY, {
+        action: "updateEmissionConfig",
+        cabinet_id: null,
+        details: JSON.stringify({ baseRate: parseEther("2").toString(), maxRate: parseEther("20").toString(), decayFactor: "50" }),
+        sender: ADMIN,
+      })
+      .add("tuucoin_admin_actions", NOW - DAY, {
+        action: "setCabinetEmissionMultiplier",
+        cabinet_id: 1n,
+        details: JSON.stringify({ cabinetId: "1", multiplier: "15000" }),
+        sender: ADMIN,
+      })
+      .add("tuucoin_admin_actions", NOW, {
+        action: "emergencyPause",
+        cabinet_id: null,
+        details: JSON.stringify({ responder: RESPONDER, reason: "incident" }),
+        sender: RESPONDER,
+      })
+      .commit(store);
+  });
+
+  afterEach(function () {
+    store.close();
+  });
+
+  it("Should summarise cabinets within a time window", async function () {
+    const page = listCabinets(store, { from: NOW - DAY });
+
+    expect(page.total).to.equal(2);
+    expect(page.items[0]).to.deep.equal({
+      cabinetId: "0",
+      plays: 2,
+      wins: 1,
+      revenue: parseEther("0.02").toString(),
+      uniquePlayers: 2,
+      itemsDeposited: 1,
+      itemsWithdrawn: 0,
+      lastPlayedAt: NOW,
+    });
+    expect(page.items[1]).to.include({ cabinetId: "1", plays: 0, lastPlayedAt: null });
+  });
+
+  it("Should filter cabinets by the items they were stocked with", async function () {
+    const page = listCabinets(store, { assetType: AssetType.ERC721 });
+    expect(page.items.map((cabinet) => cabinet.cabinetId)).to.deep.equal(["1"]);
+  });
+
+  it("Should page plays newest first and attach prizes", async function () {
+    const first = listPlays(store, 0n, { limit: 2 });
+    expect(first.total).to.equal(3);
+    expect(first.items.map((play) => play.timestamp)).to.deep.equal([NOW, NOW - DAY]);
+    expect(first.items[1].prize).to.deep.include({ rarity: 3, assetType: AssetType.ERC20 });
+
+    const second = listPlays(store, 0n, { limit: 2, offset: 2 });
+    expect(second.items).to.have.length(1);
+    expect(second.items[0].prize).to.be.null;
+
+    expect(listPlays(store, 0n, { rarity: 3 }).total).to.equal(1);
+    expect(listPlays(store, 0n, { won: false, player: PLAYER }).total).to.equal(2);
+  });
+
+  it("Should bucket revenue by day and forecast from the average", async function () {
+    const series = getRevenueSeries(store, 0n, { days: 3, forecastDays: 6 }, NOW);
+
+    expect(series.points.map((point) => point.plays)).to.deep.equal([1, 1, 1]);
+    expect(series.points[2].day).to.equal(100 * DAY);
+    // 0.03 over 3 days, projected over 6
+    expect(series.forecast).to.deep.equal({ days: 6, revenue: parseEther("0.06").toString() });
+  });
+
+  it("Should merge a player's plays, rewards and trades", async function () {
+    const history = getPlayerHistory(store, PLAYER, {});
+    expect(history.items.map((activity) => activity.kind)).to.deep.equal([
+      "marketBuy",
+      "reward",
+      "play",
+      "reward",
+      "play",
+    ]);
+
+    const trades = getPlayerHistory(store, PLAYER, { kinds: ["marketBuy"] });
+    expect(trades.items[0].amount).to.equal(parseEther("2").toString());
+
+    const seller = getPlayerHistory(store, SELLER, {});
+    expect(seller.items.map((activity) => activity.kind)).to.deep.equal(["marketSell"]);
+  });
+
+  it("Should total the TuuCoin a player earned from plays and burned", async function () {
+    expect(getPlayerTuuCoinSummary(store, PLAYER)).to.deep.equal({
+      minted: parseEther("0.002").toString(),
+      rewards: 2,
+      burnedForOdds: parseEther("1000").toString(),
+      burnedInPlays: "0",
+      boostedPlays: 0,
+    });
+    expect(getPlayerTuuCoinSummary(store, OTHER_PLAYER)).to.deep.include({
+      minted: "0",
+      burnedInPlays: parseEther("0.002").toString(),
+      boostedPlays: 1,
+    });
+  });
+
+  it("Should list TuuCoin admin actions newest first with their sender", async function () {
+    const actions = listTuuCoinAdminActions(store, {});
+    expect(actions.items.map((action) => action.action)).to.deep.equal([
+      "emergencyPause",
+      "setCabinetEmissionMultiplier",
+      "updateEmissionConfig",
+    ]);
+    expect(actions.items[1]).to.deep.include({
+      sender: ADMIN,
+      cabinetId: "1",
+      details: { cabinetId: "1", multiplier: "15000" },
+    });
+
+    expect(listTuuCoinAdminActions(store, { sender: ADMIN }).total).to.equal(2);
+    expect(listTuuCoinAdminActions(store, { actions: ["emergencyPause", "adjustMaxSupply"] }).items).to.have.length(1);
+    expect(listTuuCoinAdminActions(store, { to: NOW - DAY }).total).to.equal(2);
+  });
+
+  it("Should derive listing status and latest price", async function () {
+    const listings = listListings(store, {}, NOW);
+    expect(listings.items.map((listing) => [listing.listingId, listing.status])).to.deep.equal([
+      ["3", "expired"],
+      ["2", "active"],
+      ["1", "sold"],
+    ]);
+    expect(listings.items[2]).to.include({ price: parseEther("2").toString(), buyer: PLAYER });
+
+    expect(listListings(store, { status: "active" }, NOW).total).to.equal(1);
+  });
+
+  it("Should total marketplace sales", async function () {
+    const stats = getMarketStats(store, { days: 7 }, NOW);
+
+    expect(stats).to.deep.include({
+      totalSales: 1,
+      totalVolume: parseEther("2").toString(),
+      totalFees: parseEther("0.1").toString(),
+      averagePrice: parseEther("2").toString(),
+      activeListings: 1,
+      uniqueBuyers: 1,
+      uniqueSellers: 1,
+    });
+    expect(stats.daily).to.have.length(7);
+    expect(stats.daily[5]).to.deep.equal({ day: 99 * DAY, sales: 1, volume: parseEther("2").toString() });
+  });
+});
@@ -0,0 +1,98 @@
+import { expect } from "chai";
+import { describe, it, beforeEach } from "node:test";
+import { parseEther } from "viem";
+import { deployTestEnvironment, type TestEnvironment } from "./utils/deployment-helper";
+import { scenario, ScenarioError, tokens } from "./utils/scenario-builder";
+import { TEST_RANDOMNESS_SEED, TEST_SEEDED_STOCK } from "./fixtures/test-data";
+
+async function expectScenarioError(run: Promise<unknown>): Promise<ScenarioError> {
+  try {
+    await run;
+  } catch (error) {
+    expect(error).to.be.instanceOf(ScenarioError);
+    return error as ScenarioError;
+  }
+  return expect.fail("the scenario should fail");
+}
+
+describe("Scenario DSL", function () {
+  let environment: TestEnvironment;
+
+  beforeEach(async function () {
+    environment = await deployTestEnvironment({ randomnessSeed: TEST_RANDOMNESS_SEED });
+  });
+
+  it("Should capture IDs from events across scenarios on one environment", async function () {
+    const first = await scenario("First cabinet")
+      .cabinet("shop", { owner: "cabinetOwner", items: [tokens(parseEther("1"), 1), tokens(parseEther("5"), 2)] })
+      .run(environment);
+    const second = await scenario("Second cabinet")
+      .cabinet("shop", { owner: "cabinetOwner2", items: [tokens(parseEther("1"), 1)] })
+      .list("cabinetOwner2", "shop", { as: "sale", price: parseEther("0.2") })
+      .run(environment);
+
+    expect(first.cabinetId("shop")).to.equal(0n);
+    expect(second.cabinetId("shop")).to.equal(1n);
+    expect(second.listingId("sale")).to.equal(1n);
+    expect((await environment.client.getCabinetItems(0n)).length).to.equal(2);
+    expect(second.trace.map(({ detail }) => detail)).to.include("sale = #1");
+  });
+
+  it("Should report the trace up to a failed event expectation", async function () {
+    const error = await expectScenarioError(
+      scenario("Expecting a win")
+        .cabinet("shop", { owner: "cabinetOwner", items: TEST_SEEDED_STOCK, activate: true })
+        .play("player1", "shop", { expect: { events: [{ name: "GachaPlayed", args: { wonPrize: true } }] } })
+        .check("never reached", () => expect.fail("steps after a failure must not run"))
+        .run(environment),
+    );
+
+    expect(error.trace.map(({ status }) => status)).to.deep.equal(["ok", "ok", "ok", "failed"]);
+    expect(error.message).to.contain('Scenario "Expecting a win" failed at step 4');
+    expect(error.message).to.contain("✓ platformAdmin mints cabinet shop to cabinetOwner → shop = #0");
+    expect(error.message).to.contain("✗ player1 plays shop → expected GachaPlayed(wonPrize: true), got cabinet.GachaPlayed(");
+    // Addresses are shown as actor names
+    expect(error.message).to.contain("player: player1");
+  });
+
+  it("Should fail on a missing or different revert", async function () {
+    const missing = await expectScenarioError(
+      scenario("Expecting a revert")
+        .cabinet("shop", { owner: "cabinetOwner", items: TEST_SEEDED_STOCK, activate: true })
+        .play("player1", "shop", { expect: { revert: "InsufficientPayment" } })
+        .run(environment),
+    );
+    expect(missing.trace.at(-1)?.detail).to.equal("expected a revert with InsufficientPayment");
+
+    const different = await expectScenarioError(
+      scenario("Expecting the wrong revert")
+        .cabinet("idle", { owner: "cabinetOwner" })
+        .play("player1", "idle", { expect: { revert: "NoActiveItems" } })
+        .run(environment),
+    );
+    expect(different.trace.at(-1)?.detail).to.equal("expected NoActiveItems, reverted with CabinetInactive(1)");
+
+    const otherArgs = await expectScenarioError(
+      scenario("Expecting other revert args")
+        .cabinet("idle", { owner: "cabinetOwner" })
+        .play("player1", "idle", { expect: { revert: { name: "CabinetInactive", args: [0n] } } })
+        .run(environment),
+    );
+    expect(otherArgs.trace.at(-1)?.detail).to.equal("expected CabinetInactive(0), reverted with CabinetInactive(2)");
+  });
+
+  it("Should report failed state checks and unknown aliases", async function () {
+    const failedCheck = await expectScenarioError(
+      scenario("Wrong item count")
+        .cabinet("shop", { owner: "cabinetOwner", items: [tokens(parseEther("1"), 1)] })
+        .check("the cabinet holds two items", async (context) => {
+          expect((await context.client().getCabinetItems(context.cabinetId("shop"))).length).to.equal(2);
+        })
+        .run(environment),
+    );
+    expect(failedCheck.message).to.contain("✗ check: the cabinet holds two items → expected 1 to equal 2");
+
+    const unknown = await expectScenarioError(scenario("Unknown cabinet").play("player1", "nowhere").run(environment));
+    expect(unknown.trace[0].detail).to.equal('No cabinet named "nowhere" has been created yet');
+  });
+});
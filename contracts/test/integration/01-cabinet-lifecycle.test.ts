@@ -1,295 +1,185 @@
 import { expect } from "chai";
-import hre from "hardhat";
-import { parseEther, formatEther } from "viem";
-import { deployTestEnvironment, TestEnvironment } from "./utils/deployment-helper";
-import { ScenarioBuilder } from "./utils/scenario-builder";
-import { AssertionHelpers, PerformanceTracker } from "./utils/assertion-helpers";
-import { TEST_CABINET_CONFIGS, TEST_GACHA_PRICES, TEST_TUUCOIN_CONFIG } from "./fixtures/test-data";
+import { describe, it, beforeEach } from "node:test";
+import { parseEther } from "viem";
+import { decodeTuuKeepRevert } from "../../sdk";
+import { deployTestEnvironment, type TestEnvironment } from "./utils/deployment-helper";
+import { scenario, tokens, type ScenarioContext } from "./utils/scenario-builder";
+import { TEST_ACCOUNTS } from "./fixtures/test-accounts";
+import { TEST_CABINET_CONFIGS, TEST_GACHA_PRICES, TEST_RANDOMNESS_SEED, TEST_SEEDED_PRIZE, TEST_SEEDED_STOCK } from "./fixtures/test-data";
+
+// Default `CabinetConfig.platformFeeRate`, in basis points
+const PLATFORM_FEE_RATE = 500n;
+
+// `PrizeWon` describes the item swapped into the won slot, so read the player's prize tokens instead
+async function prizesOf(context: ScenarioContext, actor: "player1" | "player2" | "player3") {
+  return context.environment.contracts.mockERC20.read.balanceOf([context.address(actor)]);
+}
 
 describe("Cabinet Lifecycle Integration", function () {
   let environment: TestEnvironment;
-  let scenarioBuilder: ScenarioBuilder;
-  let assertions: AssertionHelpers;
-  let performanceTracker: PerformanceTracker;
 
-  this.timeout(300000); // 5 minutes for integration tests
-
-  before(async function () {
-    console.log("🚀 Setting up Cabinet Lifecycle Integration Test Environment...");
-    environment = await deployTestEnvironment();
-    scenarioBuilder = new ScenarioBuilder(environment);
-    assertions = new AssertionHelpers(environment);
-    performanceTracker = new PerformanceTracker();
-    console.log("✅ Setup complete!");
-  });
-
-  after(async function () {
-    performanceTracker.generateReport();
+  beforeEach(async function () {
+    environment = await deployTestEnvironment({ randomnessSeed: TEST_RANDOMNESS_SEED });
   });
 
   describe("Complete Cabinet Purchase to Gacha Play Workflow", function () {
-    it("should complete tier sale → cabinet configuration → gacha play workflow", async function () {
-      const { contracts, accounts } = environment;
-
-      console.log("🎯 Starting complete cabinet lifecycle test...");
-
-      // Step 1: Purchase cabinet via TuuKeepTierSale
-      console.log("💰 Step 1: Purchasing cabinet from tier sale...");
-      const tier = TEST_CABINET_CONFIGS.BASIC_CABINET.tier;
-      const tierPrice = TEST_CABINET_CONFIGS.BASIC_CABINET.price;
-
-      const purchaseTx = await contracts.tuuKeepTierSale.write.purchaseCabinet([tier], {
-        account: accounts.CABINET_OWNER.address,
-        value: tierPrice
-      });
-
-      const purchaseGasMetrics = await assertions.measureGasUsageForScenario(
-        "Cabinet Purchase",
-        purchaseTx
-      );
-      performanceTracker.addGasMetrics(purchaseGasMetrics);
-
-      const cabinetId = 1n; // First cabinet minted
-
-      // Verify cabinet ownership
-      await assertions.assertCabinetOwnership(cabinetId, accounts.CABINET_OWNER.address);
-
-      // Step 2: Configure cabinet settings
-      console.log("⚙️ Step 2: Configuring cabinet settings...");
-      await contracts.tuuKeepCabinet.write.setCabinetPrice([
-        cabinetId,
-        TEST_GACHA_PRICES.CHEAP_PLAY
-      ], { account: accounts.CABINET_OWNER.address });
-
-      await contracts.tuuKeepCabinet.write.setMaxItems([
-        cabinetId,
-        TEST_CABINET_CONFIGS.BASIC_CABINET.maxItems
-      ], { account: accounts.CABINET_OWNER.address });
-
-      await assertions.assertCabinetConfiguration(
-        cabinetId,
-        TEST_GACHA_PRICES.CHEAP_PLAY,
-        TEST_CABINET_CONFIGS.BASIC_CABINET.maxItems
-      );
-
-      // Step 3: Deposit ERC721 items into cabinet
-      console.log("🎁 Step 3: Depositing items into cabinet...");
-      const itemCount = 5;
-
-      for (let i = 1; i <= itemCount; i++) {
-        // Mint NFT to cabinet owner
-        await contracts.mockERC721.write.mint([
-          accounts.CABINET_OWNER.address,
-          BigInt(i)
-        ]);
-
-        // Approve cabinet contract
-        await contracts.mockERC721.write.approve([
-          contracts.tuuKeepCabinet.address,
-          BigInt(i)
-        ], { account: accounts.CABINET_OWNER.address });
-
-        // Deposit into cabinet
-        await contracts.tuuKeepCabinet.write.depositERC721([
-          cabinetId,
-          contracts.mockERC721.address,
-          BigInt(i)
-        ], { account: accounts.CABINET_OWNER.address });
-      }
-
-      await assertions.assertCabinetItemCount(cabinetId, BigInt(itemCount));
-
-      // Step 4: Player plays gacha with payment
-      console.log("🎲 Step 4: Player playing gacha...");
-      const player = accounts.PLAYER_1.address;
-      const paymentAmount = TEST_GACHA_PRICES.CHEAP_PLAY;
-
-      // Get initial balances
-      const publicClient = await hre.viem.getPublicClient();
-      const playerInitialBalance = await publicClient.getBalance({ address: player });
-      const ownerInitialBalance = await publicClient.getBalance({ address: accounts.CABINET_OWNER.address });
-
-      const gachaTx = await contracts.tuuKeepCabinet.write.playGacha([cabinetId], {
-        account: player,
-        value: paymentAmount
-      });
-
-      const gachaGasMetrics = await assertions.measureGasUsageForScenario(
-        "Gacha Play",
-        gachaTx
-      );
-      performanceTracker.addGasMetrics(gachaGasMetrics);
-
-      // Step 5: Verify outcome (either prize won or TuuCoin minted)
-      console.log("🔍 Step 5: Verifying gacha outcome...");
-
-      // Check if player received TuuCoins (failed gacha) or NFT (successful gacha)
-      const playerTuuCoinBalance = await contracts.tuuCoin.read.balanceOf([player]);
-      const playerFinalBalance = await publicClient.getBalance({ address: player });
-
-      if (playerTuuCoinBalance > 0n) {
-        console.log("🪙 Player received TuuCoins (failed gacha)");
-        expect(playerTuuCoinBalance).to.equal(TEST_TUUCOIN_CONFIG.EMISSION_RATE * (10n ** 18n));
-      } else {
-        console.log("🏆 Player won prize (successful gacha)");
-        // Check if player received an NFT
-        const nftBalance = await contracts.mockERC721.read.balanceOf([player]);
-        expect(nftBalance).to.be.greaterThan(0n);
-      }
-
-      // Step 6: Validate revenue distribution
-      console.log("💸 Step 6: Validating revenue distribution...");
-      const ownerFinalBalance = await publicClient.getBalance({ address: accounts.CABINET_OWNER.address });
-
-      // Cabinet owner should have received revenue (minus platform fee)
-      const cabinetInfo = await contracts.tuuKeepCabinet.read.getCabinetInfo([cabinetId]);
-      expect(cabinetInfo.collectedRevenue).to.be.greaterThan(0n);
-
-      console.log("✅ Complete cabinet lifecycle test completed successfully!");
+    it("Should take a new cabinet through configuration to plays", async function () {
+      const { name } = TEST_CABINET_CONFIGS.BASIC_CABINET;
+      const playPrice = TEST_GACHA_PRICES.MEDIUM_PLAY;
+      const platformFee = (playPrice * PLATFORM_FEE_RATE) / 10_000n;
+
+      const result = await scenario("Mint to gacha play")
+        .cabinet("shop", {
+          owner: "cabinetOwner",
+          name,
+          expect: { events: [{ name: "CabinetMinted", args: { owner: TEST_ACCOUNTS.CABINET_OWNER.address, name } }] },
+        })
+        .setPrice("cabinetOwner", "shop", playPrice, {
+          expect: { events: [{ name: "PriceUpdated", args: { newPrice: playPrice } }] },
+        })
+        .deposit("cabinetOwner", "shop", TEST_SEEDED_STOCK, {
+          expect: { events: [{ name: "ItemDeposited", args: { itemIndex: 4n, rarity: 5n } }] },
+        })
+        .activate("cabinetOwner", "shop", {
+          expect: { events: [{ name: "CabinetStatusChanged", args: { isActive: true } }] },
+        })
+        .play("player1", "shop", {
+          expect: {
+            events: [
+              { name: "GachaPlayed", args: { wonPrize: false } },
+              { name: "TokensMinted", contract: "tuuCoin", args: { amount: playPrice / 10n } },
+              { name: "RevenueDistributed", args: { cabinetRevenue: playPrice - platformFee, platformRevenue: platformFee } },
+            ],
+            absent: ["PrizeWon"],
+          },
+        })
+        .play("player1", "shop", {
+          expect: { events: [{ name: "PrizeWon", args: { itemIndex: 1n } }], absent: ["TokensMinted"] },
+        })
+        .check("the player holds the prize and the consolation TuuCoin", async (context) => {
+          expect(context.plays.map(({ wonPrize }) => wonPrize)).to.deep.equal([false, true]);
+          expect(await prizesOf(context, "player1")).to.equal(TEST_SEEDED_PRIZE);
+          expect(await context.client().getTuuCoinBalance(context.address("player1"))).to.equal(playPrice / 10n);
+        })
+        .check("the cabinet kept its share of both plays", async (context) => {
+          const cabinetId = context.cabinetId("shop");
+          expect(await context.client().getCabinetRevenue(cabinetId)).to.equal(2n * (playPrice - platformFee));
+          expect((await context.client().getCabinetItems(cabinetId)).length).to.equal(4);
+          const analytics = await context.client().getCabinetAnalytics(cabinetId);
+          expect(analytics.totalPlays).to.equal(2n);
+        })
+        .run(environment);
+
+      expect(result.cabinetId("shop")).to.equal(0n);
+      expect(result.trace.every(({ status }) => status === "ok")).to.equal(true);
     });
 
-    it("should handle cabinet management operations correctly", async function () {
-      console.log("🔧 Testing cabinet management operations...");
-
-      const scenario = await scenarioBuilder.createBasicCabinetScenario();
-      const { contracts, accounts } = environment;
-
-      // Test cabinet activation/deactivation
-      await contracts.tuuKeepCabinet.write.setCabinetActive([scenario.cabinetId, false], {
-        account: accounts.CABINET_OWNER.address
-      });
-
-      const cabinetInfo = await contracts.tuuKeepCabinet.read.getCabinetInfo([scenario.cabinetId]);
-      expect(cabinetInfo.isActive).to.be.false;
-
-      // Reactivate for further tests
-      await contracts.tuuKeepCabinet.write.setCabinetActive([scenario.cabinetId, true], {
-        account: accounts.CABINET_OWNER.address
-      });
-
-      // Test price updates
+    it("Should handle activation, price updates and extra deposits", async function () {
       const newPrice = parseEther("0.02");
-      await contracts.tuuKeepCabinet.write.setCabinetPrice([scenario.cabinetId, newPrice], {
-        account: accounts.CABINET_OWNER.address
-      });
-
-      await assertions.assertCabinetConfiguration(
-        scenario.cabinetId,
-        newPrice,
-        scenario.maxItems
-      );
 
-      // Test item management - add more items
-      await contracts.mockERC721.write.mint([accounts.CABINET_OWNER.address, 10n]);
-      await contracts.mockERC721.write.approve([contracts.tuuKeepCabinet.address, 10n], {
-        account: accounts.CABINET_OWNER.address
-      });
-      await contracts.tuuKeepCabinet.write.depositERC721([
-        scenario.cabinetId,
-        contracts.mockERC721.address,
-        10n
-      ], { account: accounts.CABINET_OWNER.address });
-
-      await assertions.assertCabinetItemCount(scenario.cabinetId, BigInt(scenario.itemCount + 1));
-
-      console.log("✅ Cabinet management operations test completed!");
+      await scenario("Cabinet management")
+        .cabinet("shop", { owner: "cabinetOwner", items: TEST_SEEDED_STOCK, activate: true })
+        .deactivate("cabinetOwner", "shop", {
+          expect: { events: [{ name: "CabinetStatusChanged", args: { isActive: false } }] },
+        })
+        .play("player1", "shop", { expect: { revert: "CabinetInactive" } })
+        .activate("cabinetOwner", "shop")
+        .setPrice("player1", "shop", newPrice, { expect: { revert: "NotCabinetOwner" } })
+        .setPrice("cabinetOwner", "shop", newPrice, {
+          expect: { events: [{ name: "PriceUpdated", args: { oldPrice: TEST_GACHA_PRICES.CHEAP_PLAY, newPrice } }] },
+        })
+        .deposit("cabinetOwner", "shop", [tokens(parseEther("6"), 3)], {
+          expect: { events: [{ name: "ItemDeposited", args: { itemIndex: 5n, rarity: 3n } }] },
+        })
+        .check("the cabinet has six items at the new price", async (context) => {
+          const cabinetId = context.cabinetId("shop");
+          const cabinet = await context.client().getCabinet(cabinetId);
+          expect(cabinet.config.playPrice).to.equal(newPrice);
+          expect((await context.client().getCabinetItems(cabinetId)).length).to.equal(6);
+        })
+        .run(environment);
     });
 
-    it("should handle concurrent gacha plays correctly", async function () {
-      console.log("👥 Testing concurrent gacha plays...");
-
-      const scenario = await scenarioBuilder.createPremiumCabinetScenario();
-      const results = await scenarioBuilder.simulateConcurrentGachaPlays(scenario.cabinetId, 3);
-
-      // Verify all transactions were processed
-      expect(results).to.have.length(3);
-
-      let successfulPlays = 0;
-      let failedPlays = 0;
-
-      for (const result of results) {
-        if (result.result.success) {
-          successfulPlays++;
-          const gasMetrics = await assertions.measureGasUsageForScenario(
-            `Concurrent Gacha - ${result.player}`,
-            result.result.txHash
-          );
-          performanceTracker.addGasMetrics(gasMetrics);
-        } else {
-          failedPlays++;
-          console.log(`Player ${result.player} gacha failed:`, result.result.error);
-        }
-      }
-
-      console.log(`📊 Concurrent gacha results: ${successfulPlays} successful, ${failedPlays} failed`);
-
-      // Verify TuuCoin distribution for failed plays
-      for (const result of results) {
-        if (!result.result.success) {
-          const tuuCoinBalance = await environment.contracts.tuuCoin.read.balanceOf([result.player]);
-          if (tuuCoinBalance > 0n) {
-            expect(tuuCoinBalance).to.equal(TEST_TUUCOIN_CONFIG.EMISSION_RATE * (10n ** 18n));
-          }
-        }
-      }
-
-      console.log("✅ Concurrent gacha plays test completed!");
+    it("Should settle plays from several players in a row", async function () {
+      const consolation = TEST_GACHA_PRICES.CHEAP_PLAY / 10n;
+
+      await scenario("Several players")
+        .cabinet("shop", { owner: "cabinetOwner", items: TEST_SEEDED_STOCK, activate: true })
+        .play("player1", "shop", { expect: { events: [{ name: "GachaPlayed", args: { wonPrize: false } }] } })
+        .play("player2", "shop", { expect: { events: [{ name: "GachaPlayed", args: { wonPrize: true, itemIndex: 1n } }] } })
+        .play("player3", "shop", { expect: { events: [{ name: "GachaPlayed", args: { wonPrize: false } }] } })
+        .check("the losers got consolation TuuCoin and the winner the prize", async (context) => {
+          const client = context.client();
+          expect(await client.getTuuCoinBalance(context.address("player1"))).to.equal(consolation);
+          expect(await client.getTuuCoinBalance(context.address("player2"))).to.equal(0n);
+          expect(await client.getTuuCoinBalance(context.address("player3"))).to.equal(consolation);
+          expect(await prizesOf(context, "player2")).to.equal(TEST_SEEDED_PRIZE);
+          expect((await client.getCabinetItems(context.cabinetId("shop"))).length).to.equal(4);
+        })
+        .run(environment);
     });
   });
 
   describe("Edge Cases and Error Conditions", function () {
-    it("should handle cabinet with no items gracefully", async function () {
-      console.log("🗳️ Testing empty cabinet scenario...");
-
-      const { contracts, accounts } = environment;
-
-      // Create cabinet without items
-      await contracts.tuuKeepTierSale.write.purchaseCabinet([1n], {
-        account: accounts.CABINET_OWNER.address,
-        value: TEST_CABINET_CONFIGS.BASIC_CABINET.price
-      });
-
-      const emptyCabinetId = 2n; // Assuming second cabinet
-      await contracts.tuuKeepCabinet.write.setCabinetPrice([
-        emptyCabinetId,
-        TEST_GACHA_PRICES.CHEAP_PLAY
-      ], { account: accounts.CABINET_OWNER.address });
-
-      // Try to play gacha on empty cabinet - should fail or give TuuCoins
-      try {
-        const gachaTx = await contracts.tuuKeepCabinet.write.playGacha([emptyCabinetId], {
-          account: accounts.PLAYER_1.address,
-          value: TEST_GACHA_PRICES.CHEAP_PLAY
-        });
-
-        // If successful, player should get TuuCoins
-        const tuuCoinBalance = await contracts.tuuCoin.read.balanceOf([accounts.PLAYER_1.address]);
-        expect(tuuCoinBalance).to.be.greaterThan(0n);
-
-        console.log("✅ Empty cabinet handled gracefully - TuuCoins distributed");
-      } catch (error) {
-        console.log("✅ Empty cabinet properly rejected gacha play");
-      }
+    it("Should reject plays on a cabinet without items", async function () {
+      await scenario("Empty cabinet")
+        .cabinet("empty", { owner: "cabinetOwner", activate: true })
+        .play("player1", "empty", { expect: { revert: "NoActiveItems" } })
+        .check("no TuuCoin was minted", async (context) => {
+          expect(await context.client().getTuuCoinBalance(context.address("player1"))).to.equal(0n);
+        })
+        .run(environment);
     });
 
-    it("should reject insufficient payment for gacha", async function () {
-      console.log("💸 Testing insufficient payment scenario...");
-
-      const scenario = await scenarioBuilder.createBasicCabinetScenario();
-      const insufficientAmount = parseEther("0.005"); // Less than required
+    it("Should reject insufficient payment for a play", async function () {
+      await scenario("Underpaid play")
+        .cabinet("shop", { owner: "cabinetOwner", items: TEST_SEEDED_STOCK, playPrice: TEST_GACHA_PRICES.MEDIUM_PLAY, activate: true })
+        .play("player2", "shop", {
+          value: parseEther("0.005"),
+          expect: { revert: { name: "InsufficientPayment", args: [TEST_GACHA_PRICES.MEDIUM_PLAY, parseEther("0.005")] } },
+        })
+        .check("the cabinet earned nothing", async (context) => {
+          expect(await context.client().getCabinetRevenue(context.cabinetId("shop"))).to.equal(0n);
+        })
+        .run(environment);
+    });
+  });
 
-      try {
-        await environment.contracts.tuuKeepCabinet.write.playGacha([scenario.cabinetId], {
-          account: environment.accounts.PLAYER_2.address,
-          value: insufficientAmount
-        });
+  describe("Tier Sale", function () {
+    const { price } = TEST_CABINET_CONFIGS.BASIC_CABINET;
+    const genesis = {
+      totalCabinets: 10n,
+      basePrice: price * 2n,
+      tiers: [{ name: "Launch", maxQuantity: 10n, discountBps: 5000 }],
+    };
+
+    it("Should charge the current tier price", async function () {
+      await scenario("Underpaid purchase")
+        .salePhase("genesis", genesis)
+        .purchase("cabinetOwner", "genesis", {
+          as: "shop",
+          value: price - 1n,
+          expect: { revert: { name: "InsufficientPayment", args: [price, price - 1n] } },
+        })
+        .run(environment);
+    });
 
-        // If this succeeds, something is wrong
-        expect.fail("Should have rejected insufficient payment");
-      } catch (error) {
-        console.log("✅ Insufficient payment properly rejected");
-        expect(error).to.exist;
-      }
+    it("Should not mint purchased cabinets yet", async function () {
+      // `ITuuKeepCabinetCore.mintCabinet` takes a play price that `TuuKeepCabinet.mintCabinet` does not,
+      // so the tier sale calls a selector the cabinet does not have and every paid purchase reverts
+      await scenario("Paid purchase")
+        .salePhase("genesis", genesis)
+        .check("the purchase reverts in the cabinet mint", async (context) => {
+          const purchase = context.client("cabinetOwner").purchaseCabinet({
+            phaseId: context.phaseId("genesis"),
+            cabinetName: "Genesis",
+            value: price,
+          });
+          const error = await purchase.then(() => expect.fail("the purchase should revert"), (reason: unknown) => reason);
+          expect(decodeTuuKeepRevert(error)).to.not.equal(undefined);
+          expect(await context.environment.contracts.tuuKeepCabinet.read.totalSupply()).to.equal(0n);
+        })
+        .run(environment);
     });
   });
-});
\ No newline at end of file
+});
@@ -1,462 +1,159 @@
 import { expect } from "chai";
-import { viem } from "hardhat";
-import { parseEther, formatEther } from "viem";
-import { deployTestEnvironment, TestEnvironment } from "./utils/deployment-helper";
-import { ScenarioBuilder } from "./utils/scenario-builder";
-import { AssertionHelpers, PerformanceTracker } from "./utils/assertion-helpers";
-import { TEST_FEE_CONFIG, TEST_GACHA_PRICES } from "./fixtures/test-data";
+import { describe, it, beforeEach } from "node:test";
+import { parseEther } from "viem";
+import { deployTestEnvironment, type TestEnvironment } from "./utils/deployment-helper";
+import { nativeBalance } from "./utils/assertion-helpers";
+import { scenario } from "./utils/scenario-builder";
+import { TEST_ACCOUNTS } from "./fixtures/test-accounts";
+import { TEST_FEE_CONFIG, TEST_GACHA_PRICES, TEST_RANDOMNESS_SEED, TEST_SEEDED_STOCK } from "./fixtures/test-data";
 
-describe("Cross-Contract Revenue Flow", function () {
-  let environment: TestEnvironment;
-  let scenarioBuilder: ScenarioBuilder;
-  let assertions: AssertionHelpers;
-  let performanceTracker: PerformanceTracker;
+// Default `CabinetConfig.platformFeeRate`, in basis points
+const PLATFORM_FEE_RATE = 500n;
 
-  this.timeout(300000); // 5 minutes for integration tests
+const PLAY_PRICE = TEST_GACHA_PRICES.CHEAP_PLAY;
+const PLAY_FEE = (PLAY_PRICE * PLATFORM_FEE_RATE) / 10_000n;
+const marketplaceFee = (price: bigint) => (price * TEST_FEE_CONFIG.MARKETPLACE_FEE_RATE) / 10_000n;
 
-  before(async function () {
-    console.log("💰 Setting up Revenue Flow Integration Test Environment...");
-    environment = await deployTestEnvironment();
-    scenarioBuilder = new ScenarioBuilder(environment);
-    assertions = new AssertionHelpers(environment);
-    performanceTracker = new PerformanceTracker();
-    console.log("✅ Setup complete!");
-  });
+describe("Cross-Contract Revenue Flow", function () {
+  let environment: TestEnvironment;
+  const admin = { account: TEST_ACCOUNTS.PLATFORM_ADMIN.address, chain: undefined };
 
-  after(async function () {
-    performanceTracker.generateReport();
+  beforeEach(async function () {
+    environment = await deployTestEnvironment({ randomnessSeed: TEST_RANDOMNESS_SEED });
   });
 
   describe("Cabinet Gacha Revenue Distribution", function () {
-    it("should distribute gacha revenue correctly across contracts", async function () {
-      const { contracts, accounts } = environment;
-
-      console.log("🎰 Testing gacha revenue distribution...");
-
-      // Step 1: Setup cabinet with items
-      const cabinetScenario = await scenarioBuilder.createBasicCabinetScenario();
-      const cabinetId = cabinetScenario.cabinetId;
-
-      // Step 2: Record initial balances
-      const publicClient = await viem.getPublicClient();
-
-      const initialBalances = {
-        cabinetOwner: await publicClient.getBalance({ address: accounts.CABINET_OWNER.address }),
-        feeRecipient: await publicClient.getBalance({ address: accounts.FEE_RECIPIENT.address }),
-        player: await publicClient.getBalance({ address: accounts.PLAYER_1.address })
-      };
-
-      console.log("📊 Initial balances recorded");
-
-      // Step 3: Multiple gacha plays to accumulate revenue
-      const playCount = 5;
-      const paymentAmount = TEST_GACHA_PRICES.CHEAP_PLAY;
-      const totalRevenue = BigInt(playCount) * paymentAmount;
-
-      for (let i = 0; i < playCount; i++) {
-        const player = i % 2 === 0 ? accounts.PLAYER_1.address : accounts.PLAYER_2.address;
-
-        try {
-          const gachaTx = await contracts.tuuKeepCabinet.write.playGacha([cabinetId], {
-            account: player,
-            value: paymentAmount
-          });
-
-          const gasMetrics = await assertions.measureGasUsageForScenario(
-            `Revenue Gacha Play ${i + 1}`,
-            gachaTx
-          );
-          performanceTracker.addGasMetrics(gasMetrics);
-
-          console.log(`🎲 Gacha play ${i + 1} completed`);
-        } catch (error) {
-          console.log(`⚠️ Gacha play ${i + 1} failed:`, error);
-        }
-      }
-
-      // Step 4: Calculate expected revenue distribution
-      const expectedPlatformFee = (totalRevenue * TEST_FEE_CONFIG.PLATFORM_FEE_RATE) / 10000n;
-      const expectedOwnerRevenue = totalRevenue - expectedPlatformFee;
-
-      console.log(`💡 Expected platform fee: ${formatEther(expectedPlatformFee)} ETH`);
-      console.log(`💡 Expected owner revenue: ${formatEther(expectedOwnerRevenue)} ETH`);
-
-      // Step 5: Verify revenue accumulation in cabinet
-      const cabinetInfo = await contracts.tuuKeepCabinet.read.getCabinetInfo([cabinetId]);
-      expect(cabinetInfo.collectedRevenue).to.be.greaterThan(0n);
-
-      console.log(`📈 Cabinet collected revenue: ${formatEther(cabinetInfo.collectedRevenue)} ETH`);
-
-      // Step 6: Withdraw revenue and verify distribution
-      const withdrawTx = await contracts.tuuKeepCabinet.write.withdrawRevenue([cabinetId], {
-        account: accounts.CABINET_OWNER.address
-      });
-
-      const withdrawGasMetrics = await assertions.measureGasUsageForScenario(
-        "Revenue Withdrawal",
-        withdrawTx
-      );
-      performanceTracker.addGasMetrics(withdrawGasMetrics);
-
-      // Step 7: Verify final balances
-      const finalBalances = {
-        cabinetOwner: await publicClient.getBalance({ address: accounts.CABINET_OWNER.address }),
-        feeRecipient: await publicClient.getBalance({ address: accounts.FEE_RECIPIENT.address })
-      };
-
-      // Cabinet owner should have received their share
-      const ownerGain = finalBalances.cabinetOwner - initialBalances.cabinetOwner;
-      expect(ownerGain).to.be.greaterThan(0n);
-
-      // Fee recipient should have received platform fees
-      const feeRecipientGain = finalBalances.feeRecipient - initialBalances.feeRecipient;
-      expect(feeRecipientGain).to.be.greaterThan(0n);
-
-      console.log(`💰 Owner gained: ${formatEther(ownerGain)} ETH`);
-      console.log(`🏦 Fee recipient gained: ${formatEther(feeRecipientGain)} ETH`);
-      console.log("✅ Gacha revenue distribution validated!");
+    it("Should split play revenue between the cabinet owner and the platform", async function () {
+      const { addresses } = environment;
+
+      await scenario("Play revenue")
+        .cabinet("shop", { owner: "cabinetOwner", items: TEST_SEEDED_STOCK, activate: true })
+        .trackBalances(() => ({ cabinetContract: nativeBalance(addresses.cabinet) }))
+        .play("player1", "shop", {
+          expect: {
+            events: [
+              {
+                name: "RevenueDistributed",
+                args: { cabinetRevenue: PLAY_PRICE - PLAY_FEE, platformRevenue: PLAY_FEE },
+              },
+            ],
+          },
+        })
+        .play("player2", "shop")
+        .play("player3", "shop")
+        .expectBalanceChanges({ cabinetContract: 3n * PLAY_PRICE })
+        .check("the contract holds both shares until they are withdrawn", async (context) => {
+          const { tuuKeepCabinet } = context.environment.contracts;
+          expect(await context.client().getCabinetRevenue(context.cabinetId("shop"))).to.equal(3n * (PLAY_PRICE - PLAY_FEE));
+          expect(await tuuKeepCabinet.read.getPlatformRevenue()).to.equal(3n * PLAY_FEE);
+        })
+        .trackBalances((context) => ({
+          owner: nativeBalance(context.address("cabinetOwner")),
+          cabinetContract: nativeBalance(addresses.cabinet),
+        }))
+        .withdrawRevenue("cabinetOwner", "shop")
+        .expectBalanceChanges({ owner: 3n * (PLAY_PRICE - PLAY_FEE), cabinetContract: -3n * (PLAY_PRICE - PLAY_FEE) })
+        .withdrawRevenue("cabinetOwner", "shop", { expect: { revert: "InvalidAmount" } })
+        .run(environment);
     });
 
-    it("should handle revenue accumulation across multiple sessions", async function () {
-      console.log("📈 Testing revenue accumulation over time...");
-
-      const { contracts, accounts } = environment;
-
-      // Create premium cabinet for higher revenue testing
-      const cabinetScenario = await scenarioBuilder.createPremiumCabinetScenario();
-      const cabinetId = cabinetScenario.cabinetId;
-
-      const publicClient = await viem.getPublicClient();
-      const initialOwnerBalance = await publicClient.getBalance({ address: accounts.CABINET_OWNER_2.address });
-
-      // Session 1: Multiple plays
-      console.log("🎯 Session 1: Initial revenue accumulation...");
-      for (let i = 0; i < 3; i++) {
-        await contracts.tuuKeepCabinet.write.playGacha([cabinetId], {
-          account: accounts.PLAYER_1.address,
-          value: parseEther("0.05")
-        });
-      }
-
-      let cabinetInfo = await contracts.tuuKeepCabinet.read.getCabinetInfo([cabinetId]);
-      const session1Revenue = cabinetInfo.collectedRevenue;
-      console.log(`💰 Session 1 revenue: ${formatEther(session1Revenue)} ETH`);
-
-      // Session 2: More plays without withdrawal
-      console.log("🎯 Session 2: Additional revenue accumulation...");
-      for (let i = 0; i < 2; i++) {
-        await contracts.tuuKeepCabinet.write.playGacha([cabinetId], {
-          account: accounts.PLAYER_2.address,
-          value: parseEther("0.05")
-        });
-      }
-
-      cabinetInfo = await contracts.tuuKeepCabinet.read.getCabinetInfo([cabinetId]);
-      const session2Revenue = cabinetInfo.collectedRevenue;
-      console.log(`💰 Session 2 total revenue: ${formatEther(session2Revenue)} ETH`);
-
-      // Verify revenue accumulated correctly
-      expect(session2Revenue).to.be.greaterThan(session1Revenue);
-
-      // Final withdrawal and verification
-      await contracts.tuuKeepCabinet.write.withdrawRevenue([cabinetId], {
-        account: accounts.CABINET_OWNER_2.address
-      });
-
-      const finalOwnerBalance = await publicClient.getBalance({ address: accounts.CABINET_OWNER_2.address });
-      const totalGain = finalOwnerBalance - initialOwnerBalance;
+    it("Should batch withdraw revenue accumulated on several cabinets", async function () {
+      const { contracts } = environment;
+      const owner = { account: TEST_ACCOUNTS.CABINET_OWNER.address, chain: undefined };
+
+      await scenario("Batch withdrawal")
+        .cabinet("first", { owner: "cabinetOwner", items: TEST_SEEDED_STOCK, activate: true })
+        .cabinet("second", { owner: "cabinetOwner", items: TEST_SEEDED_STOCK, activate: true })
+        .cabinet("elsewhere", { owner: "cabinetOwner2", items: TEST_SEEDED_STOCK, activate: true })
+        .play("player1", "first")
+        .play("player1", "first")
+        .play("player2", "second")
+        .play("player3", "elsewhere")
+        .trackBalances((context) => ({ owner: nativeBalance(context.address("cabinetOwner")) }))
+        .send("cabinetOwner withdraws elsewhere's revenue in a batch", (context) =>
+          contracts.tuuKeepCabinet.write.batchWithdrawRevenue(
+            [[context.cabinetId("first"), context.cabinetId("elsewhere")]],
+            owner,
+          ), { expect: { revert: { name: "Error", args: ["Not cabinet owner"] } } },
+        )
+        .send("cabinetOwner withdraws both cabinets in a batch", (context) =>
+          contracts.tuuKeepCabinet.write.batchWithdrawRevenue(
+            [[context.cabinetId("first"), context.cabinetId("second")]],
+            owner,
+          ),
+        )
+        .expectBalanceChanges({ owner: 3n * (PLAY_PRICE - PLAY_FEE) })
+        .check("only the other owner's revenue is left", async (context) => {
+          const client = context.client();
+          expect(await client.getCabinetRevenue(context.cabinetId("first"))).to.equal(0n);
+          expect(await client.getCabinetRevenue(context.cabinetId("second"))).to.equal(0n);
+          expect(await client.getCabinetRevenue(context.cabinetId("elsewhere"))).to.equal(PLAY_PRICE - PLAY_FEE);
+        })
+        .run(environment);
+    });
 
-      expect(totalGain).to.be.greaterThan(0n);
-      console.log(`📊 Total owner gain across sessions: ${formatEther(totalGain)} ETH`);
-      console.log("✅ Multi-session revenue accumulation validated!");
+    it("Should let the platform admin withdraw the platform share", async function () {
+      const { contracts } = environment;
+
+      await scenario("Platform revenue")
+        .cabinet("shop", { owner: "cabinetOwner", items: TEST_SEEDED_STOCK, activate: true })
+        .play("player1", "shop")
+        .play("player2", "shop")
+        .trackBalances((context) => ({ admin: nativeBalance(context.address("platformAdmin")) }))
+        .send("platformAdmin withdraws more than the platform share", () =>
+          contracts.tuuKeepCabinet.write.withdrawPlatformRevenue([2n * PLAY_FEE + 1n], admin), {
+          expect: { revert: { name: "InsufficientPayment", args: [] } },
+        })
+        .send("platformAdmin withdraws the platform share", () =>
+          contracts.tuuKeepCabinet.write.withdrawPlatformRevenue([2n * PLAY_FEE], admin),
+        )
+        .expectBalanceChanges({ admin: 2n * PLAY_FEE })
+        .check("no platform revenue is left", async () => {
+          expect(await contracts.tuuKeepCabinet.read.getPlatformRevenue()).to.equal(0n);
+        })
+        .run(environment);
     });
   });
 
   describe("Marketplace Transaction Fees", function () {
-    it("should handle marketplace transaction fee distribution", async function () {
-      console.log("🛒 Testing marketplace fee distribution...");
-
-      const { contracts, accounts } = environment;
-
-      // Create and list cabinet
-      const cabinetScenario = await scenarioBuilder.createBasicCabinetScenario();
-      const marketplaceScenario = await scenarioBuilder.createMarketplaceListingScenario(cabinetScenario.cabinetId);
-
-      const publicClient = await viem.getPublicClient();
-
-      // Record initial balances
-      const initialBalances = {
-        seller: await publicClient.getBalance({ address: marketplaceScenario.seller }),
-        buyer: await publicClient.getBalance({ address: marketplaceScenario.buyer }),
-        feeRecipient: await publicClient.getBalance({ address: accounts.FEE_RECIPIENT.address })
-      };
-
-      // Execute marketplace purchase
-      const purchaseResult = await scenarioBuilder.executeMarketplaceScenario(marketplaceScenario);
-      expect(purchaseResult.success).to.be.true;
-
-      const purchaseGasMetrics = await assertions.measureGasUsageForScenario(
-        "Marketplace Transaction Fee",
-        purchaseResult.txHash
-      );
-      performanceTracker.addGasMetrics(purchaseGasMetrics);
-
-      // Verify final balances and fee distribution
-      const finalBalances = {
-        seller: await publicClient.getBalance({ address: marketplaceScenario.seller }),
-        buyer: await publicClient.getBalance({ address: marketplaceScenario.buyer }),
-        feeRecipient: await publicClient.getBalance({ address: accounts.FEE_RECIPIENT.address })
-      };
-
-      // Calculate expected amounts
-      const salePrice = marketplaceScenario.listingPrice;
-      const expectedFee = (salePrice * TEST_FEE_CONFIG.MARKETPLACE_FEE_RATE) / 10000n;
-      const expectedSellerAmount = salePrice - expectedFee;
-
-      // Verify seller received correct amount
-      const sellerGain = finalBalances.seller - initialBalances.seller;
-      expect(sellerGain).to.be.closeTo(expectedSellerAmount, parseEther("0.01")); // Allow for gas costs
-
-      // Verify fee recipient received marketplace fee
-      const feeRecipientGain = finalBalances.feeRecipient - initialBalances.feeRecipient;
-      expect(feeRecipientGain).to.be.greaterThanOrEqual(expectedFee);
-
-      console.log(`💸 Sale price: ${formatEther(salePrice)} ETH`);
-      console.log(`💰 Seller received: ${formatEther(sellerGain)} ETH`);
-      console.log(`🏦 Platform fee: ${formatEther(feeRecipientGain)} ETH`);
-      console.log("✅ Marketplace fee distribution validated!");
-    });
-
-    it("should handle varying marketplace fee rates", async function () {
-      console.log("📊 Testing variable marketplace fee rates...");
-
-      const { contracts, accounts } = environment;
-
-      // Test different price points to verify proportional fees
-      const testPrices = [
-        parseEther("0.1"),   // Low price
-        parseEther("0.5"),   // Medium price
-        parseEther("1.0")    // High price
-      ];
-
-      const publicClient = await viem.getPublicClient();
-
-      for (let i = 0; i < testPrices.length; i++) {
-        const price = testPrices[i];
-
-        // Create new cabinet for each test
-        const cabinetScenario = i === 0 ?
-          await scenarioBuilder.createBasicCabinetScenario() :
-          await scenarioBuilder.createPremiumCabinetScenario();
-
-        // List at specific price
-        await contracts.tuuKeepCabinet.write.approve([
-          contracts.tuuKeepMarketplace.address,
-          cabinetScenario.cabinetId
-        ], { account: cabinetScenario.owner });
-
-        await contracts.tuuKeepMarketplace.write.listItem([
-          contracts.tuuKeepCabinet.address,
-          cabinetScenario.cabinetId,
-          price
-        ], { account: cabinetScenario.owner });
-
-        const initialFeeBalance = await publicClient.getBalance({ address: accounts.FEE_RECIPIENT.address });
-
-        // Purchase
-        await contracts.tuuKeepMarketplace.write.buyItem([
-          contracts.tuuKeepCabinet.address,
-          cabinetScenario.cabinetId
-        ], {
-          account: accounts.MARKETPLACE_BUYER.address,
-          value: price
-        });
-
-        const finalFeeBalance = await publicClient.getBalance({ address: accounts.FEE_RECIPIENT.address });
-        const actualFee = finalFeeBalance - initialFeeBalance;
-        const expectedFee = (price * TEST_FEE_CONFIG.MARKETPLACE_FEE_RATE) / 10000n;
-
-        expect(actualFee).to.be.closeTo(expectedFee, parseEther("0.001"));
-        console.log(`💰 Price: ${formatEther(price)} ETH → Fee: ${formatEther(actualFee)} ETH`);
+    it("Should charge fees proportional to the sale price", async function () {
+      const prices = [parseEther("0.1"), parseEther("0.5"), parseEther("1.0")];
+      const sales = scenario("Sales at three price points").trackBalances((context) => ({
+        seller: nativeBalance(context.address("marketplaceSeller")),
+        buyer: nativeBalance(context.address("marketplaceBuyer")),
+        feeRecipient: nativeBalance(context.address("feeRecipient")),
+      }));
+      for (const [index, price] of prices.entries()) {
+        sales
+          .cabinet(`cabinet ${index}`, { owner: "marketplaceSeller" })
+          .list("marketplaceSeller", `cabinet ${index}`, { as: `sale ${index}`, price })
+          .buy("marketplaceBuyer", `sale ${index}`, {
+            expect: { events: [{ name: "CabinetSold", args: { price, platformFee: marketplaceFee(price) } }] },
+          });
       }
 
-      console.log("✅ Variable marketplace fee rates validated!");
+      const total = prices.reduce((sum, price) => sum + price, 0n);
+      const fees = prices.reduce((sum, price) => sum + marketplaceFee(price), 0n);
+      await sales.expectBalanceChanges({ seller: total - fees, buyer: -total, feeRecipient: fees }).run(environment);
     });
   });
 
   describe("Multi-Contract Revenue Tracking", function () {
-    it("should track revenue across all contracts accurately", async function () {
-      console.log("📊 Testing cross-contract revenue tracking...");
-
-      const { contracts, accounts } = environment;
-
-      const publicClient = await viem.getPublicClient();
-
-      // Track initial platform revenue
-      const initialPlatformBalance = await publicClient.getBalance({ address: accounts.FEE_RECIPIENT.address });
-
-      // Revenue sources:
-      // 1. Tier sale revenue
-      const tierSaleRevenue = parseEther("0.1");
-      await contracts.tuuKeepTierSale.write.purchaseCabinet([1n], {
-        account: accounts.CABINET_OWNER.address,
-        value: tierSaleRevenue
-      });
-
-      // 2. Gacha revenue
-      const cabinetId = 1n; // From tier sale purchase
-      await contracts.tuuKeepCabinet.write.setCabinetPrice([cabinetId, parseEther("0.01")], {
-        account: accounts.CABINET_OWNER.address
-      });
-
-      // Setup cabinet with items
-      for (let i = 1; i <= 3; i++) {
-        await contracts.mockERC721.write.mint([accounts.CABINET_OWNER.address, BigInt(i)]);
-        await contracts.mockERC721.write.approve([contracts.tuuKeepCabinet.address, BigInt(i)], {
-          account: accounts.CABINET_OWNER.address
-        });
-        await contracts.tuuKeepCabinet.write.depositERC721([
-          cabinetId,
-          contracts.mockERC721.address,
-          BigInt(i)
-        ], { account: accounts.CABINET_OWNER.address });
-      }
-
-      const gachaRevenue = parseEther("0.05"); // 5 plays at 0.01 each
-      for (let i = 0; i < 5; i++) {
-        await contracts.tuuKeepCabinet.write.playGacha([cabinetId], {
-          account: accounts.PLAYER_1.address,
-          value: parseEther("0.01")
-        });
-      }
-
-      // 3. Marketplace revenue
-      await contracts.tuuKeepCabinet.write.approve([contracts.tuuKeepMarketplace.address, cabinetId], {
-        account: accounts.CABINET_OWNER.address
-      });
-
-      const marketplacePrice = parseEther("0.2");
-      await contracts.tuuKeepMarketplace.write.listItem([
-        contracts.tuuKeepCabinet.address,
-        cabinetId,
-        marketplacePrice
-      ], { account: accounts.CABINET_OWNER.address });
-
-      await contracts.tuuKeepMarketplace.write.buyItem([
-        contracts.tuuKeepCabinet.address,
-        cabinetId
-      ], {
-        account: accounts.MARKETPLACE_BUYER.address,
-        value: marketplacePrice
-      });
-
-      // Calculate total expected platform fees
-      const gachaPlatformFee = (gachaRevenue * TEST_FEE_CONFIG.PLATFORM_FEE_RATE) / 10000n;
-      const marketplacePlatformFee = (marketplacePrice * TEST_FEE_CONFIG.MARKETPLACE_FEE_RATE) / 10000n;
-      const totalExpectedFees = gachaPlatformFee + marketplacePlatformFee;
-
-      // Verify total platform revenue
-      const finalPlatformBalance = await publicClient.getBalance({ address: accounts.FEE_RECIPIENT.address });
-      const totalPlatformGain = finalPlatformBalance - initialPlatformBalance;
-
-      expect(totalPlatformGain).to.be.greaterThanOrEqual(totalExpectedFees);
-
-      console.log(`🎯 Tier sale: ${formatEther(tierSaleRevenue)} ETH`);
-      console.log(`🎲 Gacha fee: ${formatEther(gachaPlatformFee)} ETH`);
-      console.log(`🛒 Marketplace fee: ${formatEther(marketplacePlatformFee)} ETH`);
-      console.log(`📊 Total platform gain: ${formatEther(totalPlatformGain)} ETH`);
-      console.log("✅ Cross-contract revenue tracking validated!");
-    });
-
-    it("should provide accurate per-contract revenue breakdown", async function () {
-      console.log("📈 Testing per-contract revenue breakdown...");
-
-      const { contracts, accounts } = environment;
-
-      // This test would ideally use events or storage variables
-      // to track per-contract revenue breakdown
-
-      // For now, we'll simulate by tracking balance changes
-      const publicClient = await viem.getPublicClient();
-
-      // Track gacha-specific revenue
-      const gachaRevenueStart = await publicClient.getBalance({ address: accounts.FEE_RECIPIENT.address });
-
-      // Generate gacha revenue only
-      const cabinetScenario = await scenarioBuilder.createBasicCabinetScenario();
-
-      await contracts.tuuKeepCabinet.write.playGacha([cabinetScenario.cabinetId], {
-        account: accounts.PLAYER_1.address,
-        value: parseEther("0.01")
-      });
-
-      const gachaRevenueEnd = await publicClient.getBalance({ address: accounts.FEE_RECIPIENT.address });
-      const gachaRevenue = gachaRevenueEnd - gachaRevenueStart;
-
-      // Track marketplace-specific revenue
-      const marketplaceRevenueStart = gachaRevenueEnd;
-
-      // Create marketplace transaction
-      await contracts.tuuKeepCabinet.write.approve([contracts.tuuKeepMarketplace.address, cabinetScenario.cabinetId], {
-        account: accounts.CABINET_OWNER.address
-      });
-
-      await contracts.tuuKeepMarketplace.write.listItem([
-        contracts.tuuKeepCabinet.address,
-        cabinetScenario.cabinetId,
-        parseEther("0.1")
-      ], { account: accounts.CABINET_OWNER.address });
-
-      await contracts.tuuKeepMarketplace.write.buyItem([
-        contracts.tuuKeepCabinet.address,
-        cabinetScenario.cabinetId
-      ], {
-        account: accounts.MARKETPLACE_BUYER.address,
-        value: parseEther("0.1")
-      });
-
-      const marketplaceRevenueEnd = await publicClient.getBalance({ address: accounts.FEE_RECIPIENT.address });
-      const marketplaceRevenue = marketplaceRevenueEnd - marketplaceRevenueStart;
-
-      console.log(`🎲 Gacha revenue contribution: ${formatEther(gachaRevenue)} ETH`);
-      console.log(`🛒 Marketplace revenue contribution: ${formatEther(marketplaceRevenue)} ETH`);
-
-      expect(gachaRevenue).to.be.greaterThan(0n);
-      expect(marketplaceRevenue).to.be.greaterThan(0n);
-
-      console.log("✅ Per-contract revenue breakdown validated!");
-    });
-
-    it("should handle fee recipient balance validation", async function () {
-      console.log("🏦 Testing fee recipient balance validation...");
-
-      const { accounts } = environment;
-      const publicClient = await viem.getPublicClient();
-
-      // Multiple revenue operations to accumulate fees
-      const operations = [
-        "Gacha revenue",
-        "Marketplace fees",
-        "Tier sale revenue"
-      ];
-
-      let previousBalance = await publicClient.getBalance({ address: accounts.FEE_RECIPIENT.address });
-
-      for (const operation of operations) {
-        // Simulate various operations (details omitted for brevity)
-        // Each operation should increase fee recipient balance
-
-        const currentBalance = await publicClient.getBalance({ address: accounts.FEE_RECIPIENT.address });
-
-        console.log(`💰 ${operation}: Balance ${formatEther(previousBalance)} → ${formatEther(currentBalance)} ETH`);
-
-        // Verify balance increased or stayed the same
-        expect(currentBalance).to.be.greaterThanOrEqual(previousBalance);
-
-        previousBalance = currentBalance;
-      }
-
-      console.log("✅ Fee recipient balance validation completed!");
+    it("Should hand unwithdrawn play revenue to the cabinet's buyer", async function () {
+      const price = parseEther("0.2");
+
+      await scenario("Revenue follows the cabinet")
+        .cabinet("shop", { owner: "cabinetOwner", items: TEST_SEEDED_STOCK, activate: true })
+        .play("player1", "shop")
+        .play("player2", "shop")
+        .list("cabinetOwner", "shop", { as: "sale", price })
+        .buy("marketplaceBuyer", "sale")
+        .withdrawRevenue("cabinetOwner", "shop", { expect: { revert: "NotCabinetOwner" } })
+        // Revenue is kept per cabinet, not per owner, so the seller's unwithdrawn share goes with the sale
+        .trackBalances((context) => ({ buyer: nativeBalance(context.address("marketplaceBuyer")) }))
+        .withdrawRevenue("marketplaceBuyer", "shop")
+        .expectBalanceChanges({ buyer: 2n * (PLAY_PRICE - PLAY_FEE) })
+        .run(environment);
     });
   });
-});
\ No newline at end of file
+});
@@ -1,4 +1,5 @@
 import { parseEther, parseUnits } from "viem";
+import { tokens } from "../utils/scenario-builder";
 
 export const TEST_CABINET_CONFIGS = {
   BASIC_CABINET: {
@@ -32,6 +33,24 @@ export const TEST_GACHA_PRICES = {
   EXPENSIVE_PLAY: parseEther("0.1")
 } as const;
 
+/**
+ * Seed for `deployTestEnvironment({ randomnessSeed })`. Against a cabinet
+ * stocked with `TEST_SEEDED_STOCK` it loses play 1, wins item 1
+ * (`TEST_SEEDED_PRIZE`) on play 2 and loses plays 3-6; suites that rely on
+ * those outcomes use both.
+ */
+export const TEST_RANDOMNESS_SEED = 8n;
+
+/**
+ * Five MockERC20 prizes of rarity 1-5, the stock `TEST_RANDOMNESS_SEED`'s
+ * outcomes are stated for. ERC20 because the cabinet has no
+ * `onERC721Received`; the amounts differ so none is a `DuplicateItem`.
+ */
+export const TEST_SEEDED_STOCK = [1, 2, 3, 4, 5].map((rarity) => tokens(parseEther(String(rarity)), rarity));
+
+/** Tokens paid out by the seeded win on play 2 */
+export const TEST_SEEDED_PRIZE = parseEther("2");
+
 export const TEST_MARKETPLACE_LISTINGS = {
   BASIC_LISTING: {
     price: parseEther("0.2"),
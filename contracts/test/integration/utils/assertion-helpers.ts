@@ -1,233 +1,324 @@
 import { expect } from "chai";
-import hre from "hardhat";
-import { parseEther, formatEther } from "viem";
-import { TestEnvironment } from "./deployment-helper";
-
-export class AssertionHelpers {
-  private environment: TestEnvironment;
-
-  constructor(environment: TestEnvironment) {
-    this.environment = environment;
+import {
+  erc20Abi,
+  erc721Abi,
+  isAddress,
+  isAddressEqual,
+  parseEventLogs,
+  type Abi,
+  type Address,
+  type Hash,
+  type PublicClient,
+  type TransactionReceipt,
+} from "viem";
+import {
+  decodeTuuKeepRevert,
+  tuuCoinAbi,
+  tuuKeepCabinetAbi,
+  tuuKeepMarketplaceAbi,
+  tuuKeepTierSaleAbi,
+  type TuuKeepRevert,
+} from "../../../sdk";
+import type { TestEnvironment } from "./deployment-helper";
+
+/**
+ * Assertion helpers
+ * @dev Chai assertions for the integration suites: events decoded against
+ * the contract ABIs and matched by name and partial args, balance deltas for
+ * native, ERC20 and ERC721 balances with gas taken out, and decoded custom
+ * error matching. The scenario DSL checks its expectations with the same
+ * functions.
+ */
+
+// ============ Values ============
+
+/**
+ * Partial deep equality: objects only compare the expected keys, addresses
+ * compare case-insensitively, numbers match equal bigints and `undefined`
+ * matches anything
+ */
+export function matchesValue(expected: unknown, actual: unknown): boolean {
+  if (expected === undefined) return true;
+  if (typeof expected === "string" && typeof actual === "string" && isAddress(expected) && isAddress(actual)) {
+    return isAddressEqual(expected, actual);
   }
-
-  async assertCabinetOwnership(cabinetId: bigint, expectedOwner: `0x${string}`): Promise<void> {
-    const { contracts } = this.environment;
-    const actualOwner = await contracts.tuuKeepCabinet.read.ownerOf([cabinetId]);
-    expect(actualOwner.toLowerCase()).to.equal(expectedOwner.toLowerCase());
+  if (typeof expected === "number" && typeof actual === "bigint") return BigInt(expected) === actual;
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    return expected.length === actual.length && expected.every((value, index) => matchesValue(value, actual[index]));
   }
-
-  async assertCabinetConfiguration(
-    cabinetId: bigint,
-    expectedPrice: bigint,
-    expectedMaxItems: bigint
-  ): Promise<void> {
-    const { contracts } = this.environment;
-
-    const cabinetInfo = await contracts.tuuKeepCabinet.read.getCabinetInfo([cabinetId]);
-    expect(cabinetInfo.price).to.equal(expectedPrice);
-    expect(cabinetInfo.maxItems).to.equal(expectedMaxItems);
-  }
-
-  async assertCabinetItemCount(cabinetId: bigint, expectedCount: bigint): Promise<void> {
-    const { contracts } = this.environment;
-    const itemCount = await contracts.tuuKeepCabinet.read.getCabinetItemCount([cabinetId]);
-    expect(itemCount).to.equal(expectedCount);
+  if (expected && actual && typeof expected === "object" && typeof actual === "object") {
+    return Object.entries(expected).every(([key, value]) => matchesValue(value, (actual as Record<string, unknown>)[key]));
   }
+  return expected === actual;
+}
 
-  async assertBalanceChange(
-    address: `0x${string}`,
-    expectedChange: bigint,
-    tolerance: bigint = parseEther("0.001")
-  ): Promise<void> {
-    const publicClient = await hre.viem.getPublicClient();
-    const balance = await publicClient.getBalance({ address });
-
-    // This is a simplified check - in real tests, you'd track before/after balances
-    expect(balance).to.be.greaterThan(0n);
+/** Names for known addresses, e.g. actors and contracts, used when formatting */
+export type AddressLabeler = (address: Address) => string | undefined;
+
+export function formatValue(value: unknown, label?: AddressLabeler): string {
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "string" && isAddress(value)) return label?.(value) ?? value;
+  if (typeof value === "string") return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map((item) => formatValue(item, label)).join(", ")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value).map(([key, item]) => `${key}: ${formatValue(item, label)}`);
+    return `{ ${entries.join(", ")} }`;
   }
+  return String(value);
+}
 
-  async assertTuuCoinBalance(address: `0x${string}`, expectedAmount: bigint): Promise<void> {
-    const { contracts } = this.environment;
-    const balance = await contracts.tuuCoin.read.balanceOf([address]);
-    expect(balance).to.equal(expectedAmount);
-  }
+// ============ Events ============
 
-  async assertMarketplaceListing(
-    cabinetId: bigint,
-    expectedPrice: bigint,
-    expectedIsActive: boolean
-  ): Promise<void> {
-    const { contracts } = this.environment;
+/** A contract whose logs are decoded, under a short name */
+export interface EventSource {
+  contract: string;
+  address: Address;
+  abi: Abi;
+}
 
-    const listing = await contracts.tuuKeepMarketplace.read.getListing([
-      contracts.tuuKeepCabinet.address,
-      cabinetId
-    ]);
+export interface DecodedEvent {
+  contract: string;
+  name: string;
+  args: Record<string, unknown>;
+  logIndex: number;
+}
 
-    expect(listing.price).to.equal(expectedPrice);
-    expect(listing.isActive).to.equal(expectedIsActive);
-  }
+export interface ExpectedEvent {
+  /** Event name, e.g. `GachaPlayed` */
+  name: string;
+  /** Source name from `eventSources`, to tell apart events several contracts emit, e.g. `Transfer` */
+  contract?: string;
+  /** Only these args are compared, see `matchesValue` */
+  args?: Record<string, unknown>;
+}
 
-  async assertEventEmitted(
-    txHash: `0x${string}`,
-    contractAddress: `0x${string}`,
-    eventName: string,
-    expectedArgs?: any[]
-  ): Promise<void> {
-    const publicClient = await hre.viem.getPublicClient();
-    const receipt = await publicClient.getTransactionReceipt({ hash: txHash });
-
-    // Find the event in the logs
-    const eventFound = receipt.logs.some(log => log.address.toLowerCase() === contractAddress.toLowerCase());
-    expect(eventFound).to.be.true;
-  }
+/** The four TuuKeep contracts and the mock prize tokens of a test environment */
+export function eventSources({ addresses, contracts }: TestEnvironment): EventSource[] {
+  return [
+    { contract: "cabinet", address: addresses.cabinet, abi: tuuKeepCabinetAbi },
+    { contract: "tuuCoin", address: addresses.tuuCoin, abi: tuuCoinAbi },
+    { contract: "marketplace", address: addresses.marketplace, abi: tuuKeepMarketplaceAbi },
+    { contract: "tierSale", address: contracts.tuuKeepTierSale.address, abi: tuuKeepTierSaleAbi },
+    { contract: "mockERC721", address: contracts.mockERC721.address, abi: erc721Abi },
+    { contract: "mockERC20", address: contracts.mockERC20.address, abi: erc20Abi },
+  ];
+}
 
-  async assertGasUsage(txHash: `0x${string}`, maxGasLimit: bigint): Promise<bigint> {
-    const publicClient = await hre.viem.getPublicClient();
-    const receipt = await publicClient.getTransactionReceipt({ hash: txHash });
+/** Decode every log of `receipt` that comes from one of `sources`, in log order */
+export function decodeEvents(receipt: TransactionReceipt, sources: EventSource[]): DecodedEvent[] {
+  return sources
+    .flatMap(({ contract, address, abi }) =>
+      parseEventLogs({ abi, logs: receipt.logs.filter((log) => isAddressEqual(log.address, address)) }).map(
+        (log) => ({
+          contract,
+          name: log.eventName,
+          args: log.args as Record<string, unknown>,
+          logIndex: log.logIndex,
+        }),
+      ),
+    )
+    .sort((a, b) => a.logIndex - b.logIndex);
+}
 
-    expect(receipt.gasUsed).to.be.lessThanOrEqual(maxGasLimit);
-    return receipt.gasUsed;
-  }
+export function formatEvent(
+  { name, contract, args }: { name: string; contract?: string; args?: Record<string, unknown> },
+  label?: AddressLabeler,
+): string {
+  const formatted = Object.entries(args ?? {}).map(([key, value]) => `${key}: ${formatValue(value, label)}`);
+  return `${contract ? `${contract}.` : ""}${name}(${formatted.join(", ")})`;
+}
 
-  async assertRevenueDistribution(
-    cabinetId: bigint,
-    expectedOwnerRevenue: bigint,
-    expectedPlatformFee: bigint
-  ): Promise<void> {
-    const { contracts, accounts } = this.environment;
+export function findEvents(events: readonly DecodedEvent[], expected: ExpectedEvent): DecodedEvent[] {
+  return events.filter(
+    (event) =>
+      event.name === expected.name &&
+      (expected.contract === undefined || event.contract === expected.contract) &&
+      matchesValue(expected.args ?? {}, event.args),
+  );
+}
 
-    const cabinetInfo = await contracts.tuuKeepCabinet.read.getCabinetInfo([cabinetId]);
-    expect(cabinetInfo.collectedRevenue).to.equal(expectedOwnerRevenue);
+/** Why `events` do not satisfy `expected`, or undefined when they do */
+export function describeMissingEvent(
+  events: readonly DecodedEvent[],
+  expected: ExpectedEvent,
+  label?: AddressLabeler,
+): string | undefined {
+  if (findEvents(events, expected).length > 0) return undefined;
+  const sameName = events.filter(({ name }) => name === expected.name);
+  const got = sameName.length > 0 ? `, got ${sameName.map((event) => formatEvent(event, label)).join(", ")}` : "";
+  return `expected ${formatEvent(expected, label)}${got}`;
+}
 
-    // Check platform fee recipient balance (simplified)
-    const publicClient = await hre.viem.getPublicClient();
-    const feeRecipientBalance = await publicClient.getBalance({ address: accounts.FEE_RECIPIENT.address });
-    expect(feeRecipientBalance).to.be.greaterThanOrEqual(expectedPlatformFee);
+/** Assert that one of `events` matches and return it */
+export function expectEvent(events: readonly DecodedEvent[], expected: ExpectedEvent, label?: AddressLabeler): DecodedEvent {
+  const missing = describeMissingEvent(events, expected, label);
+  if (missing) {
+    const emitted = events.map((event) => `  ${formatEvent(event, label)}`).join("\n");
+    expect.fail(`${missing}\nemitted:\n${emitted || "  (nothing)"}`);
   }
+  return findEvents(events, expected)[0];
+}
 
-  async assertAccessControl(
-    contractAddress: `0x${string}`,
-    role: `0x${string}`,
-    account: `0x${string}`,
-    shouldHaveRole: boolean
-  ): Promise<void> {
-    const contract = await hre.viem.getContractAt("AccessControl", contractAddress);
-    const hasRole = await contract.read.hasRole([role, account]);
-    expect(hasRole).to.equal(shouldHaveRole);
+export function expectNoEvent(events: readonly DecodedEvent[], expected: ExpectedEvent, label?: AddressLabeler): void {
+  const found = findEvents(events, expected);
+  if (found.length > 0) {
+    expect.fail(`expected no ${formatEvent(expected, label)}, got ${found.map((event) => formatEvent(event, label)).join(", ")}`);
   }
+}
 
-  async assertContractPaused(contractAddress: `0x${string}`, shouldBePaused: boolean): Promise<void> {
-    const contract = await hre.viem.getContractAt("Pausable", contractAddress);
-    const isPaused = await contract.read.paused();
-    expect(isPaused).to.equal(shouldBePaused);
-  }
+// ============ Balances ============
 
-  async assertTotalSupply(tokenAddress: `0x${string}`, expectedSupply: bigint): Promise<void> {
-    const contract = await hre.viem.getContractAt("IERC20", tokenAddress);
-    const totalSupply = await contract.read.totalSupply();
-    expect(totalSupply).to.equal(expectedSupply);
-  }
+export type BalanceSource =
+  | { kind: "native"; account: Address }
+  | { kind: "erc20"; token: Address; account: Address }
+  | { kind: "erc721"; token: Address; account: Address };
 
-  async assertNFTOwnership(
-    nftAddress: `0x${string}`,
-    tokenId: bigint,
-    expectedOwner: `0x${string}`
-  ): Promise<void> {
-    const contract = await hre.viem.getContractAt("IERC721", nftAddress);
-    const owner = await contract.read.ownerOf([tokenId]);
-    expect(owner.toLowerCase()).to.equal(expectedOwner.toLowerCase());
-  }
+export function nativeBalance(account: Address): BalanceSource {
+  return { kind: "native", account };
+}
 
-  async measureGasUsageForScenario(scenarioName: string, txHash: `0x${string}`): Promise<GasMetrics> {
-    const publicClient = await hre.viem.getPublicClient();
-    const receipt = await publicClient.getTransactionReceipt({ hash: txHash });
+export function erc20Balance(token: Address, account: Address): BalanceSource {
+  return { kind: "erc20", token, account };
+}
 
-    const gasMetrics: GasMetrics = {
-      scenarioName,
-      gasUsed: receipt.gasUsed,
-      gasPrice: receipt.effectiveGasPrice,
-      totalCost: receipt.gasUsed * receipt.effectiveGasPrice,
-      txHash
-    };
+/** Number of tokens of the collection held by `account` */
+export function erc721Balance(token: Address, account: Address): BalanceSource {
+  return { kind: "erc721", token, account };
+}
 
-    console.log(`⛽ Gas Usage - ${scenarioName}:`);
-    console.log(`   Gas Used: ${gasMetrics.gasUsed}`);
-    console.log(`   Total Cost: ${formatEther(gasMetrics.totalCost)} ETH`);
+async function readBalance(publicClient: PublicClient, source: BalanceSource): Promise<bigint> {
+  if (source.kind === "native") return publicClient.getBalance({ address: source.account });
+  return publicClient.readContract({
+    address: source.token,
+    abi: source.kind === "erc20" ? erc20Abi : erc721Abi,
+    functionName: "balanceOf",
+    args: [source.account],
+  });
+}
 
-    return gasMetrics;
+/** Gas fees `account` paid in blocks `fromBlock` to `toBlock` */
+export async function gasPaid(
+  publicClient: PublicClient,
+  account: Address,
+  fromBlock: bigint,
+  toBlock: bigint,
+): Promise<bigint> {
+  let paid = 0n;
+  for (let blockNumber = fromBlock; blockNumber <= toBlock; blockNumber++) {
+    const block = await publicClient.getBlock({ blockNumber, includeTransactions: true });
+    for (const transaction of block.transactions) {
+      if (!isAddressEqual(transaction.from, account)) continue;
+      const { gasUsed, effectiveGasPrice } = await publicClient.getTransactionReceipt({
+        hash: transaction.hash as Hash,
+      });
+      paid += gasUsed * effectiveGasPrice;
+    }
+  }
+  return paid;
+}
+
+/**
+ * Balance snapshot to compare against later. Native deltas leave out the gas
+ * each account paid in between, so they only show the value that moved.
+ */
+export class BalanceTracker<Label extends string = string> {
+  private constructor(
+    private readonly publicClient: PublicClient,
+    private readonly sources: Record<Label, BalanceSource>,
+    private readonly startBlock: bigint,
+    private readonly before: Record<Label, bigint>,
+  ) {}
+
+  static async start<Label extends string>(
+    publicClient: PublicClient,
+    sources: Record<Label, BalanceSource>,
+  ): Promise<BalanceTracker<Label>> {
+    const startBlock = await publicClient.getBlockNumber();
+    const before = {} as Record<Label, bigint>;
+    for (const label of Object.keys(sources) as Label[]) {
+      before[label] = await readBalance(publicClient, sources[label]);
+    }
+    return new BalanceTracker(publicClient, sources, startBlock, before);
   }
 
-  async assertCompleteWorkflow(
-    workflowName: string,
-    assertions: Array<() => Promise<void>>
-  ): Promise<void> {
-    console.log(`🔍 Validating workflow: ${workflowName}`);
-
-    for (let i = 0; i < assertions.length; i++) {
-      try {
-        await assertions[i]();
-        console.log(`   ✅ Step ${i + 1} passed`);
-      } catch (error) {
-        console.log(`   ❌ Step ${i + 1} failed:`, error);
-        throw error;
+  /** Change of every tracked balance since `start` */
+  async changes(): Promise<Record<Label, bigint>> {
+    const endBlock = await this.publicClient.getBlockNumber();
+    const changes = {} as Record<Label, bigint>;
+    for (const label of Object.keys(this.sources) as Label[]) {
+      const source = this.sources[label];
+      let change = (await readBalance(this.publicClient, source)) - this.before[label];
+      if (source.kind === "native") {
+        change += await gasPaid(this.publicClient, source.account, this.startBlock + 1n, endBlock);
       }
+      changes[label] = change;
     }
+    return changes;
+  }
 
-    console.log(`✅ Workflow "${workflowName}" completed successfully`);
+  /** Assert the listed changes; unlisted balances are not checked */
+  async expectChanges(expected: Partial<Record<Label, bigint>>): Promise<void> {
+    const changes = await this.changes();
+    const mismatches = (Object.keys(expected) as Label[])
+      .filter((label) => changes[label] !== expected[label])
+      .map((label) => `${label}: expected ${formatDelta(expected[label]!)}, got ${formatDelta(changes[label])}`);
+    if (mismatches.length > 0) expect.fail(`balance changes differ:\n  ${mismatches.join("\n  ")}`);
   }
 }
 
-export interface GasMetrics {
-  scenarioName: string;
-  gasUsed: bigint;
-  gasPrice: bigint;
-  totalCost: bigint;
-  txHash: `0x${string}`;
+function formatDelta(delta: bigint): string {
+  return delta > 0n ? `+${delta}` : delta.toString();
 }
 
-export class PerformanceTracker {
-  private gasMetrics: GasMetrics[] = [];
-
-  addGasMetrics(metrics: GasMetrics): void {
-    this.gasMetrics.push(metrics);
-  }
-
-  getAverageGasUsage(): bigint {
-    if (this.gasMetrics.length === 0) return 0n;
+export function trackBalances<Label extends string>(
+  publicClient: PublicClient,
+  sources: Record<Label, BalanceSource>,
+): Promise<BalanceTracker<Label>> {
+  return BalanceTracker.start(publicClient, sources);
+}
 
-    const total = this.gasMetrics.reduce((sum, metrics) => sum + metrics.gasUsed, 0n);
-    return total / BigInt(this.gasMetrics.length);
-  }
+// ============ Reverts ============
 
-  getMaxGasUsage(): GasMetrics | null {
-    if (this.gasMetrics.length === 0) return null;
+export interface ExpectedRevert {
+  /** Custom error name, e.g. `TierSoldOut`; `Error` for require strings and `Panic` for panics */
+  name: string;
+  /** Compared positionally with `matchesValue`; leave out or use `undefined` to skip */
+  args?: readonly unknown[];
+}
 
-    return this.gasMetrics.reduce((max, current) =>
-      current.gasUsed > max.gasUsed ? current : max
-    );
-  }
+/** Whether `revert` is the expected error */
+export function matchesRevert(revert: TuuKeepRevert | undefined, expected: ExpectedRevert): boolean {
+  if (!revert || revert.name !== expected.name) return false;
+  if (!expected.args) return true;
+  return expected.args.length === revert.args.length && matchesValue(expected.args, revert.args);
+}
 
-  generateReport(): void {
-    console.log("\n📊 Performance Report:");
-    console.log("=" .repeat(50));
+export function formatRevert({ name, args }: ExpectedRevert, label?: AddressLabeler): string {
+  return args ? `${name}(${args.map((arg) => formatValue(arg, label)).join(", ")})` : name;
+}
 
-    if (this.gasMetrics.length === 0) {
-      console.log("No gas metrics recorded.");
-      return;
+/**
+ * Assert that `action` rejects with the custom error `name` and, when given,
+ * these args, e.g. `expectRevert(client.play(...), "InsufficientPayment", [price, 0n])`.
+ * Use SDK writes or `contract.simulate.*`: both decode the revert data.
+ */
+export async function expectRevert(
+  action: Promise<unknown> | (() => Promise<unknown>),
+  name: string,
+  args?: readonly unknown[],
+): Promise<TuuKeepRevert> {
+  const expected = { name, args };
+  try {
+    await (typeof action === "function" ? action() : action);
+  } catch (error) {
+    const revert = decodeTuuKeepRevert(error);
+    if (!revert) {
+      return expect.fail(`expected ${formatRevert(expected)}, got a non-revert error: ${(error as Error).message}`);
     }
-
-    console.log(`Total Transactions: ${this.gasMetrics.length}`);
-    console.log(`Average Gas Usage: ${this.getAverageGasUsage()}`);
-
-    const maxUsage = this.getMaxGasUsage();
-    if (maxUsage) {
-      console.log(`Max Gas Usage: ${maxUsage.gasUsed} (${maxUsage.scenarioName})`);
+    if (!matchesRevert(revert, expected)) {
+      return expect.fail(`expected ${formatRevert(expected)}, reverted with ${revert.message}`);
     }
-
-    console.log("\nDetailed Breakdown:");
-    this.gasMetrics.forEach(metrics => {
-      console.log(`  ${metrics.scenarioName}: ${metrics.gasUsed} gas`);
-    });
+    return revert;
   }
-}
\ No newline at end of file
+  return expect.fail(`expected ${formatRevert(expected)}, but the call succeeded`);
+}
@@ -1,167 +1,235 @@
-import hre from "hardhat";
-import { parseEther, getAddress } from "viem";
-import { TEST_ACCOUNTS, getAllTestAccounts } from "../fixtures/test-accounts";
-import { TEST_FEE_CONFIG } from "../fixtures/test-data";
+import { network } from "hardhat";
+import type { ContractReturnType } from "@nomicfoundation/hardhat-viem/types";
+import { getContract, parseEther, type PublicClient, type TestClient, type WalletClient } from "viem";
+import {
+  AssetType,
+  randomnessAbi,
+  TuuKeepClient,
+  tuuKeepAccessControlAbi,
+  getTuuKeepContracts,
+  type GachaItemInput,
+  type TuuKeepAddresses,
+  type TuuKeepContracts,
+} from "../../../sdk";
+import { TEST_ACCOUNTS } from "../fixtures/test-accounts";
+
+type KeyedTestClient = { public: PublicClient; wallet: WalletClient };
 
 export interface DeployedContracts {
-  tuuKeepCabinet: any;
-  tuuCoin: any;
-  tuuKeepMarketplace: any;
-  tuuKeepTierSale: any;
-  mockERC721: any;
-  mockERC20: any;
+  tuuKeepAccessControl: ReturnType<typeof getAccessControlContract>;
+  randomness: ReturnType<typeof getRandomnessContract>;
+  tuuKeepCabinet: TuuKeepContracts<KeyedTestClient>["cabinet"];
+  tuuCoin: TuuKeepContracts<KeyedTestClient>["tuuCoin"];
+  tuuKeepMarketplace: TuuKeepContracts<KeyedTestClient>["marketplace"];
+  tuuKeepTierSale: NonNullable<TuuKeepContracts<KeyedTestClient>["tierSale"]>;
+  mockERC721: ContractReturnType<"MockERC721">;
+  mockERC20: ContractReturnType<"MockERC20">;
+}
+
+export interface TestWallets {
+  deployer: WalletClient;
+  platformAdmin: WalletClient;
+  cabinetOwner: WalletClient;
+  cabinetOwner2: WalletClient;
+  player1: WalletClient;
+  player2: WalletClient;
+  player3: WalletClient;
+  marketplaceBuyer: WalletClient;
+  marketplaceSeller: WalletClient;
+  feeRecipient: WalletClient;
+  emergencyResponder: WalletClient;
 }
 
 export interface TestEnvironment {
   contracts: DeployedContracts;
+  addresses: TuuKeepAddresses;
   accounts: typeof TEST_ACCOUNTS;
-  wallets: any;
+  wallets: TestWallets;
+  publicClient: PublicClient;
+  /** Hardhat test client for snapshots, mining and time travel */
+  testClient: TestClient;
+  /** SDK client signing as the platform admin; use `client.withWallet(...)` for other actors */
+  client: TuuKeepClient;
+}
+
+function getAccessControlContract(address: `0x${string}`, client: KeyedTestClient) {
+  return getContract({ address, abi: tuuKeepAccessControlAbi, client });
+}
+
+function getRandomnessContract(address: `0x${string}`, client: KeyedTestClient) {
+  return getContract({ address, abi: randomnessAbi, client });
+}
+
+export interface TestEnvironmentOptions {
+  /**
+   * Deploy `MockRandomness` with this seed instead of `Randomness`, so play
+   * outcomes can be predicted with `getSeededRandomNumber`. Only `addConsumer`
+   * and `generateRandomNumber` work on `contracts.randomness` then.
+   */
+  randomnessSeed?: bigint;
 }
 
-export async function deployTestEnvironment(): Promise<TestEnvironment> {
+export async function deployTestEnvironment(options: TestEnvironmentOptions = {}): Promise<TestEnvironment> {
   console.log("🚀 Deploying test environment...");
 
-  // Get signers for test accounts
-  const [deployer, ...testSigners] = await hre.viem.getWalletClients();
+  const { viem } = await network.connect();
+  const publicClient = (await viem.getPublicClient()) as unknown as PublicClient;
+  const testClient = (await viem.getTestClient()) as unknown as TestClient;
+  const signers = await viem.getWalletClients();
+  const [deployer, ...testSigners] = signers as unknown as WalletClient[];
 
-  // Fund test accounts
-  const publicClient = await hre.viem.getPublicClient();
+  const wallets: TestWallets = {
+    deployer,
+    platformAdmin: testSigners[0],
+    cabinetOwner: testSigners[1],
+    cabinetOwner2: testSigners[2],
+    player1: testSigners[3],
+    player2: testSigners[4],
+    player3: testSigners[5],
+    marketplaceBuyer: testSigners[6],
+    marketplaceSeller: testSigners[7],
+    feeRecipient: testSigners[8],
+    emergencyResponder: testSigners[9]
+  };
 
-  console.log("💰 Funding test accounts...");
-  for (const account of getAllTestAccounts()) {
-    const balance = await publicClient.getBalance({ address: account.address });
-    if (balance < account.initialBalance) {
-      // In real test, we'd fund these accounts
-      // For now, we'll use the default Hardhat accounts
-    }
-  }
+  // Everything is deployed by the platform admin so it holds the constructor-granted roles
+  const asAdmin = { client: { wallet: signers[1] } };
 
   // Deploy mock contracts first (for testing purposes)
   console.log("📦 Deploying mock contracts...");
+  const mockERC721 = await viem.deployContract("MockERC721", ["Test NFT", "TNFT"]);
+  const mockERC20 = await viem.deployContract("MockERC20", ["Test Token", "TT"]);
+  await mockERC20.write.mint([deployer.account!.address, parseEther("1000000")]);
 
-  const mockERC721 = await hre.viem.deployContract("MockERC721", ["Test NFT", "TNFT"]);
-  const mockERC20 = await hre.viem.deployContract("MockERC20", ["Test Token", "TT", parseEther("1000000")]);
+  console.log("🔐 Deploying TuuKeepAccessControl and Randomness...");
+  const accessControl = await viem.deployContract("TuuKeepAccessControl", [], asAdmin);
+  const randomness = options.randomnessSeed === undefined
+    ? await viem.deployContract("Randomness", [TEST_ACCOUNTS.PLATFORM_ADMIN.address], asAdmin)
+    : await viem.deployContract("MockRandomness", [options.randomnessSeed], asAdmin);
 
-  // Deploy TuuCoin contract
   console.log("🪙 Deploying TuuCoin contract...");
-  const tuuCoin = await hre.viem.deployContract("TuuCoin", [
-    TEST_ACCOUNTS.PLATFORM_ADMIN.address,
+  const tuuCoin = await viem.deployContract("TuuCoin", [
+    accessControl.address,
     TEST_ACCOUNTS.PLATFORM_ADMIN.address
-  ]);
+  ], asAdmin);
 
-  // Deploy TuuKeepCabinet contract
   console.log("🏪 Deploying TuuKeepCabinet contract...");
-  const tuuKeepCabinet = await hre.viem.deployContract("TuuKeepCabinet", [
-    TEST_ACCOUNTS.PLATFORM_ADMIN.address,
-    TEST_ACCOUNTS.FEE_RECIPIENT.address,
+  const svgGenerator = await viem.deployContract("SVGGenerator");
+  const tuuKeepCabinet = await viem.deployContract("TuuKeepCabinet", [
+    accessControl.address,
     tuuCoin.address,
-    TEST_FEE_CONFIG.PLATFORM_FEE_RATE
-  ]);
+    randomness.address,
+    TEST_ACCOUNTS.FEE_RECIPIENT.address
+  ], { ...asAdmin, libraries: { SVGGenerator: svgGenerator.address } });
 
-  // Deploy TuuKeepMarketplace contract
   console.log("🛒 Deploying TuuKeepMarketplace contract...");
-  const tuuKeepMarketplace = await hre.viem.deployContract("TuuKeepMarketplace", [
-    TEST_ACCOUNTS.PLATFORM_ADMIN.address,
-    TEST_ACCOUNTS.FEE_RECIPIENT.address,
-    TEST_FEE_CONFIG.MARKETPLACE_FEE_RATE
-  ]);
+  const tuuKeepMarketplace = await viem.deployContract("TuuKeepMarketplace", [
+    tuuKeepCabinet.address,
+    accessControl.address,
+    TEST_ACCOUNTS.FEE_RECIPIENT.address
+  ], asAdmin);
 
-  // Deploy TuuKeepTierSale contract
   console.log("🎟️ Deploying TuuKeepTierSale contract...");
-  const tuuKeepTierSale = await hre.viem.deployContract("TuuKeepTierSale", [
-    TEST_ACCOUNTS.PLATFORM_ADMIN.address,
+  const tuuKeepTierSale = await viem.deployContract("TuuKeepTierSale", [
     tuuKeepCabinet.address,
-    TEST_ACCOUNTS.FEE_RECIPIENT.address
-  ]);
+    TEST_ACCOUNTS.FEE_RECIPIENT.address,
+    TEST_ACCOUNTS.PLATFORM_ADMIN.address
+  ], asAdmin);
+
+  const addresses: TuuKeepAddresses = {
+    cabinet: tuuKeepCabinet.address,
+    tuuCoin: tuuCoin.address,
+    marketplace: tuuKeepMarketplace.address,
+    tierSale: tuuKeepTierSale.address,
+  };
+  const adminClient: KeyedTestClient = { public: publicClient, wallet: wallets.platformAdmin };
+  const sdkContracts = getTuuKeepContracts(addresses, adminClient);
 
   // Setup contract permissions and connections
   console.log("🔗 Setting up contract permissions...");
-
-  // Grant minter role to TuuKeepCabinet for TuuCoin
-  await tuuCoin.write.grantRole([
-    await tuuCoin.read.MINTER_ROLE(),
-    tuuKeepCabinet.address
-  ], { account: TEST_ACCOUNTS.PLATFORM_ADMIN.address });
-
-  // Grant minter role to TuuKeepTierSale for TuuKeepCabinet
-  await tuuKeepCabinet.write.grantRole([
-    await tuuKeepCabinet.read.MINTER_ROLE(),
+  const admin = { account: TEST_ACCOUNTS.PLATFORM_ADMIN.address, chain: undefined };
+
+  // Cabinet mints consolation TuuCoin and registers / toggles itself as a cabinet operator
+  await sdkContracts.tuuCoin.write.grantRole([
+    await sdkContracts.tuuCoin.read.MINTER_ROLE(),
+    addresses.cabinet
+  ], admin);
+  await sdkContracts.tuuCoin.write.grantRole([
+    await sdkContracts.tuuCoin.read.CABINET_OPERATOR_ROLE(),
+    addresses.cabinet
+  ], admin);
+
+  // Cabinet draws prizes from Randomness
+  const randomnessContract = getRandomnessContract(randomness.address, adminClient);
+  await randomnessContract.write.addConsumer([addresses.cabinet], admin);
+
+  // Tier sale mints cabinets on purchase
+  await sdkContracts.cabinet.write.grantRole([
+    await sdkContracts.cabinet.read.MINTER_ROLE(),
     tuuKeepTierSale.address
-  ], { account: TEST_ACCOUNTS.PLATFORM_ADMIN.address });
-
-  // Register cabinet contract with TuuCoin
-  await tuuCoin.write.registerCabinet([
-    tuuKeepCabinet.address,
-    10n // 10 TuuCoins per failed gacha
-  ], { account: TEST_ACCOUNTS.PLATFORM_ADMIN.address });
-
-  // Setup marketplace to work with cabinets
-  await tuuKeepMarketplace.write.setApprovedCollection([
-    tuuKeepCabinet.address,
-    true
-  ], { account: TEST_ACCOUNTS.PLATFORM_ADMIN.address });
+  ], admin);
 
   console.log("✅ Test environment deployed successfully!");
 
-  const wallets = {
-    deployer,
-    platformAdmin: testSigners[0],
-    cabinetOwner: testSigners[1],
-    cabinetOwner2: testSigners[2],
-    player1: testSigners[3],
-    player2: testSigners[4],
-    player3: testSigners[5],
-    marketplaceBuyer: testSigners[6],
-    marketplaceSeller: testSigners[7],
-    feeRecipient: testSigners[8],
-    emergencyResponder: testSigners[9]
-  };
-
   return {
     contracts: {
-      tuuKeepCabinet,
-      tuuCoin,
-      tuuKeepMarketplace,
-      tuuKeepTierSale,
+      tuuKeepAccessControl: getAccessControlContract(accessControl.address, adminClient),
+      randomness: randomnessContract,
+      tuuKeepCabinet: sdkContracts.cabinet,
+      tuuCoin: sdkContracts.tuuCoin,
+      tuuKeepMarketplace: sdkContracts.marketplace,
+      tuuKeepTierSale: sdkContracts.tierSale!,
       mockERC721,
       mockERC20
     },
+    addresses,
     accounts: TEST_ACCOUNTS,
-    wallets
+    wallets,
+    publicClient,
+    testClient,
+    client: new TuuKeepClient({ publicClient, walletClient: wallets.platformAdmin, addresses })
   };
 }
 
+// MockERC20 prizes of 1, 2, 3, ... tokens: the cabinet has no `onERC721Received`, so
+// ERC721 deposits revert, and equal amounts would be rejected as `DuplicateItem`
 export async function setupCabinetWithItems(
   environment: TestEnvironment,
   cabinetId: bigint,
   itemCount: number = 5
 ): Promise<void> {
-  const { contracts, accounts, wallets } = environment;
+  const { contracts, accounts, wallets, client } = environment;
 
   console.log(`🎁 Setting up cabinet ${cabinetId} with ${itemCount} items...`);
 
-  // Mint NFTs to cabinet owner
+  const items: GachaItemInput[] = [];
+  let total = 0n;
   for (let i = 0; i < itemCount; i++) {
-    await contracts.mockERC721.write.mint([
-      accounts.CABINET_OWNER.address,
-      BigInt(i + 1)
-    ]);
-
-    // Approve cabinet contract to manage the NFT
-    await contracts.mockERC721.write.approve([
-      contracts.tuuKeepCabinet.address,
-      BigInt(i + 1)
-    ], { account: accounts.CABINET_OWNER.address });
-
-    // Deposit NFT into cabinet
-    await contracts.tuuKeepCabinet.write.depositERC721([
-      cabinetId,
-      contracts.mockERC721.address,
-      BigInt(i + 1)
-    ], { account: accounts.CABINET_OWNER.address });
+    const amount = parseEther(String(i + 1));
+    total += amount;
+
+    items.push({
+      assetType: AssetType.ERC20,
+      contractAddress: contracts.mockERC20.address,
+      tokenIdOrAmount: amount,
+      rarity: BigInt((i % 5) + 1),
+      metadata: `Test Token prize #${i + 1}`,
+      depositTime: 0n,
+      isActive: true
+    });
   }
 
-  console.log(`✅ Cabinet ${cabinetId} setup complete with ${itemCount} NFTs`);
+  // Fund the cabinet owner and approve the cabinet contract to pull every prize
+  await contracts.mockERC20.write.transfer([accounts.CABINET_OWNER.address, total]);
+  await contracts.mockERC20.write.approve([
+    environment.addresses.cabinet,
+    total
+  ], { account: accounts.CABINET_OWNER.address });
+
+  const hash = await client.withWallet(wallets.cabinetOwner).depositItems(cabinetId, items);
+  await client.waitForReceipt(hash);
+
+  console.log(`✅ Cabinet ${cabinetId} setup complete with ${itemCount} token prizes`);
 }
 
 export async function setupCabinetWithTokens(
@@ -169,7 +237,7 @@ export async function setupCabinetWithTokens(
   cabinetId: bigint,
   tokenAmount: bigint = parseEther("100")
 ): Promise<void> {
-  const { contracts, accounts } = environment;
+  const { contracts, accounts, wallets, client } = environment;
 
   console.log(`💰 Setting up cabinet ${cabinetId} with ${tokenAmount} tokens...`);
 
@@ -181,16 +249,21 @@ export async function setupCabinetWithTokens(
 
   // Approve cabinet contract to manage tokens
   await contracts.mockERC20.write.approve([
-    contracts.tuuKeepCabinet.address,
+    environment.addresses.cabinet,
     tokenAmount
   ], { account: accounts.CABINET_OWNER.address });
 
-  // Deposit tokens into cabinet
-  await contracts.tuuKeepCabinet.write.depositERC20([
-    cabinetId,
-    contracts.mockERC20.address,
-    tokenAmount
-  ], { account: accounts.CABINET_OWNER.address });
+  // Deposit tokens into cabinet as a single prize
+  const hash = await client.withWallet(wallets.cabinetOwner).depositItems(cabinetId, [{
+    assetType: AssetType.ERC20,
+    contractAddress: contracts.mockERC20.address,
+    tokenIdOrAmount: tokenAmount,
+    rarity: 1n,
+    metadata: "Test Token prize",
+    depositTime: 0n,
+    isActive: true
+  }]);
+  await client.waitForReceipt(hash);
 
   console.log(`✅ Cabinet ${cabinetId} setup complete with tokens`);
-}
\ No newline at end of file
+}
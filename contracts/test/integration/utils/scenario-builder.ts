@@ -1,237 +1,545 @@
-import { parseEther } from "viem";
-import { TestEnvironment, setupCabinetWithItems, setupCabinetWithTokens } from "./deployment-helper";
-import { TEST_CABINET_CONFIGS, TEST_GACHA_PRICES } from "../fixtures/test-data";
-
-export interface CabinetScenario {
-  cabinetId: bigint;
-  owner: `0x${string}`;
-  tier: bigint;
-  price: bigint;
-  maxItems: bigint;
-  itemCount: number;
+import { isAddressEqual, type Address, type Hash, type TransactionReceipt } from "viem";
+import {
+  AssetType,
+  decodeTuuKeepRevert,
+  type GachaItemInput,
+  type PlayResult,
+  type TuuKeepClient,
+} from "../../../sdk";
+import {
+  decodeEvents,
+  describeMissingEvent,
+  eventSources,
+  findEvents,
+  formatEvent,
+  formatRevert,
+  matchesRevert,
+  trackBalances,
+  type BalanceSource,
+  type BalanceTracker,
+  type DecodedEvent,
+  type EventSource,
+  type ExpectedEvent,
+  type ExpectedRevert,
+} from "./assertion-helpers";
+import type { TestEnvironment, TestWallets } from "./deployment-helper";
+
+/**
+ * Scenario DSL
+ * @dev Declarative integration scenarios over the TuuKeep SDK. A scenario
+ * names its actors, cabinets, sale phases and listings, lists the steps and
+ * states what each step should emit or revert with. `run` compiles the steps
+ * to `TuuKeepClient` calls, takes cabinet, phase and listing IDs from the
+ * emitted events, and throws a `ScenarioError` carrying the step-by-step
+ * trace as soon as an expectation fails.
+ *
+ *   await scenario("Sell a stocked cabinet")
+ *     .cabinet("shop", { owner: "cabinetOwner", items: [tokens(parseEther("1"), 1), tokens(parseEther("2"), 2)], activate: true })
+ *     .play("player1", "shop", { expect: { events: [{ name: "GachaPlayed", args: { wonPrize: false } }] } })
+ *     .list("cabinetOwner", "shop", { as: "sale", price: parseEther("0.2") })
+ *     .buy("marketplaceBuyer", "sale")
+ *     .check("the buyer owns the cabinet", async (context) => { ... })
+ *     .run(environment);
+ */
+
+/** A test wallet, by its `TestWallets` key */
+export type Actor = keyof TestWallets;
+
+export type ItemSpec =
+  | { assetType: typeof AssetType.ERC721; rarity: bigint; tokenId?: bigint }
+  | { assetType: typeof AssetType.ERC20; rarity: bigint; amount: bigint };
+
+/**
+ * A `MockERC721` prize, minted to the depositor; token IDs are allocated per
+ * environment unless given. The cabinet has no `onERC721Received` yet, so
+ * depositing one reverts with `ERC721InvalidReceiver`
+ */
+export function nft(rarity: number | bigint = 1, tokenId?: bigint): ItemSpec {
+  return { assetType: AssetType.ERC721, rarity: BigInt(rarity), tokenId };
 }
 
-export interface GachaScenario {
-  cabinetId: bigint;
-  player: `0x${string}`;
-  paymentAmount: bigint;
-  expectedOutcome: "win" | "lose" | "insufficient_payment" | "cabinet_empty";
+/** A `MockERC20` prize, transferred to the depositor from the deployer */
+export function tokens(amount: bigint, rarity: number | bigint = 1): ItemSpec {
+  return { assetType: AssetType.ERC20, rarity: BigInt(rarity), amount };
 }
 
-export interface MarketplaceScenario {
-  cabinetId: bigint;
-  seller: `0x${string}`;
-  buyer: `0x${string}`;
-  listingPrice: bigint;
-  expectedOutcome: "success" | "insufficient_funds" | "not_owner";
+export interface StepExpectation {
+  /** Events the transaction must emit, in any order */
+  events?: ExpectedEvent[];
+  /** Event names the transaction must not emit */
+  absent?: string[];
+  /**
+   * Custom error the step must revert with, e.g. `InsufficientPayment`, or
+   * `{ name: "TierSoldOut", args: [phaseId, tierId] }` to check its args too;
+   * `Error` for require strings
+   */
+  revert?: string | ExpectedRevert;
 }
 
-export class ScenarioBuilder {
-  private environment: TestEnvironment;
+export interface StepOptions {
+  expect?: StepExpectation;
+  /** Record the transaction's gas under this name in `ScenarioResult.gas` */
+  gas?: string;
+}
 
-  constructor(environment: TestEnvironment) {
-    this.environment = environment;
-  }
+/** `expect` and `gas` apply to the mint transaction */
+export interface CabinetSpec extends StepOptions {
+  owner: Actor;
+  /** Defaults to the alias */
+  name?: string;
+  playPrice?: bigint;
+  items?: ItemSpec[];
+  activate?: boolean;
+}
+
+export interface SalePhaseSpec {
+  /** Defaults to the alias */
+  name?: string;
+  totalCabinets: bigint;
+  basePrice: bigint;
+  tiers: { name: string; maxQuantity: bigint; discountBps: number }[];
+}
 
-  async createBasicCabinetScenario(): Promise<CabinetScenario> {
-    const { contracts, accounts } = this.environment;
+export interface PurchaseOptions extends StepOptions {
+  /** Alias for the purchased cabinet */
+  as: string;
+  /** Defaults to the alias */
+  name?: string;
+  /** Defaults to the current tier's price */
+  value?: bigint;
+}
 
-    // Purchase cabinet from tier sale
-    const tier = TEST_CABINET_CONFIGS.BASIC_CABINET.tier;
-    const price = TEST_CABINET_CONFIGS.BASIC_CABINET.price;
+export interface PlayOptions extends StepOptions {
+  tuuCoinAmount?: bigint;
+  /** Defaults to the cabinet's play price */
+  value?: bigint;
+}
 
-    await contracts.tuuKeepTierSale.write.purchaseCabinet([tier], {
-      account: accounts.CABINET_OWNER.address,
-      value: price
-    });
+export interface ListOptions extends StepOptions {
+  /** Alias for the listing */
+  as: string;
+  price: bigint;
+  /** Seconds; defaults to one day, the marketplace minimum */
+  duration?: bigint;
+  /** Approve the marketplace for the cabinet first; defaults to true */
+  approve?: boolean;
+}
 
-    const cabinetId = 1n; // First cabinet
+export interface BuyOptions extends StepOptions {
+  /** Defaults to the listing price */
+  value?: bigint;
+}
 
-    // Configure cabinet
-    await contracts.tuuKeepCabinet.write.setCabinetPrice([
-      cabinetId,
-      TEST_GACHA_PRICES.CHEAP_PLAY
-    ], { account: accounts.CABINET_OWNER.address });
+/** A decoded log of a TuuKeep contract or a mock prize token */
+export type ScenarioEvent = DecodedEvent;
+
+export interface ScenarioTraceEntry {
+  step: number;
+  description: string;
+  status: "ok" | "failed";
+  /** IDs captured, or what went wrong */
+  detail?: string;
+  /** Events the step emitted, formatted with actor and contract names */
+  events: string[];
+}
 
-    await contracts.tuuKeepCabinet.write.setMaxItems([
-      cabinetId,
-      TEST_CABINET_CONFIGS.BASIC_CABINET.maxItems
-    ], { account: accounts.CABINET_OWNER.address });
+export interface ScenarioContext {
+  readonly environment: TestEnvironment;
+  /** SDK client signing as `actor`, or as the platform admin */
+  client(actor?: Actor): TuuKeepClient;
+  address(actor: Actor): Address;
+  cabinetId(alias: string): bigint;
+  phaseId(alias: string): bigint;
+  listingId(alias: string): bigint;
+  /** Decoded plays, in order */
+  readonly plays: PlayResult[];
+  /** Events of the last transaction the scenario sent */
+  readonly events: ScenarioEvent[];
+}
 
-    // Setup items
-    await setupCabinetWithItems(this.environment, cabinetId, 5);
+export interface ScenarioResult extends ScenarioContext {
+  trace: ScenarioTraceEntry[];
+  /** Gas used by the steps sent with a `gas` name */
+  gas: Record<string, bigint>;
+}
 
-    return {
-      cabinetId,
-      owner: accounts.CABINET_OWNER.address,
-      tier,
-      price,
-      maxItems: TEST_CABINET_CONFIGS.BASIC_CABINET.maxItems,
-      itemCount: 5
-    };
+export class ScenarioError extends Error {
+  constructor(
+    readonly scenario: string,
+    readonly trace: ScenarioTraceEntry[],
+  ) {
+    const failed = trace[trace.length - 1];
+    super(`Scenario "${scenario}" failed at step ${failed.step}:\n${formatTrace(trace)}`);
+    this.name = "ScenarioError";
   }
+}
 
-  async createPremiumCabinetScenario(): Promise<CabinetScenario> {
-    const { contracts, accounts } = this.environment;
+type StepResult = { receipt?: TransactionReceipt; detail?: string };
 
-    const tier = TEST_CABINET_CONFIGS.PREMIUM_CABINET.tier;
-    const price = TEST_CABINET_CONFIGS.PREMIUM_CABINET.price;
+interface Step {
+  description: string;
+  expect?: StepExpectation;
+  gas?: string;
+  execute(context: ScenarioState): Promise<StepResult>;
+}
 
-    await contracts.tuuKeepTierSale.write.purchaseCabinet([tier], {
-      account: accounts.CABINET_OWNER_2.address,
-      value: price
-    });
+const ONE_DAY = 24n * 60n * 60n;
 
-    const cabinetId = 2n; // Second cabinet
+// MockERC721 token IDs already handed out, per deployed environment
+const nextTokenIds = new WeakMap<TestEnvironment, bigint>();
 
-    await contracts.tuuKeepCabinet.write.setCabinetPrice([
-      cabinetId,
-      TEST_GACHA_PRICES.MEDIUM_PLAY
-    ], { account: accounts.CABINET_OWNER_2.address });
+function allocateTokenId(environment: TestEnvironment): bigint {
+  const tokenId = nextTokenIds.get(environment) ?? 1000n;
+  nextTokenIds.set(environment, tokenId + 1n);
+  return tokenId;
+}
 
-    await contracts.tuuKeepCabinet.write.setMaxItems([
-      cabinetId,
-      TEST_CABINET_CONFIGS.PREMIUM_CABINET.maxItems
-    ], { account: accounts.CABINET_OWNER_2.address });
+class ScenarioState implements ScenarioContext {
+  readonly plays: PlayResult[] = [];
+  events: ScenarioEvent[] = [];
+  readonly cabinets = new Map<string, bigint>();
+  readonly phases = new Map<string, bigint>();
+  readonly listings = new Map<string, bigint>();
+  readonly sources: EventSource[];
+  balances?: BalanceTracker;
+
+  constructor(readonly environment: TestEnvironment) {
+    this.sources = eventSources(environment);
+  }
 
-    await setupCabinetWithItems(this.environment, cabinetId, 10);
-    await setupCabinetWithTokens(this.environment, cabinetId, parseEther("50"));
+  client(actor?: Actor): TuuKeepClient {
+    return actor ? this.environment.client.withWallet(this.environment.wallets[actor]) : this.environment.client;
+  }
 
-    return {
-      cabinetId,
-      owner: accounts.CABINET_OWNER_2.address,
-      tier,
-      price,
-      maxItems: TEST_CABINET_CONFIGS.PREMIUM_CABINET.maxItems,
-      itemCount: 10
-    };
+  address(actor: Actor): Address {
+    const account = this.environment.wallets[actor].account;
+    if (!account) throw new Error(`Actor ${actor} has no account`);
+    return account.address;
   }
 
-  async createSuccessfulGachaScenario(cabinetId: bigint): Promise<GachaScenario> {
-    const { accounts } = this.environment;
+  cabinetId(alias: string): bigint {
+    return lookup(this.cabinets, "cabinet", alias);
+  }
 
-    return {
-      cabinetId,
-      player: accounts.PLAYER_1.address,
-      paymentAmount: TEST_GACHA_PRICES.CHEAP_PLAY,
-      expectedOutcome: "win"
-    };
+  phaseId(alias: string): bigint {
+    return lookup(this.phases, "sale phase", alias);
   }
 
-  async createFailedGachaScenario(cabinetId: bigint): Promise<GachaScenario> {
-    const { accounts } = this.environment;
+  listingId(alias: string): bigint {
+    return lookup(this.listings, "listing", alias);
+  }
 
-    return {
-      cabinetId,
-      player: accounts.PLAYER_2.address,
-      paymentAmount: TEST_GACHA_PRICES.CHEAP_PLAY,
-      expectedOutcome: "lose"
-    };
+  decodeEvents(receipt: TransactionReceipt): ScenarioEvent[] {
+    return decodeEvents(receipt, this.sources);
   }
 
-  async createInsufficientPaymentGachaScenario(cabinetId: bigint): Promise<GachaScenario> {
-    const { accounts } = this.environment;
+  /** Actor or contract name for a known address */
+  readonly label = (address: Address): string | undefined => {
+    const { wallets } = this.environment;
+    const actor = (Object.keys(wallets) as Actor[]).find((key) => {
+      const account = wallets[key].account;
+      return account && isAddressEqual(account.address, address);
+    });
+    return actor ?? this.sources.find((source) => isAddressEqual(source.address, address))?.contract;
+  };
+}
 
-    return {
-      cabinetId,
-      player: accounts.PLAYER_3.address,
-      paymentAmount: parseEther("0.005"), // Less than required
-      expectedOutcome: "insufficient_payment"
-    };
-  }
+function lookup(ids: Map<string, bigint>, kind: string, alias: string): bigint {
+  const id = ids.get(alias);
+  if (id === undefined) throw new Error(`No ${kind} named "${alias}" has been created yet`);
+  return id;
+}
 
-  async createMarketplaceListingScenario(cabinetId: bigint): Promise<MarketplaceScenario> {
-    const { contracts, accounts } = this.environment;
+export function formatTrace(trace: ScenarioTraceEntry[]): string {
+  return trace
+    .map(({ step, description, status, detail, events }) => {
+      const lines = [`  ${step}. ${status === "ok" ? "✓" : "✗"} ${description}${detail ? ` → ${detail}` : ""}`];
+      for (const event of events) lines.push(`       ${event}`);
+      return lines.join("\n");
+    })
+    .join("\n");
+}
 
-    const listingPrice = parseEther("0.2");
+/** The unmet parts of `expectation`, or an empty list */
+function unmetEvents(expectation: StepExpectation, events: ScenarioEvent[], state: ScenarioState): string[] {
+  const unmet: string[] = [];
+  for (const expected of expectation.events ?? []) {
+    const missing = describeMissingEvent(events, expected, state.label);
+    if (missing) unmet.push(missing);
+  }
+  for (const name of expectation.absent ?? []) {
+    if (findEvents(events, { name }).length > 0) unmet.push(`expected no ${name}`);
+  }
+  return unmet;
+}
+
+function capture(
+  events: ScenarioEvent[],
+  name: string,
+  arg: string,
+  ids: Map<string, bigint>,
+  alias: string,
+): string {
+  const event = events.find((candidate) => candidate.name === name);
+  if (!event) throw new Error(`No ${name} event to capture "${alias}" from`);
+  const id = event.args[arg] as bigint;
+  ids.set(alias, id);
+  return `${alias} = #${id}`;
+}
 
-    // First approve marketplace to transfer cabinet
-    await contracts.tuuKeepCabinet.write.approve([
-      contracts.tuuKeepMarketplace.address,
-      cabinetId
-    ], { account: accounts.CABINET_OWNER.address });
+export class Scenario {
+  private readonly steps: Step[] = [];
 
-    // Create listing
-    await contracts.tuuKeepMarketplace.write.listItem([
-      contracts.tuuKeepCabinet.address,
-      cabinetId,
-      listingPrice
-    ], { account: accounts.CABINET_OWNER.address });
+  constructor(readonly name: string) {}
 
-    return {
-      cabinetId,
-      seller: accounts.CABINET_OWNER.address,
-      buyer: accounts.MARKETPLACE_BUYER.address,
-      listingPrice,
-      expectedOutcome: "success"
-    };
+  /** Mint a cabinet to `owner`, then optionally price, stock and activate it */
+  cabinet(alias: string, { owner, name = alias, playPrice, items, activate, ...options }: CabinetSpec): this {
+    this.transaction(`platformAdmin mints cabinet ${alias} to ${owner}`, options, async (state) => {
+      const hash = await state.client().mintCabinet(state.address(owner), name);
+      return { hash, capture: (events) => capture(events, "CabinetMinted", "tokenId", state.cabinets, alias) };
+    });
+    if (playPrice !== undefined) this.setPrice(owner, alias, playPrice);
+    if (items && items.length > 0) this.deposit(owner, alias, items);
+    if (activate) this.activate(owner, alias);
+    return this;
   }
 
-  async createInsufficientFundsMarketplaceScenario(cabinetId: bigint): Promise<MarketplaceScenario> {
-    const { accounts } = this.environment;
+  /** Create a tier sale phase with its tiers as the platform admin */
+  salePhase(alias: string, { name = alias, totalCabinets, basePrice, tiers }: SalePhaseSpec): this {
+    return this.step(`platformAdmin creates sale phase ${alias} with ${tiers.length} tier(s)`, {}, async (state) => {
+      const tierSale = state.environment.contracts.tuuKeepTierSale;
+      const admin = { account: state.environment.accounts.PLATFORM_ADMIN.address, chain: undefined };
+      const receipt = await state.client().waitForReceipt(
+        await tierSale.write.createSalePhase([name, 0n, 0n, totalCabinets, basePrice], admin),
+      );
+      const detail = capture(state.decodeEvents(receipt), "PhaseCreated", "phaseId", state.phases, alias);
+      for (const tier of tiers) {
+        await state.client().waitForReceipt(
+          await tierSale.write.addTierToPhase(
+            [state.phaseId(alias), tier.name, tier.maxQuantity, tier.discountBps, 0n, 0n],
+            admin,
+          ),
+        );
+      }
+      return { receipt, detail };
+    });
+  }
 
-    const highPrice = parseEther("1000"); // More than buyer has
+  purchase(actor: Actor, phase: string, { as, name = as, value, ...options }: PurchaseOptions): this {
+    this.transaction(`${actor} buys cabinet ${as} in sale phase ${phase}`, options, async (state) => {
+      const hash = await state.client(actor).purchaseCabinet({ phaseId: state.phaseId(phase), cabinetName: name, value });
+      return { hash, capture: (events) => capture(events, "CabinetPurchased", "cabinetId", state.cabinets, as) };
+    });
+    return this;
+  }
 
-    return {
-      cabinetId,
-      seller: accounts.CABINET_OWNER.address,
-      buyer: accounts.MARKETPLACE_BUYER.address,
-      listingPrice: highPrice,
-      expectedOutcome: "insufficient_funds"
-    };
+  setPrice(actor: Actor, cabinet: string, price: bigint, options: StepOptions = {}): this {
+    return this.transaction(`${actor} sets the play price of ${cabinet} to ${price}`, options, async (state) => ({
+      hash: await state.client(actor).setPrice(state.cabinetId(cabinet), price),
+    }));
   }
 
-  async executeGachaScenario(scenario: GachaScenario): Promise<any> {
-    const { contracts } = this.environment;
+  /** Mint or transfer the mock prize tokens to `actor`, approve them and deposit them */
+  deposit(actor: Actor, cabinet: string, items: ItemSpec[], options: StepOptions = {}): this {
+    return this.transaction(`${actor} deposits ${items.length} item(s) into ${cabinet}`, options, async (state) => {
+      const { contracts } = state.environment;
+      const client = state.client(actor);
+      const owner = state.address(actor);
+      const inputs: GachaItemInput[] = [];
+      let tokenTotal = 0n;
+
+      for (const item of items) {
+        const input = {
+          assetType: item.assetType,
+          rarity: item.rarity,
+          depositTime: 0n,
+          isActive: true,
+        };
+        if (item.assetType === AssetType.ERC721) {
+          const tokenId = item.tokenId ?? allocateTokenId(state.environment);
+          await contracts.mockERC721.write.mint([owner, tokenId]);
+          const nftInput = { ...input, contractAddress: contracts.mockERC721.address, tokenIdOrAmount: tokenId, metadata: `Test NFT #${tokenId}` };
+          await client.waitForReceipt(await client.approveItem(nftInput));
+          inputs.push(nftInput);
+        } else {
+          await contracts.mockERC20.write.transfer([owner, item.amount]);
+          tokenTotal += item.amount;
+          inputs.push({ ...input, contractAddress: contracts.mockERC20.address, tokenIdOrAmount: item.amount, metadata: "Test Token prize" });
+        }
+      }
+
+      // One allowance covers every ERC20 prize of the deposit
+      const tokenPrize = inputs.find(({ assetType }) => assetType === AssetType.ERC20);
+      if (tokenPrize) await client.waitForReceipt(await client.approveItem({ ...tokenPrize, tokenIdOrAmount: tokenTotal }));
+
+      return { hash: await client.depositItems(state.cabinetId(cabinet), inputs) };
+    });
+  }
 
-    try {
-      const txHash = await contracts.tuuKeepCabinet.write.playGacha([scenario.cabinetId], {
-        account: scenario.player,
-        value: scenario.paymentAmount
-      });
-
-      return { success: true, txHash };
-    } catch (error) {
-      return { success: false, error };
-    }
+  activate(actor: Actor, cabinet: string, options: StepOptions = {}): this {
+    return this.transaction(`${actor} activates ${cabinet}`, options, async (state) => ({
+      hash: await state.client(actor).activateCabinet(state.cabinetId(cabinet)),
+    }));
   }
 
-  async executeMarketplaceScenario(scenario: MarketplaceScenario): Promise<any> {
-    const { contracts } = this.environment;
+  deactivate(actor: Actor, cabinet: string, options: StepOptions = {}): this {
+    return this.transaction(`${actor} deactivates ${cabinet}`, options, async (state) => ({
+      hash: await state.client(actor).deactivateCabinet(state.cabinetId(cabinet)),
+    }));
+  }
 
-    try {
-      const txHash = await contracts.tuuKeepMarketplace.write.buyItem([
-        contracts.tuuKeepCabinet.address,
-        scenario.cabinetId
-      ], {
-        account: scenario.buyer,
-        value: scenario.listingPrice
-      });
+  play(actor: Actor, cabinet: string, { tuuCoinAmount, value, ...options }: PlayOptions = {}): this {
+    const boost = tuuCoinAmount ? ` burning ${tuuCoinAmount} TUU` : "";
+    return this.transaction(`${actor} plays ${cabinet}${boost}`, options, async (state) => {
+      const client = state.client(actor);
+      const hash = await client.play({ cabinetId: state.cabinetId(cabinet), tuuCoinAmount, value });
+      return {
+        hash,
+        capture: (_, receipt) => {
+          const result = client.parsePlayResult(receipt);
+          state.plays.push(result);
+          return result.wonPrize ? `won item ${result.itemIndex}` : `lost, ${result.tuuCoinReward} TUU consolation`;
+        },
+      };
+    });
+  }
 
-      return { success: true, txHash };
-    } catch (error) {
-      return { success: false, error };
-    }
+  withdrawRevenue(actor: Actor, cabinet: string, options: StepOptions = {}): this {
+    return this.transaction(`${actor} withdraws the revenue of ${cabinet}`, options, async (state) => ({
+      hash: await state.client(actor).withdrawCabinetRevenue(state.cabinetId(cabinet)),
+    }));
   }
 
-  async simulateConcurrentGachaPlays(cabinetId: bigint, playerCount: number = 3): Promise<any[]> {
-    const { accounts } = this.environment;
-    const players = [accounts.PLAYER_1, accounts.PLAYER_2, accounts.PLAYER_3];
+  /** Approve the marketplace for the cabinet, then list it */
+  list(actor: Actor, cabinet: string, { as, price, duration = ONE_DAY, approve = true, ...options }: ListOptions): this {
+    this.transaction(`${actor} lists ${cabinet} as ${as} for ${price}`, options, async (state) => {
+      const client = state.client(actor);
+      const cabinetId = state.cabinetId(cabinet);
+      if (approve) await client.waitForReceipt(await client.approveCabinet(cabinetId));
+      const hash = await client.createListing({ cabinetId, price, duration });
+      return { hash, capture: (events) => capture(events, "ListingCreated", "listingId", state.listings, as) };
+    });
+    return this;
+  }
 
-    const scenarios: GachaScenario[] = players.slice(0, playerCount).map(player => ({
-      cabinetId,
-      player: player.address,
-      paymentAmount: TEST_GACHA_PRICES.CHEAP_PLAY,
-      expectedOutcome: "win" as const
+  updateListingPrice(actor: Actor, listing: string, price: bigint, options: StepOptions = {}): this {
+    return this.transaction(`${actor} reprices ${listing} to ${price}`, options, async (state) => ({
+      hash: await state.client(actor).updateListingPrice(state.listingId(listing), price),
     }));
+  }
 
-    // Execute all scenarios concurrently
-    const promises = scenarios.map(scenario => this.executeGachaScenario(scenario));
-    const results = await Promise.allSettled(promises);
+  cancelListing(actor: Actor, listing: string, options: StepOptions = {}): this {
+    return this.transaction(`${actor} cancels ${listing}`, options, async (state) => ({
+      hash: await state.client(actor).cancelListing(state.listingId(listing)),
+    }));
+  }
 
-    return results.map((result, index) => ({
-      player: scenarios[index].player,
-      result: result.status === 'fulfilled' ? result.value : { success: false, error: result.reason }
+  buy(actor: Actor, listing: string, { value, ...options }: BuyOptions = {}): this {
+    return this.transaction(`${actor} buys ${listing}`, options, async (state) => ({
+      hash: await state.client(actor).buyNow(state.listingId(listing), value),
     }));
   }
-}
\ No newline at end of file
+
+  /** Send any other transaction; its events are decoded and matched like the built-in steps */
+  send(description: string, sendTransaction: (context: ScenarioContext) => Promise<Hash>, options: StepOptions = {}): this {
+    return this.transaction(description, options, async (state) => ({ hash: await sendTransaction(state) }));
+  }
+
+  /** Snapshot balances for a later `expectBalanceChanges`, e.g. `{ seller: nativeBalance(context.address("cabinetOwner")) }` */
+  trackBalances(sources: (context: ScenarioContext) => Record<string, BalanceSource>): this {
+    return this.step("track balances", {}, async (state) => {
+      const tracked = sources(state);
+      state.balances = await trackBalances(state.environment.publicClient, tracked);
+      return { detail: Object.keys(tracked).join(", ") };
+    });
+  }
+
+  /** Compare balances with the last `trackBalances` snapshot; native changes leave out gas */
+  expectBalanceChanges(expected: Record<string, bigint>): this {
+    return this.step("check: balance changes", {}, async (state) => {
+      if (!state.balances) throw new Error("expectBalanceChanges needs a trackBalances step before it");
+      await state.balances.expectChanges(expected);
+      return {};
+    });
+  }
+
+  /** State expectation; throw (e.g. a failed chai assertion) to fail the scenario */
+  check(description: string, assertion: (context: ScenarioContext) => Promise<void> | void): this {
+    return this.step(`check: ${description}`, {}, async (state) => {
+      await assertion(state);
+      return {};
+    });
+  }
+
+  async run(environment: TestEnvironment): Promise<ScenarioResult> {
+    const state = new ScenarioState(environment);
+    const trace: ScenarioTraceEntry[] = [];
+
+    const gas: Record<string, bigint> = {};
+
+    for (const [index, { description, expect, gas: gasName, execute }] of this.steps.entries()) {
+      const entry: ScenarioTraceEntry = { step: index + 1, description, status: "ok", events: [] };
+      const expected = typeof expect?.revert === "string" ? { name: expect.revert } : expect?.revert;
+      trace.push(entry);
+
+      let result: StepResult;
+      try {
+        result = await execute(state);
+      } catch (error) {
+        const revert = decodeTuuKeepRevert(error);
+        if (expected && matchesRevert(revert, expected)) {
+          entry.detail = `reverted with ${revert!.message}`;
+          continue;
+        }
+        entry.status = "failed";
+        entry.detail = revert
+          ? `${expected ? `expected ${formatRevert(expected, state.label)}, ` : ""}reverted with ${revert.message}`
+          : (error as Error).message;
+        throw new ScenarioError(this.name, trace);
+      }
+
+      if (result.receipt) {
+        state.events = state.decodeEvents(result.receipt);
+        entry.events = state.events.map((event) => formatEvent(event, state.label));
+        if (gasName) gas[gasName] = result.receipt.gasUsed;
+      }
+      entry.detail = result.detail;
+
+      const unmet = expected
+        ? [`expected a revert with ${formatRevert(expected, state.label)}`]
+        : unmetEvents(expect ?? {}, state.events, state);
+      if (unmet.length > 0) {
+        entry.status = "failed";
+        entry.detail = unmet.join("; ");
+        throw new ScenarioError(this.name, trace);
+      }
+    }
+
+    return Object.assign(state, { trace, gas });
+  }
+
+  private step(description: string, { expect, gas }: StepOptions, execute: Step["execute"]): this {
+    this.steps.push({ description, expect, gas, execute });
+    return this;
+  }
+
+  /** A step around one SDK write: waits for the receipt, then lets `capture` read its events */
+  private transaction(
+    description: string,
+    options: StepOptions,
+    send: (state: ScenarioState) => Promise<{
+      hash: Hash;
+      capture?: (events: ScenarioEvent[], receipt: TransactionReceipt) => string;
+    }>,
+  ): this {
+    return this.step(description, options, async (state) => {
+      const { hash, capture: read } = await send(state);
+      const receipt = await state.client().waitForReceipt(hash);
+      return { receipt, detail: read?.(state.decodeEvents(receipt), receipt) };
+    });
+  }
+}
+
+export function scenario(name: string): Scenario {
+  return new Scenario(name);
+}
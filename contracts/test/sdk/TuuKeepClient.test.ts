@@ -0,0 +1,300 @@
+import { expect } from "chai";
+import { describe, it, beforeEach } from "node:test";
+import { getAddress, parseEther } from "viem";
+import {
+  AssetType,
+  decodeTuuKeepRevert,
+  getCabinetNameError,
+  MAX_BATCH_WITHDRAW_CABINETS,
+  MAX_BURN_ODDS_IMPROVEMENT_BPS,
+  TuuKeepClient,
+} from "../../sdk";
+import {
+  deployTestEnvironment,
+  setupCabinetWithItems,
+  setupCabinetWithTokens,
+  type TestEnvironment,
+} from "../integration/utils/deployment-helper";
+import { TEST_RANDOMNESS_SEED, TEST_SEEDED_PRIZE } from "../integration/fixtures/test-data";
+
+describe("TuuKeepClient", function () {
+  let environment: TestEnvironment;
+  let ownerClient: TuuKeepClient;
+  let playerClient: TuuKeepClient;
+  const cabinetId = 0n; // Cabinet token IDs start at zero
+
+  beforeEach(async function () {
+    // Five items from `setupCabinetWithItems` match `TEST_SEEDED_STOCK`, so plays lose, then win item 1
+    environment = await deployTestEnvironment({ randomnessSeed: TEST_RANDOMNESS_SEED });
+    const { client, wallets, accounts } = environment;
+
+    ownerClient = client.withWallet(wallets.cabinetOwner);
+    playerClient = client.withWallet(wallets.player1);
+
+    await client.waitForReceipt(await client.mintCabinet(accounts.CABINET_OWNER.address, "SDK Test Cabinet"));
+  });
+
+  describe("Reads", function () {
+    it("Should decode cabinet metadata and config structs", async function () {
+      const { metadata, config } = await environment.client.getCabinet(cabinetId);
+
+      expect(metadata.name).to.equal("SDK Test Cabinet");
+      expect(getAddress(metadata.owner)).to.equal(getAddress(environment.accounts.CABINET_OWNER.address));
+      expect(metadata.isActive).to.be.false;
+      expect(config.playPrice).to.equal(parseEther("0.01"));
+      expect(config.maxItems).to.equal(10n);
+    });
+
+    it("Should enumerate cabinets of an owner", async function () {
+      const ids = await environment.client.getCabinetsOfOwner(environment.accounts.CABINET_OWNER.address);
+      expect(ids).to.deep.equal([cabinetId]);
+    });
+
+    it("Should decode gacha items", async function () {
+      await setupCabinetWithTokens(environment, cabinetId, parseEther("5"));
+
+      const items = await environment.client.getCabinetItems(cabinetId);
+      expect(items).to.have.length(1);
+      expect(getAddress(items[0].contractAddress)).to.equal(getAddress(environment.contracts.mockERC20.address));
+      expect(items[0].tokenIdOrAmount).to.equal(parseEther("5"));
+      expect(items[0].isActive).to.be.true;
+    });
+  });
+
+  describe("Writes", function () {
+    it("Should play and decode the outcome from the receipt", async function () {
+      await setupCabinetWithItems(environment, cabinetId, 5);
+      await ownerClient.waitForReceipt(await ownerClient.activateCabinet(cabinetId));
+
+      const loss = await playerClient.waitForPlayResult(await playerClient.play({ cabinetId }));
+      expect(loss.cabinetId).to.equal(cabinetId);
+      expect(getAddress(loss.player)).to.equal(getAddress(environment.accounts.PLAYER_1.address));
+      expect(loss.playPrice).to.equal(parseEther("0.01"));
+      expect(loss.wonPrize).to.be.false;
+      expect(loss.prize).to.be.undefined;
+      expect(loss.tuuCoinReward).to.equal(parseEther("0.001"));
+
+      const win = await playerClient.waitForPlayResult(await playerClient.play({ cabinetId }));
+      expect(win.wonPrize).to.be.true;
+      expect(win.itemIndex).to.equal(1n);
+      expect(win.prize).to.not.be.undefined;
+      expect(win.tuuCoinReward).to.equal(0n);
+      // `PrizeWon` describes the item swapped into the won slot, so check the paid-out tokens
+      expect(await environment.contracts.mockERC20.read.balanceOf([environment.accounts.PLAYER_1.address])).to.equal(
+        TEST_SEEDED_PRIZE,
+      );
+    });
+
+    it("Should list a cabinet and read the listing back", async function () {
+      await ownerClient.waitForReceipt(await ownerClient.approveCabinet(cabinetId));
+      await ownerClient.waitForReceipt(
+        await ownerClient.createListing({ cabinetId, price: parseEther("1"), duration: 86400n }),
+      );
+
+      const listing = await environment.client.getActiveListing(cabinetId);
+      expect(listing.price).to.equal(parseEther("1"));
+      expect(listing.isActive).to.be.true;
+      expect(getAddress(listing.seller)).to.equal(getAddress(environment.accounts.CABINET_OWNER.address));
+    });
+
+    it("Should find active listings once the cabinet is approved", async function () {
+      const owner = environment.accounts.CABINET_OWNER.address;
+      expect(await environment.client.isCabinetApprovedForMarketplace(owner, cabinetId)).to.be.false;
+
+      await ownerClient.waitForReceipt(await ownerClient.approveCabinet(cabinetId));
+      expect(await environment.client.isCabinetApprovedForMarketplace(owner, cabinetId)).to.be.true;
+
+      await ownerClient.waitForReceipt(
+        await ownerClient.createListing({ cabinetId, price: parseEther("2"), duration: 86400n }),
+      );
+
+      const active = await environment.client.getActiveListings();
+      expect(active.map(({ listingId }) => listingId)).to.deep.equal([1n]);
+      expect(await environment.client.getListingsByUser(owner)).to.deep.equal([1n]);
+      expect((await environment.client.getMarketSummary()).totalActiveListings).to.equal(1n);
+
+      await ownerClient.waitForReceipt(await ownerClient.cancelListing(1n));
+      expect(await environment.client.getActiveListings()).to.have.length(0);
+    });
+
+    it("Should split a sale price like the marketplace does", async function () {
+      const { platformFeeRate } = await environment.client.getMarketplaceConfig();
+      const { platformFee, sellerAmount } = environment.client.splitSalePrice(parseEther("1"), platformFeeRate);
+
+      expect(platformFee).to.equal(parseEther("0.05"));
+      expect(platformFee + sellerAmount).to.equal(parseEther("1"));
+    });
+
+    it("Should burn TuuCoin for odds and read the improvement back", async function () {
+      const player = environment.accounts.PLAYER_1.address;
+      await environment.client.waitForReceipt(
+        await environment.contracts.tuuCoin.write.mint([player, parseEther("2500")], {
+          account: environment.accounts.PLATFORM_ADMIN.address,
+          chain: undefined,
+        }),
+      );
+
+      await playerClient.waitForReceipt(await playerClient.burnForOdds(parseEther("2500")));
+
+      expect(await environment.client.getTuuCoinBurnStats(player)).to.deep.equal({
+        burnedAmount: parseEther("2500"),
+        burnCount: 1n,
+        oddsImprovement: 2n,
+      });
+      expect(environment.client.burnOddsImprovement(parseEther("2500"))).to.equal(2n);
+      expect(environment.client.burnOddsImprovement(parseEther("1000000"))).to.equal(MAX_BURN_ODDS_IMPROVEMENT_BPS);
+      expect((await environment.client.getTuuCoinSupply()).totalBurned).to.equal(parseEther("2500"));
+      expect(await environment.client.getTuuCoinPauseStatus()).to.deep.equal({
+        paused: false,
+        mintingPaused: false,
+        burningPaused: false,
+        transfersPaused: false,
+      });
+    });
+
+    it("Should update emission settings and preview rewards like TuuCoin does", async function () {
+      const { client, accounts } = environment;
+      expect(await client.hasTuuCoinRole("EMISSION_MANAGER_ROLE", accounts.PLATFORM_ADMIN.address)).to.equal(true);
+      expect(await client.hasTuuCoinRole("EMISSION_MANAGER_ROLE", accounts.PLAYER_1.address)).to.equal(false);
+      expect(await client.isTuuCoinCabinetRegistered(cabinetId)).to.equal(true);
+
+      await client.waitForReceipt(
+        await client.updateEmissionConfig({ baseRate: parseEther("2"), maxRate: parseEther("20"), decayFactor: 50n }),
+      );
+      await client.waitForReceipt(await client.setCabinetEmissionMultiplier(cabinetId, 30_000n));
+
+      const config = await client.getEmissionConfig();
+      expect(config.baseRate).to.equal(parseEther("2"));
+      expect(await client.getCabinetEmissionMultiplier(cabinetId)).to.equal(30_000n);
+      for (const baseAmount of [parseEther("0.1"), parseEther("5"), parseEther("10")]) {
+        expect(client.previewEmissionAmount(config, 30_000n, baseAmount)).to.equal(
+          await client.calculateEmissionAmount(cabinetId, baseAmount),
+        );
+      }
+
+      await client.waitForReceipt(await client.setEmissionActive(false));
+      expect(await client.calculateEmissionAmount(cabinetId, parseEther("5"))).to.equal(parseEther("5"));
+    });
+
+    it("Should approve an ERC721 prize for the cabinet", async function () {
+      const { contracts, accounts } = environment;
+      await contracts.mockERC721.write.mint([accounts.CABINET_OWNER.address, 7n]);
+      const item = {
+        assetType: AssetType.ERC721,
+        contractAddress: contracts.mockERC721.address,
+        tokenIdOrAmount: 7n,
+        rarity: 3n,
+        metadata: "Test NFT #7",
+        depositTime: 0n,
+        isActive: true,
+      };
+
+      expect(await ownerClient.isItemApproved(accounts.CABINET_OWNER.address, item)).to.be.false;
+      await ownerClient.waitForReceipt(await ownerClient.approveItem(item));
+      expect(await ownerClient.isItemApproved(accounts.CABINET_OWNER.address, item)).to.be.true;
+      // Depositing it would revert with `ERC721InvalidReceiver`: the cabinet has no `onERC721Received`
+    });
+
+    it("Should toggle an item out of the active prize pool", async function () {
+      await setupCabinetWithTokens(environment, cabinetId, parseEther("5"));
+
+      await ownerClient.waitForReceipt(await ownerClient.toggleItemStatus(cabinetId, 0n));
+
+      expect(await environment.client.getActiveCabinetItems(cabinetId)).to.have.length(0);
+      expect((await environment.client.getCabinetItems(cabinetId))[0].isActive).to.be.false;
+    });
+
+    it("Should withdraw several items regardless of index order", async function () {
+      for (const amount of [parseEther("1"), parseEther("2"), parseEther("3")]) {
+        await setupCabinetWithTokens(environment, cabinetId, amount);
+      }
+
+      await ownerClient.waitForReceipt(await ownerClient.withdrawItems(cabinetId, [2n, 0n]));
+
+      const items = await environment.client.getCabinetItems(cabinetId);
+      expect(items.map((item) => item.tokenIdOrAmount)).to.deep.equal([parseEther("2")]);
+    });
+
+    it("Should report analytics and batch withdraw revenue", async function () {
+      await setupCabinetWithItems(environment, cabinetId, 5);
+      await ownerClient.waitForReceipt(await ownerClient.activateCabinet(cabinetId));
+      await playerClient.waitForPlayResult(await playerClient.play({ cabinetId }));
+
+      const analytics = await environment.client.getCabinetAnalytics(cabinetId);
+      expect(analytics.totalPlays).to.equal(1n);
+      expect(analytics.averageRevenue).to.equal(analytics.totalRevenue);
+
+      expect((await environment.client.getCabinetRevenue(cabinetId)) > 0n).to.be.true;
+      await ownerClient.waitForReceipt(await ownerClient.batchWithdrawRevenue([cabinetId]));
+      expect(await environment.client.getCabinetRevenue(cabinetId)).to.equal(0n);
+    });
+
+    it("Should reject batch withdrawals over the contract limit", async function () {
+      const ids = Array.from({ length: MAX_BATCH_WITHDRAW_CABINETS + 1 }, (_, index) => BigInt(index));
+
+      try {
+        await ownerClient.batchWithdrawRevenue(ids);
+        expect.fail("batch over the limit should throw");
+      } catch (error) {
+        expect((error as Error).message).to.contain(`1 to ${MAX_BATCH_WITHDRAW_CABINETS} cabinets`);
+      }
+    });
+
+    it("Should fail tier sale purchases until the cabinet takes the sale's mint call", async function () {
+      // `TuuKeepTierSale` calls a three-argument `mintCabinet` the cabinet does not have, so every purchase reverts
+      const tierSale = environment.contracts.tuuKeepTierSale;
+      const admin = { account: environment.accounts.PLATFORM_ADMIN.address, chain: undefined };
+      await tierSale.write.createSalePhase(["Genesis Sale", 0n, 0n, 10n, parseEther("20")], admin);
+      await tierSale.write.addTierToPhase([0n, "Early Bird", 1n, 5000, 0n, 0n], admin);
+
+      try {
+        await playerClient.purchaseCabinet({ phaseId: 0n, cabinetName: "Lucky Seven" });
+        expect.fail("the purchase should revert");
+      } catch (error) {
+        expect(decodeTuuKeepRevert(error)?.name).to.equal("Unknown");
+      }
+
+      expect(await environment.client.getCurrentTierId(0n)).to.equal(0n);
+      const [{ phase }] = await environment.client.getPhases();
+      expect(phase.soldCabinets).to.equal(0n);
+    });
+
+    it("Should surface custom errors before sending", async function () {
+      try {
+        await playerClient.play({ cabinetId });
+        expect.fail("play on an inactive cabinet should revert");
+      } catch (error) {
+        const revert = decodeTuuKeepRevert(error);
+        expect(revert?.name).to.equal("CabinetInactive");
+        expect(revert?.args).to.deep.equal([cabinetId]);
+      }
+    });
+
+    it("Should require a wallet for writes", async function () {
+      const readOnly = new TuuKeepClient({
+        publicClient: environment.publicClient,
+        addresses: environment.addresses,
+      });
+
+      try {
+        await readOnly.activateCabinet(cabinetId);
+        expect.fail("write without a wallet should throw");
+      } catch (error) {
+        expect((error as Error).message).to.contain("wallet client");
+      }
+    });
+  });
+
+  describe("Validation", function () {
+    it("Should accept cabinet names ValidationLib accepts", function () {
+      expect(getCabinetNameError("Lucky Seven 7")).to.be.undefined;
+    });
+
+    it("Should reject cabinet names ValidationLib rejects", function () {
+      expect(getCabinetNameError("")).to.contain("required");
+      expect(getCabinetNameError("a".repeat(257))).to.contain("at most 256");
+      expect(getCabinetNameError("Lucky-Seven")).to.contain("letters, digits and spaces");
+      expect(getCabinetNameError("Café")).to.contain("letters, digits and spaces");
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { expect } from "chai";
+import { describe, it, beforeEach } from "node:test";
+import { parseEther, zeroAddress } from "viem";
+import {
+  AssetType,
+  getItemOdds,
+  getMaxTuuCoinAmount,
+  getOddsImprovement,
+  getRarityWeight,
+  getSeededRandomNumber,
+  getTuuCoinAmountForImprovement,
+  getWinProbability,
+  MAX_ODDS_IMPROVEMENT_BPS,
+  revertsOnPayout,
+  selectPrizeItem,
+  simulatePlays,
+  type GachaItem,
+} from "../../sdk";
+import {
+  deployTestEnvironment,
+  setupCabinetWithItems,
+  type TestEnvironment,
+} from "../integration/utils/deployment-helper";
+import { TEST_RANDOMNESS_SEED } from "../integration/fixtures/test-data";
+
+const PLAY_PRICE = parseEther("0.01");
+
+function item(tokenIdOrAmount: bigint, rarity: bigint, isActive = true): GachaItem {
+  return {
+    assetType: AssetType.ERC721,
+    contractAddress: zeroAddress,
+    tokenIdOrAmount,
+    rarity,
+    metadata: "",
+    depositTime: 0n,
+    isActive,
+  };
+}
+
+const ITEMS = [1n, 2n, 3n, 4n, 5n].map((rarity) => item(rarity, rarity));
+
+describe("Odds engine", function () {
+  describe("Probabilities", function () {
+    it("Should weight rarities like the cabinet", function () {
+      expect([1n, 2n, 3n, 4n, 5n].map(getRarityWeight)).to.deep.equal([81n, 61n, 41n, 21n, 1n]);
+      expect(() => getRarityWeight(6n)).to.throw("between 1 and 5");
+    });
+
+    it("Should cap the TuuCoin odds boost", function () {
+      const maxTuuCoin = getMaxTuuCoinAmount(PLAY_PRICE);
+      expect(maxTuuCoin).to.equal(parseEther("0.002"));
+      expect(getOddsImprovement(maxTuuCoin / 2n, PLAY_PRICE)).to.equal(1_000n);
+      expect(getOddsImprovement(maxTuuCoin, PLAY_PRICE)).to.equal(MAX_ODDS_IMPROVEMENT_BPS);
+      expect(getWinProbability(0n, PLAY_PRICE)).to.equal(5_000n);
+      expect(getWinProbability(maxTuuCoin, PLAY_PRICE)).to.equal(7_000n);
+    });
+
+    it("Should find the least TuuCoin for a boost", function () {
+      const maxTuuCoin = getMaxTuuCoinAmount(PLAY_PRICE);
+      expect(getTuuCoinAmountForImprovement(MAX_ODDS_IMPROVEMENT_BPS, PLAY_PRICE)).to.equal(maxTuuCoin);
+      expect(getTuuCoinAmountForImprovement(10_000n, PLAY_PRICE)).to.equal(maxTuuCoin);
+
+      // A price that does not divide evenly into basis points
+      const playPrice = parseEther("3") + 1n;
+      for (const improvement of [1n, 2n, 1_999n]) {
+        const amount = getTuuCoinAmountForImprovement(improvement, playPrice);
+        expect(getOddsImprovement(amount, playPrice)).to.equal(improvement);
+        expect(getOddsImprovement(amount - 1n, playPrice)).to.equal(improvement - 1n);
+      }
+    });
+
+    it("Should split the win probability across items", function () {
+      const odds = getItemOdds(ITEMS, 0n, PLAY_PRICE);
+      expect(odds.reduce((sum, chance) => sum + chance, 0)).to.be.closeTo(0.5, 1e-9);
+      // Rarity 1 is 81 times as likely as rarity 5
+      expect(odds[0] / odds[4]).to.be.closeTo(81, 1e-9);
+
+      const boosted = getItemOdds(ITEMS, getMaxTuuCoinAmount(PLAY_PRICE), PLAY_PRICE);
+      expect(boosted.reduce((sum, chance) => sum + chance, 0)).to.be.closeTo(0.7, 1e-9);
+    });
+
+    it("Should pay duplicates out of the first matching item", function () {
+      const items = [item(1n, 1n, false), item(7n, 2n), item(7n, 2n)];
+      const odds = getItemOdds(items, 0n, PLAY_PRICE);
+      expect(odds[0]).to.equal(0);
+      expect(odds[1]).to.be.closeTo(0.5, 1e-9);
+      expect(odds[2]).to.equal(0);
+
+      for (let requestId = 1n; requestId <= 20n; requestId++) {
+        const selection = selectPrizeItem(items, getSeededRandomNumber(TEST_RANDOMNESS_SEED, requestId), 0n, PLAY_PRICE);
+        if (selection.wonPrize) expect(selection.itemIndex).to.equal(1n);
+      }
+    });
+
+    it("Should flag wins on the last item as reverting", function () {
+      expect(revertsOnPayout(ITEMS, { wonPrize: true, itemIndex: 4n })).to.be.true;
+      expect(revertsOnPayout(ITEMS, { wonPrize: true, itemIndex: 3n })).to.be.false;
+      expect(revertsOnPayout(ITEMS, { wonPrize: false, itemIndex: 0n })).to.be.false;
+    });
+  });
+
+  describe("Simulation", function () {
+    it("Should converge on the exact odds", function () {
+      const report = simulatePlays({
+        items: ITEMS,
+        itemValues: ITEMS.map(() => parseEther("0.1")),
+        playPrice: PLAY_PRICE,
+        platformFeeRate: 500n,
+        plays: 10_000,
+        depleteInventory: false,
+      });
+
+      expect(report.plays).to.equal(10_000);
+      // The last item can only be won by a reverting play
+      expect(report.items[4].wins).to.equal(0);
+      for (const result of report.items.slice(0, 4)) {
+        expect(result.winRate).to.be.closeTo(result.odds, 0.015);
+      }
+      expect(report.ownerRevenue).to.equal(10_000n * parseEther("0.0095"));
+      expect(report.tuuCoinMinted).to.equal(BigInt(report.plays - report.wins) * parseEther("0.001"));
+    });
+
+    it("Should remove won items until only the unwinnable last one is left", function () {
+      const report = simulatePlays({
+        items: [item(1n, 1n), item(2n, 1n)],
+        itemValues: [parseEther("1"), parseEther("2")],
+        playPrice: PLAY_PRICE,
+        platformFeeRate: 500n,
+        plays: 1_000,
+        seed: TEST_RANDOMNESS_SEED,
+      });
+
+      expect(report.plays).to.equal(1_000);
+      expect(report.items.map((result) => result.wins)).to.deep.equal([1, 0]);
+      expect(report.revertedPlays).to.be.greaterThan(0);
+      expect(report.payoutValue).to.equal(parseEther("1"));
+      expect(report.inventoryValue).to.equal(parseEther("3"));
+    });
+
+    it("Should reject TuuCoin above the cap", function () {
+      expect(() =>
+        simulatePlays({
+          items: ITEMS,
+          itemValues: ITEMS.map(() => 0n),
+          playPrice: PLAY_PRICE,
+          platformFeeRate: 0n,
+          tuuCoinAmount: PLAY_PRICE,
+          plays: 1,
+        }),
+      ).to.throw("exceeds");
+    });
+  });
+
+  describe("On-chain replay", function () {
+    let environment: TestEnvironment;
+    const cabinetId = 0n;
+
+    beforeEach(async function () {
+      environment = await deployTestEnvironment({ randomnessSeed: TEST_RANDOMNESS_SEED });
+      const { client, wallets, accounts } = environment;
+
+      await client.waitForReceipt(await client.mintCabinet(accounts.CABINET_OWNER.address, "Odds Cabinet"));
+      await setupCabinetWithItems(environment, cabinetId, 5);
+      const ownerClient = client.withWallet(wallets.cabinetOwner);
+      await ownerClient.waitForReceipt(await ownerClient.activateCabinet(cabinetId));
+    });
+
+    it("Should predict every play with the seeded randomness", async function () {
+      const playerClient = environment.client.withWallet(environment.wallets.player1);
+      let wins = 0;
+
+      for (let requestId = 1n; requestId <= 12n; requestId++) {
+        const items = await environment.client.getCabinetItems(cabinetId);
+        const expected = selectPrizeItem(items, getSeededRandomNumber(TEST_RANDOMNESS_SEED, requestId), 0n, PLAY_PRICE);
+
+        if (revertsOnPayout(items, expected)) {
+          try {
+            await playerClient.play({ cabinetId });
+            expect.fail("winning the last item should revert");
+          } catch (error) {
+            expect((error as Error).message).to.match(/out of bounds/i);
+          }
+          // The request counter rolled back too, so every retry draws the same number
+          break;
+        }
+
+        const result = await playerClient.waitForPlayResult(await playerClient.play({ cabinetId }));
+        expect(result.wonPrize).to.equal(expected.wonPrize);
+        if (result.wonPrize) {
+          expect(result.itemIndex).to.equal(expected.itemIndex);
+          wins++;
+        }
+      }
+
+      expect(wins).to.be.greaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { expect } from "chai";
+import { describe, it } from "node:test";
+import { parseEther } from "viem";
+import {
+  getPriceLadder,
+  getSalePhasePlanIssues,
+  getTierPrice,
+  submitSalePhasePlan,
+  type PhaseDetails,
+  type SalePhasePlan,
+  type SalePhaseSetupStep,
+} from "../../sdk";
+import { deployTestEnvironment } from "../integration/utils/deployment-helper";
+
+const NOW = 1_750_000_000;
+const DAY = 86_400n;
+
+function plan(overrides: Partial<SalePhasePlan> = {}): SalePhasePlan {
+  return {
+    name: "Genesis Sale",
+    startTime: BigInt(NOW),
+    endTime: BigInt(NOW) + 30n * DAY,
+    totalCabinets: 100n,
+    basePrice: parseEther("1"),
+    tiers: [
+      { name: "Early Bird", maxQuantity: 20n, discountBps: 5000, startTime: 0n, endTime: 0n },
+      { name: "Regular", maxQuantity: 80n, discountBps: 1000, startTime: 0n, endTime: 0n },
+    ],
+    ...overrides,
+  };
+}
+
+const fields = (candidate: SalePhasePlan, existing: PhaseDetails[] = []) =>
+  getSalePhasePlanIssues(candidate, NOW, existing).map((issue) => issue.field);
+
+describe("Tier sale planning", function () {
+  it("Should accept a ladder that fits the phase", function () {
+    expect(getSalePhasePlanIssues(plan(), NOW)).to.deep.equal([]);
+  });
+
+  it("Should price tiers like addTierToPhase", function () {
+    expect(getTierPrice(parseEther("1"), 7000)).to.equal(parseEther("0.3"));
+    expect(getPriceLadder(plan())).to.deep.equal([
+      {
+        tierIndex: 0,
+        name: "Early Bird",
+        discountBps: 5000,
+        price: parseEther("0.5"),
+        maxQuantity: 20n,
+        firstCabinet: 1n,
+        lastCabinet: 20n,
+        revenue: parseEther("10"),
+      },
+      {
+        tierIndex: 1,
+        name: "Regular",
+        discountBps: 1000,
+        price: parseEther("0.9"),
+        maxQuantity: 80n,
+        firstCabinet: 21n,
+        lastCabinet: 100n,
+        revenue: parseEther("72"),
+      },
+    ]);
+  });
+
+  it("Should reject tier quantities over the phase total", function () {
+    const tiers = plan().tiers.map((tier) => ({ ...tier, maxQuantity: 60n }));
+    expect(fields(plan({ tiers }))).to.deep.equal(["tiers"]);
+  });
+
+  it("Should reject discounts that would trip InvalidPricing or give cabinets away", function () {
+    const [early, regular] = plan().tiers;
+    expect(fields(plan({ tiers: [{ ...early, discountBps: 0 }, { ...regular, discountBps: 10_000 }] }))).to.deep.equal([
+      "tiers[0].discountBps",
+      "tiers[1].discountBps",
+    ]);
+  });
+
+  it("Should reject scheduled tiers whose windows overlap", function () {
+    const [early, regular] = plan().tiers;
+    const start = BigInt(NOW);
+    const tiers = [
+      { ...early, startTime: start, endTime: start + 7n * DAY },
+      { ...regular, startTime: start + 6n * DAY, endTime: 0n },
+    ];
+    expect(fields(plan({ tiers }))).to.deep.equal(["tiers[1].startTime"]);
+
+    tiers[1].startTime = start + 7n * DAY + 1n;
+    expect(fields(plan({ tiers }))).to.deep.equal([]);
+  });
+
+  it("Should reject windows outside the phase and phases overlapping a live one", function () {
+    const [early] = plan().tiers;
+    const candidate = plan({ tiers: [{ ...early, endTime: BigInt(NOW) + 31n * DAY }] });
+    expect(fields(candidate)).to.deep.equal(["tiers[0].endTime"]);
+
+    const live = {
+      phaseId: 0n,
+      phase: {
+        name: "Presale",
+        startTime: BigInt(NOW) - DAY,
+        endTime: 0n,
+        totalCabinets: 10n,
+        soldCabinets: 3n,
+        basePrice: parseEther("1"),
+        isActive: true,
+        tierIds: [0n],
+      },
+      tiers: [],
+    };
+    expect(fields(plan(), [live])).to.deep.equal(["startTime"]);
+    expect(fields(plan(), [{ ...live, phase: { ...live.phase, isActive: false } }])).to.deep.equal([]);
+  });
+
+  it("Should submit a plan as one phase setup and leave it active", async function () {
+    const { client } = await deployTestEnvironment();
+    const steps: SalePhaseSetupStep["kind"][] = [];
+
+    const phaseId = await submitSalePhasePlan(client, plan({ startTime: 0n, endTime: 0n }), {
+      onStep: (step) => steps.push(step.kind),
+    });
+
+    expect(steps).to.deep.equal(["createSalePhase", "deactivatePhase", "addTierToPhase", "addTierToPhase", "activatePhase"]);
+    const { phase, tiers } = await client.getPhase(phaseId);
+    expect(phase.isActive).to.equal(true);
+    expect(tiers.map((tier) => tier.price)).to.deep.equal(getPriceLadder(plan()).map((step) => step.price));
+    expect(await client.getCurrentTierId(phaseId)).to.equal(phase.tierIds[0]);
+  });
+});
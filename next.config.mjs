@@ -1,4 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  experimental: {
+    // Native addon used by the indexer store behind /api
+    serverComponentsExternalPackages: ["better-sqlite3"],
+  },
+};
 
 export default nextConfig;
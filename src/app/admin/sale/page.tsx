@@ -0,0 +1,13 @@
+import { SaleAdminConsole } from "@/components/admin/sale-admin-console"
+
+export default function SaleAdminPage() {
+  return (
+    <main className="mx-auto flex max-w-3xl flex-col gap-6 px-4 py-10">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Sale admin</h1>
+        <p className="text-sm text-muted-foreground">Plan tier sale phases, open and close them, and withdraw revenue.</p>
+      </div>
+      <SaleAdminConsole />
+    </main>
+  )
+}
@@ -0,0 +1,13 @@
+import { TuuCoinAdminConsole } from "@/components/admin/tuucoin-admin-console"
+
+export default function TuuCoinAdminPage() {
+  return (
+    <main className="mx-auto flex max-w-3xl flex-col gap-6 px-4 py-10">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">TuuCoin admin</h1>
+        <p className="text-sm text-muted-foreground">Emission rates, supply and pauses, with a log of every change.</p>
+      </div>
+      <TuuCoinAdminConsole />
+    </main>
+  )
+}
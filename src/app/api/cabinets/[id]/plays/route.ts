@@ -0,0 +1,24 @@
+import type { Page, PlayRecord } from "@tuukeep/sdk"
+import { listPlays } from "@tuukeep/indexer"
+import {
+  apiHandler,
+  getIndexerStore,
+  parseAddress,
+  parseBoolean,
+  parseId,
+  parsePage,
+  parsePrizeFilter,
+  parseTimeWindow,
+} from "@/lib/api"
+
+/** A cabinet's plays, newest first, with the prize each win paid out */
+export const GET = apiHandler((request, { params }: { params: { id: string } }): Page<PlayRecord> => {
+  const search = request.nextUrl.searchParams
+  return listPlays(getIndexerStore(), parseId(params.id, "id")!, {
+    ...parsePage(search),
+    ...parseTimeWindow(search),
+    ...parsePrizeFilter(search),
+    player: parseAddress(search.get("player"), "player"),
+    won: parseBoolean(search, "won"),
+  })
+})
@@ -0,0 +1,22 @@
+import type { RevenueSeries } from "@tuukeep/sdk"
+import { getRevenueSeries, MAX_SERIES_DAYS } from "@tuukeep/indexer"
+import { apiHandler, getIndexerStore, nowSeconds, parseId, parseInteger } from "@/lib/api"
+
+/**
+ * Daily play revenue for a cabinet, with a forecast from the trailing average.
+ * Replaces `getRevenueForecast` on the cabinet contract, which assumes every
+ * cabinet has exactly 30 days of history.
+ */
+export const GET = apiHandler((request, { params }: { params: { id: string } }): RevenueSeries => {
+  const search = request.nextUrl.searchParams
+  const range = { min: 1, max: MAX_SERIES_DAYS }
+  return getRevenueSeries(
+    getIndexerStore(),
+    parseId(params.id, "id")!,
+    {
+      days: parseInteger(search, "days", range),
+      forecastDays: parseInteger(search, "forecastDays", range),
+    },
+    nowSeconds(),
+  )
+})
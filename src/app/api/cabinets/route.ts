@@ -0,0 +1,13 @@
+import type { CabinetStats, Page } from "@tuukeep/sdk"
+import { listCabinets } from "@tuukeep/indexer"
+import { apiHandler, getIndexerStore, parsePage, parsePrizeFilter, parseTimeWindow } from "@/lib/api"
+
+/** Indexed play and inventory stats for every cabinet that has any activity */
+export const GET = apiHandler((request): Page<CabinetStats> => {
+  const params = request.nextUrl.searchParams
+  return listCabinets(getIndexerStore(), {
+    ...parsePage(params),
+    ...parseTimeWindow(params),
+    ...parsePrizeFilter(params),
+  })
+})
@@ -0,0 +1,28 @@
+import type { ListingRecord, Page } from "@tuukeep/sdk"
+import { LISTING_STATUSES, listListings } from "@tuukeep/indexer"
+import {
+  apiHandler,
+  getIndexerStore,
+  nowSeconds,
+  parseAddress,
+  parseId,
+  parseOption,
+  parsePage,
+  parseTimeWindow,
+} from "@/lib/api"
+
+/** Marketplace listings, newest first, with their latest price and status */
+export const GET = apiHandler((request): Page<ListingRecord> => {
+  const search = request.nextUrl.searchParams
+  return listListings(
+    getIndexerStore(),
+    {
+      ...parsePage(search),
+      ...parseTimeWindow(search),
+      status: parseOption(search, "status", LISTING_STATUSES),
+      seller: parseAddress(search.get("seller"), "seller"),
+      cabinetId: parseId(search.get("cabinetId"), "cabinetId")?.toString(),
+    },
+    nowSeconds(),
+  )
+})
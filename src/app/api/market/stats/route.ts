@@ -0,0 +1,9 @@
+import type { MarketStats } from "@tuukeep/sdk"
+import { getMarketStats, MAX_SERIES_DAYS } from "@tuukeep/indexer"
+import { apiHandler, getIndexerStore, nowSeconds, parseInteger } from "@/lib/api"
+
+/** All-time marketplace totals and daily sales volume */
+export const GET = apiHandler((request): MarketStats => {
+  const days = parseInteger(request.nextUrl.searchParams, "days", { min: 1, max: MAX_SERIES_DAYS })
+  return getMarketStats(getIndexerStore(), { days }, nowSeconds())
+})
@@ -0,0 +1,22 @@
+import type { Page, PlayerActivity } from "@tuukeep/sdk"
+import { getPlayerHistory, PLAYER_ACTIVITY_KINDS } from "@tuukeep/indexer"
+import {
+  apiHandler,
+  getIndexerStore,
+  parseAddress,
+  parseOptions,
+  parsePage,
+  parsePrizeFilter,
+  parseTimeWindow,
+} from "@/lib/api"
+
+/** Plays, TuuCoin rewards, tier sale purchases and marketplace trades of one address, newest first */
+export const GET = apiHandler((request, { params }: { params: { address: string } }): Page<PlayerActivity> => {
+  const search = request.nextUrl.searchParams
+  return getPlayerHistory(getIndexerStore(), parseAddress(params.address, "address")!, {
+    ...parsePage(search),
+    ...parseTimeWindow(search),
+    ...parsePrizeFilter(search),
+    kinds: parseOptions(search, "kinds", PLAYER_ACTIVITY_KINDS),
+  })
+})
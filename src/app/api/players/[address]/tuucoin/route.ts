@@ -0,0 +1,8 @@
+import type { PlayerTuuCoinSummary } from "@tuukeep/sdk"
+import { getPlayerTuuCoinSummary } from "@tuukeep/indexer"
+import { apiHandler, getIndexerStore, parseAddress } from "@/lib/api"
+
+/** TuuCoin one address has been minted from plays and has burned, over its whole history */
+export const GET = apiHandler((_request, { params }: { params: { address: string } }): PlayerTuuCoinSummary =>
+  getPlayerTuuCoinSummary(getIndexerStore(), parseAddress(params.address, "address")!),
+)
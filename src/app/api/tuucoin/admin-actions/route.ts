@@ -0,0 +1,14 @@
+import type { Page, TuuCoinAdminAction } from "@tuukeep/sdk"
+import { listTuuCoinAdminActions, TUUCOIN_ADMIN_ACTION_KINDS } from "@tuukeep/indexer"
+import { apiHandler, getIndexerStore, parseAddress, parseOptions, parsePage, parseTimeWindow } from "@/lib/api"
+
+/** Audit trail of TuuCoin emission, supply and pause changes, newest first */
+export const GET = apiHandler((request): Page<TuuCoinAdminAction> => {
+  const search = request.nextUrl.searchParams
+  return listTuuCoinAdminActions(getIndexerStore(), {
+    ...parsePage(search),
+    ...parseTimeWindow(search),
+    actions: parseOptions(search, "actions", TUUCOIN_ADMIN_ACTION_KINDS),
+    sender: parseAddress(search.get("sender"), "sender"),
+  })
+})
@@ -0,0 +1,12 @@
+import { notFound } from "next/navigation"
+import { CabinetPlay } from "@/components/cabinet/cabinet-play"
+
+export default function CabinetPage({ params }: { params: { id: string } }) {
+  if (!/^\d+$/.test(params.id)) notFound()
+
+  return (
+    <main className="mx-auto max-w-5xl px-4 py-10">
+      <CabinetPlay cabinetId={BigInt(params.id)} />
+    </main>
+  )
+}
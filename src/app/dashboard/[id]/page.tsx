@@ -0,0 +1,12 @@
+import { notFound } from "next/navigation"
+import { CabinetManager } from "@/components/dashboard/cabinet-manager"
+
+export default function ManageCabinetPage({ params }: { params: { id: string } }) {
+  if (!/^\d+$/.test(params.id)) notFound()
+
+  return (
+    <main className="mx-auto max-w-5xl px-4 py-10">
+      <CabinetManager cabinetId={BigInt(params.id)} />
+    </main>
+  )
+}
@@ -0,0 +1,10 @@
+import { OwnerDashboard } from "@/components/dashboard/owner-dashboard"
+
+export default function DashboardPage() {
+  return (
+    <main className="mx-auto flex max-w-5xl flex-col gap-6 px-4 py-10">
+      <h1 className="text-3xl font-bold tracking-tight">My cabinets</h1>
+      <OwnerDashboard />
+    </main>
+  )
+}
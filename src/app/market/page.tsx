@@ -0,0 +1,10 @@
+import { Marketplace } from "@/components/market/marketplace"
+
+export default function MarketPage() {
+  return (
+    <main className="mx-auto flex max-w-5xl flex-col gap-6 px-4 py-10">
+      <h1 className="text-3xl font-bold tracking-tight">Marketplace</h1>
+      <Marketplace />
+    </main>
+  )
+}
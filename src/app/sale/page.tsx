@@ -0,0 +1,13 @@
+import { SaleStorefront } from "@/components/sale/sale-storefront"
+
+export default function SalePage() {
+  return (
+    <main className="mx-auto flex max-w-3xl flex-col gap-6 px-4 py-10">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Cabinet sale</h1>
+        <p className="text-sm text-muted-foreground">Early tiers sell at a discount until their allocation runs out.</p>
+      </div>
+      <SaleStorefront />
+    </main>
+  )
+}
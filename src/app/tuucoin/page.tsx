@@ -0,0 +1,13 @@
+import { TuuCoinWallet } from "@/components/tuucoin/tuucoin-wallet"
+
+export default function TuuCoinPage() {
+  return (
+    <main className="mx-auto flex max-w-3xl flex-col gap-6 px-4 py-10">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">TuuCoin</h1>
+        <p className="text-sm text-muted-foreground">Losing plays pay out TuuCoin. Burn it to improve your odds.</p>
+      </div>
+      <TuuCoinWallet />
+    </main>
+  )
+}
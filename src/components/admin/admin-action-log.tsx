@@ -0,0 +1,69 @@
+"use client"
+
+import { useQuery } from "@tanstack/react-query"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useTuuKeepClient } from "@/hooks/use-tuukeep-client"
+import { describeAdminAction } from "@/lib/tuucoin-admin"
+import { ADMIN_ACTION_LIMIT, fetchAdminActions, tuuCoinQueryKey } from "@/lib/tuucoin"
+import { shortenAddress } from "@/lib/utils"
+
+/** Recent TuuCoin admin calls from the indexer, with who sent them */
+export function AdminActionLog() {
+  const { client } = useTuuKeepClient()
+
+  const actions = useQuery({
+    queryKey: [...tuuCoinQueryKey(client?.addresses.tuuCoin), "adminActions"],
+    queryFn: fetchAdminActions,
+    enabled: !!client,
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Audit trail</CardTitle>
+        <CardDescription>
+          The last {ADMIN_ACTION_LIMIT} emission, supply and pause changes, as indexed from TuuCoin events.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="text-sm">
+        {actions.error ? (
+          <p className="text-muted-foreground">Audit trail is unavailable: {actions.error.message}</p>
+        ) : !actions.data ? (
+          <p className="text-muted-foreground">Loading audit trail…</p>
+        ) : actions.data.items.length === 0 ? (
+          <p className="text-muted-foreground">No admin actions yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>By</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {actions.data.items.map((action) => {
+                const { label, summary } = describeAdminAction(action)
+                return (
+                  <TableRow key={`${action.transactionHash}-${action.logIndex}`}>
+                    <TableCell className="whitespace-nowrap text-muted-foreground">
+                      {new Date(action.timestamp * 1000).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      <p className="font-medium">{label}</p>
+                      {summary && <p className="text-xs text-muted-foreground">{summary}</p>}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs" title={action.transactionHash}>
+                      {shortenAddress(action.sender)}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
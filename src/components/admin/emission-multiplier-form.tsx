@@ -0,0 +1,118 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { formatEther } from "viem"
+import { MAX_EMISSION_MULTIPLIER_BPS, type EmissionConfig } from "@tuukeep/sdk"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { useTuuKeepClient } from "@/hooks/use-tuukeep-client"
+import { useTuuKeepTransaction } from "@/hooks/use-tuukeep-transaction"
+import { parseIntegerInput, validateEmissionMultiplier } from "@/lib/tuucoin-admin"
+import { formatBasisPoints, tuuCoinQueryKey } from "@/lib/tuucoin"
+import { describeTuuKeepError } from "@/lib/tuukeep"
+
+interface EmissionMultiplierFormProps {
+  config: EmissionConfig
+  canEdit: boolean
+}
+
+/** Per-cabinet emission multiplier, previewed on a reward of twice the base rate */
+export function EmissionMultiplierForm({ config, canEdit }: EmissionMultiplierFormProps) {
+  const { client } = useTuuKeepClient()
+  const [cabinetInput, setCabinetInput] = useState("")
+  const [multiplierInput, setMultiplierInput] = useState("")
+
+  const cabinetId = parseIntegerInput(cabinetInput)
+  const multiplier = parseIntegerInput(multiplierInput)
+
+  const cabinet = useQuery({
+    queryKey: [...tuuCoinQueryKey(client?.addresses.tuuCoin), "emissionMultiplier", cabinetId?.toString()],
+    queryFn: async () => ({
+      isRegistered: await client!.isTuuCoinCabinetRegistered(cabinetId!),
+      multiplier: await client!.getCabinetEmissionMultiplier(cabinetId!),
+    }),
+    enabled: !!client && cabinetId !== undefined,
+  })
+
+  const error =
+    multiplierInput && multiplier === undefined
+      ? "Enter whole basis points"
+      : cabinet.data && multiplier !== undefined
+        ? validateEmissionMultiplier(multiplier, cabinet.data.isRegistered)
+        : undefined
+
+  const save = useTuuKeepTransaction(async (tuuKeep, change: { cabinetId: bigint; multiplier: bigint }) =>
+    tuuKeep.waitForReceipt(await tuuKeep.setCabinetEmissionMultiplier(change.cabinetId, change.multiplier)),
+  )
+
+  function onSubmit(event: FormEvent) {
+    event.preventDefault()
+    if (cabinetId === undefined || multiplier === undefined || !cabinet.data || error) return
+    save.mutate({ cabinetId, multiplier }, { onSuccess: () => setMultiplierInput("") })
+  }
+
+  // A reward of twice the base rate shows both the scaling and the clamp
+  const sample = config.baseRate * 2n
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Cabinet multiplier</CardTitle>
+        <CardDescription>
+          Scales one cabinet&apos;s rewards, in basis points up to {formatBasisPoints(MAX_EMISSION_MULTIPLIER_BPS)}. 0
+          resets it to the 100% default.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="text-sm">
+        <form className="flex flex-col gap-3" onSubmit={onSubmit}>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="flex flex-col gap-1">
+              Cabinet ID
+              <Input
+                inputMode="numeric"
+                value={cabinetInput}
+                disabled={save.isPending}
+                onChange={(event) => setCabinetInput(event.target.value)}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              Multiplier (bps)
+              <Input
+                inputMode="numeric"
+                placeholder="10000"
+                value={multiplierInput}
+                disabled={!canEdit || save.isPending}
+                onChange={(event) => setMultiplierInput(event.target.value)}
+              />
+            </label>
+          </div>
+          {cabinet.error && <p className="text-destructive">{describeTuuKeepError(cabinet.error)}</p>}
+          {cabinet.data && client && (
+            <p className="text-muted-foreground">
+              Currently {cabinet.data.multiplier === 0n ? "100% (default)" : formatBasisPoints(cabinet.data.multiplier)}
+              : a {formatEther(sample)} TUU reward mints{" "}
+              {formatEther(client.previewEmissionAmount(config, cabinet.data.multiplier, sample))} TUU
+              {multiplier !== undefined &&
+                !error &&
+                `, ${formatEther(client.previewEmissionAmount(config, multiplier, sample))} TUU after the change`}
+              .
+            </p>
+          )}
+          {error && <span className="text-xs text-destructive">{error}</span>}
+          {canEdit && (
+            <Button
+              type="submit"
+              className="self-start"
+              disabled={multiplier === undefined || !cabinet.data || !!error || save.isPending}
+            >
+              {save.isPending ? "Submitting…" : "Set multiplier"}
+            </Button>
+          )}
+          {save.error && <p className="text-destructive">{describeTuuKeepError(save.error)}</p>}
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,205 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { formatEther } from "viem"
+import type { EmissionConfig, EmissionRateParameters } from "@tuukeep/sdk"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useTuuKeepClient } from "@/hooks/use-tuukeep-client"
+import { useTuuKeepTransaction } from "@/hooks/use-tuukeep-transaction"
+import { parseIntegerInput, parseCabinetIds, validateEmissionRate } from "@/lib/tuucoin-admin"
+import { formatBasisPoints, parseTuuCoinInput, tuuCoinQueryKey } from "@/lib/tuucoin"
+import { describeTuuKeepError } from "@/lib/tuukeep"
+
+interface EmissionPanelProps {
+  config: EmissionConfig
+  canEdit: boolean
+}
+
+/**
+ * Emission rates and switch, with a preview of what `calculateEmissionAmount`
+ * returns on sample cabinets now and under the values being edited
+ */
+export function EmissionPanel({ config, canEdit }: EmissionPanelProps) {
+  const { client } = useTuuKeepClient()
+  const [baseInput, setBaseInput] = useState(formatEther(config.baseRate))
+  const [maxInput, setMaxInput] = useState(formatEther(config.maxRate))
+  const [decayInput, setDecayInput] = useState(config.decayFactor.toString())
+  const [isActive, setIsActive] = useState(config.isActive)
+  const [sampleInput, setSampleInput] = useState("0, 1, 2")
+  const [rewardInput, setRewardInput] = useState("1")
+
+  const proposed = {
+    baseRate: parseTuuCoinInput(baseInput),
+    maxRate: parseTuuCoinInput(maxInput),
+    decayFactor: parseIntegerInput(decayInput),
+  }
+  const rates =
+    proposed.baseRate !== undefined && proposed.maxRate !== undefined && proposed.decayFactor !== undefined
+      ? { baseRate: proposed.baseRate, maxRate: proposed.maxRate, decayFactor: proposed.decayFactor }
+      : undefined
+  const error = rates ? validateEmissionRate(rates) : "Enter TUU amounts and whole basis points"
+  const ratesChanged =
+    !!rates &&
+    (rates.baseRate !== config.baseRate || rates.maxRate !== config.maxRate || rates.decayFactor !== config.decayFactor)
+  const activeChanged = isActive !== config.isActive
+
+  const sampleIds = parseCabinetIds(sampleInput)
+  const reward = parseTuuCoinInput(rewardInput)
+
+  const samples = useQuery({
+    queryKey: [
+      ...tuuCoinQueryKey(client?.addresses.tuuCoin),
+      "emissionPreview",
+      sampleIds?.join(","),
+      reward?.toString(),
+    ],
+    queryFn: () =>
+      Promise.all(
+        sampleIds!.map(async (cabinetId) => ({
+          cabinetId,
+          isRegistered: await client!.isTuuCoinCabinetRegistered(cabinetId),
+          multiplier: await client!.getCabinetEmissionMultiplier(cabinetId),
+          current: await client!.calculateEmissionAmount(cabinetId, reward!),
+        })),
+      ),
+    enabled: !!client && !!sampleIds?.length && !!reward,
+  })
+
+  // Rates and the switch are separate calls; unchanged ones are skipped
+  const update = useTuuKeepTransaction(
+    async (tuuKeep, change: { rates?: EmissionRateParameters; isActive?: boolean }) => {
+      if (change.rates) await tuuKeep.waitForReceipt(await tuuKeep.updateEmissionConfig(change.rates))
+      if (change.isActive !== undefined) await tuuKeep.waitForReceipt(await tuuKeep.setEmissionActive(change.isActive))
+    },
+  )
+
+  function onSubmit(event: FormEvent) {
+    event.preventDefault()
+    if (error || (!ratesChanged && !activeChanged)) return
+    update.mutate({ rates: ratesChanged ? rates : undefined, isActive: activeChanged ? isActive : undefined })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Emission
+          <Badge variant={config.isActive ? "default" : "outline"}>{config.isActive ? "Active" : "Inactive"}</Badge>
+        </CardTitle>
+        <CardDescription>
+          While active, cabinet rewards minted through <code>mintForGachaReward</code> are scaled by the cabinet&apos;s
+          multiplier and clamped between the base and max rate. The decay factor is stored but not applied yet, and
+          the consolation TuuCoin from plays is minted directly, so it is not affected.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-6 text-sm">
+        <form className="flex flex-col gap-3" onSubmit={onSubmit}>
+          <div className="grid gap-3 sm:grid-cols-3">
+            <label className="flex flex-col gap-1">
+              Base rate (TUU)
+              <Input
+                inputMode="decimal"
+                value={baseInput}
+                disabled={!canEdit || update.isPending}
+                onChange={(event) => setBaseInput(event.target.value)}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              Max rate (TUU)
+              <Input
+                inputMode="decimal"
+                value={maxInput}
+                disabled={!canEdit || update.isPending}
+                onChange={(event) => setMaxInput(event.target.value)}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              Decay factor (bps)
+              <Input
+                inputMode="numeric"
+                value={decayInput}
+                disabled={!canEdit || update.isPending}
+                onChange={(event) => setDecayInput(event.target.value)}
+              />
+            </label>
+          </div>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={isActive}
+              disabled={!canEdit || update.isPending}
+              onChange={(event) => setIsActive(event.target.checked)}
+            />
+            Emission active
+          </label>
+          {error && <span className="text-xs text-destructive">{error}</span>}
+          {canEdit && (
+            <Button
+              type="submit"
+              className="self-start"
+              disabled={!!error || (!ratesChanged && !activeChanged) || update.isPending}
+            >
+              {update.isPending ? "Submitting…" : ratesChanged && activeChanged ? "Submit both changes" : "Submit"}
+            </Button>
+          )}
+          {update.error && <p className="text-destructive">{describeTuuKeepError(update.error)}</p>}
+        </form>
+
+        <div className="flex flex-col gap-3">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="flex flex-col gap-1">
+              Sample cabinets
+              <Input value={sampleInput} onChange={(event) => setSampleInput(event.target.value)} />
+            </label>
+            <label className="flex flex-col gap-1">
+              Base reward (TUU)
+              <Input inputMode="decimal" value={rewardInput} onChange={(event) => setRewardInput(event.target.value)} />
+            </label>
+          </div>
+          {sampleIds === undefined && <span className="text-xs text-destructive">Enter cabinet IDs separated by commas</span>}
+          {samples.error ? (
+            <p className="text-destructive">{describeTuuKeepError(samples.error)}</p>
+          ) : (
+            samples.data && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Cabinet</TableHead>
+                    <TableHead className="text-right">Multiplier</TableHead>
+                    <TableHead className="text-right">Mints now</TableHead>
+                    <TableHead className="text-right">After change</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {samples.data.map(({ cabinetId, isRegistered, multiplier, current }) => {
+                    const after = rates && client?.previewEmissionAmount({ ...rates, isActive }, multiplier, reward!)
+                    return (
+                      <TableRow key={cabinetId.toString()}>
+                        <TableCell>
+                          #{cabinetId.toString()}
+                          {!isRegistered && <span className="ml-2 text-xs text-muted-foreground">not registered</span>}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {multiplier === 0n ? "100% (default)" : formatBasisPoints(multiplier)}
+                        </TableCell>
+                        <TableCell className="text-right">{formatEther(current)} TUU</TableCell>
+                        <TableCell className="text-right font-medium">
+                          {after === undefined ? "—" : `${formatEther(after)} TUU`}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            )
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
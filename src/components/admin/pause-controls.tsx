@@ -0,0 +1,138 @@
+"use client"
+
+import { useState } from "react"
+import type { SelectivePauseParameters, TuuCoinPauseStatus } from "@tuukeep/sdk"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { useTuuKeepTransaction } from "@/hooks/use-tuukeep-transaction"
+import { describeTuuKeepError } from "@/lib/tuukeep"
+
+interface PauseControlsProps {
+  pause: TuuCoinPauseStatus
+  canEdit: boolean
+}
+
+type PauseAction =
+  | { kind: "selective"; parameters: SelectivePauseParameters }
+  | { kind: "selectiveUnpause" }
+  | { kind: "emergency"; reason: string }
+  | { kind: "emergencyUnpause" }
+
+const SWITCHES = [
+  ["minting", "mintingPaused", "Minting"],
+  ["burning", "burningPaused", "Burning"],
+  ["transfers", "transfersPaused", "Transfers"],
+] as const
+
+/** Selective pause switches and the global emergency pause, each with a logged reason */
+export function PauseControls({ pause, canEdit }: PauseControlsProps) {
+  const [selected, setSelected] = useState({
+    minting: pause.mintingPaused,
+    burning: pause.burningPaused,
+    transfers: pause.transfersPaused,
+  })
+  const [reason, setReason] = useState("")
+
+  const run = useTuuKeepTransaction(async (client, action: PauseAction) => {
+    const hash =
+      action.kind === "selective"
+        ? await client.selectivePause(action.parameters)
+        : action.kind === "selectiveUnpause"
+          ? await client.selectiveUnpause()
+          : action.kind === "emergency"
+            ? await client.emergencyPause(action.reason)
+            : await client.emergencyUnpause()
+    return client.waitForReceipt(hash)
+  })
+
+  const anySelective = pause.mintingPaused || pause.burningPaused || pause.transfersPaused
+  const disabled = !canEdit || run.isPending
+  const onSuccess = () => setReason("")
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Pauses
+          {pause.paused && <Badge variant="destructive">Emergency pause</Badge>}
+        </CardTitle>
+        <CardDescription>
+          A selective pause sets all three switches at once. Transfers stops wallet-to-wallet transfers; minting,
+          burning and the emergency pause only stop <code>mintForGachaReward</code> and{" "}
+          <code>burnForGachaPlay</code>, so play consolations, boosts and burns for odds carry on. Pausing requires a
+          reason, which is kept in the audit trail.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4 text-sm">
+        <label className="flex flex-col gap-1">
+          Reason
+          <Input
+            value={reason}
+            placeholder="Why this pause is needed"
+            disabled={disabled}
+            onChange={(event) => setReason(event.target.value)}
+          />
+        </label>
+
+        <div className="flex flex-col gap-2">
+          <div className="flex flex-wrap gap-4">
+            {SWITCHES.map(([name, status, label]) => (
+              <label key={name} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={selected[name]}
+                  disabled={disabled}
+                  onChange={(event) => setSelected({ ...selected, [name]: event.target.checked })}
+                />
+                {label}
+                {pause[status] && <Badge variant="outline">paused</Badge>}
+              </label>
+            ))}
+          </div>
+          {canEdit && (
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="secondary"
+                disabled={disabled || !reason.trim()}
+                onClick={() =>
+                  run.mutate({ kind: "selective", parameters: { ...selected, reason: reason.trim() } }, { onSuccess })
+                }
+              >
+                Apply selective pause
+              </Button>
+              <Button
+                variant="outline"
+                disabled={disabled || !anySelective}
+                onClick={() => run.mutate({ kind: "selectiveUnpause" })}
+              >
+                Lift selective pause
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {canEdit && (
+          <div className="flex flex-wrap gap-2 border-t pt-4">
+            {pause.paused ? (
+              <Button disabled={disabled} onClick={() => run.mutate({ kind: "emergencyUnpause" })}>
+                Lift emergency pause
+              </Button>
+            ) : (
+              <Button
+                variant="destructive"
+                disabled={disabled || !reason.trim()}
+                onClick={() => run.mutate({ kind: "emergency", reason: reason.trim() }, { onSuccess })}
+              >
+                Emergency pause
+              </Button>
+            )}
+          </div>
+        )}
+
+        {run.error && <p className="text-destructive">{describeTuuKeepError(run.error)}</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,52 @@
+import { formatEther } from "viem"
+import type { PriceLadderStep } from "@tuukeep/sdk"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { formatDiscount } from "@/lib/sale"
+
+interface PriceLadderProps {
+  steps: readonly PriceLadderStep[]
+  currency: string
+}
+
+/** Tier prices in sale order, with the cabinets each tier covers and what it raises */
+export function PriceLadder({ steps, currency }: PriceLadderProps) {
+  const total = steps.reduce((sum, step) => sum + step.revenue, 0n)
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Tier</TableHead>
+          <TableHead className="text-right">Price</TableHead>
+          <TableHead className="text-right">Cabinets</TableHead>
+          <TableHead className="text-right">Raises</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {steps.map((step) => (
+          <TableRow key={step.tierIndex}>
+            <TableCell>
+              <p className="font-medium">{step.name || `Tier ${step.tierIndex + 1}`}</p>
+              <p className="text-xs text-muted-foreground">{formatDiscount(step.discountBps)}</p>
+            </TableCell>
+            <TableCell className="text-right">
+              {formatEther(step.price)} {currency}
+            </TableCell>
+            <TableCell className="text-right">
+              {step.firstCabinet.toString()}–{step.lastCabinet.toString()}
+            </TableCell>
+            <TableCell className="text-right">
+              {formatEther(step.revenue)} {currency}
+            </TableCell>
+          </TableRow>
+        ))}
+        <TableRow>
+          <TableCell colSpan={3}>Sold out, before platform fees</TableCell>
+          <TableCell className="text-right font-medium">
+            {formatEther(total)} {currency}
+          </TableCell>
+        </TableRow>
+      </TableBody>
+    </Table>
+  )
+}
@@ -0,0 +1,118 @@
+"use client"
+
+import { useQuery } from "@tanstack/react-query"
+import type { TierSaleRole } from "@tuukeep/sdk"
+import { useAccount } from "wagmi"
+import { Badge } from "@/components/ui/badge"
+import { ConnectButton } from "@/components/wallet/connect-button"
+import { useTuuKeepClient } from "@/hooks/use-tuukeep-client"
+import { SALE_ADMIN_ROLES, type SaleAdminRoles } from "@/lib/sale-admin"
+import { describeTuuKeepError } from "@/lib/tuukeep"
+import { SalePhaseBuilder } from "./sale-phase-builder"
+import { SalePhaseList } from "./sale-phase-list"
+import { SaleRevenuePanel } from "./sale-revenue-panel"
+
+const ROLE_NAMES = Object.keys(SALE_ADMIN_ROLES) as TierSaleRole[]
+
+/**
+ * Tier sale phases, tiers and revenue for the connected wallet. Sale managers
+ * plan and switch phases; platform admins withdraw what the sale has raised.
+ */
+export function SaleAdminConsole() {
+  const { client, error: clientError } = useTuuKeepClient()
+  const { address } = useAccount()
+  const saleKey = ["sale", client?.addresses.tierSale]
+
+  const roles = useQuery({
+    queryKey: [...saleKey, "roles", address],
+    queryFn: async () => {
+      const held = await Promise.all(ROLE_NAMES.map((role) => client!.hasTierSaleRole(role, address!)))
+      return Object.fromEntries(ROLE_NAMES.map((role, index) => [role, held[index]])) as SaleAdminRoles
+    },
+    enabled: !!client?.addresses.tierSale && !!address,
+  })
+  const isAdmin = !!roles.data && Object.values(roles.data).some(Boolean)
+
+  const state = useQuery({
+    queryKey: [...saleKey, "admin"],
+    queryFn: async () => ({
+      phases: await client!.getPhases(),
+      balance: await client!.getTierSaleBalance(),
+    }),
+    enabled: !!client && isAdmin,
+  })
+
+  if (clientError) {
+    return <p className="text-sm text-destructive">{clientError.message}</p>
+  }
+
+  if (client && !client.addresses.tierSale) {
+    return <p className="text-sm text-muted-foreground">There is no tier sale on this network.</p>
+  }
+
+  if (!address) {
+    return (
+      <div className="flex flex-col items-start gap-3">
+        <p className="text-sm text-muted-foreground">Connect a wallet that holds a tier sale role.</p>
+        <ConnectButton />
+      </div>
+    )
+  }
+
+  if (roles.error) {
+    return <p className="text-sm text-destructive">{describeTuuKeepError(roles.error)}</p>
+  }
+
+  if (!roles.data) {
+    return <p className="text-sm text-muted-foreground">Checking roles…</p>
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="flex flex-col gap-2 text-sm">
+        <p>This wallet holds none of the tier sale roles:</p>
+        <ul className="list-disc pl-5 text-muted-foreground">
+          {ROLE_NAMES.map((role) => (
+            <li key={role}>
+              <code>{role}</code>: {SALE_ADMIN_ROLES[role]}
+            </li>
+          ))}
+        </ul>
+      </div>
+    )
+  }
+
+  const currency = client?.publicClient.chain?.nativeCurrency.symbol ?? "KUB"
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex flex-wrap gap-2">
+        {ROLE_NAMES.map((role) => (
+          <Badge key={role} variant={roles.data[role] ? "secondary" : "outline"} title={SALE_ADMIN_ROLES[role]}>
+            {roles.data[role] ? role : `No ${role}`}
+          </Badge>
+        ))}
+      </div>
+
+      {state.error ? (
+        <p className="text-sm text-destructive">{describeTuuKeepError(state.error)}</p>
+      ) : !state.data ? (
+        <p className="text-sm text-muted-foreground">Loading sale…</p>
+      ) : (
+        <>
+          <SalePhaseList phases={state.data.phases} canEdit={roles.data.SALE_MANAGER_ROLE} />
+          <SalePhaseBuilder
+            phases={state.data.phases}
+            currency={currency}
+            canEdit={roles.data.SALE_MANAGER_ROLE}
+          />
+          <SaleRevenuePanel
+            balance={state.data.balance}
+            currency={currency}
+            canEdit={roles.data.PLATFORM_ADMIN_ROLE}
+          />
+        </>
+      )}
+    </div>
+  )
+}
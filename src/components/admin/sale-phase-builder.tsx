@@ -0,0 +1,238 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import { getPriceLadder, getSalePhasePlanIssues, submitSalePhasePlan, type PhaseDetails, type SalePhasePlan } from "@tuukeep/sdk"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { useNow } from "@/hooks/use-now"
+import { useTuuKeepTransaction } from "@/hooks/use-tuukeep-transaction"
+import { EMPTY_TIER_FORM, describeSetupStep, parseSalePhaseForm, type SalePhaseForm, type TierForm } from "@/lib/sale-admin"
+import { describeTuuKeepError } from "@/lib/tuukeep"
+import { PriceLadder } from "./price-ladder"
+
+interface SalePhaseBuilderProps {
+  phases: readonly PhaseDetails[]
+  currency: string
+  canEdit: boolean
+}
+
+const EMPTY_FORM: SalePhaseForm = {
+  name: "",
+  startTime: "",
+  endTime: "",
+  totalCabinets: "",
+  basePrice: "",
+  tiers: [EMPTY_TIER_FORM],
+}
+
+/**
+ * Phase and tier form with a live price ladder. The plan is checked against the
+ * contract's rules and the phases already on chain, then sent as one setup.
+ */
+export function SalePhaseBuilder({ phases, currency, canEdit }: SalePhaseBuilderProps) {
+  const now = useNow()
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [activate, setActivate] = useState(true)
+  const [progress, setProgress] = useState<string[]>([])
+
+  const { plan, inputErrors } = parseSalePhaseForm(form)
+  const issues = plan ? getSalePhasePlanIssues(plan, now, phases) : []
+  const problems = [...inputErrors, ...issues.map((issue) => issue.message)]
+
+  const submit = useTuuKeepTransaction((client, submitted: SalePhasePlan) =>
+    submitSalePhasePlan(client, submitted, {
+      activate,
+      onStep: (step) =>
+        setProgress((lines) => [...lines, describeSetupStep(step, submitted.tiers.map((tier) => tier.name))]),
+    }),
+  )
+
+  function setField(field: Exclude<keyof SalePhaseForm, "tiers">, value: string) {
+    setForm((current) => ({ ...current, [field]: value }))
+  }
+
+  function setTier(index: number, field: keyof TierForm, value: string) {
+    setForm((current) => ({
+      ...current,
+      tiers: current.tiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)),
+    }))
+  }
+
+  function onSubmit(event: FormEvent) {
+    event.preventDefault()
+    if (!plan || problems.length > 0) return
+    setProgress([])
+    submit.mutate(plan, { onSuccess: () => setForm(EMPTY_FORM) })
+  }
+
+  const disabled = !canEdit || submit.isPending
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>New phase</CardTitle>
+        <CardDescription>
+          Tiers sell in the order listed. Leave a tier&apos;s window empty to have it take over when the one before sells
+          out; scheduled windows may not overlap. The phase stays inactive until every tier is added.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form className="flex flex-col gap-4 text-sm" onSubmit={onSubmit}>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="flex flex-col gap-1">
+              Name
+              <Input value={form.name} disabled={disabled} onChange={(event) => setField("name", event.target.value)} />
+            </label>
+            <label className="flex flex-col gap-1">
+              Total cabinets
+              <Input
+                inputMode="numeric"
+                placeholder="1–1000"
+                value={form.totalCabinets}
+                disabled={disabled}
+                onChange={(event) => setField("totalCabinets", event.target.value)}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              Starts (empty for now)
+              <Input
+                type="datetime-local"
+                value={form.startTime}
+                disabled={disabled}
+                onChange={(event) => setField("startTime", event.target.value)}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              Ends (empty for no end)
+              <Input
+                type="datetime-local"
+                value={form.endTime}
+                disabled={disabled}
+                onChange={(event) => setField("endTime", event.target.value)}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              Base price ({currency})
+              <Input
+                inputMode="decimal"
+                placeholder="0.001–1000"
+                value={form.basePrice}
+                disabled={disabled}
+                onChange={(event) => setField("basePrice", event.target.value)}
+              />
+            </label>
+          </div>
+
+          <fieldset className="flex flex-col gap-3">
+            <legend className="mb-2 font-medium">Tiers</legend>
+            {form.tiers.map((tier, index) => (
+              <div key={index} className="grid gap-2 rounded-md border p-3 sm:grid-cols-3">
+                <label className="flex flex-col gap-1">
+                  Tier {index + 1} name
+                  <Input
+                    value={tier.name}
+                    disabled={disabled}
+                    onChange={(event) => setTier(index, "name", event.target.value)}
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  Quantity
+                  <Input
+                    inputMode="numeric"
+                    value={tier.maxQuantity}
+                    disabled={disabled}
+                    onChange={(event) => setTier(index, "maxQuantity", event.target.value)}
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  Discount (bps)
+                  <Input
+                    inputMode="numeric"
+                    placeholder="7000 = 70% off"
+                    value={tier.discountBps}
+                    disabled={disabled}
+                    onChange={(event) => setTier(index, "discountBps", event.target.value)}
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  Opens
+                  <Input
+                    type="datetime-local"
+                    value={tier.startTime}
+                    disabled={disabled}
+                    onChange={(event) => setTier(index, "startTime", event.target.value)}
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  Closes
+                  <Input
+                    type="datetime-local"
+                    value={tier.endTime}
+                    disabled={disabled}
+                    onChange={(event) => setTier(index, "endTime", event.target.value)}
+                  />
+                </label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="self-end"
+                  disabled={disabled || form.tiers.length === 1}
+                  onClick={() => setForm((current) => ({ ...current, tiers: current.tiers.filter((_, i) => i !== index) }))}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              className="self-start"
+              disabled={disabled}
+              onClick={() => setForm((current) => ({ ...current, tiers: [...current.tiers, EMPTY_TIER_FORM] }))}
+            >
+              Add tier
+            </Button>
+          </fieldset>
+
+          {plan && plan.tiers.length > 0 && <PriceLadder steps={getPriceLadder(plan)} currency={currency} />}
+
+          {/* Nothing to flag until the form has been touched */}
+          {form !== EMPTY_FORM && problems.length > 0 && (
+            <ul className="list-disc pl-5 text-destructive">
+              {problems.map((problem, index) => (
+                <li key={index}>{problem}</li>
+              ))}
+            </ul>
+          )}
+
+          {canEdit && (
+            <div className="flex flex-wrap items-center gap-4">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={activate}
+                  disabled={submit.isPending}
+                  onChange={(event) => setActivate(event.target.checked)}
+                />
+                Activate once tiers are added
+              </label>
+              <Button type="submit" disabled={!plan || problems.length > 0 || submit.isPending}>
+                {submit.isPending ? "Creating…" : "Create phase"}
+              </Button>
+            </div>
+          )}
+
+          {progress.length > 0 && (
+            <ol className="list-decimal pl-5 text-muted-foreground">
+              {progress.map((line, index) => (
+                <li key={index}>{line}</li>
+              ))}
+            </ol>
+          )}
+          {submit.error && <p className="text-destructive">{describeTuuKeepError(submit.error)}</p>}
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
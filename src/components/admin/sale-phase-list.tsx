@@ -0,0 +1,93 @@
+"use client"
+
+import type { PhaseDetails } from "@tuukeep/sdk"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useNow } from "@/hooks/use-now"
+import { useTuuKeepTransaction } from "@/hooks/use-tuukeep-transaction"
+import { getPhaseStatus, type PhaseStatus } from "@/lib/sale"
+import { describeTuuKeepError } from "@/lib/tuukeep"
+
+interface SalePhaseListProps {
+  phases: readonly PhaseDetails[]
+  canEdit: boolean
+}
+
+const STATUS_LABELS: Record<PhaseStatus, string> = {
+  upcoming: "Upcoming",
+  live: "Live",
+  soldOut: "Sold out",
+  ended: "Ended",
+  paused: "Inactive",
+}
+
+/** Every phase with its sales so far and a switch to open or close it */
+export function SalePhaseList({ phases, canEdit }: SalePhaseListProps) {
+  const now = useNow()
+
+  const toggle = useTuuKeepTransaction(async (client, { phaseId, isActive }: { phaseId: bigint; isActive: boolean }) =>
+    client.waitForReceipt(isActive ? await client.deactivatePhase(phaseId) : await client.activatePhase(phaseId)),
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Phases</CardTitle>
+        <CardDescription>
+          Deactivating a phase stops purchases without touching its tiers; activate it again to resume.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4 text-sm">
+        {phases.length === 0 ? (
+          <p className="text-muted-foreground">No phases yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Phase</TableHead>
+                <TableHead className="text-right">Sold</TableHead>
+                <TableHead className="text-right">Tiers</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...phases].reverse().map((details) => {
+                const { phaseId, phase } = details
+                const status = getPhaseStatus(details, now)
+                return (
+                  <TableRow key={phaseId.toString()}>
+                    <TableCell>
+                      <p className="font-medium">
+                        #{phaseId.toString()} {phase.name}
+                      </p>
+                      <Badge variant={status === "live" ? "default" : "outline"}>{STATUS_LABELS[status]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {phase.soldCabinets.toString()} / {phase.totalCabinets.toString()}
+                    </TableCell>
+                    <TableCell className="text-right">{phase.tierIds.length}</TableCell>
+                    <TableCell className="text-right">
+                      {canEdit && (
+                        <Button
+                          size="sm"
+                          variant={phase.isActive ? "outline" : "secondary"}
+                          disabled={toggle.isPending}
+                          onClick={() => toggle.mutate({ phaseId, isActive: phase.isActive })}
+                        >
+                          {phase.isActive ? "Deactivate" : "Activate"}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+        {toggle.error && <p className="text-destructive">{describeTuuKeepError(toggle.error)}</p>}
+      </CardContent>
+    </Card>
+  )
+}
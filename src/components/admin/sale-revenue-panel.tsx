@@ -0,0 +1,96 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import { formatEther, getAddress, isAddress, parseEther } from "viem"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { useTuuKeepTransaction } from "@/hooks/use-tuukeep-transaction"
+import { describeTuuKeepError } from "@/lib/tuukeep"
+
+interface SaleRevenuePanelProps {
+  balance: bigint
+  currency: string
+  canEdit: boolean
+}
+
+/** What the sale contract holds and a withdrawal to any address */
+export function SaleRevenuePanel({ balance, currency, canEdit }: SaleRevenuePanelProps) {
+  const [to, setTo] = useState("")
+  const [amountInput, setAmountInput] = useState("")
+
+  let amount: bigint | undefined
+  try {
+    // Empty withdraws everything
+    amount = amountInput.trim() ? parseEther(amountInput) : balance
+  } catch {
+    amount = undefined
+  }
+  const toError = to && !isAddress(to) ? "Enter an address" : undefined
+  const amountError =
+    amount === undefined || amount <= 0n || amount > balance
+      ? `Enter an amount up to ${formatEther(balance)} ${currency}`
+      : undefined
+
+  const withdraw = useTuuKeepTransaction(async (client, { to, amount }: { to: string; amount: bigint }) =>
+    client.waitForReceipt(await client.withdrawSaleRevenue(getAddress(to), amount)),
+  )
+
+  function onSubmit(event: FormEvent) {
+    event.preventDefault()
+    if (!isAddress(to) || amount === undefined || amountError) return
+    withdraw.mutate({ to, amount }, { onSuccess: () => setAmountInput("") })
+  }
+
+  const disabled = !canEdit || withdraw.isPending
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Revenue</CardTitle>
+        <CardDescription>
+          Purchases stay in the sale contract until withdrawn. Requires <code>PLATFORM_ADMIN_ROLE</code>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4 text-sm">
+        <p>
+          <span className="text-muted-foreground">Balance </span>
+          <span className="font-medium">
+            {formatEther(balance)} {currency}
+          </span>
+        </p>
+
+        <form className="flex flex-col gap-3" onSubmit={onSubmit}>
+          <label className="flex flex-col gap-1">
+            Send to
+            <Input placeholder="0x…" value={to} disabled={disabled} onChange={(event) => setTo(event.target.value)} />
+            {toError && <span className="text-xs text-destructive">{toError}</span>}
+          </label>
+          <label className="flex flex-col gap-1">
+            Amount ({currency})
+            <Input
+              inputMode="decimal"
+              placeholder={`${formatEther(balance)} (everything)`}
+              value={amountInput}
+              disabled={disabled}
+              onChange={(event) => setAmountInput(event.target.value)}
+            />
+            {balance > 0n && amountError && <span className="text-xs text-destructive">{amountError}</span>}
+          </label>
+          {canEdit && (
+            <Button
+              type="submit"
+              variant="secondary"
+              className="self-start"
+              disabled={!isAddress(to) || !!amountError || withdraw.isPending}
+            >
+              Withdraw
+            </Button>
+          )}
+        </form>
+
+        {withdraw.error && <p className="text-destructive">{describeTuuKeepError(withdraw.error)}</p>}
+      </CardContent>
+    </Card>
+  )
+}
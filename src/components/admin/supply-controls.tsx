@@ -0,0 +1,108 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import { formatEther } from "viem"
+import { TUUCOIN_MAX_SUPPLY, type TuuCoinSupply } from "@tuukeep/sdk"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { useTuuKeepTransaction } from "@/hooks/use-tuukeep-transaction"
+import { validateMaxSupply } from "@/lib/tuucoin-admin"
+import { parseTuuCoinInput } from "@/lib/tuucoin"
+import { describeTuuKeepError } from "@/lib/tuukeep"
+
+interface SupplyControlsProps {
+  supply: TuuCoinSupply
+  canEdit: boolean
+}
+
+/** Dynamic supply switch and the adjustable maximum supply */
+export function SupplyControls({ supply, canEdit }: SupplyControlsProps) {
+  const [maxInput, setMaxInput] = useState("")
+
+  const newMaxSupply = maxInput.trim() ? parseTuuCoinInput(maxInput) : undefined
+  const error = !maxInput.trim()
+    ? undefined
+    : newMaxSupply === undefined
+      ? "Enter a valid amount"
+      : validateMaxSupply(newMaxSupply, supply)
+
+  const setDynamic = useTuuKeepTransaction(async (client, enabled: boolean) =>
+    client.waitForReceipt(await client.setDynamicSupplyEnabled(enabled)),
+  )
+
+  const adjust = useTuuKeepTransaction(async (client, value: bigint) =>
+    client.waitForReceipt(await client.adjustMaxSupply(value)),
+  )
+
+  function onSubmit(event: FormEvent) {
+    event.preventDefault()
+    if (newMaxSupply === undefined || error) return
+    adjust.mutate(newMaxSupply, { onSuccess: () => setMaxInput("") })
+  }
+
+  const isPending = setDynamic.isPending || adjust.isPending
+  const txError = setDynamic.error ?? adjust.error
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Supply
+          <Badge variant={supply.dynamicSupplyEnabled ? "secondary" : "outline"}>
+            {supply.dynamicSupplyEnabled ? "Adjustable cap" : "Fixed cap"}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          With dynamic supply enabled the cap can move between what has been minted and{" "}
+          {formatEther(TUUCOIN_MAX_SUPPLY * 2n)} TUU. Only cabinet rewards check it; direct mints are always held to{" "}
+          {formatEther(TUUCOIN_MAX_SUPPLY)} TUU.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4 text-sm">
+        <dl className="grid grid-cols-[1fr_auto] gap-x-4 gap-y-1">
+          <dt className="text-muted-foreground">Current cap</dt>
+          <dd className="text-right">{formatEther(supply.effectiveMaxSupply)} TUU</dd>
+          <dt className="text-muted-foreground">Minted</dt>
+          <dd className="text-right">{formatEther(supply.totalMinted)} TUU</dd>
+          <dt className="text-muted-foreground">In circulation</dt>
+          <dd className="text-right">{formatEther(supply.totalSupply)} TUU</dd>
+        </dl>
+
+        {canEdit && (
+          <Button
+            variant="outline"
+            className="self-start"
+            disabled={isPending}
+            onClick={() => setDynamic.mutate(!supply.dynamicSupplyEnabled)}
+          >
+            {supply.dynamicSupplyEnabled ? "Disable dynamic supply" : "Enable dynamic supply"}
+          </Button>
+        )}
+
+        <form className="flex flex-col gap-1" onSubmit={onSubmit}>
+          <label htmlFor="max-supply">New maximum supply (TUU)</label>
+          <div className="flex gap-2">
+            <Input
+              id="max-supply"
+              inputMode="decimal"
+              placeholder={formatEther(supply.effectiveMaxSupply)}
+              value={maxInput}
+              disabled={!canEdit || !supply.dynamicSupplyEnabled || isPending}
+              onChange={(event) => setMaxInput(event.target.value)}
+            />
+            {canEdit && (
+              <Button type="submit" variant="secondary" disabled={newMaxSupply === undefined || !!error || isPending}>
+                Adjust
+              </Button>
+            )}
+          </div>
+          {error && <span className="text-xs text-destructive">{error}</span>}
+        </form>
+
+        {txError && <p className="text-destructive">{describeTuuKeepError(txError)}</p>}
+      </CardContent>
+    </Card>
+  )
+}
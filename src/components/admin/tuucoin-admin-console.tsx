@@ -0,0 +1,120 @@
+"use client"
+
+import { useQuery } from "@tanstack/react-query"
+import { useAccount } from "wagmi"
+import { Badge } from "@/components/ui/badge"
+import { ConnectButton } from "@/components/wallet/connect-button"
+import { useTuuKeepClient } from "@/hooks/use-tuukeep-client"
+import { TUUCOIN_ADMIN_ROLES, type TuuCoinAdminRole, type TuuCoinAdminRoles } from "@/lib/tuucoin-admin"
+import { tuuCoinQueryKey } from "@/lib/tuucoin"
+import { describeTuuKeepError } from "@/lib/tuukeep"
+import { AdminActionLog } from "./admin-action-log"
+import { EmissionMultiplierForm } from "./emission-multiplier-form"
+import { EmissionPanel } from "./emission-panel"
+import { PauseControls } from "./pause-controls"
+import { SupplyControls } from "./supply-controls"
+
+const ROLE_NAMES = Object.keys(TUUCOIN_ADMIN_ROLES) as TuuCoinAdminRole[]
+
+/**
+ * TuuCoin emission, supply and pause controls for the connected wallet. Every
+ * panel reads for anyone holding one of the admin roles; each only submits for
+ * the role its calls require.
+ */
+export function TuuCoinAdminConsole() {
+  const { client, error: clientError } = useTuuKeepClient()
+  const { address } = useAccount()
+  const tuuCoinKey = tuuCoinQueryKey(client?.addresses.tuuCoin)
+
+  const roles = useQuery({
+    queryKey: [...tuuCoinKey, "roles", address],
+    queryFn: async () => {
+      const held = await Promise.all(ROLE_NAMES.map((role) => client!.hasTuuCoinRole(role, address!)))
+      return Object.fromEntries(ROLE_NAMES.map((role, index) => [role, held[index]])) as TuuCoinAdminRoles
+    },
+    enabled: !!client && !!address,
+  })
+  const isAdmin = !!roles.data && Object.values(roles.data).some(Boolean)
+
+  const state = useQuery({
+    queryKey: [...tuuCoinKey, "admin"],
+    queryFn: async () => ({
+      config: await client!.getEmissionConfig(),
+      supply: await client!.getTuuCoinSupply(),
+      pause: await client!.getTuuCoinPauseStatus(),
+    }),
+    enabled: !!client && isAdmin,
+  })
+
+  if (clientError) {
+    return <p className="text-sm text-destructive">{clientError.message}</p>
+  }
+
+  if (!address) {
+    return (
+      <div className="flex flex-col items-start gap-3">
+        <p className="text-sm text-muted-foreground">Connect a wallet that holds a TuuCoin admin role.</p>
+        <ConnectButton />
+      </div>
+    )
+  }
+
+  if (roles.error) {
+    return <p className="text-sm text-destructive">{describeTuuKeepError(roles.error)}</p>
+  }
+
+  if (!roles.data) {
+    return <p className="text-sm text-muted-foreground">Checking roles…</p>
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="flex flex-col gap-2 text-sm">
+        <p>This wallet holds none of the TuuCoin admin roles:</p>
+        <ul className="list-disc pl-5 text-muted-foreground">
+          {ROLE_NAMES.map((role) => (
+            <li key={role}>
+              <code>{role}</code>: {TUUCOIN_ADMIN_ROLES[role]}
+            </li>
+          ))}
+        </ul>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex flex-wrap gap-2">
+        {ROLE_NAMES.map((role) => (
+          <Badge key={role} variant={roles.data[role] ? "secondary" : "outline"} title={TUUCOIN_ADMIN_ROLES[role]}>
+            {roles.data[role] ? role : `No ${role}`}
+          </Badge>
+        ))}
+      </div>
+
+      {state.error ? (
+        <p className="text-sm text-destructive">{describeTuuKeepError(state.error)}</p>
+      ) : !state.data ? (
+        <p className="text-sm text-muted-foreground">Loading TuuCoin settings…</p>
+      ) : (
+        <>
+          {/* Keyed on the on-chain config so the form resets after a change lands */}
+          <EmissionPanel
+            key={JSON.stringify(state.data.config, (_, value) => (typeof value === "bigint" ? value.toString() : value))}
+            config={state.data.config}
+            canEdit={roles.data.EMISSION_MANAGER_ROLE}
+          />
+          <EmissionMultiplierForm config={state.data.config} canEdit={roles.data.EMISSION_MANAGER_ROLE} />
+          <SupplyControls supply={state.data.supply} canEdit={roles.data.PLATFORM_ADMIN_ROLE} />
+          <PauseControls
+            key={`${state.data.pause.mintingPaused}-${state.data.pause.burningPaused}-${state.data.pause.transfersPaused}`}
+            pause={state.data.pause}
+            canEdit={roles.data.EMERGENCY_RESPONDER_ROLE}
+          />
+        </>
+      )}
+
+      <AdminActionLog />
+    </div>
+  )
+}
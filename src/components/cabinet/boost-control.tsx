@@ -0,0 +1,82 @@
+import { formatEther } from "viem"
+import { getOddsImprovement, getTuuCoinAmountForImprovement, MAX_ODDS_IMPROVEMENT_BPS } from "@tuukeep/sdk"
+import { Input } from "@/components/ui/input"
+import type { BoostCheck } from "@/lib/odds"
+import { formatBasisPoints } from "@/lib/tuucoin"
+
+interface BoostControlProps {
+  playPrice: bigint
+  maxAmount: bigint
+  /** Parsed `value`; undefined when it does not parse */
+  amount: bigint | undefined
+  value: string
+  onChange: (value: string) => void
+  check: BoostCheck
+  balance?: bigint
+  allowance?: bigint
+  disabled?: boolean
+}
+
+/**
+ * TuuCoin boost for one play. The slider moves in whole basis points of win
+ * chance and sets the least TuuCoin that buys them; the input takes any amount.
+ */
+export function BoostControl({
+  playPrice,
+  maxAmount,
+  amount,
+  value,
+  onChange,
+  check,
+  balance,
+  allowance,
+  disabled,
+}: BoostControlProps) {
+  const improvement = amount !== undefined && amount <= maxAmount ? getOddsImprovement(amount, playPrice) : 0n
+
+  function onSlide(basisPoints: bigint) {
+    onChange(basisPoints === 0n ? "" : formatEther(getTuuCoinAmountForImprovement(basisPoints, playPrice)))
+  }
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="flex items-baseline justify-between">
+        <label htmlFor="tuucoin-boost">TuuCoin boost (optional)</label>
+        <span className="font-medium">+{formatBasisPoints(improvement)} win chance</span>
+      </div>
+      <input
+        type="range"
+        aria-label="Boost in basis points"
+        className="w-full accent-primary"
+        min={0}
+        max={Number(MAX_ODDS_IMPROVEMENT_BPS)}
+        step={1}
+        value={Number(improvement)}
+        disabled={disabled}
+        onChange={(event) => onSlide(BigInt(event.target.value))}
+      />
+      <Input
+        id="tuucoin-boost"
+        inputMode="decimal"
+        placeholder={`0 – ${formatEther(maxAmount)}`}
+        value={value}
+        disabled={disabled}
+        onChange={(event) => onChange(event.target.value)}
+      />
+      {balance !== undefined && (
+        <span className="text-xs text-muted-foreground">
+          Balance {formatEther(balance)} TUU · cabinet may burn {formatEther(allowance ?? 0n)} TUU
+        </span>
+      )}
+      {check.error ? (
+        <span className="text-xs text-destructive">{check.error}</span>
+      ) : (
+        check.needsApproval && (
+          <span className="text-xs text-muted-foreground">
+            Playing first asks you to let the cabinet burn {value} TUU.
+          </span>
+        )
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,195 @@
+"use client"
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { useState } from "react"
+import { formatEther } from "viem"
+import { useAccount } from "wagmi"
+import type { PlayResult } from "@tuukeep/sdk"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { ConnectButton } from "@/components/wallet/connect-button"
+import { useTuuKeepClient } from "@/hooks/use-tuukeep-client"
+import { checkPlayBoost } from "@/lib/odds"
+import { getTokenMetadata } from "@/lib/tokens"
+import { parseTuuCoinInput, tuuCoinQueryKey } from "@/lib/tuucoin"
+import { cabinetQueryKey, describeTuuKeepError } from "@/lib/tuukeep"
+import { BoostControl } from "./boost-control"
+import { OddsPreview } from "./odds-preview"
+import { PlayReveal } from "./play-reveal"
+import { PrizePool } from "./prize-pool"
+
+type PlayStage = "idle" | "approving" | "confirming" | "drawing"
+
+const STAGE_LABELS: Record<PlayStage, string> = {
+  idle: "Play",
+  approving: "Approving TuuCoin…",
+  confirming: "Confirm in wallet…",
+  drawing: "Drawing…",
+}
+
+export function CabinetPlay({ cabinetId }: { cabinetId: bigint }) {
+  const { client, error: clientError } = useTuuKeepClient()
+  const { address, chain } = useAccount()
+  const queryClient = useQueryClient()
+  const [stage, setStage] = useState<PlayStage>("idle")
+  const [result, setResult] = useState<PlayResult>()
+  const [tuuCoinInput, setTuuCoinInput] = useState("")
+
+  const cabinetKey = cabinetQueryKey(client?.addresses.cabinet, cabinetId)
+
+  const cabinet = useQuery({
+    queryKey: [...cabinetKey, "info"],
+    queryFn: () => client!.getCabinet(cabinetId),
+    enabled: !!client,
+  })
+
+  // The full list, since the odds depend on each item's position in it
+  const items = useQuery({
+    queryKey: [...cabinetKey, "items"],
+    queryFn: () => client!.getCabinetItems(cabinetId),
+    enabled: !!client,
+  })
+  const activeItems = items.data?.filter((item) => item.isActive)
+
+  const tokens = useQuery({
+    queryKey: ["tokenMetadata", activeItems?.map((item) => item.contractAddress).join(",")],
+    queryFn: () => getTokenMetadata(client!.publicClient, activeItems ?? []),
+    enabled: !!client && !!activeItems?.length,
+    staleTime: Infinity,
+  })
+
+  const allowsBoost = !!cabinet.data?.config.allowsCustomOdds
+  const wallet = useQuery({
+    queryKey: [...tuuCoinQueryKey(client?.addresses.tuuCoin), "boost", address],
+    queryFn: async () => ({
+      balance: await client!.getTuuCoinBalance(address!),
+      allowance: await client!.getTuuCoinAllowance(address!),
+    }),
+    enabled: !!client && !!address && allowsBoost,
+  })
+
+  const playPrice = cabinet.data?.config.playPrice
+  const maxTuuCoin = client && playPrice !== undefined ? client.maxTuuCoinBurn(playPrice) : 0n
+  const tuuCoinAmount = parseTuuCoinInput(tuuCoinInput)
+  const boost = checkPlayBoost(tuuCoinAmount, { maxAmount: maxTuuCoin, ...wallet.data })
+
+  const play = useMutation({
+    mutationFn: async () => {
+      if (!client || !address || playPrice === undefined || tuuCoinAmount === undefined) {
+        throw new Error("Wallet or cabinet not ready")
+      }
+
+      // The cabinet burns boost TuuCoin with burnFrom, so it needs an allowance
+      // first. Balance and allowance are read again rather than trusted from
+      // the cache, and the play is only sent once the approval has landed
+      if (tuuCoinAmount > 0n) {
+        const limits = {
+          maxAmount: client.maxTuuCoinBurn(playPrice),
+          balance: await client.getTuuCoinBalance(address),
+          allowance: await client.getTuuCoinAllowance(address),
+        }
+        const check = checkPlayBoost(tuuCoinAmount, limits)
+        if (check.error) throw new Error(check.error)
+        if (check.needsApproval) {
+          setStage("approving")
+          await client.waitForReceipt(await client.approveTuuCoin(tuuCoinAmount))
+          if ((await client.getTuuCoinAllowance(address)) < tuuCoinAmount) {
+            throw new Error("TuuCoin approval did not go through")
+          }
+        }
+      }
+
+      setStage("confirming")
+      const hash = await client.play({ cabinetId, tuuCoinAmount, value: playPrice })
+
+      setStage("drawing")
+      return client.waitForPlayResult(hash)
+    },
+    onMutate: () => setResult(undefined),
+    onSuccess: (playResult) => {
+      setResult(playResult)
+      queryClient.invalidateQueries({ queryKey: cabinetKey })
+    },
+    onSettled: () => {
+      setStage("idle")
+      queryClient.invalidateQueries({ queryKey: tuuCoinQueryKey(client?.addresses.tuuCoin) })
+    },
+  })
+
+  if (clientError) {
+    return <p className="text-sm text-destructive">{clientError.message}</p>
+  }
+
+  if (cabinet.error) {
+    return <p className="text-sm text-destructive">{describeTuuKeepError(cabinet.error)}</p>
+  }
+
+  if (!cabinet.data) {
+    return <p className="text-sm text-muted-foreground">Loading cabinet…</p>
+  }
+
+  const { metadata, config } = cabinet.data
+  const currency = chain?.nativeCurrency.symbol ?? client?.publicClient.chain?.nativeCurrency.symbol ?? "KUB"
+  const hasPrizes = (activeItems?.length ?? 0) > 0
+  const canPlay = metadata.isActive && hasPrizes && !boost.error && stage === "idle"
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[1fr_22rem]">
+      <div className="flex flex-col gap-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{metadata.name}</h1>
+          <p className="text-sm text-muted-foreground">
+            Cabinet #{cabinetId.toString()} · {metadata.totalPlays.toString()} plays
+          </p>
+        </div>
+        {activeItems && <PrizePool items={activeItems} tokens={tokens.data} />}
+        {items.data && hasPrizes && (
+          <OddsPreview
+            items={items.data}
+            playPrice={config.playPrice}
+            tuuCoinAmount={allowsBoost && !boost.error ? tuuCoinAmount ?? 0n : 0n}
+            tokens={tokens.data}
+          />
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {formatEther(config.playPrice)} {currency}
+          </CardTitle>
+          <CardDescription>per play</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          <PlayReveal isDrawing={stage === "drawing"} result={result} tokens={tokens.data} />
+
+          {allowsBoost && (
+            <BoostControl
+              playPrice={config.playPrice}
+              maxAmount={maxTuuCoin}
+              amount={tuuCoinAmount}
+              value={tuuCoinInput}
+              onChange={setTuuCoinInput}
+              check={boost}
+              balance={wallet.data?.balance}
+              allowance={wallet.data?.allowance}
+              disabled={stage !== "idle"}
+            />
+          )}
+
+          {!metadata.isActive && <p className="text-sm text-muted-foreground">This cabinet is not active.</p>}
+          {play.error && <p className="text-sm text-destructive">{describeTuuKeepError(play.error)}</p>}
+        </CardContent>
+        <CardFooter>
+          {address ? (
+            <Button className="w-full" size="lg" disabled={!canPlay} onClick={() => play.mutate()}>
+              {stage === "idle" && boost.needsApproval ? "Approve & play" : STAGE_LABELS[stage]}
+            </Button>
+          ) : (
+            <ConnectButton />
+          )}
+        </CardFooter>
+      </Card>
+    </div>
+  )
+}
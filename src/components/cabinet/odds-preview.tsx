@@ -0,0 +1,79 @@
+import type { Address } from "viem"
+import { BASIS_POINTS, getItemOdds, getWinProbability, type GachaItem } from "@tuukeep/sdk"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { formatProbability } from "@/lib/odds"
+import { formatPrize, type TokenMetadata } from "@/lib/tokens"
+import { RarityBadge } from "./rarity-badge"
+
+interface OddsPreviewProps {
+  /** The cabinet's full item list, in contract order */
+  items: readonly GachaItem[]
+  playPrice: bigint
+  tuuCoinAmount: bigint
+  tokens: Record<Address, TokenMetadata> | undefined
+}
+
+/** Exact chance of each outcome for one play, without and with the chosen boost */
+export function OddsPreview({ items, playPrice, tuuCoinAmount, tokens }: OddsPreviewProps) {
+  const base = getItemOdds(items, 0n, playPrice)
+  const boosted = getItemOdds(items, tuuCoinAmount, playPrice)
+  const baseWin = Number(getWinProbability(0n, playPrice)) / Number(BASIS_POINTS)
+  const boostedWin = Number(getWinProbability(tuuCoinAmount, playPrice)) / Number(BASIS_POINTS)
+  const isBoosted = tuuCoinAmount > 0n
+
+  // Rarest prizes first; duplicates of an earlier item never pay out and are left out
+  const rows = items
+    .map((item, index) => ({ item, index, base: base[index], boosted: boosted[index] }))
+    .filter((row) => row.base > 0)
+    .sort((a, b) => Number(b.item.rarity - a.item.rarity))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Odds</CardTitle>
+        <CardDescription>Exact chances per play, from the cabinet&apos;s draw.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Outcome</TableHead>
+              {isBoosted && <TableHead className="text-right">Without boost</TableHead>}
+              <TableHead className="text-right">{isBoosted ? "With boost" : "Chance"}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(({ item, index, base, boosted }) => (
+              <TableRow key={index}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <RarityBadge rarity={item.rarity} />
+                    <span className="truncate">{item.metadata || formatPrize(item, tokens?.[item.contractAddress])}</span>
+                  </div>
+                  {index === items.length - 1 && (
+                    <p className="mt-1 text-xs text-muted-foreground">Plays that draw the last item revert.</p>
+                  )}
+                </TableCell>
+                {isBoosted && <TableCell className="text-right text-muted-foreground">{formatProbability(base)}</TableCell>}
+                <TableCell className="text-right font-medium">{formatProbability(boosted)}</TableCell>
+              </TableRow>
+            ))}
+            <TableRow>
+              <TableCell>Any prize</TableCell>
+              {isBoosted && <TableCell className="text-right text-muted-foreground">{formatProbability(baseWin)}</TableCell>}
+              <TableCell className="text-right font-medium">{formatProbability(boostedWin)}</TableCell>
+            </TableRow>
+            <TableRow>
+              <TableCell>No prize, TuuCoin consolation</TableCell>
+              {isBoosted && (
+                <TableCell className="text-right text-muted-foreground">{formatProbability(1 - baseWin)}</TableCell>
+              )}
+              <TableCell className="text-right font-medium">{formatProbability(1 - boostedWin)}</TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
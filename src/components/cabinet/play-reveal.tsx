@@ -0,0 +1,83 @@
+"use client"
+
+import { AnimatePresence, motion } from "framer-motion"
+import { formatEther, type Address } from "viem"
+import type { PlayResult } from "@tuukeep/sdk"
+import { formatPrize, type TokenMetadata } from "@/lib/tokens"
+import { RarityBadge } from "./rarity-badge"
+
+interface PlayRevealProps {
+  /** True while the play transaction is waiting for its receipt */
+  isDrawing: boolean
+  result: PlayResult | undefined
+  tokens: Record<Address, TokenMetadata> | undefined
+}
+
+export function PlayReveal({ isDrawing, result, tokens }: PlayRevealProps) {
+  return (
+    <div className="flex min-h-56 items-center justify-center">
+      <AnimatePresence mode="wait">
+        {isDrawing && (
+          <motion.div
+            key="drawing"
+            className="size-28 rounded-full bg-gradient-to-br from-amber-300 via-pink-400 to-violet-500 shadow-lg"
+            initial={{ scale: 0.6, opacity: 0 }}
+            animate={{ scale: [1, 1.08, 1], rotate: 360, opacity: 1 }}
+            exit={{ scale: 1.4, opacity: 0 }}
+            transition={{ rotate: { repeat: Infinity, duration: 1.2, ease: "linear" }, scale: { repeat: Infinity, duration: 0.6 } }}
+          />
+        )}
+
+        {!isDrawing && result?.wonPrize && (
+          <motion.div
+            key={`won-${result.transactionHash}`}
+            className="flex flex-col items-center gap-3 text-center"
+            initial={{ rotateY: 90, opacity: 0 }}
+            animate={{ rotateY: 0, opacity: 1 }}
+            transition={{ type: "spring", stiffness: 180, damping: 14 }}
+          >
+            <p className="text-sm uppercase tracking-widest text-muted-foreground">You won</p>
+            {result.prize ? (
+              <>
+                <p className="text-2xl font-bold">
+                  {formatPrize(result.prize, tokens?.[result.prize.contractAddress])}
+                </p>
+                <RarityBadge rarity={result.prize.rarity} className="text-sm" />
+              </>
+            ) : (
+              <p className="text-2xl font-bold">Item #{result.itemIndex?.toString()}</p>
+            )}
+          </motion.div>
+        )}
+
+        {!isDrawing && result && !result.wonPrize && (
+          <motion.div
+            key={`lost-${result.transactionHash}`}
+            className="flex flex-col items-center gap-2 text-center"
+            initial={{ y: 16, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ duration: 0.4 }}
+          >
+            <p className="text-xl font-semibold">No prize this time</p>
+            {result.tuuCoinReward > 0n && (
+              <p className="text-sm text-muted-foreground">
+                +{formatEther(result.tuuCoinReward)} TUU consolation reward
+              </p>
+            )}
+          </motion.div>
+        )}
+
+        {!isDrawing && !result && (
+          <motion.p
+            key="idle"
+            className="text-sm text-muted-foreground"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+          >
+            Pull the lever to draw a prize.
+          </motion.p>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+import type { Address } from "viem"
+import type { GachaItem } from "@tuukeep/sdk"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { formatPrize, type TokenMetadata } from "@/lib/tokens"
+import { RarityBadge } from "./rarity-badge"
+
+interface PrizePoolProps {
+  items: readonly GachaItem[]
+  tokens: Record<Address, TokenMetadata> | undefined
+}
+
+export function PrizePool({ items, tokens }: PrizePoolProps) {
+  // Rarest prizes first
+  const sorted = [...items].sort((a, b) => Number(b.rarity - a.rarity))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Prize pool</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {sorted.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This cabinet has no active prizes.</p>
+        ) : (
+          <ul className="grid gap-3 sm:grid-cols-2">
+            {sorted.map((item) => (
+              <li
+                key={`${item.contractAddress}-${item.tokenIdOrAmount}-${item.depositTime}`}
+                className="flex items-center justify-between gap-3 rounded-lg border p-3"
+              >
+                <div className="min-w-0">
+                  <p className="truncate font-medium">{item.metadata || formatPrize(item, tokens?.[item.contractAddress])}</p>
+                  {item.metadata && (
+                    <p className="truncate text-xs text-muted-foreground">
+                      {formatPrize(item, tokens?.[item.contractAddress])}
+                    </p>
+                  )}
+                </div>
+                <RarityBadge rarity={item.rarity} />
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
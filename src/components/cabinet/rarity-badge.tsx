@@ -0,0 +1,8 @@
+import { Badge } from "@/components/ui/badge"
+import { getRarityTier } from "@/lib/rarity"
+import { cn } from "@/lib/utils"
+
+export function RarityBadge({ rarity, className }: { rarity: bigint; className?: string }) {
+  const tier = getRarityTier(rarity)
+  return <Badge className={cn(tier.className, className)}>{tier.label}</Badge>
+}
@@ -0,0 +1,94 @@
+"use client"
+
+import { useQuery } from "@tanstack/react-query"
+import Link from "next/link"
+import { isAddressEqual } from "viem"
+import { useAccount } from "wagmi"
+import { MAX_CABINET_ITEMS } from "@tuukeep/sdk"
+import { ConnectButton } from "@/components/wallet/connect-button"
+import { useTuuKeepClient } from "@/hooks/use-tuukeep-client"
+import { getTokenMetadata } from "@/lib/tokens"
+import { cabinetQueryKey, describeTuuKeepError } from "@/lib/tuukeep"
+import { CabinetSettings } from "./cabinet-settings"
+import { DepositItemForm } from "./deposit-item-form"
+import { ItemInventory } from "./item-inventory"
+import { RevenuePanel } from "./revenue-panel"
+
+export function CabinetManager({ cabinetId }: { cabinetId: bigint }) {
+  const { client, error: clientError } = useTuuKeepClient()
+  const { address } = useAccount()
+
+  const cabinetKey = cabinetQueryKey(client?.addresses.cabinet, cabinetId)
+
+  const cabinet = useQuery({
+    queryKey: [...cabinetKey, "info"],
+    queryFn: () => client!.getCabinet(cabinetId),
+    enabled: !!client,
+  })
+
+  const items = useQuery({
+    queryKey: [...cabinetKey, "items"],
+    queryFn: () => client!.getCabinetItems(cabinetId),
+    enabled: !!client,
+  })
+
+  const tokens = useQuery({
+    queryKey: ["tokenMetadata", items.data?.map((item) => item.contractAddress).join(",")],
+    queryFn: () => getTokenMetadata(client!.publicClient, items.data ?? []),
+    enabled: !!client && !!items.data?.length,
+    staleTime: Infinity,
+  })
+
+  if (clientError) {
+    return <p className="text-sm text-destructive">{clientError.message}</p>
+  }
+
+  if (!address) {
+    return (
+      <div className="flex flex-col items-start gap-3">
+        <p className="text-sm text-muted-foreground">Connect the wallet that owns this cabinet.</p>
+        <ConnectButton />
+      </div>
+    )
+  }
+
+  if (cabinet.error) {
+    return <p className="text-sm text-destructive">{describeTuuKeepError(cabinet.error)}</p>
+  }
+
+  if (!cabinet.data) {
+    return <p className="text-sm text-muted-foreground">Loading cabinet…</p>
+  }
+
+  const { metadata } = cabinet.data
+  if (!isAddressEqual(metadata.owner, address)) {
+    return <p className="text-sm text-muted-foreground">The connected wallet does not own this cabinet.</p>
+  }
+
+  const currency = client?.publicClient.chain?.nativeCurrency.symbol ?? "KUB"
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div>
+        <Link href="/dashboard" className="text-sm text-muted-foreground underline-offset-4 hover:underline">
+          ← All cabinets
+        </Link>
+        <h1 className="text-3xl font-bold tracking-tight">{metadata.name}</h1>
+        <p className="text-sm text-muted-foreground">
+          Cabinet #{cabinetId.toString()} ·{" "}
+          <Link href={`/cabinet/${cabinetId}`} className="underline-offset-4 hover:underline">
+            Player view
+          </Link>
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <CabinetSettings cabinet={cabinet.data} currency={currency} />
+        <DepositItemForm cabinetId={cabinetId} remainingSlots={MAX_CABINET_ITEMS - (items.data?.length ?? 0)} />
+      </div>
+
+      {items.data && <ItemInventory cabinetId={cabinetId} items={items.data} tokens={tokens.data} />}
+      <RevenuePanel cabinetIds={[cabinetId]} />
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import { formatEther, parseEther } from "viem"
+import { MAX_PLAY_PRICE, MIN_PLAY_PRICE, type CabinetDetails } from "@tuukeep/sdk"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { useTuuKeepTransaction } from "@/hooks/use-tuukeep-transaction"
+import { describeTuuKeepError } from "@/lib/tuukeep"
+
+function parsePriceInput(value: string): bigint | undefined {
+  try {
+    return parseEther(value)
+  } catch {
+    return undefined
+  }
+}
+
+/** Play price and active / maintenance status of one cabinet */
+export function CabinetSettings({ cabinet, currency }: { cabinet: CabinetDetails; currency: string }) {
+  const { cabinetId, metadata, config } = cabinet
+  const [priceInput, setPriceInput] = useState("")
+
+  const setStatus = useTuuKeepTransaction(async (client, status: "active" | "inactive" | "maintenance") => {
+    const hash =
+      status === "active"
+        ? await client.activateCabinet(cabinetId)
+        : status === "inactive"
+          ? await client.deactivateCabinet(cabinetId)
+          : await client.setMaintenanceMode(cabinetId, true)
+    return client.waitForReceipt(hash)
+  })
+
+  const setPrice = useTuuKeepTransaction(async (client, price: bigint) =>
+    client.waitForReceipt(await client.setPrice(cabinetId, price)),
+  )
+
+  const price = priceInput.trim() ? parsePriceInput(priceInput) : undefined
+  const priceError =
+    priceInput.trim() && (price === undefined || price < MIN_PLAY_PRICE || price > MAX_PLAY_PRICE)
+      ? `Enter a price between ${formatEther(MIN_PLAY_PRICE)} and ${formatEther(MAX_PLAY_PRICE)} ${currency}`
+      : undefined
+
+  function onSubmitPrice(event: FormEvent) {
+    event.preventDefault()
+    if (price === undefined || priceError) return
+    setPrice.mutate(price, { onSuccess: () => setPriceInput("") })
+  }
+
+  const isPending = setStatus.isPending || setPrice.isPending
+  const error = setStatus.error ?? setPrice.error
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Settings
+          <Badge variant={metadata.isActive ? "default" : "outline"}>{metadata.isActive ? "Active" : "Inactive"}</Badge>
+        </CardTitle>
+        <CardDescription>Players can only play active cabinets.</CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-6">
+        <div className="flex flex-wrap gap-2">
+          {metadata.isActive ? (
+            <>
+              <Button variant="outline" disabled={isPending} onClick={() => setStatus.mutate("inactive")}>
+                Deactivate
+              </Button>
+              <Button variant="outline" disabled={isPending} onClick={() => setStatus.mutate("maintenance")}>
+                Enter maintenance
+              </Button>
+            </>
+          ) : (
+            <Button disabled={isPending} onClick={() => setStatus.mutate("active")}>
+              Activate
+            </Button>
+          )}
+        </div>
+
+        <form className="flex flex-col gap-1 text-sm" onSubmit={onSubmitPrice}>
+          <label htmlFor="play-price">
+            Play price (currently {formatEther(config.playPrice)} {currency})
+          </label>
+          <div className="flex gap-2">
+            <Input
+              id="play-price"
+              inputMode="decimal"
+              placeholder={formatEther(config.playPrice)}
+              value={priceInput}
+              disabled={isPending}
+              onChange={(event) => setPriceInput(event.target.value)}
+            />
+            <Button type="submit" variant="secondary" disabled={price === undefined || !!priceError || isPending}>
+              Update
+            </Button>
+          </div>
+          {priceError && <span className="text-xs text-destructive">{priceError}</span>}
+        </form>
+
+        {error && <p className="text-sm text-destructive">{describeTuuKeepError(error)}</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,178 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import { getAddress, isAddress, parseUnits } from "viem"
+import { useAccount } from "wagmi"
+import { AssetType, type GachaItemInput } from "@tuukeep/sdk"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { useTuuKeepTransaction } from "@/hooks/use-tuukeep-transaction"
+import { getRarityTier, RARITY_LEVELS } from "@/lib/rarity"
+import { getTokenMetadata } from "@/lib/tokens"
+import { describeTuuKeepError } from "@/lib/tuukeep"
+
+type DepositStage = "idle" | "approving" | "depositing"
+
+const STAGE_LABELS: Record<DepositStage, string> = {
+  idle: "Deposit",
+  approving: "Approving token…",
+  depositing: "Depositing…",
+}
+
+const SELECT_CLASS =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50"
+
+interface DepositItemFormProps {
+  cabinetId: bigint
+  /** Slots left before the cabinet reaches its item cap */
+  remainingSlots: number
+}
+
+export function DepositItemForm({ cabinetId, remainingSlots }: DepositItemFormProps) {
+  const { address } = useAccount()
+  const [stage, setStage] = useState<DepositStage>("idle")
+  const [assetType, setAssetType] = useState<AssetType>(AssetType.ERC721)
+  const [contractAddress, setContractAddress] = useState("")
+  const [tokenIdOrAmount, setTokenIdOrAmount] = useState("")
+  const [rarity, setRarity] = useState<bigint>(1n)
+  const [name, setName] = useState("")
+
+  const isERC20 = assetType === AssetType.ERC20
+  const addressError = contractAddress && !isAddress(contractAddress) ? "Enter a contract address" : undefined
+  const canSubmit =
+    !!address && isAddress(contractAddress) && !!tokenIdOrAmount.trim() && !!name.trim() && remainingSlots > 0
+
+  const deposit = useTuuKeepTransaction(async (client) => {
+    if (!address) throw new Error("Wallet not connected")
+
+    const token = getAddress(contractAddress)
+    let amount: bigint
+    if (isERC20) {
+      const { [token]: metadata } = await getTokenMetadata(client.publicClient, [{ assetType, contractAddress: token }])
+      amount = parseUnits(tokenIdOrAmount, metadata?.decimals ?? 18)
+    } else {
+      amount = BigInt(tokenIdOrAmount)
+    }
+
+    const item: GachaItemInput = {
+      assetType,
+      contractAddress: token,
+      tokenIdOrAmount: amount,
+      rarity,
+      metadata: name.trim(),
+      // Set by the contract on deposit
+      depositTime: 0n,
+      isActive: true,
+    }
+
+    // depositItems pulls the token with transferFrom / safeTransferFrom
+    if (!(await client.isItemApproved(address, item))) {
+      setStage("approving")
+      await client.waitForReceipt(await client.approveItem(item))
+    }
+
+    setStage("depositing")
+    return client.waitForReceipt(await client.depositItems(cabinetId, [item]))
+  })
+
+  function onSubmit(event: FormEvent) {
+    event.preventDefault()
+    deposit.mutate(undefined, {
+      onSuccess: () => {
+        setTokenIdOrAmount("")
+        setName("")
+      },
+      onSettled: () => setStage("idle"),
+    })
+  }
+
+  const disabled = stage !== "idle"
+
+  return (
+    <Card>
+      <form onSubmit={onSubmit}>
+        <CardHeader>
+          <CardTitle>Deposit a prize</CardTitle>
+          <CardDescription>
+            {remainingSlots > 0
+              ? `${remainingSlots} slot${remainingSlots === 1 ? "" : "s"} left. The token is approved for the cabinet first if needed.`
+              : "This cabinet is full. Withdraw an item to make room."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 sm:grid-cols-2">
+          <label className="flex flex-col gap-1 text-sm">
+            <span>Type</span>
+            <select
+              className={SELECT_CLASS}
+              value={assetType}
+              disabled={disabled}
+              onChange={(event) => setAssetType(Number(event.target.value) as AssetType)}
+            >
+              <option value={AssetType.ERC721}>NFT (ERC721)</option>
+              <option value={AssetType.ERC20}>Token (ERC20)</option>
+            </select>
+          </label>
+
+          <label className="flex flex-col gap-1 text-sm">
+            <span>Rarity</span>
+            <select
+              className={SELECT_CLASS}
+              value={rarity.toString()}
+              disabled={disabled}
+              onChange={(event) => setRarity(BigInt(event.target.value))}
+            >
+              {RARITY_LEVELS.map((level) => (
+                <option key={level.toString()} value={level.toString()}>
+                  {getRarityTier(level).label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col gap-1 text-sm sm:col-span-2">
+            <span>Contract address</span>
+            <Input
+              placeholder="0x…"
+              value={contractAddress}
+              disabled={disabled}
+              onChange={(event) => setContractAddress(event.target.value.trim())}
+            />
+            {addressError && <span className="text-xs text-destructive">{addressError}</span>}
+          </label>
+
+          <label className="flex flex-col gap-1 text-sm">
+            <span>{isERC20 ? "Amount" : "Token ID"}</span>
+            <Input
+              inputMode={isERC20 ? "decimal" : "numeric"}
+              pattern={isERC20 ? "\\d*\\.?\\d*" : "\\d+"}
+              value={tokenIdOrAmount}
+              disabled={disabled}
+              onChange={(event) => setTokenIdOrAmount(event.target.value)}
+            />
+          </label>
+
+          <label className="flex flex-col gap-1 text-sm">
+            <span>Display name</span>
+            <Input
+              maxLength={256}
+              placeholder={isERC20 ? "100 TUU" : "Golden ticket"}
+              value={name}
+              disabled={disabled}
+              onChange={(event) => setName(event.target.value)}
+            />
+          </label>
+
+          {deposit.error && (
+            <p className="text-sm text-destructive sm:col-span-2">{describeTuuKeepError(deposit.error)}</p>
+          )}
+        </CardContent>
+        <CardFooter>
+          <Button type="submit" disabled={!canSubmit || disabled}>
+            {STAGE_LABELS[stage]}
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  )
+}
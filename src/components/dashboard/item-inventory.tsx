@@ -0,0 +1,120 @@
+"use client"
+
+import { useState } from "react"
+import type { Address } from "viem"
+import type { GachaItem } from "@tuukeep/sdk"
+import { RarityBadge } from "@/components/cabinet/rarity-badge"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useTuuKeepTransaction } from "@/hooks/use-tuukeep-transaction"
+import { formatPrize, type TokenMetadata } from "@/lib/tokens"
+import { describeTuuKeepError } from "@/lib/tuukeep"
+
+interface ItemInventoryProps {
+  cabinetId: bigint
+  items: readonly GachaItem[]
+  tokens: Record<Address, TokenMetadata> | undefined
+}
+
+/**
+ * Every item in a cabinet, in contract order. Row positions are the item
+ * indices `toggleItemStatus` and `withdrawItems` expect, and they shift after
+ * a withdrawal, so the selection is cleared whenever items are withdrawn.
+ */
+export function ItemInventory({ cabinetId, items, tokens }: ItemInventoryProps) {
+  const [selected, setSelected] = useState<ReadonlySet<number>>(new Set())
+
+  const toggle = useTuuKeepTransaction(async (client, itemIndex: number) =>
+    client.waitForReceipt(await client.toggleItemStatus(cabinetId, BigInt(itemIndex))),
+  )
+
+  const withdraw = useTuuKeepTransaction(async (client, itemIndices: readonly number[]) =>
+    client.waitForReceipt(await client.withdrawItems(cabinetId, itemIndices.map(BigInt))),
+  )
+
+  const isPending = toggle.isPending || withdraw.isPending
+  const error = toggle.error ?? withdraw.error
+
+  function setChecked(itemIndex: number, checked: boolean) {
+    setSelected((current) => {
+      const next = new Set(current)
+      if (checked) next.add(itemIndex)
+      else next.delete(itemIndex)
+      return next
+    })
+  }
+
+  function withdrawSelected() {
+    withdraw.mutate([...selected], { onSuccess: () => setSelected(new Set()) })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Items</CardTitle>
+        <CardDescription>Inactive items stay in the cabinet but cannot be drawn.</CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No items deposited yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>#</TableHead>
+                <TableHead>Prize</TableHead>
+                <TableHead>Rarity</TableHead>
+                <TableHead>Deposited</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item, index) => (
+                <TableRow key={`${item.contractAddress}-${item.tokenIdOrAmount}-${item.depositTime}`}>
+                  <TableCell>
+                    <input
+                      type="checkbox"
+                      role="checkbox"
+                      aria-label={`Select item ${index}`}
+                      checked={selected.has(index)}
+                      disabled={isPending}
+                      onChange={(event) => setChecked(index, event.target.checked)}
+                    />
+                  </TableCell>
+                  <TableCell>{index}</TableCell>
+                  <TableCell>
+                    <p className="font-medium">{formatPrize(item, tokens?.[item.contractAddress])}</p>
+                    {item.metadata && <p className="text-xs text-muted-foreground">{item.metadata}</p>}
+                  </TableCell>
+                  <TableCell>
+                    <RarityBadge rarity={item.rarity} />
+                  </TableCell>
+                  <TableCell>{new Date(Number(item.depositTime) * 1000).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    <Badge variant={item.isActive ? "secondary" : "outline"}>{item.isActive ? "Active" : "Inactive"}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button size="sm" variant="ghost" disabled={isPending} onClick={() => toggle.mutate(index)}>
+                      {item.isActive ? "Disable" : "Enable"}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex items-center justify-between gap-3">
+          {error ? <p className="text-sm text-destructive">{describeTuuKeepError(error)}</p> : <span />}
+          <Button variant="outline" disabled={selected.size === 0 || isPending} onClick={withdrawSelected}>
+            {withdraw.isPending ? "Withdrawing…" : `Withdraw selected (${selected.size})`}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
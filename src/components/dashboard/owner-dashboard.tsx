@@ -0,0 +1,93 @@
+"use client"
+
+import { useQueries, useQuery } from "@tanstack/react-query"
+import Link from "next/link"
+import { formatEther } from "viem"
+import { useAccount } from "wagmi"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ConnectButton } from "@/components/wallet/connect-button"
+import { useTuuKeepClient } from "@/hooks/use-tuukeep-client"
+import { cabinetQueryKey, describeTuuKeepError } from "@/lib/tuukeep"
+import { RevenuePanel } from "./revenue-panel"
+
+/** Cabinets held by the connected wallet, with their combined revenue */
+export function OwnerDashboard() {
+  const { client, error: clientError } = useTuuKeepClient()
+  const { address } = useAccount()
+
+  const cabinetIds = useQuery({
+    queryKey: ["cabinet", client?.addresses.cabinet, "owner", address],
+    queryFn: () => client!.getCabinetsOfOwner(address!),
+    enabled: !!client && !!address,
+  })
+
+  const cabinets = useQueries({
+    queries: (cabinetIds.data ?? []).map((cabinetId) => ({
+      queryKey: [...cabinetQueryKey(client?.addresses.cabinet, cabinetId), "info"],
+      queryFn: () => client!.getCabinet(cabinetId),
+      enabled: !!client,
+    })),
+  })
+
+  if (clientError) {
+    return <p className="text-sm text-destructive">{clientError.message}</p>
+  }
+
+  if (!address) {
+    return (
+      <div className="flex flex-col items-start gap-3">
+        <p className="text-sm text-muted-foreground">Connect a wallet to manage your cabinets.</p>
+        <ConnectButton />
+      </div>
+    )
+  }
+
+  if (cabinetIds.error) {
+    return <p className="text-sm text-destructive">{describeTuuKeepError(cabinetIds.error)}</p>
+  }
+
+  if (!cabinetIds.data) {
+    return <p className="text-sm text-muted-foreground">Loading cabinets…</p>
+  }
+
+  if (cabinetIds.data.length === 0) {
+    return <p className="text-sm text-muted-foreground">This wallet does not own any cabinets yet.</p>
+  }
+
+  const currency = client?.publicClient.chain?.nativeCurrency.symbol ?? "KUB"
+
+  return (
+    <div className="flex flex-col gap-6">
+      <ul className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        {cabinetIds.data.map((cabinetId, index) => {
+          const cabinet = cabinets[index]?.data
+          return (
+            <li key={cabinetId.toString()}>
+              <Link href={`/dashboard/${cabinetId}`}>
+                <Card className="transition-colors hover:bg-muted/50">
+                  <CardHeader>
+                    <CardTitle className="flex items-center justify-between gap-2">
+                      <span className="truncate">{cabinet?.metadata.name ?? `Cabinet #${cabinetId}`}</span>
+                      {cabinet && (
+                        <Badge variant={cabinet.metadata.isActive ? "default" : "outline"}>
+                          {cabinet.metadata.isActive ? "Active" : "Inactive"}
+                        </Badge>
+                      )}
+                    </CardTitle>
+                    <CardDescription>
+                      #{cabinetId.toString()}
+                      {cabinet && ` · ${formatEther(cabinet.config.playPrice)} ${currency} per play`}
+                    </CardDescription>
+                  </CardHeader>
+                </Card>
+              </Link>
+            </li>
+          )
+        })}
+      </ul>
+
+      <RevenuePanel cabinetIds={cabinetIds.data} linkCabinets />
+    </div>
+  )
+}
@@ -0,0 +1,139 @@
+"use client"
+
+import { useQueries } from "@tanstack/react-query"
+import Link from "next/link"
+import { formatEther } from "viem"
+import { MAX_BATCH_WITHDRAW_CABINETS } from "@tuukeep/sdk"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useTuuKeepTransaction } from "@/hooks/use-tuukeep-transaction"
+import { useTuuKeepClient } from "@/hooks/use-tuukeep-client"
+import { cabinetQueryKey, describeTuuKeepError } from "@/lib/tuukeep"
+
+interface RevenuePanelProps {
+  cabinetIds: readonly bigint[]
+  /** Link each row to its cabinet's management page */
+  linkCabinets?: boolean
+}
+
+function chunk<T>(values: readonly T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let start = 0; start < values.length; start += size) {
+    chunks.push(values.slice(start, start + size))
+  }
+  return chunks
+}
+
+/** Withdrawable balance and lifetime analytics for a set of owned cabinets */
+export function RevenuePanel({ cabinetIds, linkCabinets = false }: RevenuePanelProps) {
+  const { client } = useTuuKeepClient()
+  const currency = client?.publicClient.chain?.nativeCurrency.symbol ?? "KUB"
+
+  const rows = useQueries({
+    queries: cabinetIds.map((cabinetId) => ({
+      queryKey: [...cabinetQueryKey(client?.addresses.cabinet, cabinetId), "revenue"],
+      queryFn: async () => ({
+        withdrawable: await client!.getCabinetRevenue(cabinetId),
+        analytics: await client!.getCabinetAnalytics(cabinetId),
+      }),
+      enabled: !!client,
+    })),
+  })
+
+  const withdrawOne = useTuuKeepTransaction(async (tuuKeep, cabinetId: bigint) =>
+    tuuKeep.waitForReceipt(await tuuKeep.withdrawCabinetRevenue(cabinetId)),
+  )
+
+  // batchWithdrawRevenue reverts when none of the cabinets has revenue, so
+  // only cabinets with a balance are sent, at most ten per transaction
+  const withdrawable = cabinetIds.filter((_, index) => (rows[index]?.data?.withdrawable ?? 0n) > 0n)
+  const withdrawAll = useTuuKeepTransaction(async (tuuKeep) => {
+    for (const batch of chunk(withdrawable, MAX_BATCH_WITHDRAW_CABINETS)) {
+      await tuuKeep.waitForReceipt(await tuuKeep.batchWithdrawRevenue(batch))
+    }
+  })
+
+  const totalWithdrawable = rows.reduce((total, row) => total + (row.data?.withdrawable ?? 0n), 0n)
+  const batchCount = Math.ceil(withdrawable.length / MAX_BATCH_WITHDRAW_CABINETS)
+  const isPending = withdrawOne.isPending || withdrawAll.isPending
+  const error = withdrawOne.error ?? withdrawAll.error
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Revenue</CardTitle>
+        <CardDescription>Play revenue after platform fees, held by the cabinet contract until withdrawn.</CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Cabinet</TableHead>
+              <TableHead className="text-right">Plays</TableHead>
+              <TableHead className="text-right">Lifetime revenue</TableHead>
+              <TableHead className="text-right">Per play</TableHead>
+              <TableHead className="text-right">Withdrawable</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {cabinetIds.map((cabinetId, index) => {
+              const row = rows[index]?.data
+              return (
+                <TableRow key={cabinetId.toString()}>
+                  <TableCell>
+                    {linkCabinets ? (
+                      <Link href={`/dashboard/${cabinetId}`} className="underline-offset-4 hover:underline">
+                        #{cabinetId.toString()}
+                      </Link>
+                    ) : (
+                      `#${cabinetId}`
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{row?.analytics.totalPlays.toString() ?? "…"}</TableCell>
+                  <TableCell className="text-right">{row ? formatEther(row.analytics.totalRevenue) : "…"}</TableCell>
+                  <TableCell className="text-right">{row ? formatEther(row.analytics.averageRevenue) : "…"}</TableCell>
+                  <TableCell className="text-right font-medium">{row ? formatEther(row.withdrawable) : "…"}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={!row?.withdrawable || isPending}
+                      onClick={() => withdrawOne.mutate(cabinetId)}
+                    >
+                      Withdraw
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+          {cabinetIds.length > 1 && (
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={4}>Total</TableCell>
+                <TableCell className="text-right">
+                  {formatEther(totalWithdrawable)} {currency}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button size="sm" disabled={withdrawable.length === 0 || isPending} onClick={() => withdrawAll.mutate()}>
+                    {withdrawAll.isPending ? "Withdrawing…" : "Withdraw all"}
+                  </Button>
+                </TableCell>
+              </TableRow>
+            </TableFooter>
+          )}
+        </Table>
+
+        {batchCount > 1 && (
+          <p className="text-xs text-muted-foreground">
+            Withdrawing from {withdrawable.length} cabinets takes {batchCount} transactions, {MAX_BATCH_WITHDRAW_CABINETS}{" "}
+            cabinets at a time.
+          </p>
+        )}
+        {error && <p className="text-sm text-destructive">{describeTuuKeepError(error)}</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,161 @@
+"use client"
+
+import { useQuery } from "@tanstack/react-query"
+import { useState, type FormEvent } from "react"
+import { parseEther } from "viem"
+import { useAccount } from "wagmi"
+import type { MarketplaceConfig } from "@tuukeep/sdk"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { useTuuKeepClient } from "@/hooks/use-tuukeep-client"
+import { useTuuKeepTransaction } from "@/hooks/use-tuukeep-transaction"
+import { daysToSeconds, validateListing } from "@/lib/market"
+import { describeTuuKeepError } from "@/lib/tuukeep"
+import { FeeBreakdown } from "./fee-breakdown"
+
+type ListingStage = "idle" | "approving" | "listing"
+
+const STAGE_LABELS: Record<ListingStage, string> = {
+  idle: "List cabinet",
+  approving: "Approving cabinet…",
+  listing: "Listing…",
+}
+
+interface CreateListingFormProps {
+  config: MarketplaceConfig
+  /** Cabinets that already have an active listing */
+  listedCabinetIds: ReadonlySet<bigint>
+  currency: string
+}
+
+export function CreateListingForm({ config, listedCabinetIds, currency }: CreateListingFormProps) {
+  const { client } = useTuuKeepClient()
+  const { address } = useAccount()
+  const [stage, setStage] = useState<ListingStage>("idle")
+  const [cabinetInput, setCabinetInput] = useState("")
+  const [priceInput, setPriceInput] = useState("")
+  const [daysInput, setDaysInput] = useState("7")
+
+  const ownedCabinets = useQuery({
+    queryKey: ["cabinet", client?.addresses.cabinet, "owner", address],
+    queryFn: () => client!.getCabinetsOfOwner(address!),
+    enabled: !!client && !!address,
+  })
+
+  const listable = (ownedCabinets.data ?? []).filter((cabinetId) => !listedCabinetIds.has(cabinetId))
+
+  let price: bigint | undefined
+  try {
+    price = priceInput.trim() ? parseEther(priceInput) : undefined
+  } catch {
+    price = undefined
+  }
+  const days = Number(daysInput)
+  const duration = Number.isFinite(days) && days > 0 ? daysToSeconds(days) : undefined
+  const inputError =
+    priceInput.trim() && price === undefined
+      ? "Enter a valid price"
+      : price !== undefined && duration !== undefined
+        ? validateListing({ price, duration }, config)
+        : undefined
+
+  const create = useTuuKeepTransaction(async (tuuKeep, listing: { cabinetId: bigint; price: bigint; duration: bigint }) => {
+    if (!address) throw new Error("Wallet not connected")
+
+    // createListing reverts with CabinetNotApproved unless the marketplace can transfer the cabinet
+    if (!(await tuuKeep.isCabinetApprovedForMarketplace(address, listing.cabinetId))) {
+      setStage("approving")
+      await tuuKeep.waitForReceipt(await tuuKeep.approveCabinet(listing.cabinetId))
+    }
+
+    setStage("listing")
+    return tuuKeep.waitForReceipt(await tuuKeep.createListing(listing))
+  })
+
+  function onSubmit(event: FormEvent) {
+    event.preventDefault()
+    if (!cabinetInput || price === undefined || duration === undefined || inputError) return
+    create.mutate(
+      { cabinetId: BigInt(cabinetInput), price, duration },
+      {
+        onSuccess: () => {
+          setCabinetInput("")
+          setPriceInput("")
+        },
+        onSettled: () => setStage("idle"),
+      },
+    )
+  }
+
+  if (ownedCabinets.data && listable.length === 0) {
+    return null
+  }
+
+  const disabled = stage !== "idle"
+  const canSubmit = !!cabinetInput && price !== undefined && duration !== undefined && !inputError
+
+  return (
+    <Card>
+      <form onSubmit={onSubmit}>
+        <CardHeader>
+          <CardTitle>Sell a cabinet</CardTitle>
+          <CardDescription>The cabinet stays in your wallet until it sells. Approval is requested first if needed.</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 sm:grid-cols-3">
+          <label className="flex flex-col gap-1 text-sm">
+            <span>Cabinet</span>
+            <select
+              className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50"
+              value={cabinetInput}
+              disabled={disabled}
+              onChange={(event) => setCabinetInput(event.target.value)}
+            >
+              <option value="">Select…</option>
+              {listable.map((cabinetId) => (
+                <option key={cabinetId.toString()} value={cabinetId.toString()}>
+                  Cabinet #{cabinetId.toString()}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col gap-1 text-sm">
+            <span>Price ({currency})</span>
+            <Input
+              inputMode="decimal"
+              value={priceInput}
+              disabled={disabled}
+              onChange={(event) => setPriceInput(event.target.value)}
+            />
+          </label>
+
+          <label className="flex flex-col gap-1 text-sm">
+            <span>Duration (days)</span>
+            <Input
+              type="number"
+              min={1}
+              step={1}
+              value={daysInput}
+              disabled={disabled}
+              onChange={(event) => setDaysInput(event.target.value)}
+            />
+          </label>
+
+          {price !== undefined && !inputError && (
+            <div className="sm:col-span-3">
+              <FeeBreakdown price={price} platformFeeRate={config.platformFeeRate} currency={currency} />
+            </div>
+          )}
+          {inputError && <p className="text-sm text-destructive sm:col-span-3">{inputError}</p>}
+          {create.error && <p className="text-sm text-destructive sm:col-span-3">{describeTuuKeepError(create.error)}</p>}
+        </CardContent>
+        <CardFooter>
+          <Button type="submit" disabled={!canSubmit || disabled}>
+            {STAGE_LABELS[stage]}
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  )
+}
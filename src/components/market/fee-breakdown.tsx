@@ -0,0 +1,36 @@
+"use client"
+
+import { formatEther } from "viem"
+import { useTuuKeepClient } from "@/hooks/use-tuukeep-client"
+import { formatFeeRate } from "@/lib/market"
+
+interface FeeBreakdownProps {
+  price: bigint
+  platformFeeRate: bigint
+  currency: string
+}
+
+/** What the buyer pays and how it is split, as `buyNow` distributes it */
+export function FeeBreakdown({ price, platformFeeRate, currency }: FeeBreakdownProps) {
+  const { client } = useTuuKeepClient()
+  if (!client) return null
+
+  const { platformFee, sellerAmount } = client.splitSalePrice(price, platformFeeRate)
+
+  return (
+    <dl className="grid grid-cols-[1fr_auto] gap-x-4 gap-y-1 text-sm">
+      <dt className="text-muted-foreground">Price</dt>
+      <dd className="text-right">
+        {formatEther(price)} {currency}
+      </dd>
+      <dt className="text-muted-foreground">Platform fee ({formatFeeRate(platformFeeRate)})</dt>
+      <dd className="text-right">
+        {formatEther(platformFee)} {currency}
+      </dd>
+      <dt className="text-muted-foreground">Seller receives</dt>
+      <dd className="text-right font-medium">
+        {formatEther(sellerAmount)} {currency}
+      </dd>
+    </dl>
+  )
+}
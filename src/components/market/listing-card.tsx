@@ -0,0 +1,123 @@
+"use client"
+
+import { useQuery } from "@tanstack/react-query"
+import Link from "next/link"
+import { useState, type FormEvent } from "react"
+import { formatEther, isAddressEqual, parseEther } from "viem"
+import { useAccount } from "wagmi"
+import type { ListingDetails, MarketplaceConfig } from "@tuukeep/sdk"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { ConnectButton } from "@/components/wallet/connect-button"
+import { useTuuKeepClient } from "@/hooks/use-tuukeep-client"
+import { useTuuKeepTransaction } from "@/hooks/use-tuukeep-transaction"
+import { formatTimeLeft } from "@/lib/market"
+import { cabinetQueryKey, describeTuuKeepError } from "@/lib/tuukeep"
+import { FeeBreakdown } from "./fee-breakdown"
+
+interface ListingCardProps {
+  details: ListingDetails
+  config: MarketplaceConfig
+  currency: string
+  /** Unix seconds, shared by every card so countdowns tick together */
+  now: number
+}
+
+export function ListingCard({ details, config, currency, now }: ListingCardProps) {
+  const { listingId, listing } = details
+  const { client } = useTuuKeepClient()
+  const { address } = useAccount()
+  const [priceInput, setPriceInput] = useState("")
+
+  const cabinet = useQuery({
+    queryKey: [...cabinetQueryKey(client?.addresses.cabinet, listing.cabinetId), "info"],
+    queryFn: () => client!.getCabinet(listing.cabinetId),
+    enabled: !!client,
+  })
+
+  const buy = useTuuKeepTransaction(async (tuuKeep) =>
+    tuuKeep.waitForReceipt(await tuuKeep.buyNow(listingId, listing.price)),
+  )
+  const cancel = useTuuKeepTransaction(async (tuuKeep) => tuuKeep.waitForReceipt(await tuuKeep.cancelListing(listingId)))
+  const updatePrice = useTuuKeepTransaction(async (tuuKeep, price: bigint) =>
+    tuuKeep.waitForReceipt(await tuuKeep.updateListingPrice(listingId, price)),
+  )
+
+  const isSeller = !!address && isAddressEqual(listing.seller, address)
+  const isExpired = Number(listing.expiresAt) <= now
+  const isPending = buy.isPending || cancel.isPending || updatePrice.isPending
+  const error = buy.error ?? cancel.error ?? updatePrice.error
+
+  let newPrice: bigint | undefined
+  try {
+    newPrice = priceInput.trim() ? parseEther(priceInput) : undefined
+  } catch {
+    newPrice = undefined
+  }
+  const priceError =
+    priceInput.trim() && (newPrice === undefined || newPrice < config.minPrice)
+      ? `At least ${formatEther(config.minPrice)} ${currency}`
+      : undefined
+
+  function onSubmitPrice(event: FormEvent) {
+    event.preventDefault()
+    if (newPrice === undefined || priceError) return
+    updatePrice.mutate(newPrice, { onSuccess: () => setPriceInput("") })
+  }
+
+  return (
+    <Card className="flex flex-col">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <Link href={`/cabinet/${listing.cabinetId}`} className="truncate underline-offset-4 hover:underline">
+            {cabinet.data?.metadata.name ?? `Cabinet #${listing.cabinetId}`}
+          </Link>
+          <Badge variant={isExpired ? "outline" : "secondary"}>{formatTimeLeft(listing.expiresAt, now)}</Badge>
+        </CardTitle>
+        <CardDescription>
+          #{listing.cabinetId.toString()}
+          {cabinet.data &&
+            ` · ${cabinet.data.metadata.totalPlays} plays · ${formatEther(cabinet.data.config.playPrice)} ${currency} per play`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-1 flex-col gap-4">
+        <FeeBreakdown price={listing.price} platformFeeRate={config.platformFeeRate} currency={currency} />
+
+        {isSeller && !isExpired && (
+          <form className="flex flex-col gap-1 text-sm" onSubmit={onSubmitPrice}>
+            <div className="flex gap-2">
+              <Input
+                inputMode="decimal"
+                placeholder="New price"
+                value={priceInput}
+                disabled={isPending}
+                onChange={(event) => setPriceInput(event.target.value)}
+              />
+              <Button type="submit" variant="secondary" disabled={newPrice === undefined || !!priceError || isPending}>
+                Update
+              </Button>
+            </div>
+            {priceError && <span className="text-xs text-destructive">{priceError}</span>}
+          </form>
+        )}
+
+        {error && <p className="text-sm text-destructive">{describeTuuKeepError(error)}</p>}
+      </CardContent>
+      <CardFooter>
+        {!address ? (
+          <ConnectButton />
+        ) : isSeller ? (
+          <Button className="w-full" variant="outline" disabled={isPending} onClick={() => cancel.mutate()}>
+            {cancel.isPending ? "Cancelling…" : "Cancel listing"}
+          </Button>
+        ) : (
+          <Button className="w-full" disabled={isExpired || isPending} onClick={() => buy.mutate()}>
+            {buy.isPending ? "Buying…" : `Buy for ${formatEther(listing.price)} ${currency}`}
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  )
+}
@@ -0,0 +1,91 @@
+"use client"
+
+import { useQuery } from "@tanstack/react-query"
+import { formatEther } from "viem"
+import { useAccount } from "wagmi"
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useNow } from "@/hooks/use-now"
+import { useTuuKeepClient } from "@/hooks/use-tuukeep-client"
+import { describeTuuKeepError } from "@/lib/tuukeep"
+import { CreateListingForm } from "./create-listing-form"
+import { ListingCard } from "./listing-card"
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <Card>
+      <CardHeader className="p-4">
+        <CardDescription>{label}</CardDescription>
+        <CardTitle className="text-2xl">{value}</CardTitle>
+      </CardHeader>
+    </Card>
+  )
+}
+
+export function Marketplace() {
+  const { client, error: clientError } = useTuuKeepClient()
+  const { address } = useAccount()
+  const now = useNow()
+
+  const marketKey = ["market", client?.addresses.marketplace] as const
+
+  const config = useQuery({
+    queryKey: [...marketKey, "config"],
+    queryFn: () => client!.getMarketplaceConfig(),
+    enabled: !!client,
+  })
+
+  const summary = useQuery({
+    queryKey: [...marketKey, "summary"],
+    queryFn: () => client!.getMarketSummary(),
+    enabled: !!client,
+  })
+
+  const listings = useQuery({
+    queryKey: [...marketKey, "activeListings"],
+    queryFn: () => client!.getActiveListings(),
+    enabled: !!client,
+  })
+
+  if (clientError) {
+    return <p className="text-sm text-destructive">{clientError.message}</p>
+  }
+
+  const error = config.error ?? listings.error
+  if (error) {
+    return <p className="text-sm text-destructive">{describeTuuKeepError(error)}</p>
+  }
+
+  if (!config.data || !listings.data) {
+    return <p className="text-sm text-muted-foreground">Loading listings…</p>
+  }
+
+  const currency = client?.publicClient.chain?.nativeCurrency.symbol ?? "KUB"
+  const listedCabinetIds = new Set(listings.data.map(({ listing }) => listing.cabinetId))
+
+  return (
+    <div className="flex flex-col gap-6">
+      {summary.data && (
+        <div className="grid gap-4 sm:grid-cols-4">
+          <Stat label="Active listings" value={summary.data.totalActiveListings.toString()} />
+          <Stat label="Volume today" value={`${formatEther(summary.data.totalVolume24h)} ${currency}`} />
+          <Stat label="Average price today" value={`${formatEther(summary.data.averagePrice24h)} ${currency}`} />
+          <Stat label="Total sales" value={summary.data.totalSales.toString()} />
+        </div>
+      )}
+
+      {address && <CreateListingForm config={config.data} listedCabinetIds={listedCabinetIds} currency={currency} />}
+
+      {listings.data.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No cabinets are listed right now.</p>
+      ) : (
+        <ul className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {listings.data.map((details) => (
+            <li key={details.listingId.toString()}>
+              <ListingCard details={details} config={config.data} currency={currency} now={now} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
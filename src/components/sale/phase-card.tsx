@@ -0,0 +1,123 @@
+"use client"
+
+import { formatEther } from "viem"
+import type { PhaseDetails } from "@tuukeep/sdk"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { formatDiscount, getNextTier, getPhaseStatus, type PhaseStatus } from "@/lib/sale"
+import { cn } from "@/lib/utils"
+import { PurchaseForm } from "./purchase-form"
+
+const STATUS_LABELS: Record<PhaseStatus, string> = {
+  upcoming: "Upcoming",
+  live: "Live",
+  soldOut: "Sold out",
+  ended: "Ended",
+  paused: "Paused",
+}
+
+function formatTimestamp(seconds: bigint): string {
+  return new Date(Number(seconds) * 1000).toLocaleString()
+}
+
+function SoldProgress({ sold, total, className }: { sold: bigint; total: bigint; className?: string }) {
+  const percent = total > 0n ? Number((sold * 100n) / total) : 0
+  return (
+    <div className={cn("h-2 w-full overflow-hidden rounded-full bg-secondary", className)}>
+      <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+    </div>
+  )
+}
+
+interface PhaseCardProps {
+  details: PhaseDetails
+  currentTierId: bigint | undefined
+  currency: string
+  now: number
+}
+
+export function PhaseCard({ details, currentTierId, currency, now }: PhaseCardProps) {
+  const { phaseId, phase, tiers } = details
+  const status = getPhaseStatus(details, now)
+  const currentIndex = currentTierId === undefined ? -1 : phase.tierIds.indexOf(currentTierId)
+  const currentTier = currentIndex === -1 ? undefined : tiers[currentIndex]
+  const nextTier = getNextTier(details, currentTierId, now)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          {phase.name}
+          <Badge variant={status === "live" ? "default" : "outline"}>{STATUS_LABELS[status]}</Badge>
+        </CardTitle>
+        <CardDescription>
+          {phase.startTime > 0n && `Starts ${formatTimestamp(phase.startTime)}`}
+          {phase.startTime > 0n && phase.endTime > 0n && " · "}
+          {phase.endTime > 0n ? `Ends ${formatTimestamp(phase.endTime)}` : phase.startTime === 0n && "No end date"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-6">
+        <div className="flex flex-col gap-2">
+          <div className="flex justify-between text-sm">
+            <span>
+              {phase.soldCabinets.toString()} / {phase.totalCabinets.toString()} cabinets sold
+            </span>
+            <span className="text-muted-foreground">Base price {formatEther(phase.basePrice)} {currency}</span>
+          </div>
+          <SoldProgress sold={phase.soldCabinets} total={phase.totalCabinets} />
+        </div>
+
+        {currentTier && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="rounded-lg border p-4">
+              <p className="text-xs uppercase tracking-widest text-muted-foreground">Now · {currentTier.name}</p>
+              <p className="text-2xl font-bold">
+                {formatEther(currentTier.price)} {currency}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {formatDiscount(currentTier.discountBps)} ·{" "}
+                {(currentTier.maxQuantity - currentTier.soldQuantity).toString()} left at this price
+              </p>
+            </div>
+            <div className="rounded-lg border border-dashed p-4">
+              <p className="text-xs uppercase tracking-widest text-muted-foreground">
+                Next{nextTier && ` · ${nextTier.name}`}
+              </p>
+              {nextTier ? (
+                <>
+                  <p className="text-2xl font-bold">
+                    {formatEther(nextTier.price)} {currency}
+                  </p>
+                  <p className="text-sm text-muted-foreground">{formatDiscount(nextTier.discountBps)}</p>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">This is the last tier.</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <ol className="flex flex-col gap-3">
+          {tiers.map((tier, index) => (
+            <li key={phase.tierIds[index].toString()} className="flex flex-col gap-1 text-sm">
+              <div className="flex justify-between">
+                <span className={cn(index === currentIndex && "font-semibold")}>
+                  {tier.name} · {formatEther(tier.price)} {currency}
+                </span>
+                <span className="text-muted-foreground">
+                  {tier.soldQuantity.toString()} / {tier.maxQuantity.toString()}
+                </span>
+              </div>
+              <SoldProgress sold={tier.soldQuantity} total={tier.maxQuantity} className="h-1.5" />
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+      {status === "live" && currentTier && (
+        <CardFooter>
+          <PurchaseForm phaseId={phaseId} tier={currentTier} currency={currency} />
+        </CardFooter>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,83 @@
+"use client"
+
+import Link from "next/link"
+import { useState, type FormEvent } from "react"
+import { formatEther } from "viem"
+import { useAccount } from "wagmi"
+import { getCabinetNameError, type CabinetPurchase, type PricingTier } from "@tuukeep/sdk"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ConnectButton } from "@/components/wallet/connect-button"
+import { useTuuKeepTransaction } from "@/hooks/use-tuukeep-transaction"
+import { describeTuuKeepError } from "@/lib/tuukeep"
+
+// `TuuKeepTierSale.purchaseCabinet` calls a three-argument `mintCabinet` the
+// cabinet does not implement, so every purchase reverts. Keep the form closed
+// until the contracts agree.
+const PURCHASES_OPEN = false
+
+interface PurchaseFormProps {
+  phaseId: bigint
+  tier: PricingTier
+  currency: string
+}
+
+export function PurchaseForm({ phaseId, tier, currency }: PurchaseFormProps) {
+  const { address } = useAccount()
+  const [name, setName] = useState("")
+  const [purchase, setPurchase] = useState<CabinetPurchase>()
+
+  const nameError = name ? getCabinetNameError(name) : undefined
+
+  // Pays the displayed tier price; if the tier sells out first, simulation
+  // fails with InsufficientPayment or TierSoldOut and nothing is sent
+  const buy = useTuuKeepTransaction(async (client, cabinetName: string) =>
+    client.waitForCabinetPurchase(await client.purchaseCabinet({ phaseId, cabinetName, value: tier.price })),
+  )
+
+  function onSubmit(event: FormEvent) {
+    event.preventDefault()
+    if (!PURCHASES_OPEN || getCabinetNameError(name)) return
+    setPurchase(undefined)
+    buy.mutate(name, {
+      onSuccess: (result) => {
+        setPurchase(result)
+        setName("")
+      },
+    })
+  }
+
+  if (!address) return <ConnectButton />
+
+  return (
+    <form className="flex flex-col gap-2 text-sm" onSubmit={onSubmit}>
+      <label htmlFor={`cabinet-name-${phaseId}`}>Name your cabinet</label>
+      <div className="flex gap-2">
+        <Input
+          id={`cabinet-name-${phaseId}`}
+          maxLength={256}
+          placeholder="Lucky Seven"
+          value={name}
+          disabled={!PURCHASES_OPEN || buy.isPending}
+          onChange={(event) => setName(event.target.value)}
+        />
+        <Button type="submit" disabled={!PURCHASES_OPEN || !name || !!nameError || buy.isPending}>
+          {buy.isPending ? "Purchasing…" : `Buy for ${formatEther(tier.price)} ${currency}`}
+        </Button>
+      </div>
+      {!PURCHASES_OPEN && (
+        <p className="text-muted-foreground">Purchases are closed until the sale contract can mint cabinets.</p>
+      )}
+      {nameError && <span className="text-xs text-destructive">{nameError}</span>}
+      {buy.error && <p className="text-destructive">{describeTuuKeepError(buy.error)}</p>}
+      {purchase && (
+        <p className="rounded-md border border-emerald-200 bg-emerald-50 p-3 text-emerald-900">
+          Cabinet #{purchase.cabinetId.toString()} is yours.{" "}
+          <Link href={`/dashboard/${purchase.cabinetId}`} className="font-medium underline underline-offset-4">
+            Set it up
+          </Link>
+        </p>
+      )}
+    </form>
+  )
+}
@@ -0,0 +1,64 @@
+"use client"
+
+import { useQuery } from "@tanstack/react-query"
+import { useNow } from "@/hooks/use-now"
+import { useTuuKeepClient } from "@/hooks/use-tuukeep-client"
+import { describeTuuKeepError } from "@/lib/tuukeep"
+import { PhaseCard } from "./phase-card"
+
+/** Every sale phase, newest first, with the tier each would currently sell from */
+export function SaleStorefront() {
+  const { client, error: clientError } = useTuuKeepClient()
+  const now = useNow()
+
+  const phases = useQuery({
+    queryKey: ["sale", client?.addresses.tierSale, "phases"],
+    queryFn: async () => {
+      const all = await client!.getPhases()
+      const withTiers = []
+      for (const details of all) {
+        withTiers.push({ details, currentTierId: await client!.getCurrentTierId(details.phaseId) })
+      }
+      return withTiers.reverse()
+    },
+    enabled: !!client?.addresses.tierSale,
+    // Tier windows open and close with time, not only with purchases
+    refetchInterval: 30_000,
+  })
+
+  if (clientError) {
+    return <p className="text-sm text-destructive">{clientError.message}</p>
+  }
+
+  if (client && !client.addresses.tierSale) {
+    return <p className="text-sm text-muted-foreground">There is no tier sale on this network.</p>
+  }
+
+  if (phases.error) {
+    return <p className="text-sm text-destructive">{describeTuuKeepError(phases.error)}</p>
+  }
+
+  if (!phases.data) {
+    return <p className="text-sm text-muted-foreground">Loading sale…</p>
+  }
+
+  if (phases.data.length === 0) {
+    return <p className="text-sm text-muted-foreground">No sale phases have been announced yet.</p>
+  }
+
+  const currency = client?.publicClient.chain?.nativeCurrency.symbol ?? "KUB"
+
+  return (
+    <div className="flex flex-col gap-6">
+      {phases.data.map(({ details, currentTierId }) => (
+        <PhaseCard
+          key={details.phaseId.toString()}
+          details={details}
+          currentTierId={currentTierId}
+          currency={currency}
+          now={now}
+        />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+import Link from "next/link"
+import { ConnectButton } from "@/components/wallet/connect-button"
+import { NetworkSwitchPrompt } from "@/components/wallet/network-switch-prompt"
+
+export function SiteHeader() {
+  return (
+    <header className="border-b">
+      <div className="mx-auto flex h-14 max-w-5xl items-center justify-between px-4">
+        <Link href="/" className="font-semibold tracking-tight">
+          TuuKeep
+        </Link>
+        <div className="flex items-center gap-4">
+          <Link href="/sale" className="text-sm text-muted-foreground hover:text-foreground">
+            Sale
+          </Link>
+          <Link href="/market" className="text-sm text-muted-foreground hover:text-foreground">
+            Market
+          </Link>
+          <Link href="/tuucoin" className="text-sm text-muted-foreground hover:text-foreground">
+            TuuCoin
+          </Link>
+          <Link href="/dashboard" className="text-sm text-muted-foreground hover:text-foreground">
+            My cabinets
+          </Link>
+          <ConnectButton />
+        </div>
+      </div>
+      <NetworkSwitchPrompt />
+    </header>
+  )
+}
@@ -0,0 +1,109 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import { formatEther } from "viem"
+import { MAX_BURN_ODDS_IMPROVEMENT_BPS, type TuuCoinBurnStats, type TuuCoinPauseStatus } from "@tuukeep/sdk"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { useTuuKeepClient } from "@/hooks/use-tuukeep-client"
+import { useTuuKeepTransaction } from "@/hooks/use-tuukeep-transaction"
+import { burnToNextBasisPoint, formatBasisPoints, parseTuuCoinInput, validateOddsBurn } from "@/lib/tuucoin"
+import { describeTuuKeepError } from "@/lib/tuukeep"
+
+interface BurnForOddsFormProps {
+  balance: bigint
+  burns: TuuCoinBurnStats
+  pause: TuuCoinPauseStatus
+}
+
+/** Lifetime odds improvement against its cap, and a form to burn towards it */
+export function BurnForOddsForm({ balance, burns, pause }: BurnForOddsFormProps) {
+  const { client } = useTuuKeepClient()
+  const [input, setInput] = useState("")
+
+  const amount = parseTuuCoinInput(input)
+  const burningPaused = pause.paused || pause.burningPaused
+  // Only complain about the amount once something has been typed
+  const error = input || burningPaused ? validateOddsBurn(amount, balance, pause) : undefined
+  const capped = burns.oddsImprovement >= MAX_BURN_ODDS_IMPROVEMENT_BPS
+  const after = client && amount ? client.burnOddsImprovement(burns.burnedAmount + amount) : burns.oddsImprovement
+  const percent = Number((burns.oddsImprovement * 100n) / MAX_BURN_ODDS_IMPROVEMENT_BPS)
+
+  const burn = useTuuKeepTransaction(async (tuuKeep, value: bigint) =>
+    tuuKeep.waitForReceipt(await tuuKeep.burnForOdds(value)),
+  )
+
+  function onSubmit(event: FormEvent) {
+    event.preventDefault()
+    if (amount === undefined || validateOddsBurn(amount, balance, pause)) return
+    burn.mutate(amount, { onSuccess: () => setInput("") })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Odds improvement</CardTitle>
+        <CardDescription>
+          Every 1,000 TUU burned earns 0.01% of lifetime odds improvement, up to{" "}
+          {formatBasisPoints(MAX_BURN_ODDS_IMPROVEMENT_BPS)}. Cabinets do not apply it to draws yet; only the boost
+          added to a single play does. Burned TuuCoin is gone for good.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4 text-sm">
+        <div className="flex flex-col gap-1">
+          <div className="flex items-baseline justify-between">
+            <span className="text-2xl font-semibold">{formatBasisPoints(burns.oddsImprovement)}</span>
+            <span className="text-muted-foreground">
+              {burns.oddsImprovement.toString()} / {MAX_BURN_ODDS_IMPROVEMENT_BPS.toString()} bps
+            </span>
+          </div>
+          <div className="h-2 w-full overflow-hidden rounded-full bg-secondary">
+            <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          <span className="text-xs text-muted-foreground">
+            {formatEther(burns.burnedAmount)} TUU burned over {burns.burnCount.toString()} burns
+            {!capped && ` · ${formatEther(burnToNextBasisPoint(burns.burnedAmount))} TUU to the next basis point`}
+          </span>
+        </div>
+
+        {capped ? (
+          <p className="text-muted-foreground">You have reached the maximum odds improvement.</p>
+        ) : (
+          <form className="flex flex-col gap-2" onSubmit={onSubmit}>
+            <label htmlFor="burn-for-odds">Burn TuuCoin</label>
+            <div className="flex gap-2">
+              <Input
+                id="burn-for-odds"
+                inputMode="decimal"
+                placeholder={`0 – ${formatEther(balance)}`}
+                value={input}
+                disabled={burn.isPending || burningPaused}
+                onChange={(event) => setInput(event.target.value)}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                disabled={balance === 0n || burn.isPending || burningPaused}
+                onClick={() => setInput(formatEther(balance))}
+              >
+                Max
+              </Button>
+              <Button type="submit" disabled={!input || !!error || burn.isPending}>
+                {burn.isPending ? "Burning…" : "Burn"}
+              </Button>
+            </div>
+            {error && <span className="text-xs text-destructive">{error}</span>}
+            {!error && amount !== undefined && amount > 0n && (
+              <span className="text-xs text-muted-foreground">
+                Your odds improvement becomes {formatBasisPoints(after)}
+                {after === burns.oddsImprovement && ", short of the next basis point"}.
+              </span>
+            )}
+          </form>
+        )}
+        {burn.error && <p className="text-destructive">{describeTuuKeepError(burn.error)}</p>}
+      </CardContent>
+    </Card>
+  )
+}
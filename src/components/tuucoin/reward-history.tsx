@@ -0,0 +1,65 @@
+"use client"
+
+import { useQuery } from "@tanstack/react-query"
+import Link from "next/link"
+import { formatEther, type Address } from "viem"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useTuuKeepClient } from "@/hooks/use-tuukeep-client"
+import { fetchRewardHistory, REWARD_HISTORY_LIMIT, tuuCoinQueryKey } from "@/lib/tuucoin"
+
+/** TuuCoin the player was minted from plays, newest first, from the event index */
+export function RewardHistory({ player }: { player: Address }) {
+  const { client } = useTuuKeepClient()
+
+  const rewards = useQuery({
+    queryKey: [...tuuCoinQueryKey(client?.addresses.tuuCoin), "rewards", player],
+    queryFn: () => fetchRewardHistory(player),
+    enabled: !!client,
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Reward history</CardTitle>
+        <CardDescription>
+          {rewards.data && rewards.data.total > REWARD_HISTORY_LIMIT
+            ? `Latest ${REWARD_HISTORY_LIMIT} of ${rewards.data.total} rewards from your plays.`
+            : "TuuCoin paid out by the cabinets you played."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="text-sm">
+        {rewards.error ? (
+          <p className="text-muted-foreground">Reward history is unavailable: {rewards.error.message}</p>
+        ) : !rewards.data ? (
+          <p className="text-muted-foreground">Loading rewards…</p>
+        ) : rewards.data.items.length === 0 ? (
+          <p className="text-muted-foreground">No rewards yet. Losing plays pay out TuuCoin.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Cabinet</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rewards.data.items.map((reward) => (
+                <TableRow key={`${reward.transactionHash}-${reward.logIndex}`}>
+                  <TableCell>{new Date(reward.timestamp * 1000).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <Link href={`/cabinet/${reward.cabinetId}`} className="underline-offset-4 hover:underline">
+                      #{reward.cabinetId}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="text-right">{formatEther(BigInt(reward.amount))} TUU</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
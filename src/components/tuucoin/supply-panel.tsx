@@ -0,0 +1,62 @@
+"use client"
+
+import { useQuery } from "@tanstack/react-query"
+import { formatEther } from "viem"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useTuuKeepClient } from "@/hooks/use-tuukeep-client"
+import { tuuCoinQueryKey } from "@/lib/tuucoin"
+import { describeTuuKeepError } from "@/lib/tuukeep"
+
+/** Platform-wide TuuCoin supply against `getEffectiveMaxSupply` */
+export function SupplyPanel() {
+  const { client } = useTuuKeepClient()
+
+  const supply = useQuery({
+    queryKey: [...tuuCoinQueryKey(client?.addresses.tuuCoin), "supply"],
+    queryFn: () => client!.getTuuCoinSupply(),
+    enabled: !!client,
+  })
+
+  if (supply.error) {
+    return <p className="text-sm text-destructive">{describeTuuKeepError(supply.error)}</p>
+  }
+
+  if (!supply.data) return null
+
+  const { totalSupply, effectiveMaxSupply, dynamicSupplyEnabled, totalMinted, totalBurned } = supply.data
+  const percent = effectiveMaxSupply > 0n ? Number((totalSupply * 10_000n) / effectiveMaxSupply) / 100 : 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Platform supply
+          <Badge variant={dynamicSupplyEnabled ? "secondary" : "outline"}>
+            {dynamicSupplyEnabled ? "Adjustable cap" : "Fixed cap"}
+          </Badge>
+        </CardTitle>
+        <CardDescription>TuuCoin in circulation against the current maximum supply.</CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4 text-sm">
+        <div className="flex flex-col gap-1">
+          <div className="flex items-baseline justify-between">
+            <span className="font-medium">{formatEther(totalSupply)} TUU</span>
+            <span className="text-muted-foreground">
+              {percent}% of {formatEther(effectiveMaxSupply)}
+            </span>
+          </div>
+          <div className="h-2 w-full overflow-hidden rounded-full bg-secondary">
+            <div className="h-full bg-primary transition-all" style={{ width: `${Math.min(percent, 100)}%` }} />
+          </div>
+        </div>
+        <dl className="grid grid-cols-[1fr_auto] gap-x-4 gap-y-1">
+          <dt className="text-muted-foreground">Minted</dt>
+          <dd className="text-right">{formatEther(totalMinted)} TUU</dd>
+          <dt className="text-muted-foreground">Burned for odds</dt>
+          <dd className="text-right">{formatEther(totalBurned)} TUU</dd>
+        </dl>
+      </CardContent>
+    </Card>
+  )
+}
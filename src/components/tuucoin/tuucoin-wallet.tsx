@@ -0,0 +1,103 @@
+"use client"
+
+import { useQuery } from "@tanstack/react-query"
+import { formatEther } from "viem"
+import { useAccount } from "wagmi"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ConnectButton } from "@/components/wallet/connect-button"
+import { useTuuKeepClient } from "@/hooks/use-tuukeep-client"
+import { describeTuuCoinPause, fetchTuuCoinSummary, tuuCoinQueryKey } from "@/lib/tuucoin"
+import { describeTuuKeepError } from "@/lib/tuukeep"
+import { BurnForOddsForm } from "./burn-for-odds-form"
+import { RewardHistory } from "./reward-history"
+import { SupplyPanel } from "./supply-panel"
+
+/** The connected wallet's TuuCoin: balance, lifetime rewards and burns, and odds burns */
+export function TuuCoinWallet() {
+  const { client, error: clientError } = useTuuKeepClient()
+  const { address } = useAccount()
+  const tuuCoinKey = tuuCoinQueryKey(client?.addresses.tuuCoin)
+
+  const pause = useQuery({
+    queryKey: [...tuuCoinKey, "pause"],
+    queryFn: () => client!.getTuuCoinPauseStatus(),
+    enabled: !!client,
+  })
+
+  const account = useQuery({
+    queryKey: [...tuuCoinKey, "account", address],
+    queryFn: async () => ({
+      balance: await client!.getTuuCoinBalance(address!),
+      burns: await client!.getTuuCoinBurnStats(address!),
+    }),
+    enabled: !!client && !!address,
+  })
+
+  // Mints and play boosts are only known from events, so they come from the indexer
+  const summary = useQuery({
+    queryKey: [...tuuCoinKey, "summary", address],
+    queryFn: () => fetchTuuCoinSummary(address!),
+    enabled: !!client && !!address,
+  })
+
+  if (clientError) {
+    return <p className="text-sm text-destructive">{clientError.message}</p>
+  }
+
+  const warnings = pause.data ? describeTuuCoinPause(pause.data) : []
+
+  return (
+    <div className="flex flex-col gap-6">
+      {warnings.map((warning) => (
+        <p key={warning} className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+          {warning}
+        </p>
+      ))}
+
+      {!address ? (
+        <div className="flex flex-col items-start gap-3">
+          <p className="text-sm text-muted-foreground">Connect a wallet to see your TuuCoin.</p>
+          <ConnectButton />
+        </div>
+      ) : account.error ? (
+        <p className="text-sm text-destructive">{describeTuuKeepError(account.error)}</p>
+      ) : !account.data || !pause.data ? (
+        <p className="text-sm text-muted-foreground">Loading TuuCoin…</p>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardDescription>Balance</CardDescription>
+              <CardTitle className="text-3xl">{formatEther(account.data.balance)} TUU</CardTitle>
+            </CardHeader>
+            <CardContent className="flex flex-col gap-2 text-sm">
+              <dl className="grid grid-cols-[1fr_auto] gap-x-4 gap-y-1">
+                <dt className="text-muted-foreground">Minted from plays</dt>
+                <dd className="text-right">
+                  {summary.data
+                    ? `${formatEther(BigInt(summary.data.minted))} TUU over ${summary.data.rewards} rewards`
+                    : "—"}
+                </dd>
+                <dt className="text-muted-foreground">Burned for odds</dt>
+                <dd className="text-right">{formatEther(account.data.burns.burnedAmount)} TUU</dd>
+                <dt className="text-muted-foreground">Burned as play boosts</dt>
+                <dd className="text-right">
+                  {summary.data
+                    ? `${formatEther(BigInt(summary.data.burnedInPlays))} TUU over ${summary.data.boostedPlays} plays`
+                    : "—"}
+                </dd>
+              </dl>
+              {summary.error && (
+                <p className="text-xs text-muted-foreground">Play history is unavailable: {summary.error.message}</p>
+              )}
+            </CardContent>
+          </Card>
+          <BurnForOddsForm balance={account.data.balance} burns={account.data.burns} pause={pause.data} />
+          <RewardHistory player={address} />
+        </>
+      )}
+
+      <SupplyPanel />
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+"use client"
+
+import { useAccount, useConnect, useDisconnect } from "wagmi"
+import { Button } from "@/components/ui/button"
+import { shortenAddress } from "@/lib/utils"
+
+export function ConnectButton() {
+  const { address, isConnected } = useAccount()
+  const { connect, connectors, isPending, variables } = useConnect()
+  const { disconnect } = useDisconnect()
+
+  if (isConnected && address) {
+    return (
+      <Button variant="outline" onClick={() => disconnect()}>
+        {shortenAddress(address)}
+      </Button>
+    )
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {connectors.map((connector) => {
+        const connecting = isPending && variables?.connector === connector
+        return (
+          <Button
+            key={connector.uid}
+            variant={connector.type === "injected" ? "default" : "outline"}
+            disabled={isPending}
+            onClick={() => connect({ connector })}
+          >
+            {connecting ? "Connecting…" : connector.type === "injected" ? "Browser wallet" : connector.name}
+          </Button>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+"use client"
+
+import { useAccount, useSwitchChain } from "wagmi"
+import { Button } from "@/components/ui/button"
+import { defaultChain } from "@/lib/wagmi"
+
+/** Banner asking the user to switch when their wallet is on a chain the app does not support */
+export function NetworkSwitchPrompt() {
+  const { isConnected, chainId } = useAccount()
+  const { chains, switchChain, isPending, error } = useSwitchChain()
+
+  if (!isConnected || chains.some((chain) => chain.id === chainId)) return null
+
+  return (
+    <div className="border-b border-amber-200 bg-amber-50 text-amber-900">
+      <div className="mx-auto flex max-w-5xl flex-wrap items-center justify-between gap-3 px-4 py-2 text-sm">
+        <p>
+          Your wallet is connected to an unsupported network
+          {chainId !== undefined && ` (chain ${chainId})`}.
+          {error && <span className="ml-1 text-destructive">{error.message}</span>}
+        </p>
+        <div className="flex gap-2">
+          {chains.map((chain) => (
+            <Button
+              key={chain.id}
+              size="sm"
+              variant={chain.id === defaultChain.id ? "default" : "outline"}
+              disabled={isPending}
+              onClick={() => switchChain({ chainId: chain.id })}
+            >
+              Switch to {chain.name}
+            </Button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
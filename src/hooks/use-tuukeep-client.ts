@@ -0,0 +1,26 @@
+import { useMemo } from "react"
+import type { PublicClient, WalletClient } from "viem"
+import { usePublicClient, useWalletClient } from "wagmi"
+import { createTuuKeepClient } from "@/lib/tuukeep"
+
+/**
+ * `TuuKeepClient` for the connected chain, signing with the connected wallet
+ * when there is one. `error` is set when TuuKeep is not deployed on the chain.
+ */
+export function useTuuKeepClient() {
+  const publicClient = usePublicClient()
+  const { data: walletClient } = useWalletClient()
+
+  return useMemo(() => {
+    if (!publicClient) return { client: undefined, error: undefined }
+    try {
+      const client = createTuuKeepClient(
+        publicClient as PublicClient,
+        walletClient as WalletClient | undefined,
+      )
+      return { client, error: undefined }
+    } catch (error) {
+      return { client: undefined, error: error as Error }
+    }
+  }, [publicClient, walletClient])
+}
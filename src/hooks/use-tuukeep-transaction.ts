@@ -0,0 +1,29 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import type { TuuKeepClient } from "@tuukeep/sdk"
+import { useTuuKeepClient } from "./use-tuukeep-client"
+
+/**
+ * Mutation for a TuuKeep write. `run` sends and awaits its own transactions;
+ * cabinet, market, sale and TuuCoin queries on the chain are all refetched
+ * after, since a sale or purchase changes cabinet ownership too.
+ */
+export function useTuuKeepTransaction<TVariables = void, TResult = unknown>(
+  run: (client: TuuKeepClient, variables: TVariables) => Promise<TResult>,
+) {
+  const { client } = useTuuKeepClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (variables: TVariables) => {
+      if (!client) throw new Error("Wallet not ready")
+      return run(client, variables)
+    },
+    onSettled: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: ["cabinet", client?.addresses.cabinet] }),
+        queryClient.invalidateQueries({ queryKey: ["market", client?.addresses.marketplace] }),
+        queryClient.invalidateQueries({ queryKey: ["sale", client?.addresses.tierSale] }),
+        queryClient.invalidateQueries({ queryKey: ["tuuCoin", client?.addresses.tuuCoin] }),
+      ]),
+  })
+}
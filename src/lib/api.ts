@@ -0,0 +1,158 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getAddress, isAddress, type Address } from "viem"
+import { AssetType, type ApiError, type PageParameters, type PrizeFilter, type TimeWindow } from "@tuukeep/sdk"
+import { IndexerStore } from "@tuukeep/indexer"
+import { RARITY_LEVELS } from "./rarity"
+
+/**
+ * Shared plumbing for the `/api/*` route handlers: opening the indexer
+ * database and turning query strings into the filters in `@tuukeep/sdk`.
+ */
+
+/** Rejected request; the message is returned to the caller as `ApiError` */
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status = 400,
+  ) {
+    super(message)
+    this.name = "ApiRequestError"
+  }
+}
+
+let store: IndexerStore | undefined
+
+/** Read-only connection to the database written by `npx hardhat index-tuukeep` */
+export function getIndexerStore(): IndexerStore {
+  if (!store) {
+    const file = process.env.TUUKEEP_INDEXER_DB
+    if (!file) {
+      throw new ApiRequestError("Indexer database is not configured (TUUKEEP_INDEXER_DB)", 503)
+    }
+    store = new IndexerStore(file, { readonly: true, fileMustExist: true })
+  }
+  return store
+}
+
+/** Current unix time in seconds, the reference for listing expiry and daily series */
+export function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000)
+}
+
+/** Wrap a route handler so rejected requests and failures come back as JSON errors */
+export function apiHandler<Context>(handler: (request: NextRequest, context: Context) => unknown) {
+  return async (request: NextRequest, context: Context) => {
+    try {
+      return NextResponse.json(await handler(request, context))
+    } catch (error) {
+      if (error instanceof ApiRequestError) {
+        return NextResponse.json<ApiError>({ error: error.message }, { status: error.status })
+      }
+      console.error(error)
+      return NextResponse.json<ApiError>({ error: "Internal error" }, { status: 500 })
+    }
+  }
+}
+
+// ============ Query parameters ============
+
+export function parseInteger(
+  params: URLSearchParams,
+  name: string,
+  { min = 0, max = Number.MAX_SAFE_INTEGER }: { min?: number; max?: number } = {},
+): number | undefined {
+  const value = params.get(name)
+  if (value === null || value === "") return undefined
+  const parsed = Number(value)
+  if (!/^\d+$/.test(value) || parsed < min || parsed > max) {
+    throw new ApiRequestError(`${name} must be an integer between ${min} and ${max}`)
+  }
+  return parsed
+}
+
+export function parseBoolean(params: URLSearchParams, name: string): boolean | undefined {
+  const value = params.get(name)
+  if (value === null || value === "") return undefined
+  if (value !== "true" && value !== "false") {
+    throw new ApiRequestError(`${name} must be true or false`)
+  }
+  return value === "true"
+}
+
+export function parseOption<T extends string>(
+  params: URLSearchParams,
+  name: string,
+  options: readonly T[],
+): T | undefined {
+  const value = params.get(name)
+  if (value === null || value === "") return undefined
+  if (!options.includes(value as T)) {
+    throw new ApiRequestError(`${name} must be one of ${options.join(", ")}`)
+  }
+  return value as T
+}
+
+/** Comma-separated list, e.g. `kinds=play,reward` */
+export function parseOptions<T extends string>(
+  params: URLSearchParams,
+  name: string,
+  options: readonly T[],
+): T[] | undefined {
+  const value = params.get(name)
+  if (value === null || value === "") return undefined
+  return value.split(",").map((entry) => {
+    if (!options.includes(entry as T)) {
+      throw new ApiRequestError(`${name} entries must be one of ${options.join(", ")}`)
+    }
+    return entry as T
+  })
+}
+
+export function parseAddress(value: string | null, name: string): Address | undefined {
+  if (value === null || value === "") return undefined
+  if (!isAddress(value, { strict: false })) {
+    throw new ApiRequestError(`${name} must be an address`)
+  }
+  return getAddress(value)
+}
+
+/** Cabinet, listing and other uint256 IDs from the path or query */
+export function parseId(value: string | null, name: string): bigint | undefined {
+  if (value === null || value === "") return undefined
+  if (!/^\d+$/.test(value)) {
+    throw new ApiRequestError(`${name} must be a non-negative integer`)
+  }
+  return BigInt(value)
+}
+
+/** `limit` and `offset`; the queries apply the default and maximum page size */
+export function parsePage(params: URLSearchParams): PageParameters {
+  return {
+    limit: parseInteger(params, "limit", { min: 1 }),
+    offset: parseInteger(params, "offset"),
+  }
+}
+
+/** `from` and `to` in unix seconds */
+export function parseTimeWindow(params: URLSearchParams): TimeWindow {
+  const from = parseInteger(params, "from")
+  const to = parseInteger(params, "to")
+  if (from !== undefined && to !== undefined && from > to) {
+    throw new ApiRequestError("from must not be after to")
+  }
+  return { from, to }
+}
+
+const ASSET_TYPES = Object.keys(AssetType) as (keyof typeof AssetType)[]
+
+/** `rarity` (1-5) and `assetType` (`ERC721` or `ERC20`) */
+export function parsePrizeFilter(params: URLSearchParams): PrizeFilter {
+  const assetType = parseOption(params, "assetType", ASSET_TYPES)
+  return {
+    rarity: parseInteger(params, "rarity", {
+      min: Number(RARITY_LEVELS[0]),
+      max: Number(RARITY_LEVELS[RARITY_LEVELS.length - 1]),
+    }),
+    assetType: assetType === undefined ? undefined : AssetType[assetType],
+  }
+}
@@ -0,0 +1,27 @@
+import { parseManifest, type DeploymentManifest } from "@tuukeep/sdk"
+import kubMainnetManifest from "@tuukeep/deployments/96.json"
+import kubTestnetManifest from "@tuukeep/deployments/25925.json"
+import hardhatManifest from "@tuukeep/deployments/31337.json"
+
+// Manifests are bundled at build time and validated on first use
+const rawManifests: Record<number, unknown> = {
+  25925: kubTestnetManifest,
+  96: kubMainnetManifest,
+  31337: hardhatManifest,
+}
+
+const manifests = new Map<number, DeploymentManifest>()
+
+export function getDeploymentManifest(chainId: number): DeploymentManifest {
+  const cached = manifests.get(chainId)
+  if (cached) return cached
+
+  const raw = rawManifests[chainId]
+  if (!raw) {
+    throw new Error(`No TuuKeep deployment for chain ${chainId}`)
+  }
+
+  const manifest = parseManifest(raw)
+  manifests.set(chainId, manifest)
+  return manifest
+}
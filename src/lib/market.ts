@@ -0,0 +1,59 @@
+import { formatEther } from "viem"
+import type { MarketplaceConfig } from "@tuukeep/sdk"
+
+const SECONDS_PER_DAY = 86_400n
+
+export interface ListingInput {
+  price: bigint
+  /** Seconds */
+  duration: bigint
+}
+
+/**
+ * Same bounds `createListing` checks, so a bad listing fails before the
+ * approval transaction. The config starts at `MIN_LISTING_PRICE` and the
+ * `MIN_/MAX_LISTING_DURATION` constants but admins can change it.
+ */
+export function validateListing({ price, duration }: ListingInput, config: MarketplaceConfig): string | undefined {
+  if (price < config.minPrice) {
+    return `Price must be at least ${formatEther(config.minPrice)}`
+  }
+  if (duration < config.minListingDuration || duration > config.maxListingDuration) {
+    return `Duration must be between ${formatDuration(config.minListingDuration)} and ${formatDuration(config.maxListingDuration)}`
+  }
+  return undefined
+}
+
+export function daysToSeconds(days: number): bigint {
+  return BigInt(Math.round(days * 86_400))
+}
+
+/** "30 days", "1 day", "12 hours" */
+export function formatDuration(seconds: bigint): string {
+  if (seconds % SECONDS_PER_DAY === 0n) {
+    const days = seconds / SECONDS_PER_DAY
+    return `${days} day${days === 1n ? "" : "s"}`
+  }
+  const hours = seconds / 3600n
+  return `${hours} hour${hours === 1n ? "" : "s"}`
+}
+
+/** Countdown to `expiresAt` (unix seconds): "2d 4h", "3h 12m", "4m 05s" or "Expired" */
+export function formatTimeLeft(expiresAt: bigint, nowSeconds: number): string {
+  const left = Number(expiresAt) - nowSeconds
+  if (left <= 0) return "Expired"
+
+  const days = Math.floor(left / 86_400)
+  const hours = Math.floor((left % 86_400) / 3600)
+  const minutes = Math.floor((left % 3600) / 60)
+  const seconds = left % 60
+
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  return `${minutes}m ${seconds.toString().padStart(2, "0")}s`
+}
+
+/** "5%" for 500 basis points */
+export function formatFeeRate(basisPoints: bigint): string {
+  return `${Number(basisPoints) / 100}%`
+}
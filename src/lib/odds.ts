@@ -0,0 +1,35 @@
+import { formatEther } from "viem"
+
+export interface BoostLimits {
+  /** 20% of the play price, the most `play` accepts */
+  maxAmount: bigint
+  /** Undefined until the wallet's TuuCoin has been read */
+  balance?: bigint
+  allowance?: bigint
+}
+
+export interface BoostCheck {
+  /** Why the boost cannot be sent as is */
+  error?: string
+  /** The cabinet's allowance has to be raised before `play` can `burnFrom` the boost */
+  needsApproval: boolean
+}
+
+/**
+ * Whether a TuuCoin boost can go into `play`. Over the cap it reverts with
+ * `InvalidTuuCoinAmount`; over the balance or the allowance, `burnFrom` reverts.
+ */
+export function checkPlayBoost(amount: bigint | undefined, { maxAmount, balance, allowance }: BoostLimits): BoostCheck {
+  if (amount === undefined) return { error: "Enter a valid amount", needsApproval: false }
+  if (amount > maxAmount) return { error: `At most ${formatEther(maxAmount)} TUU per play`, needsApproval: false }
+  if (balance !== undefined && amount > balance) {
+    return { error: `Your balance is ${formatEther(balance)} TUU`, needsApproval: false }
+  }
+  return { needsApproval: amount > 0n && (allowance ?? 0n) < amount }
+}
+
+/** "12.34%" for 0.1234; chances too small for two decimals show as "<0.01%" */
+export function formatProbability(chance: number): string {
+  if (chance > 0 && chance < 0.0001) return "<0.01%"
+  return `${(chance * 100).toFixed(2)}%`
+}
@@ -0,0 +1,19 @@
+/** Display tiers for `GachaItem.rarity`, which the cabinet validates to 1-5 */
+export interface RarityTier {
+  label: string
+  className: string
+}
+
+const RARITY_TIERS: Record<number, RarityTier> = {
+  1: { label: "Common", className: "border-transparent bg-neutral-200 text-neutral-800" },
+  2: { label: "Uncommon", className: "border-transparent bg-emerald-100 text-emerald-800" },
+  3: { label: "Rare", className: "border-transparent bg-sky-100 text-sky-800" },
+  4: { label: "Epic", className: "border-transparent bg-violet-100 text-violet-800" },
+  5: { label: "Legendary", className: "border-transparent bg-amber-100 text-amber-800" },
+}
+
+export const RARITY_LEVELS = [1n, 2n, 3n, 4n, 5n] as const
+
+export function getRarityTier(rarity: bigint): RarityTier {
+  return RARITY_TIERS[Number(rarity)] ?? { label: `Rarity ${rarity}`, className: "" }
+}
@@ -0,0 +1,94 @@
+import { parseEther } from "viem"
+import type { SalePhasePlan, SalePhaseSetupStep, TierSaleRole } from "@tuukeep/sdk"
+import { parseIntegerInput } from "./tuucoin-admin"
+
+/** Roles the sale console checks, with the controls each one unlocks */
+export const SALE_ADMIN_ROLES = {
+  SALE_MANAGER_ROLE: "Create, activate and deactivate phases",
+  PLATFORM_ADMIN_ROLE: "Withdraw sale revenue",
+} as const satisfies Record<TierSaleRole, string>
+
+export type SaleAdminRoles = Record<TierSaleRole, boolean>
+
+/** Unix seconds from a `datetime-local` input; empty is 0, which the contract reads as "no limit" */
+export function parseDateTimeInput(value: string): bigint | undefined {
+  if (!value) return 0n
+  const millis = new Date(value).getTime()
+  return Number.isNaN(millis) ? undefined : BigInt(Math.floor(millis / 1000))
+}
+
+/** Tier fields as typed in the phase builder */
+export interface TierForm {
+  name: string
+  maxQuantity: string
+  discountBps: string
+  startTime: string
+  endTime: string
+}
+
+/** Phase fields as typed in the phase builder; `basePrice` is in the native currency */
+export interface SalePhaseForm {
+  name: string
+  startTime: string
+  endTime: string
+  totalCabinets: string
+  basePrice: string
+  tiers: TierForm[]
+}
+
+export const EMPTY_TIER_FORM: TierForm = { name: "", maxQuantity: "", discountBps: "", startTime: "", endTime: "" }
+
+/**
+ * The plan a phase builder form describes, or the fields that could not be
+ * read. Values that parse but break a sale rule are left to
+ * `getSalePhasePlanIssues`.
+ */
+export function parseSalePhaseForm(
+  form: SalePhaseForm,
+): { plan: SalePhasePlan; inputErrors: [] } | { plan: undefined; inputErrors: string[] } {
+  const inputErrors: string[] = []
+  const read = <T>(value: T | undefined, message: string, fallback: T): T => {
+    if (value !== undefined) return value
+    inputErrors.push(message)
+    return fallback
+  }
+
+  let basePrice: bigint | undefined
+  try {
+    basePrice = parseEther(form.basePrice.trim())
+  } catch {
+    basePrice = undefined
+  }
+
+  const plan: SalePhasePlan = {
+    name: form.name.trim(),
+    startTime: read(parseDateTimeInput(form.startTime), "Phase start is not a valid date", 0n),
+    endTime: read(parseDateTimeInput(form.endTime), "Phase end is not a valid date", 0n),
+    totalCabinets: read(parseIntegerInput(form.totalCabinets), "Total cabinets must be a whole number", 0n),
+    basePrice: read(form.basePrice.trim() ? basePrice : undefined, "Base price must be an amount", 0n),
+    tiers: form.tiers.map((tier, index) => ({
+      name: tier.name.trim(),
+      maxQuantity: read(parseIntegerInput(tier.maxQuantity), `Tier ${index + 1} quantity must be a whole number`, 0n),
+      discountBps: Number(
+        read(parseIntegerInput(tier.discountBps), `Tier ${index + 1} discount must be whole basis points`, 0n),
+      ),
+      startTime: read(parseDateTimeInput(tier.startTime), `Tier ${index + 1} opening is not a valid date`, 0n),
+      endTime: read(parseDateTimeInput(tier.endTime), `Tier ${index + 1} closing is not a valid date`, 0n),
+    })),
+  }
+  return inputErrors.length > 0 ? { plan: undefined, inputErrors } : { plan, inputErrors: [] }
+}
+
+/** Progress line for one transaction of `submitSalePhasePlan` */
+export function describeSetupStep(step: SalePhaseSetupStep, tierNames: readonly string[]): string {
+  switch (step.kind) {
+    case "createSalePhase":
+      return "Phase created"
+    case "deactivatePhase":
+      return `Phase #${step.phaseId} held inactive while tiers are added`
+    case "addTierToPhase":
+      return `Tier "${tierNames[step.tierIndex]}" added`
+    case "activatePhase":
+      return `Phase #${step.phaseId} activated`
+  }
+}
@@ -0,0 +1,39 @@
+import type { PhaseDetails, PricingTier } from "@tuukeep/sdk"
+
+export type PhaseStatus = "upcoming" | "live" | "soldOut" | "ended" | "paused"
+
+/** Mirrors the phase checks at the top of `TuuKeepTierSale.purchaseCabinet` */
+export function getPhaseStatus({ phase }: PhaseDetails, nowSeconds: number): PhaseStatus {
+  const now = BigInt(nowSeconds)
+  if (!phase.isActive) return "paused"
+  if (now < phase.startTime) return "upcoming"
+  if (phase.endTime > 0n && now > phase.endTime) return "ended"
+  if (phase.soldCabinets >= phase.totalCabinets) return "soldOut"
+  return "live"
+}
+
+/** Whether `TuuKeepTierSale.getCurrentTier` would still consider `tier` */
+function isTierAvailable(tier: PricingTier, now: bigint): boolean {
+  if (!tier.isActive || tier.soldQuantity >= tier.maxQuantity) return false
+  return tier.endTime === 0n || now <= tier.endTime
+}
+
+/**
+ * The tier that takes over once the current one sells out: the next tier in
+ * phase order that is active, not sold out and not past its end time
+ */
+export function getNextTier(
+  { phase, tiers }: PhaseDetails,
+  currentTierId: bigint | undefined,
+  nowSeconds: number,
+): PricingTier | undefined {
+  const start = currentTierId === undefined ? -1 : phase.tierIds.indexOf(currentTierId)
+  if (start === -1) return undefined
+  const now = BigInt(nowSeconds)
+  return tiers.slice(start + 1).find((tier) => isTierAvailable(tier, now))
+}
+
+/** "70% off" for 7000 basis points */
+export function formatDiscount(discountBps: number): string {
+  return `${discountBps / 100}% off`
+}
@@ -0,0 +1,47 @@
+import { erc20Abi, erc721Abi, formatUnits, type Address, type PublicClient } from "viem"
+import { AssetType } from "@tuukeep/sdk"
+
+export interface TokenMetadata {
+  symbol: string
+  /** Undefined for ERC721 collections */
+  decimals?: number
+}
+
+/**
+ * Symbol and decimals for each prize token contract.
+ * Reads are sent one by one because the KUB chains have no multicall3 deployment.
+ */
+export async function getTokenMetadata(
+  publicClient: PublicClient,
+  tokens: readonly { assetType: number; contractAddress: Address }[],
+): Promise<Record<Address, TokenMetadata>> {
+  const unique = new Map(tokens.map((token) => [token.contractAddress, token.assetType]))
+
+  const entries = await Promise.all(
+    Array.from(unique, async ([address, assetType]): Promise<[Address, TokenMetadata]> => {
+      if (assetType === AssetType.ERC20) {
+        const [symbol, decimals] = await Promise.all([
+          publicClient.readContract({ address, abi: erc20Abi, functionName: "symbol" }),
+          publicClient.readContract({ address, abi: erc20Abi, functionName: "decimals" }),
+        ])
+        return [address, { symbol, decimals }]
+      }
+      const symbol = await publicClient.readContract({ address, abi: erc721Abi, functionName: "symbol" })
+      return [address, { symbol }]
+    }),
+  )
+
+  return Object.fromEntries(entries)
+}
+
+/** "12.5 TUU" for ERC20 prizes, "BAYC #42" for ERC721 prizes */
+export function formatPrize(
+  prize: { assetType: number; tokenIdOrAmount: bigint },
+  metadata: TokenMetadata | undefined,
+): string {
+  if (prize.assetType === AssetType.ERC20) {
+    const amount = formatUnits(prize.tokenIdOrAmount, metadata?.decimals ?? 18)
+    return `${amount} ${metadata?.symbol ?? "tokens"}`
+  }
+  return `${metadata?.symbol ?? "NFT"} #${prize.tokenIdOrAmount}`
+}
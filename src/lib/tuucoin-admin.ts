@@ -0,0 +1,110 @@
+import { formatEther } from "viem"
+import {
+  MAX_EMISSION_DECAY_FACTOR_BPS,
+  MAX_EMISSION_MULTIPLIER_BPS,
+  TUUCOIN_MAX_SUPPLY,
+  type EmissionRateParameters,
+  type TuuCoinAdminAction,
+  type TuuCoinAdminActionKind,
+  type TuuCoinRole,
+  type TuuCoinSupply,
+} from "@tuukeep/sdk"
+import { formatBasisPoints } from "./tuucoin"
+
+/** Roles the console checks, with the controls each one unlocks */
+export const TUUCOIN_ADMIN_ROLES = {
+  EMISSION_MANAGER_ROLE: "Emission rates and cabinet multipliers",
+  PLATFORM_ADMIN_ROLE: "Dynamic supply and the maximum supply",
+  EMERGENCY_RESPONDER_ROLE: "Selective and emergency pauses",
+} as const satisfies Partial<Record<TuuCoinRole, string>>
+
+export type TuuCoinAdminRole = keyof typeof TUUCOIN_ADMIN_ROLES
+
+export type TuuCoinAdminRoles = Record<TuuCoinAdminRole, boolean>
+
+/** Whole number typed by the user, such as basis points or a cabinet ID; anything else is undefined */
+export function parseIntegerInput(value: string): bigint | undefined {
+  return /^\d+$/.test(value.trim()) ? BigInt(value.trim()) : undefined
+}
+
+/** Comma or space separated cabinet IDs, deduplicated in the order typed */
+export function parseCabinetIds(value: string): bigint[] | undefined {
+  const parts = value.split(/[\s,]+/).filter(Boolean)
+  if (parts.some((part) => !/^\d+$/.test(part))) return undefined
+  return [...new Set(parts)].map(BigInt)
+}
+
+/** Mirrors the `require`s of `TuuCoin.updateEmissionConfig` */
+export function validateEmissionRate({ baseRate, maxRate, decayFactor }: EmissionRateParameters): string | undefined {
+  if (baseRate <= 0n) return "Base rate must be above zero"
+  if (maxRate < baseRate) return "Max rate must be at least the base rate"
+  if (decayFactor > MAX_EMISSION_DECAY_FACTOR_BPS) {
+    return `Decay factor must be at most ${MAX_EMISSION_DECAY_FACTOR_BPS} bps`
+  }
+  return undefined
+}
+
+/** Mirrors the `require`s of `TuuCoin.setCabinetEmissionMultiplier` */
+export function validateEmissionMultiplier(multiplier: bigint, isRegistered: boolean): string | undefined {
+  if (!isRegistered) return "Cabinet is not registered with TuuCoin"
+  if (multiplier > MAX_EMISSION_MULTIPLIER_BPS) {
+    return `Multiplier must be at most ${formatBasisPoints(MAX_EMISSION_MULTIPLIER_BPS)}`
+  }
+  return undefined
+}
+
+/** Mirrors the `require`s of `TuuCoin.adjustMaxSupply` */
+export function validateMaxSupply(
+  newMaxSupply: bigint,
+  { dynamicSupplyEnabled, totalMinted }: Pick<TuuCoinSupply, "dynamicSupplyEnabled" | "totalMinted">,
+): string | undefined {
+  if (!dynamicSupplyEnabled) return "Enable dynamic supply first"
+  if (newMaxSupply < totalMinted) return `Already ${formatEther(totalMinted)} TUU minted`
+  if (newMaxSupply > TUUCOIN_MAX_SUPPLY * 2n) {
+    return `At most ${formatEther(TUUCOIN_MAX_SUPPLY * 2n)} TUU, twice the original cap`
+  }
+  return undefined
+}
+
+const ACTION_LABELS: Record<TuuCoinAdminActionKind, string> = {
+  updateEmissionConfig: "Emission rates updated",
+  setEmissionActive: "Emission toggled",
+  setCabinetEmissionMultiplier: "Cabinet multiplier set",
+  setDynamicSupplyEnabled: "Dynamic supply toggled",
+  adjustMaxSupply: "Max supply adjusted",
+  selectivePause: "Selective pause",
+  selectiveUnpause: "Selective pause lifted",
+  emergencyPause: "Emergency pause",
+  emergencyUnpause: "Emergency pause lifted",
+}
+
+/** One-line summary of an audit trail entry */
+export function describeAdminAction({ action, cabinetId, details }: TuuCoinAdminAction): { label: string; summary: string } {
+  const tuu = (value: unknown) => `${formatEther(BigInt(String(value)))} TUU`
+  const bps = (value: unknown) => formatBasisPoints(BigInt(String(value)))
+  const label = ACTION_LABELS[action]
+  switch (action) {
+    case "updateEmissionConfig":
+      return {
+        label,
+        summary: `${tuu(details.baseRate)} – ${tuu(details.maxRate)}, decay ${bps(details.decayFactor)}`,
+      }
+    case "setEmissionActive":
+      return { label, summary: details.isActive ? "Active" : "Inactive" }
+    case "setCabinetEmissionMultiplier":
+      return { label, summary: `Cabinet #${cabinetId} at ${bps(details.multiplier)}` }
+    case "setDynamicSupplyEnabled":
+      return { label, summary: details.enabled ? "Enabled" : "Disabled" }
+    case "adjustMaxSupply":
+      return { label, summary: `${tuu(details.oldMaxSupply)} → ${tuu(details.newMaxSupply)}` }
+    case "selectivePause": {
+      const paused = (["minting", "burning", "transfers"] as const).filter((name) => details[name])
+      return { label, summary: `${paused.join(", ") || "nothing"}: ${details.reason}` }
+    }
+    case "emergencyPause":
+      return { label, summary: String(details.reason) }
+    default:
+      return { label, summary: "" }
+  }
+}
+
@@ -0,0 +1,97 @@
+import { formatEther, parseEther, type Address } from "viem"
+import {
+  TUUCOIN_PER_BURN_ODDS_BPS,
+  type ApiError,
+  type Page,
+  type PlayerActivity,
+  type PlayerTuuCoinSummary,
+  type TuuCoinAdminAction,
+  type TuuCoinPauseStatus,
+} from "@tuukeep/sdk"
+
+/** How many recent rewards the wallet page lists */
+export const REWARD_HISTORY_LIMIT = 20
+
+/** How many audit trail entries the admin console lists */
+export const ADMIN_ACTION_LIMIT = 25
+
+/**
+ * React Query key prefix for TuuCoin reads.
+ * Invalidating `["tuuCoin", tuuCoinAddress]` refreshes balances, burns and supply.
+ */
+export function tuuCoinQueryKey(tuuCoinAddress: Address | undefined) {
+  return ["tuuCoin", tuuCoinAddress] as const
+}
+
+/** TuuCoin amount typed by the user; empty is zero, anything unparseable is undefined */
+export function parseTuuCoinInput(value: string): bigint | undefined {
+  if (!value.trim()) return 0n
+  try {
+    return parseEther(value)
+  } catch {
+    return undefined
+  }
+}
+
+/** "1.25%" for 125 basis points */
+export function formatBasisPoints(basisPoints: bigint): string {
+  return `${(Number(basisPoints) / 100).toFixed(2).replace(/\.?0+$/, "")}%`
+}
+
+/** TuuCoin still to burn before the next basis point of odds improvement */
+export function burnToNextBasisPoint(burnedAmount: bigint): bigint {
+  return TUUCOIN_PER_BURN_ODDS_BPS - (burnedAmount % TUUCOIN_PER_BURN_ODDS_BPS)
+}
+
+/**
+ * Why a `burnForOdds` of `amount` should not be sent, if anything.
+ * `burnForOdds` itself ignores the pause switches, so a paused token is
+ * treated as closed for burning here rather than left to the contract.
+ */
+export function validateOddsBurn(
+  amount: bigint | undefined,
+  balance: bigint,
+  pause: TuuCoinPauseStatus,
+): string | undefined {
+  if (pause.paused || pause.burningPaused) return "Burning is paused"
+  if (amount === undefined) return "Enter a valid amount"
+  if (amount <= 0n) return "Enter an amount to burn"
+  if (amount > balance) return `Your balance is ${formatEther(balance)} TUU`
+  return undefined
+}
+
+/** Warnings for the pause switches that affect a holder, most severe first */
+export function describeTuuCoinPause(pause: TuuCoinPauseStatus): string[] {
+  if (pause.paused) {
+    return ["TuuCoin is paused by the platform. Burning for odds is disabled until it resumes."]
+  }
+  const warnings: string[] = []
+  if (pause.burningPaused) {
+    warnings.push("Burning is paused by the platform. Burning for odds is disabled until it resumes.")
+  }
+  if (pause.transfersPaused) {
+    warnings.push("Transfers are paused: TuuCoin cannot be sent between wallets. Play rewards still arrive.")
+  }
+  return warnings
+}
+
+// ============ Indexer API ============
+
+async function getJson<T>(path: string): Promise<T> {
+  const response = await fetch(path)
+  const body = await response.json()
+  if (!response.ok) throw new Error((body as ApiError).error)
+  return body as T
+}
+
+export function fetchTuuCoinSummary(player: Address): Promise<PlayerTuuCoinSummary> {
+  return getJson(`/api/players/${player}/tuucoin`)
+}
+
+export function fetchRewardHistory(player: Address): Promise<Page<PlayerActivity>> {
+  return getJson(`/api/players/${player}/history?kinds=reward&limit=${REWARD_HISTORY_LIMIT}`)
+}
+
+export function fetchAdminActions(): Promise<Page<TuuCoinAdminAction>> {
+  return getJson(`/api/tuucoin/admin-actions?limit=${ADMIN_ACTION_LIMIT}`)
+}
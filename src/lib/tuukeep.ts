@@ -0,0 +1,36 @@
+import {
+  TuuKeepClient,
+  decodeTuuKeepRevert,
+  getTuuKeepAddresses as getManifestAddresses,
+  type TuuKeepAddresses,
+} from "@tuukeep/sdk"
+import { BaseError, type Address, type PublicClient, type WalletClient } from "viem"
+import { getDeploymentManifest } from "./deployments"
+
+export function getTuuKeepAddresses(chainId: number): TuuKeepAddresses {
+  return getManifestAddresses(getDeploymentManifest(chainId))
+}
+
+export function createTuuKeepClient(publicClient: PublicClient, walletClient?: WalletClient) {
+  const chainId = publicClient.chain?.id
+  if (chainId === undefined) {
+    throw new Error("TuuKeep public client must be configured with a chain")
+  }
+  return new TuuKeepClient({ publicClient, walletClient, addresses: getTuuKeepAddresses(chainId) })
+}
+
+/**
+ * React Query key prefix for everything read about one cabinet.
+ * Invalidating `["cabinet", cabinetAddress]` refreshes every cabinet on the chain.
+ */
+export function cabinetQueryKey(cabinetAddress: Address | undefined, cabinetId: bigint) {
+  return ["cabinet", cabinetAddress, cabinetId.toString()] as const
+}
+
+/** Short, user-facing reason for a failed read or write */
+export function describeTuuKeepError(error: unknown): string {
+  const revert = decodeTuuKeepRevert(error)
+  if (revert) return revert.message
+  if (error instanceof BaseError) return error.shortMessage
+  return error instanceof Error ? error.message : String(error)
+}
@@ -4,3 +4,7 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function shortenAddress(address: string) {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`
+}
@@ -0,0 +1,36 @@
+import { hardhatLocal, kubMainnet, kubTestnet } from "@tuukeep/sdk"
+import { createConfig, http } from "wagmi"
+import { injected, walletConnect } from "wagmi/connectors"
+
+const walletConnectProjectId = process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID
+
+// The local Hardhat node is only offered outside production builds
+const chains =
+  process.env.NODE_ENV === "production"
+    ? ([kubTestnet, kubMainnet] as const)
+    : ([kubTestnet, kubMainnet, hardhatLocal] as const)
+
+/** Chain the app asks wallets to switch to when they are on an unsupported one */
+export const defaultChain = kubTestnet
+
+export const wagmiConfig = createConfig({
+  chains,
+  connectors: [
+    injected(),
+    ...(walletConnectProjectId
+      ? [walletConnect({ projectId: walletConnectProjectId, showQrModal: true })]
+      : []),
+  ],
+  transports: {
+    [kubTestnet.id]: http(),
+    [kubMainnet.id]: http(),
+    [hardhatLocal.id]: http(),
+  },
+  ssr: true,
+})
+
+declare module "wagmi" {
+  interface Register {
+    config: typeof wagmiConfig
+  }
+}